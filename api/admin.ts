@@ -2,6 +2,10 @@
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
 import { storage } from '../src/services/redis-storage';
 import { AnalyticsService } from './shared/analytics';
+import { UsageTracker } from './shared/usage-tracker';
+import { ProjectTeardownService, TeardownOptions, validateTeardownOptions } from './shared/project-teardown';
+
+const teardownService = new ProjectTeardownService();
 
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
   const headers = {
@@ -18,7 +22,7 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
   try {
     // Simple API key authentication
     const apiKey = event.headers.authorization?.replace('Bearer ', '');
-    if (apiKey !== process.env.ADMIN_API_KEY) {
+    if (!process.env.ADMIN_API_KEY || apiKey !== process.env.ADMIN_API_KEY) {
       return {
         statusCode: 401,
         headers,
@@ -37,6 +41,12 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         return await handleCleanupAction(event);
       case 'system':
         return await handleSystemAction(event);
+      case 'budget':
+        return await handleBudgetAction(event);
+      case 'teardown':
+        return await handleTeardownAction(event);
+      case 'orphans':
+        return await handleOrphansAction(event);
       default:
         return {
           statusCode: 400,
@@ -84,14 +94,142 @@ async function handleSessionsAction(event: any) {
 async function handleMetricsAction(event: any) {
   const timeframe = event.queryStringParameters?.timeframe || '24h';
   const report = await AnalyticsService.generateReport(timeframe as any);
+  const usage = await UsageTracker.getUsageReport();
   
   return {
     statusCode: 200,
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(report)
+    body: JSON.stringify({ ...report, usage })
+  };
+}
+
+async function handleBudgetAction(event: any) {
+  const projectId = event.queryStringParameters?.projectId;
+  if (!projectId) {
+    return {
+      statusCode: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'projectId is required' })
+    };
+  }
+
+  if (event.httpMethod === 'POST') {
+    // Set the project's AI budget - omitted limits fall back to the environment defaults
+    const { maxCost, maxTokens } = JSON.parse(event.body || '{}');
+    const isLimit = (value: unknown) => value === undefined || (typeof value === 'number' && value >= 0);
+    if (!isLimit(maxCost) || !isLimit(maxTokens)) {
+      return {
+        statusCode: 400,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: 'maxCost and maxTokens must be non-negative numbers' })
+      };
+    }
+    await UsageTracker.setProjectBudget(projectId, { maxCost, maxTokens });
+  }
+
+  const budgetStatus = await UsageTracker.checkBudget(projectId);
+  return {
+    statusCode: 200,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ projectId, ...budgetStatus })
   };
 }
 
+async function handleTeardownAction(event: any) {
+  if (event.httpMethod === 'GET') {
+    // Audit log of teardowns and orphan cleanups
+    const limit = Number(event.queryStringParameters?.limit) || undefined;
+    const teardowns = await teardownService.getAuditLog(limit);
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ teardowns })
+    };
+  }
+
+  const body = JSON.parse(event.body || '{}');
+  if (!body.projectId) {
+    return {
+      statusCode: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'projectId is required' })
+    };
+  }
+
+  const optionsError = validateTeardownOptions(body);
+  if (optionsError) {
+    return {
+      statusCode: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: optionsError })
+    };
+  }
+
+  const record = await teardownService.teardownProject(body.projectId, {
+    dryRun: body.dryRun === true,
+    github: body.github as TeardownOptions['github'],
+    mongodb: body.mongodb as TeardownOptions['mongodb'],
+    requestedBy: body.requestedBy || 'admin',
+    reason: body.reason
+  });
+
+  return record
+    ? { statusCode: 200, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(record) }
+    : { statusCode: 404, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ error: 'Project not found' }) };
+}
+
+async function handleOrphansAction(event: any) {
+  const params = event.queryStringParameters || {};
+  const body = event.httpMethod === 'POST' ? JSON.parse(event.body || '{}') : {};
+  const olderThanHours = body.olderThanHours ?? (params.olderThanHours ? Number(params.olderThanHours) : undefined);
+  const githubOwners = body.githubOwners || params.githubOwners?.split(',').filter(Boolean);
+
+  if (event.httpMethod === 'GET') {
+    return await runOrphanOperation(() => teardownService.scanOrphans({ olderThanHours, githubOwners }));
+  }
+
+  const ids: string[] | undefined = Array.isArray(body.ids) ? body.ids : undefined;
+  const optionsError = validateTeardownOptions(body)
+    || (body.dryRun === false && !ids?.length ? 'ids from a dry-run scan are required to remove orphans' : null);
+  if (optionsError) {
+    return {
+      statusCode: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: optionsError })
+    };
+  }
+
+  // Removing orphans has to be asked for explicitly with dryRun: false and the ids of a dry-run scan
+  return await runOrphanOperation(() => teardownService.cleanupOrphans({
+    dryRun: body.dryRun !== false,
+    github: body.github as TeardownOptions['github'],
+    mongodb: body.mongodb as TeardownOptions['mongodb'],
+    olderThanHours,
+    githubOwners,
+    ids,
+    requestedBy: body.requestedBy || 'admin',
+    reason: body.reason
+  }));
+}
+
+// A scan that cannot tell which resources are owned is refused rather than reported as empty
+async function runOrphanOperation(operation: () => Promise<unknown>) {
+  try {
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(await operation())
+    };
+  } catch (error) {
+    console.error('Orphan scan failed:', error);
+    return {
+      statusCode: 503,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: `Orphan scan failed: ${error instanceof Error ? error.message : String(error)}` })
+    };
+  }
+}
+
 async function handleCleanupAction(event: any) {
   // Cleanup old sessions and data
   const cutoffTime = Date.now() - (7 * 24 * 60 * 60 * 1000); // 7 days
@@ -1,6 +1,7 @@
 // netlify/functions/analytics.ts
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
 import { AnalyticsService } from './shared/analytics';
+import { UsageTracker } from './shared/usage-tracker';
 
 export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
   const headers = {
@@ -28,14 +29,26 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
     }
 
     if (event.httpMethod === 'GET') {
+      // Token usage and budget for a single project
+      const projectId = event.queryStringParameters?.projectId;
+      if (projectId) {
+        const budgetStatus = await UsageTracker.checkBudget(projectId);
+        return {
+          statusCode: 200,
+          headers,
+          body: JSON.stringify({ projectId, ...budgetStatus })
+        };
+      }
+
       // Get analytics report
       const timeframe = event.queryStringParameters?.timeframe as any || '24h';
       const report = await AnalyticsService.generateReport(timeframe);
+      const usage = await UsageTracker.getUsageReport();
       
       return {
         statusCode: 200,
         headers,
-        body: JSON.stringify(report)
+        body: JSON.stringify({ ...report, usage })
       };
     }
 
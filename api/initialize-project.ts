@@ -5,6 +5,9 @@ import { EnhancedGitHubService, FileChange } from '../src/services/enhanced-gith
 import { NetlifyService } from '../src/services/netlify';
 import { DevIdRegistryScanner, RegistryContext } from './shared/devid-registry-scanner';
 import { CustomAIAgent } from './shared/custom-ai-agent';
+import { UsageTracker } from './shared/usage-tracker';
+import { storage } from '../src/services/redis-storage';
+import { EnvVarResolutionError, getUrlEnvVarNames, resolveRequiredEnvironmentVariables } from '../src/services/env-var-registry';
 
 // Core template files for project initialization
 const CORE_TEMPLATE_FILES = [
@@ -35,6 +38,7 @@ interface ProjectInitRequest {
   autoSetup?: boolean;              // Auto setup flag from web UI
   mongodbOrgId?: string;            // MongoDB org ID from web UI
   mongodbProjectId?: string;        // MongoDB project ID from web UI
+  envVars?: Record<string, string>; // User-supplied values for template environment variables
 }
 
 interface ProjectInitResponse {
@@ -104,18 +108,9 @@ async function updateUrlEnvironmentVariables(
   let needsUpdate = false;
   
   // Check which URL-based env vars this template needs and update them
-  for (const envVar of template.envVars) {
-    switch (envVar) {
-      case 'VITE_APP_URL':
-      case 'NEXT_PUBLIC_APP_URL':
-      case 'NUXT_PUBLIC_API_URL':
-      case 'VITE_API_URL':
-      case 'BETTER_AUTH_URL':
-      case 'NEXTAUTH_URL':
-        urlEnvVars[envVar] = siteUrl;
-        needsUpdate = true;
-        break;
-    }
+  for (const envVar of getUrlEnvVarNames(template)) {
+    urlEnvVars[envVar] = siteUrl;
+    needsUpdate = true;
   }
   
   if (needsUpdate && Object.keys(urlEnvVars).length > 0) {
@@ -224,6 +219,38 @@ async function logInitialization(sessionId: string, level: 'info' | 'success' |
   await sessionManager.addLog(sessionId, level, message, metadata);
 }
 
+/**
+ * Record the created project so it shows up on the projects dashboard
+ */
+async function registerProject(sessionId: string, request: ProjectInitRequest, netlifyProject: any, mongodbProject: any): Promise<void> {
+  try {
+    const now = Date.now();
+    const projectId = request.projectId || storage.generateProjectId();
+    await storage.setProject(projectId, {
+      id: projectId,
+      name: request.projectName || projectId,
+      template: request.templateId || 'unknown',
+      aiProvider: request.aiProvider || 'anthropic',
+      agentMode: (request.agentMode as 'single' | 'orchestrated' | 'hybrid') || 'single',
+      githubOrg: request.githubOrg || process.env.GITHUB_USERNAME || 'unknown',
+      repositoryUrl: request.repositoryUrl,
+      netlifyUrl: netlifyProject?.ssl_url,
+      netlifySiteId: netlifyProject?.id,
+      mongodbOrgId: request.mongodbOrgId,
+      mongodbProjectId: mongodbProject?.id,
+      mongodbDatabase: mongodbProject?.databaseName,
+      mongodbClusterName: mongodbProject?.clusterName,
+      mongodbProjectCreated: !!mongodbProject && (!request.mongodbProjectId || request.mongodbProjectId === 'CREATE_NEW'),
+      initSessionId: sessionId,
+      createdAt: now,
+      updatedAt: now,
+      status: 'active'
+    });
+  } catch (error) {
+    await logInitialization(sessionId, 'warning', `⚠️ Could not save project to the dashboard: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Retrieve template files from repository
  */
@@ -604,7 +631,8 @@ async function fixCodeWithAI(
   sessionId: string,
   errorInfo: DeploymentErrorInfo, 
   repoUrl: string,
-  aiProvider: string = 'anthropic'
+  aiProvider: string = 'anthropic',
+  projectId?: string
 ): Promise<{ success: boolean; fixes: FileFix[]; explanation: string }> {
   
   console.log(`[AI-FIXER] Starting AI fix for ${errorInfo.errors.length} errors`);
@@ -617,6 +645,8 @@ async function fixCodeWithAI(
       repositoryUrl: repoUrl,
       provider: aiProvider as 'anthropic' | 'openai' | 'google' | 'grok',
       model: 'claude-sonnet-4-20250514',
+      projectId,
+      onModelRoute: route => sessionManager.recordModelRoute(sessionId, route),
       projectContext: {
         componentRegistry: {},
         dependencies: {},
@@ -670,7 +700,7 @@ CRITICAL INSTRUCTIONS:
 
 Return the complete fixed file content as raw code:`;
 
-      const fixResult = await customAgent.processRequest(fixPrompt);
+      const fixResult = await customAgent.processRequest(fixPrompt, { task: 'generation' });
       
       if (fixResult && fixResult.trim()) {
         // Clean any markdown formatting from the AI response
@@ -730,7 +760,11 @@ async function applyFixesToRepository(
     const commits = await githubService.commitChanges(
       repoUrl,
       'main',
-      fileChanges
+      fileChanges,
+      {
+        mode: 'atomic',
+        message: `AI fix: ${fixes.length} build issues\n\n${fixes.map(fix => `- ${fix.file}: ${fix.description}`).join('\n')}`
+      }
     );
     
     if (commits.length > 0) {
@@ -774,7 +808,7 @@ async function attemptAIErrorFix(
 
     // Use AI to generate fixes
     const aiProvider = session.aiProvider || 'anthropic';
-    const fixResult = await fixCodeWithAI(sessionId, errorInfo, repoUrl, aiProvider);
+    const fixResult = await fixCodeWithAI(sessionId, errorInfo, repoUrl, aiProvider, session.projectId);
     
     if (!fixResult.success) {
       return {
@@ -881,129 +915,14 @@ async function processStandardDeployment(sessionId: string, request: ProjectInit
         const template = templates.find(t => t.id === request.templateId);
         
         if (template) {
-          const templateEnvVars: Record<string, string> = {};
-          
-          // Process each required environment variable for this template
-          for (const envVar of template.envVars) {
-            switch (envVar) {
-              // MongoDB-related variables
-              case 'MONGODB_URI':
-              case 'DATABASE_URL':
-                if (mongodbProject) {
-                  templateEnvVars[envVar] = mongodbProject.connectionString;
-                }
-                break;
-              case 'MONGODB_DATABASE_NAME':
-                if (mongodbProject) {
-                  templateEnvVars[envVar] = mongodbProject.databaseName;
-                }
-                break;
-              case 'MONGODB_CLUSTER_NAME':
-                if (mongodbProject) {
-                  templateEnvVars[envVar] = mongodbProject.clusterName;
-                }
-                break;
-              case 'MONGODB_USERNAME':
-                if (mongodbProject) {
-                  templateEnvVars[envVar] = mongodbProject.username;
-                }
-                break;
-              case 'MONGODB_PASSWORD':
-                if (mongodbProject) {
-                  templateEnvVars[envVar] = mongodbProject.password;
-                }
-                break;
-              
-              // Authentication secrets
-              case 'BETTER_AUTH_SECRET':
-              case 'NEXTAUTH_SECRET':
-              case 'AUTH_SECRET':
-              case 'NUXT_SECRET_KEY':
-                templateEnvVars[envVar] = require('crypto').randomBytes(32).toString('hex');
-                break;
-              
-              // App URLs and names
-              case 'VITE_APP_NAME':
-              case 'NEXT_PUBLIC_APP_NAME':
-              case 'NUXT_PUBLIC_APP_NAME':
-                templateEnvVars[envVar] = request.projectName || 'My App';
-                break;
-              
-              case 'VITE_APP_URL':
-              case 'NEXT_PUBLIC_APP_URL':
-              case 'NUXT_PUBLIC_API_URL':
-              case 'VITE_API_URL':
-                // Will be updated after Netlify site creation
-                templateEnvVars[envVar] = 'https://placeholder.netlify.app';
-                break;
-              
-              case 'BETTER_AUTH_URL':
-              case 'NEXTAUTH_URL':
-                // Will be updated after Netlify site creation
-                templateEnvVars[envVar] = 'https://placeholder.netlify.app';
-                break;
-              
-              // Supabase variables (need to be configured by user)
-              case 'VITE_SUPABASE_URL':
-              case 'NEXT_PUBLIC_SUPABASE_URL':
-              case 'SUPABASE_URL':
-                templateEnvVars[envVar] = process.env.SUPABASE_URL || 'https://your-project.supabase.co';
-                break;
-              case 'VITE_SUPABASE_ANON_KEY':
-              case 'NEXT_PUBLIC_SUPABASE_ANON_KEY':
-              case 'SUPABASE_ANON_KEY':
-                templateEnvVars[envVar] = process.env.SUPABASE_ANON_KEY || 'your-supabase-anon-key';
-                break;
-              case 'SUPABASE_SERVICE_KEY':
-              case 'SUPABASE_SERVICE_ROLE_KEY':
-              case 'NEXT_PUBLIC_SUPABASE_SERVICE_KEY':
-                templateEnvVars[envVar] = process.env.SUPABASE_SERVICE_KEY || 'your-supabase-service-key';
-                break;
-              case 'SUPABASE_PROJECT_ID':
-                templateEnvVars[envVar] = process.env.SUPABASE_PROJECT_ID || 'your-supabase-project-id';
-                break;
-              
-              // PlanetScale variables
-              case 'PLANETSCALE_TOKEN':
-                templateEnvVars[envVar] = process.env.PLANETSCALE_TOKEN || 'your-planetscale-token';
-                break;
-              
-              // Upstash Redis variables
-              case 'VITE_UPSTASH_REDIS_REST_URL':
-              case 'UPSTASH_REDIS_REST_URL':
-                templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_URL || 'https://your-redis.upstash.io';
-                break;
-              case 'VITE_UPSTASH_REDIS_REST_TOKEN':
-              case 'UPSTASH_REDIS_REST_TOKEN':
-                templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_TOKEN || 'your-upstash-token';
-                break;
-              
-              // App version for IndexedDB templates
-              case 'VITE_APP_VERSION':
-              case 'NEXT_PUBLIC_APP_VERSION':
-              case 'NUXT_PUBLIC_APP_VERSION':
-                templateEnvVars[envVar] = '1.0.0';
-                break;
-              
-              // Pexels API variables
-              case 'PEXELS_API_KEY':
-              case 'VITE_PEXELS_API_KEY':
-              case 'NEXT_PUBLIC_PEXELS_API_KEY':
-              case 'NUXT_PUBLIC_PEXELS_API_KEY':
-                templateEnvVars[envVar] = process.env.PEXELS_API_KEY || 'your-pexels-api-key';
-                break;
-              
-              // Default fallback for any unhandled env vars
-              default:
-                console.warn(`[ENV-SETUP] Unknown environment variable: ${envVar}, setting as placeholder`);
-                templateEnvVars[envVar] = `placeholder-${envVar.toLowerCase()}`;
-                break;
-            }
-          }
-          
-          // Always set repository URL and base branch (required for web interface)
-          templateEnvVars['VITE_REPOSITORY_URL'] = request.repositoryUrl || '';
-          templateEnvVars['VITE_BASE_BRANCH'] = 'main';
+          // Resolve environment variables from the registry; URL variables are set once the site exists
+          const { values: templateEnvVars } = resolveRequiredEnvironmentVariables(template, {
+            projectName: request.projectName,
+            repositoryUrl: request.repositoryUrl,
+            baseBranch: 'main',
+            mongodbProject,
+            userValues: request.envVars
+          });
           
           const aiProviderVars = getEnvVarsForProvider(request.aiProvider || 'anthropic', request.model);
           
@@ -1036,6 +955,9 @@ async function processStandardDeployment(sessionId: string, request: ProjectInit
         }
       } catch (netlifyError) {
         await logInitialization(sessionId, 'warning', `⚠️ Netlify setup failed: ${netlifyError.message}`);
+        if (netlifyError instanceof EnvVarResolutionError) {
+          throw netlifyError;
+        }
       }
     }
     
@@ -1087,6 +1009,7 @@ async function processStandardDeployment(sessionId: string, request: ProjectInit
   }
 
   // Phase 4: Complete
+  await registerProject(sessionId, request, netlifyProject, mongodbProject);
   await sessionManager.updateSessionStatus(sessionId, 'completed', 100, 'Standard deployment completed!');
   await sessionManager.setCompleted(sessionId);
   
@@ -1154,21 +1077,9 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
     await logInitialization(sessionId, 'info', '🤖 Generating complete project with AI agent');
     
     // Create AI agent for project generation
-    const mockSandbox = {
-      readFile: async (path: string) => '',
-      writeFile: async (path: string, content: string) => { },
-      listFiles: async (path: string) => [],
-      gitClone: async (url: string, branch: string) => 'Cloned successfully',
-      gitCreateBranch: async (name: string) => 'Branch created',
-      gitCommit: async (message: string) => 'Committed',
-      runTests: async (path?: string) => 'Tests passed',
-      runCommand: async (command: string, options?: any) => 'Command executed',
-      createPullRequest: async (title: string, description: string) => ({ url: 'https://github.com/mock/pr' })
-    };
-
     const aiAgent = new CustomAIAgent({
       sessionId: 'project-init',
-      sandbox: mockSandbox,
+      sandbox: null,
       repositoryUrl: request.repositoryUrl,
       provider: request.aiProvider || 'anthropic',
       model: 'default',
@@ -1309,7 +1220,7 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
         sha: commit.sha,
         message: commit.message,
         url: commit.url,
-        filePath: fileChanges.find(fc => fc.message === commit.message)?.path || 'unknown'
+        files: commit.files
       });
     }
     
@@ -1378,130 +1289,14 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
           const template = templates.find(t => t.id === request.templateId);
           
           if (template) {
-            // Prepare environment variables (same logic as non-AI mode)
-            const templateEnvVars: Record<string, string> = {};
-            
-            // Process each required environment variable for this template
-            for (const envVar of template.envVars) {
-              switch (envVar) {
-                // MongoDB-related variables
-                case 'MONGODB_URI':
-                case 'DATABASE_URL':
-                  if (mongodbProject) {
-                    templateEnvVars[envVar] = mongodbProject.connectionString;
-                  }
-                  break;
-                case 'MONGODB_DATABASE_NAME':
-                  if (mongodbProject) {
-                    templateEnvVars[envVar] = mongodbProject.databaseName;
-                  }
-                  break;
-                case 'MONGODB_CLUSTER_NAME':
-                  if (mongodbProject) {
-                    templateEnvVars[envVar] = mongodbProject.clusterName;
-                  }
-                  break;
-                case 'MONGODB_USERNAME':
-                  if (mongodbProject) {
-                    templateEnvVars[envVar] = mongodbProject.username;
-                  }
-                  break;
-                case 'MONGODB_PASSWORD':
-                  if (mongodbProject) {
-                    templateEnvVars[envVar] = mongodbProject.password;
-                  }
-                  break;
-                
-                // Authentication secrets
-                case 'BETTER_AUTH_SECRET':
-                case 'NEXTAUTH_SECRET':
-                case 'AUTH_SECRET':
-                case 'NUXT_SECRET_KEY':
-                  templateEnvVars[envVar] = require('crypto').randomBytes(32).toString('hex');
-                  break;
-                
-                // App URLs and names
-                case 'VITE_APP_NAME':
-                case 'NEXT_PUBLIC_APP_NAME':
-                case 'NUXT_PUBLIC_APP_NAME':
-                  templateEnvVars[envVar] = request.projectName || 'My App';
-                  break;
-                
-                case 'VITE_APP_URL':
-                case 'NEXT_PUBLIC_APP_URL':
-                case 'NUXT_PUBLIC_API_URL':
-                case 'VITE_API_URL':
-                  // Will be updated after Netlify site creation
-                  templateEnvVars[envVar] = 'https://placeholder.netlify.app';
-                  break;
-                
-                case 'BETTER_AUTH_URL':
-                case 'NEXTAUTH_URL':
-                  // Will be updated after Netlify site creation
-                  templateEnvVars[envVar] = 'https://placeholder.netlify.app';
-                  break;
-                
-                // Supabase variables (need to be configured by user)
-                case 'VITE_SUPABASE_URL':
-                case 'NEXT_PUBLIC_SUPABASE_URL':
-                case 'SUPABASE_URL':
-                  templateEnvVars[envVar] = process.env.SUPABASE_URL || 'https://your-project.supabase.co';
-                  break;
-                case 'VITE_SUPABASE_ANON_KEY':
-                case 'NEXT_PUBLIC_SUPABASE_ANON_KEY':
-                case 'SUPABASE_ANON_KEY':
-                  templateEnvVars[envVar] = process.env.SUPABASE_ANON_KEY || 'your-supabase-anon-key';
-                  break;
-                case 'SUPABASE_SERVICE_KEY':
-                case 'SUPABASE_SERVICE_ROLE_KEY':
-                case 'NEXT_PUBLIC_SUPABASE_SERVICE_KEY':
-                  templateEnvVars[envVar] = process.env.SUPABASE_SERVICE_KEY || 'your-supabase-service-key';
-                  break;
-                case 'SUPABASE_PROJECT_ID':
-                  templateEnvVars[envVar] = process.env.SUPABASE_PROJECT_ID || 'your-supabase-project-id';
-                  break;
-                
-                // PlanetScale variables
-                case 'PLANETSCALE_TOKEN':
-                  templateEnvVars[envVar] = process.env.PLANETSCALE_TOKEN || 'your-planetscale-token';
-                  break;
-                
-                // Upstash Redis variables
-                case 'VITE_UPSTASH_REDIS_REST_URL':
-                case 'UPSTASH_REDIS_REST_URL':
-                  templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_URL || 'https://your-redis.upstash.io';
-                  break;
-                case 'VITE_UPSTASH_REDIS_REST_TOKEN':
-                case 'UPSTASH_REDIS_REST_TOKEN':
-                  templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_TOKEN || 'your-upstash-token';
-                  break;
-                
-                // App version for IndexedDB templates
-                case 'VITE_APP_VERSION':
-                case 'NEXT_PUBLIC_APP_VERSION':
-                case 'NUXT_PUBLIC_APP_VERSION':
-                  templateEnvVars[envVar] = '1.0.0';
-                  break;
-                
-                // Pexels API variables
-                case 'PEXELS_API_KEY':
-                case 'VITE_PEXELS_API_KEY':
-                case 'NEXT_PUBLIC_PEXELS_API_KEY':
-                case 'NUXT_PUBLIC_PEXELS_API_KEY':
-                  templateEnvVars[envVar] = process.env.PEXELS_API_KEY || 'your-pexels-api-key';
-                  break;
-                
-                // Default fallback for any unhandled env vars
-                default:
-                  console.warn(`[ENV-SETUP] Unknown environment variable: ${envVar}, setting as placeholder`);
-                  templateEnvVars[envVar] = `placeholder-${envVar.toLowerCase()}`;
-                  break;
-              }
-            }
-            
-            // Always set repository URL and base branch (required for web interface)
-            templateEnvVars['VITE_REPOSITORY_URL'] = request.repositoryUrl || '';
-            templateEnvVars['VITE_BASE_BRANCH'] = 'main';
+            // Resolve environment variables from the registry; URL variables are set once the site exists
+            const { values: templateEnvVars } = resolveRequiredEnvironmentVariables(template, {
+              projectName: request.projectName,
+              repositoryUrl: request.repositoryUrl,
+              baseBranch: 'main',
+              mongodbProject,
+              userValues: request.envVars
+            });
             
             // Get AI provider env vars
             const aiProviderVars = getEnvVarsForProvider(request.aiProvider || 'anthropic', request.model);
@@ -1537,6 +1332,9 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
           
         } catch (netlifyError) {
           await logInitialization(sessionId, 'warning', `⚠️ Netlify setup failed: ${netlifyError.message}`);
+          if (netlifyError instanceof EnvVarResolutionError) {
+            throw netlifyError;
+          }
         }
       }
       
@@ -1596,6 +1394,15 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
           let finalDeployUrl = null;
           
           while (retryAttempt < maxRetries && currentDeployment.state === 'error') {
+            // Stop before spending more on fixes once the project's AI budget is used up
+            if (session?.projectId) {
+              const budget = await UsageTracker.checkBudget(session.projectId);
+              if (budget.exceeded) {
+                await logInitialization(sessionId, 'warning', `💸 Stopping AI fixes: ${budget.reason}`);
+                break;
+              }
+            }
+
             retryAttempt++;
             await logInitialization(sessionId, 'info', `🔄 AI Fix Attempt ${retryAttempt}/${maxRetries}...`);
             
@@ -1670,6 +1477,7 @@ async function processProjectInitialization(sessionId: string, request: ProjectI
     }
 
     // Phase 9: Complete
+    await registerProject(sessionId, request, netlifyProject, mongodbProject);
     await sessionManager.updateSessionStatus(sessionId, 'completed', 100, 'Project initialization completed!');
     await sessionManager.setCompleted(sessionId);
     
@@ -0,0 +1,27 @@
+// netlify/functions/process-changes-background.ts
+// Background function (15 minute limit) that runs the change pipeline for a session's stored submission
+import { Handler, HandlerEvent } from '@netlify/functions';
+import { EnhancedSessionManager } from './shared/enhanced-session-manager';
+import { isDispatchAuthorized } from './shared/background-functions';
+import { processChangesEnhanced, SubmissionPayload } from './process-changes-enhanced';
+
+const sessionManager = new EnhancedSessionManager();
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  // Only the queue processor and the resume endpoint dispatch here
+  if (!isDispatchAuthorized(event.headers.authorization)) {
+    console.error('[PROCESS-CHANGES-BACKGROUND] Unauthorized invocation');
+    return { statusCode: 401, body: '' };
+  }
+
+  const { sessionId } = JSON.parse(event.body || '{}') as { sessionId?: string };
+  const session = sessionId ? await sessionManager.getSession(sessionId) : null;
+  const submission = session?.checkpoints?.submission as SubmissionPayload | undefined;
+  if (!sessionId || !submission) {
+    console.error(`[PROCESS-CHANGES-BACKGROUND] No stored submission for session ${sessionId}`);
+    return { statusCode: 404, body: '' };
+  }
+
+  await processChangesEnhanced(sessionId, submission);
+  return { statusCode: 200, body: '' };
+};
@@ -1,10 +1,22 @@
 // Enhanced Agentic AI Process Changes API
 import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
+import path from 'path';
 import { EnhancedSessionManager } from './shared/enhanced-session-manager';
 import { EnhancedGitHubService, FileChange } from '../src/services/enhanced-github-service';
 import { AIFileProcessor, ChangeRequest } from './shared/ai-file-processor';
 import { NetlifyService } from '../src/services/netlify';
 import { DevIdRegistryScanner, RegistryContext } from './shared/devid-registry-scanner';
+import { QueueManager } from './shared/queue-manager';
+import { AppliedHunk, formatHunkAsDiff } from './shared/patch-applier';
+import { DeploymentTestSuite, PreviewDeploymentTester, isAcceptanceTestingEnabled } from './shared/preview-deployment-tester';
+import { BuildCommands, BuildVerifier, isBuildVerificationEnabled, verifyAndRepair } from './shared/build-verifier';
+import { TaskTracker } from './shared/task-tracker';
+import { dispatchBackgroundFunction } from './shared/background-functions';
+import { RepositoryIndex } from './shared/repository-indexer';
+import { DependencyAnalyzer } from './shared/dependency-analyzer';
+import { SessionSandbox, createAgentSandbox } from './shared/agent-sandbox';
+import { storage } from '../src/services/redis-storage';
+import { TemplateRegistry } from '../src/services/template-registry';
 
 // Enhanced Types (matching template app structure)
 export enum ChangeCategory {
@@ -99,6 +111,10 @@ interface GlobalContext {
   commitHash?: string;
   aiProvider?: 'anthropic' | 'openai' | 'google' | 'grok';
   userInfo?: UserContext;
+  // 'atomic' (default) commits the whole submission at once, 'per-file' keeps one commit per file
+  commitMode?: 'atomic' | 'per-file';
+  // Existing project tasks (e.g. created in the chat interface) this submission implements
+  taskIds?: string[];
 }
 
 interface SubmissionSummary {
@@ -109,7 +125,7 @@ interface SubmissionSummary {
   estimatedComplexity: 'low' | 'medium' | 'high';
 }
 
-interface SubmissionPayload {
+export interface SubmissionPayload {
   submissionId: string;
   timestamp: number;
   changes: EnhancedChangeRequest[];
@@ -132,6 +148,11 @@ const sessionManager = new EnhancedSessionManager();
 const githubService = new EnhancedGitHubService();
 const netlifyService = new NetlifyService();
 
+// Templates build with Vite into dist/, the directory Netlify publishes
+const LOCAL_BUILD_OUTPUT_DIRECTORY = 'dist';
+// Scenario URLs are rewritten onto the local server, which only gets a port once it starts
+const LOCAL_TEST_URL = 'http://localhost';
+
 
 /**
  * Helper function to log to enhanced session manager
@@ -141,6 +162,19 @@ async function logDevelopment(sessionId: string, level: 'info' | 'success' | 'wa
   await sessionManager.addLog(sessionId, level, message, metadata);
 }
 
+/**
+ * Build and test commands of the project's template; never taken from the request
+ */
+async function getTemplateCommands(projectId?: string): Promise<BuildCommands> {
+  if (!projectId) return {};
+
+  const project = await storage.getProject(projectId);
+  if (!project?.template) return {};
+
+  const template = await new TemplateRegistry(process.env.GITHUB_TOKEN).getTemplateById(project.template);
+  return { buildCommand: template?.buildCommand, testCommand: template?.testCommand };
+}
+
 /**
  * Generate a feature branch name from change requests
  */
@@ -172,61 +206,76 @@ function generateBranchName(changes: EnhancedChangeRequest[]): string {
 /**
  * Main processing function with enhanced workflow
  */
-async function processChangesEnhanced(sessionId: string, payload: SubmissionPayload): Promise<void> {
+export async function processChangesEnhanced(sessionId: string, payload: SubmissionPayload): Promise<void> {
+  let sandbox: SessionSandbox | undefined;
   try {
     const session = await sessionManager.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
     }
 
+    const checkpoints = await sessionManager.getCheckpoints(sessionId);
+    // The feature branch does not exist yet; the agent has to create one before it can commit
+    sandbox = await createAgentSandbox(payload.globalContext.repositoryUrl, payload.globalContext.branch || 'main');
+    const aiProcessor = new AIFileProcessor(payload.globalContext.aiProvider, {
+      onModelRoute: route => sessionManager.recordModelRoute(sessionId, route),
+      projectId: payload.globalContext.projectId,
+      sessionId,
+      sandbox
+    });
+
     // Phase 1: Validation
-    console.log(`Starting validation for session: ${sessionId}`);
-    
-    // Check if session exists before proceeding
-    const sessionBeforeValidation = await sessionManager.getSession(sessionId);
-    console.log('Session exists before validation:', !!sessionBeforeValidation);
+    if (checkpoints.completedPhases.validation) {
+      await logDevelopment(sessionId, 'info', '⏭️ Validation already completed, skipping');
+    } else {
+      console.log(`Starting validation for session: ${sessionId}`);
     
-    await sessionManager.updateSessionStatus(sessionId, 'validating', 5, 'Validating change requests...');
-    await logDevelopment(sessionId, 'info', 'Starting validation phase');
+      // Check if session exists before proceeding
+      const sessionBeforeValidation = await sessionManager.getSession(sessionId);
+      console.log('Session exists before validation:', !!sessionBeforeValidation);
     
-    const aiProcessor = new AIFileProcessor(payload.globalContext.aiProvider);
+      await sessionManager.updateSessionStatus(sessionId, 'validating', 5, 'Validating change requests...');
+      await logDevelopment(sessionId, 'info', 'Starting validation phase');
     
-    // Log validation attempt details
-    await logDevelopment(sessionId, 'info', `Starting validation with ${payload.changes.length} change requests`, {
-      aiProvider: payload.globalContext.aiProvider,
-      changeIds: payload.changes.map(c => c.id),
-      categories: [...new Set(payload.changes.map(c => c.category))]
-    });
+      // Log validation attempt details
+      await logDevelopment(sessionId, 'info', `Starting validation with ${payload.changes.length} change requests`, {
+        aiProvider: payload.globalContext.aiProvider,
+        changeIds: payload.changes.map(c => c.id),
+        categories: [...new Set(payload.changes.map(c => c.category))]
+      });
     
-    const validationResult = await aiProcessor.validateChangeRequests(payload.changes);
+      const validationResult = await aiProcessor.validateChangeRequests(payload.changes);
     
-    console.log('Validation result:', JSON.stringify(validationResult, null, 2));
-    await logDevelopment(sessionId, 'info', `Validation completed - ${validationResult.isValid ? 'PASSED' : 'FAILED'}`, {
-      issues: validationResult.issues?.length || 0,
-      securityConcerns: validationResult.securityConcerns?.length || 0,
-      issuesList: validationResult.issues,
-      securityList: validationResult.securityConcerns
-    });
+      console.log('Validation result:', JSON.stringify(validationResult, null, 2));
+      await logDevelopment(sessionId, 'info', `Validation completed - ${validationResult.isValid ? 'PASSED' : 'FAILED'}`, {
+        issues: validationResult.issues?.length || 0,
+        securityConcerns: validationResult.securityConcerns?.length || 0,
+        issuesList: validationResult.issues,
+        securityList: validationResult.securityConcerns
+      });
     
-    if (!validationResult.isValid) {
-      const issuesText = validationResult.issues && validationResult.issues.length > 0 
-        ? validationResult.issues.join(', ')
-        : 'No specific issues provided';
-      const securityText = validationResult.securityConcerns && validationResult.securityConcerns.length > 0
-        ? ` Security concerns: ${validationResult.securityConcerns.join(', ')}`
-        : '';
+      if (!validationResult.isValid) {
+        const issuesText = validationResult.issues && validationResult.issues.length > 0 
+          ? validationResult.issues.join(', ')
+          : 'No specific issues provided';
+        const securityText = validationResult.securityConcerns && validationResult.securityConcerns.length > 0
+          ? ` Security concerns: ${validationResult.securityConcerns.join(', ')}`
+          : '';
       
-      const errorMessage = `Validation failed: ${issuesText}${securityText}`;
-      console.error('Validation failed:', errorMessage);
-      await logDevelopment(sessionId, 'error', `❌ ${errorMessage}`, {
-        issues: validationResult.issues,
-        securityConcerns: validationResult.securityConcerns,
-        changeRequests: payload.changes.map(c => ({ id: c.id, feedback: c.feedback, category: c.category }))
-      });
-      throw new Error(errorMessage);
-    }
+        const errorMessage = `Validation failed: ${issuesText}${securityText}`;
+        console.error('Validation failed:', errorMessage);
+        await logDevelopment(sessionId, 'error', `❌ ${errorMessage}`, {
+          issues: validationResult.issues,
+          securityConcerns: validationResult.securityConcerns,
+          changeRequests: payload.changes.map(c => ({ id: c.id, feedback: c.feedback, category: c.category }))
+        });
+        throw new Error(errorMessage);
+      }
     
-    await logDevelopment(sessionId, 'success', 'All change requests validated successfully');
+      await logDevelopment(sessionId, 'success', 'All change requests validated successfully');
+
+      await sessionManager.setCheckpoint(sessionId, 'validation', { changeCount: payload.changes.length });
+    }
 
     // Phase 2: File Analysis
     await sessionManager.updateSessionStatus(sessionId, 'analyzing', 15, 'Analyzing affected files...');
@@ -234,11 +283,16 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
     const fileGroups = aiProcessor.groupChangesByFile(payload.changes);
     await logDevelopment(sessionId, 'info', `Identified ${fileGroups.length} files to be modified`);
     
-    // Initialize file tracking
-    for (const group of fileGroups) {
-      await sessionManager.updateFileProcessing(sessionId, group.filePath, {
-        status: 'pending',
-        changeCount: group.changes.length
+    // Initialize file tracking (a resumed session keeps the statuses of its previous run)
+    if (!checkpoints.completedPhases.fileGroups) {
+      for (const group of fileGroups) {
+        await sessionManager.updateFileProcessing(sessionId, group.filePath, {
+          status: 'pending',
+          changeCount: group.changes.length
+        });
+      }
+      await sessionManager.setCheckpoint(sessionId, 'fileGroups', {
+        files: fileGroups.map(group => group.filePath)
       });
     }
 
@@ -306,8 +360,42 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
 
     const fileChanges: FileChange[] = [];
     let processedCount = 0;
+    const fileStatuses = (await sessionManager.getSession(sessionId))?.fileGroups || [];
+
+    // Related code for the prompts; files are still processed without it
+    const repositoryIndex = await RepositoryIndex.build(payload.globalContext.repositoryUrl, session.baseBranch)
+      .catch(async error => {
+        await logDevelopment(sessionId, 'warning', `⚠️ Could not index the repository: ${error.message}`);
+        return undefined;
+      });
+
+    // Exports other changed files import, so validation rejects output that drops them
+    const dependencyAnalyzer = new DependencyAnalyzer();
+    const dependencyMap = await dependencyAnalyzer.analyzeMultipleFiles(
+      payload.globalContext.repositoryUrl,
+      fileGroups.map(group => group.filePath),
+      payload.changes,
+      session.baseBranch
+    ).then(analysis => analysis.dependencyMap).catch(async error => {
+      await logDevelopment(sessionId, 'warning', `⚠️ Could not analyze dependencies: ${error.message}`);
+      return undefined;
+    });
 
     for (const group of fileGroups) {
+      // Reuse AI output from a previous attempt - only failed files are processed again
+      const previousOutput = checkpoints.fileOutputs[group.filePath];
+      const previousStatus = fileStatuses.find(f => f.path === group.filePath)?.status;
+      if (previousOutput && previousStatus === 'completed') {
+        fileChanges.push({
+          path: group.filePath,
+          content: previousOutput.content,
+          message: previousOutput.commitMessage
+        });
+        processedCount++;
+        await logDevelopment(sessionId, 'info', `⏭️ Reusing processed output for ${group.filePath}`);
+        continue;
+      }
+
       try {
         await sessionManager.updateFileProcessing(sessionId, group.filePath, { status: 'processing' });
         
@@ -329,7 +417,12 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
         const result = await aiProcessor.processFileChanges(
           group.filePath,
           fileContent,
-          group.changes
+          group.changes,
+          1,
+          {
+            importedExports: dependencyMap ? dependencyAnalyzer.getImportedExports(group.filePath, dependencyMap) : [],
+            repositoryIndex
+          }
         );
 
         if (result.success) {
@@ -344,10 +437,13 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
             content: result.updatedContent,
             message: commitMessage
           });
+          await sessionManager.setFileOutput(sessionId, group.filePath, result.updatedContent, commitMessage, result.hunks);
 
           await sessionManager.updateFileProcessing(sessionId, group.filePath, {
             status: 'completed',
-            processingTime: Date.now() - startTime
+            processingTime: Date.now() - startTime,
+            outputMode: result.outputMode,
+            hunks: result.hunks
           });
 
           await logDevelopment(sessionId, 'success', 
@@ -438,85 +534,176 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
     // Phase 5: Commit Changes
     await sessionManager.updateSessionStatus(sessionId, 'committing', 70, 'Committing changes to GitHub...');
 
-    const commits = await githubService.commitChanges(
-      payload.globalContext.repositoryUrl,
-      branchName,
-      fileChanges
+    // A retry commits every file still without a commitSha, even when the commits checkpoint is set
+    const committedFiles = new Set(
+      ((await sessionManager.getSession(sessionId))?.fileGroups || [])
+        .filter(f => f.commitSha)
+        .map(f => f.path)
     );
+    let pendingChanges = fileChanges.filter(fc => !committedFiles.has(fc.path));
 
-    for (const commit of commits) {
-      const filePath = fileChanges.find(fc => fc.message === commit.message)?.path || 'unknown';
-      await sessionManager.addCommit(sessionId, {
-        sha: commit.sha,
-        message: commit.message,
-        url: commit.url,
-        filePath
-      });
+    if (pendingChanges.length === 0 && checkpoints.completedPhases.commits) {
+      await logDevelopment(sessionId, 'info', '⏭️ Changes already committed, skipping');
+    } else {
+      const commitMode = payload.globalContext.commitMode || 'atomic';
+
+      // Build the pending changes on top of the feature branch so build errors are fixed before pushing
+      if (pendingChanges.length > 0 && isBuildVerificationEnabled()) {
+        await sessionManager.updateSessionStatus(sessionId, 'committing', 70, 'Verifying build locally...');
+        const verification = await verifyAndRepair(pendingChanges, {
+          sessionId,
+          repoUrl: payload.globalContext.repositoryUrl,
+          branch: branchName,
+          commands: await getTemplateCommands(payload.globalContext.projectId),
+          aiProvider: payload.globalContext.aiProvider,
+          projectId: payload.globalContext.projectId,
+          onModelRoute: route => sessionManager.recordModelRoute(sessionId, route),
+          onProgress: message => logDevelopment(sessionId, 'info', message)
+        });
+
+        pendingChanges = verification.files;
+        for (const filePath of verification.repairedFiles) {
+          const repaired = pendingChanges.find(fc => fc.path === filePath)!;
+          const index = fileChanges.findIndex(fc => fc.path === filePath);
+          if (index >= 0) {
+            fileChanges[index] = repaired;
+          } else {
+            fileChanges.push(repaired);
+          }
+          // A retry reuses the repaired content instead of the original AI output
+          await sessionManager.setFileOutput(sessionId, filePath, repaired.content, repaired.message);
+        }
+
+        if (!verification.result.success) {
+          await logDevelopment(sessionId, 'warning',
+            `⚠️ Local ${verification.result.failedStep} still failing, committing anyway`,
+            { errors: verification.result.errors.slice(0, 10), output: verification.result.output.slice(-2000) }
+          );
+        }
+      }
+
+      const newCommits = [];
+      if (commitMode === 'atomic') {
+        if (pendingChanges.length > 0) {
+          newCommits.push(...await githubService.commitChanges(
+            payload.globalContext.repositoryUrl,
+            branchName,
+            pendingChanges,
+            {
+              mode: 'atomic',
+              message: aiProcessor.generateSubmissionCommitMessage(payload.changes, pendingChanges.map(fc => fc.path))
+            }
+          ));
+        }
+      } else {
+        // Commit file by file so a failure part way through keeps the files already committed
+        for (const fileChange of pendingChanges) {
+          newCommits.push(...await githubService.commitChanges(
+            payload.globalContext.repositoryUrl,
+            branchName,
+            [fileChange]
+          ));
+        }
+      }
+
+      for (const commit of newCommits) {
+        await sessionManager.addCommit(sessionId, {
+          sha: commit.sha,
+          message: commit.message,
+          url: commit.url,
+          files: commit.files
+        });
+      }
+      // Atomic commits cover every pending file, even those whose content did not change
+      for (const fileChange of pendingChanges) {
+        const commit = newCommits.find(c => c.files.includes(fileChange.path)) || newCommits[newCommits.length - 1];
+        if (commit) {
+          await sessionManager.updateFileProcessing(sessionId, fileChange.path, { commitSha: commit.sha });
+        }
+      }
+
+      await logDevelopment(sessionId, 'success', 
+        `📝 Committed ${pendingChanges.length} files in ${newCommits.length} commits to ${branchName}`,
+        { commitCount: newCommits.length, commitMode, branchName: branchName }
+      );
+      await sessionManager.setCheckpoint(sessionId, 'commits', { commitCount: fileChanges.length });
     }
 
-    await logDevelopment(sessionId, 'success', 
-      `📝 Committed ${commits.length} changes to ${branchName}`,
-      { commitCount: commits.length, branchName: branchName }
-    );
+    const commits = (await sessionManager.getSession(sessionId))?.commits || [];
 
     // Phase 6: Create Pull Request
     await sessionManager.updateSessionStatus(sessionId, 'pr_creating', 80, 'Creating pull request...');
 
-    const prTitle = `AI Enhancement: ${featureName}`;
-    const prBody = generatePullRequestBody(payload.changes, fileChanges, commits);
+    if (checkpoints.completedPhases.pullRequest) {
+      await logDevelopment(sessionId, 'info', `⏭️ Pull request already created: ${session.prUrl}`);
+    } else {
+      const prTitle = `AI Enhancement: ${featureName}`;
+      const fileOutputs = (await sessionManager.getCheckpoints(sessionId)).fileOutputs;
+      const hunksByFile = new Map(
+        Object.entries(fileOutputs).map(([filePath, output]) => [filePath, output.hunks || []])
+      );
+      const prBody = generatePullRequestBody(payload.changes, fileChanges, commits, hunksByFile);
 
-    const prInfo = await githubService.createPullRequest(
-      payload.globalContext.repositoryUrl,
-      branchName,
-      prTitle,
-      prBody,
-      session.baseBranch
-    );
+      const prInfo = await githubService.createPullRequest(
+        payload.globalContext.repositoryUrl,
+        branchName,
+        prTitle,
+        prBody,
+        session.baseBranch
+      );
 
-    await sessionManager.setPullRequestInfo(sessionId, prInfo.htmlUrl, prInfo.number);
-    await logDevelopment(sessionId, 'success', `🔀 Pull Request created: #${prInfo.number}`, {
-      prUrl: prInfo.htmlUrl,
-      prNumber: prInfo.number
-    });
+      await sessionManager.setPullRequestInfo(sessionId, prInfo.htmlUrl, prInfo.number);
+      await logDevelopment(sessionId, 'success', `🔀 Pull Request created: #${prInfo.number}`, {
+        prUrl: prInfo.htmlUrl,
+        prNumber: prInfo.number
+      });
+      await sessionManager.setCheckpoint(sessionId, 'pullRequest', { prUrl: prInfo.htmlUrl, prNumber: prInfo.number });
+    }
 
     // Phase 7: Wait for Deployment with Enhanced Tracking
-    await sessionManager.updateSessionStatus(sessionId, 'deploying', 85, 'Waiting for preview deployment...');
-    await logDevelopment(sessionId, 'info', '🚀 Waiting for Netlify preview deployment...');
+    if (checkpoints.completedPhases.deployment) {
+      await logDevelopment(sessionId, 'info', '⏭️ Deployment already checked, skipping');
+    } else {
+      await sessionManager.updateSessionStatus(sessionId, 'deploying', 85, 'Waiting for preview deployment...');
+      await logDevelopment(sessionId, 'info', '🚀 Waiting for Netlify preview deployment...');
 
-    try {
-      // Wait for Netlify deployment (with timeout and progress updates)
-      await logDevelopment(sessionId, 'info', '⏳ Checking deployment status...');
+      try {
+        // Wait for Netlify deployment (with timeout and progress updates)
+        await logDevelopment(sessionId, 'info', '⏳ Checking deployment status...');
       
-      const deploymentResult = await netlifyService.waitForBranchDeployment(
-        branchName,
-        300000 // 5 minute timeout
-      );
-
-      if (deploymentResult.success && deploymentResult.url) {
-        await sessionManager.setPreviewUrl(sessionId, deploymentResult.url);
-        await logDevelopment(sessionId, 'success', 
-          '🌐 Preview deployment ready!', 
-          { 
-            previewUrl: deploymentResult.url,
-            deploymentStatus: 'ready',
-            canPreview: true
-          }
+        const deploymentResult = await netlifyService.waitForBranchDeployment(
+          branchName,
+          300000 // 5 minute timeout
         );
+
+        if (deploymentResult.success && deploymentResult.url) {
+          await sessionManager.setPreviewUrl(sessionId, deploymentResult.url);
+          await logDevelopment(sessionId, 'success', 
+            '🌐 Preview deployment ready!', 
+            { 
+              previewUrl: deploymentResult.url,
+              deploymentStatus: 'ready',
+              canPreview: true
+            }
+          );
         
-        // Update session status to show preview is ready
-        await sessionManager.updateSessionStatus(sessionId, 'preview_ready', 95, 'Preview deployment ready for testing');
+          // Update session status to show preview is ready
+          await sessionManager.updateSessionStatus(sessionId, 'preview_ready', 95, 'Preview deployment ready for testing');
         
-      } else {
+        } else {
+          await logDevelopment(sessionId, 'warning', 
+            '⚠️ Preview deployment not detected, but PR created successfully',
+            { deploymentStatus: 'unknown' }
+          );
+        }
+      } catch (deployError) {
         await logDevelopment(sessionId, 'warning', 
-          '⚠️ Preview deployment not detected, but PR created successfully',
-          { deploymentStatus: 'unknown' }
+          `⚠️ Deployment check failed: ${deployError.message}, but PR created successfully`,
+          { deploymentError: deployError.message, deploymentStatus: 'failed' }
         );
       }
-    } catch (deployError) {
-      await logDevelopment(sessionId, 'warning', 
-        `⚠️ Deployment check failed: ${deployError.message}, but PR created successfully`,
-        { deploymentError: deployError.message, deploymentStatus: 'failed' }
-      );
+
+      await sessionManager.setCheckpoint(sessionId, 'deployment');
     }
 
     // Phase 8: Generate Tests (Optional)
@@ -545,7 +732,77 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
       }
     }
 
-    // Phase 9: Complete
+    // Phase 9: Acceptance tests gate completion, run against the preview deployment or else a local build of the branch
+    if (session.autoTest && isAcceptanceTestingEnabled()) {
+      const previewUrl = (await sessionManager.getSession(sessionId))?.previewUrl;
+      const tester = new PreviewDeploymentTester(payload.globalContext.aiProvider);
+
+      try {
+        if (!previewUrl && !isBuildVerificationEnabled()) {
+          await sessionManager.setError(sessionId,
+            'Acceptance tests need a preview deployment or LOCAL_BUILD_VERIFICATION=true to build the branch locally'
+          );
+          return;
+        }
+        if (!(await tester.isBrowserAvailable())) {
+          await sessionManager.setError(sessionId,
+            'Acceptance tests are enabled but no headless browser is available (npx playwright install chromium)'
+          );
+          return;
+        }
+
+        let testSuite: DeploymentTestSuite | undefined;
+        if (previewUrl) {
+          await sessionManager.updateSessionStatus(sessionId, 'testing', 96, 'Running acceptance tests on preview...');
+          const scenarios = await tester.generateTestScenarios(payload.changes, fileChanges, previewUrl);
+          testSuite = await tester.executeTestSuite(previewUrl, scenarios);
+        } else {
+          await sessionManager.updateSessionStatus(sessionId, 'testing', 96, 'Running acceptance tests on a local build...');
+          const build = await new BuildVerifier().verify(
+            payload.globalContext.repositoryUrl,
+            branchName,
+            [],
+            await getTemplateCommands(payload.globalContext.projectId),
+            async workspace => {
+              const scenarios = await tester.generateTestScenarios(payload.changes, fileChanges, LOCAL_TEST_URL);
+              testSuite = await tester.executeLocalTestSuite(path.join(workspace, LOCAL_BUILD_OUTPUT_DIRECTORY), scenarios);
+            }
+          );
+          if (!build.success || !testSuite) {
+            await sessionManager.setError(sessionId,
+              `Acceptance tests could not build ${branchName} locally: ${build.failedStep || 'build'} failed`
+            );
+            return;
+          }
+        }
+
+        const failedResults = testSuite.results.filter(result => !result.passed);
+        const testedUrl = previewUrl || 'a local build';
+
+        await sessionManager.setTestResults(sessionId, {
+          passed: testSuite.summary.passed,
+          failed: testSuite.summary.failed,
+          total: testSuite.summary.totalTests,
+          details: failedResults.map(result =>
+            `${result.scenarioId} (${result.browser}, ${result.viewport?.width}x${result.viewport?.height}): ` +
+            (result.error || result.details.failedAssertions.join('; '))
+          )
+        });
+
+        if (failedResults.length > 0) {
+          // Deterministic failure against the built app - retrying the pipeline would not change it
+          await logDevelopment(sessionId, 'error', tester.generateTestReport(testSuite));
+          await sessionManager.setError(sessionId,
+            `Acceptance tests failed: ${testSuite.summary.failed} of ${testSuite.summary.totalTests} scenario runs failed on ${testedUrl}`
+          );
+          return;
+        }
+      } finally {
+        await tester.close();
+      }
+    }
+
+    // Phase 10: Complete
     await sessionManager.updateSessionStatus(sessionId, 'completed', 100, 'Processing completed successfully!');
     await sessionManager.setCompleted(sessionId);
     
@@ -600,28 +857,39 @@ async function processChangesEnhanced(sessionId: string, payload: SubmissionPayl
         { error: error.message }
       );
       
-      // Wait before retry (exponential backoff)
+      // Hand the retry to the durable queue - this function may exit before a timer would fire.
+      // The job only dispatches to the background function, which reruns the stored submission.
       const delay = Math.min(1000 * Math.pow(2, currentAttempt - 1), 30000);
-      setTimeout(() => {
-        processChangesEnhanced(sessionId, payload).catch(retryError => {
-          console.error('Retry failed:', retryError);
-        });
-      }, delay);
+      await QueueManager.addJob('processing', 'retry_change_processing', { sessionId }, { delay });
     } else {
       await sessionManager.setError(sessionId, 
         `Processing failed after ${maxRetries} attempts: ${error.message}`
       );
     }
+  } finally {
+    await sandbox?.dispose();
   }
 }
 
+/**
+ * Render applied patch hunks as a collapsed diff block (truncated to keep PR bodies small)
+ */
+function formatDiffBlock(hunks: AppliedHunk[]): string {
+  if (hunks.length === 0) return '';
+
+  const diff = hunks.map(formatHunkAsDiff).join('\n');
+  const truncated = diff.length > 3000 ? `${diff.slice(0, 3000)}\n... (truncated)` : diff;
+  return `\n  <details><summary>Diff</summary>\n\n\`\`\`diff\n${truncated}\n\`\`\`\n  </details>\n\n`;
+}
+
 /**
  * Generate comprehensive pull request body
  */
 function generatePullRequestBody(
   changes: EnhancedChangeRequest[],
   fileChanges: FileChange[],
-  commits: any[]
+  commits: any[],
+  hunksByFile: Map<string, AppliedHunk[]> = new Map()
 ): string {
   const categories = [...new Set(changes.map(c => c.category))];
   const highPriority = changes.filter(c => c.priority === 'high').length;
@@ -651,10 +919,13 @@ This pull request contains AI-generated improvements to the application based on
   });
 
   changesByFile.forEach((fileChanges, filePath) => {
+    const hunks = hunksByFile.get(filePath) || [];
     body += `#### \`${filePath}\`\n`;
     fileChanges.forEach(change => {
       body += `- **${change.componentId}** (${change.priority}): ${change.feedback}\n`;
+      body += formatDiffBlock(hunks.filter(hunk => hunk.componentId === change.componentId));
     });
+    body += formatDiffBlock(hunks.filter(hunk => !fileChanges.some(change => change.componentId === hunk.componentId)));
     body += '\n';
   });
 
@@ -727,6 +998,65 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
       };
     }
 
+    // Handle POST request to resume a failed session from its last checkpoint
+    if (event.httpMethod === 'POST' && event.path.endsWith('/resume')) {
+      const pathParts = event.path.split('/');
+      const sessionId = pathParts[pathParts.length - 2];
+
+      const session = await sessionManager.getSession(sessionId);
+      if (!session) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: 'Session not found' })
+        };
+      }
+
+      if (session.status !== 'failed') {
+        return {
+          statusCode: 409,
+          headers,
+          body: JSON.stringify({ error: `Only failed sessions can be resumed (current status: ${session.status})` })
+        };
+      }
+
+      const submission = session.checkpoints?.submission as SubmissionPayload | undefined;
+      // Development sessions store a different kind of submission and cannot be resumed here
+      if (!submission?.changes) {
+        return {
+          statusCode: 409,
+          headers,
+          body: JSON.stringify({ error: 'Session has no stored submission to resume from' })
+        };
+      }
+
+      await sessionManager.prepareResume(sessionId);
+      try {
+        await dispatchBackgroundFunction('process-changes-background', sessionId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('Resume processing error:', error);
+        await sessionManager.setError(sessionId, message);
+        return {
+          statusCode: 502,
+          headers,
+          body: JSON.stringify({ error: message })
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({
+          success: true,
+          sessionId,
+          message: 'Session resumed from last checkpoint',
+          completedPhases: Object.keys(session.checkpoints?.completedPhases || {}),
+          statusUrl: `${process.env.URL}/api/process-changes-enhanced/${sessionId}`
+        })
+      };
+    }
+
     // Handle POST request for change submission
     if (event.httpMethod === 'POST') {
       if (!event.body) {
@@ -770,6 +1100,19 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
         }
       );
 
+      await sessionManager.setSubmission(session.id, payload);
+
+      // Track the submission on the project's task board
+      if (payload.globalContext.projectId) {
+        try {
+          const tasks = await TaskTracker.createFromChangeRequests(payload.globalContext.projectId, payload.changes);
+          const taskIds = [...new Set([...tasks.map(task => task.id), ...(payload.globalContext.taskIds || [])])];
+          await TaskTracker.linkSession(payload.globalContext.projectId, taskIds, session.id);
+        } catch (error) {
+          console.error('Failed to track tasks for submission:', error);
+        }
+      }
+
       // Start processing asynchronously
       processChangesEnhanced(session.id, payload).catch(error => {
         console.error('Processing error:', error);
@@ -0,0 +1,137 @@
+// netlify/functions/projects.ts - Multi-project dashboard
+import { Handler, HandlerEvent } from '@netlify/functions';
+import { ProjectDashboardQuery, ProjectDashboardService } from './shared/project-dashboard';
+import { ProjectTeardownService, TeardownOptions, validateTeardownOptions } from './shared/project-teardown';
+
+const SORT_FIELDS: Array<NonNullable<ProjectDashboardQuery['sortBy']>> = ['name', 'createdAt', 'updatedAt', 'lastActivity'];
+const STATUSES: Array<NonNullable<ProjectDashboardQuery['status']>> = ['active', 'archived', 'failed'];
+
+const dashboardService = new ProjectDashboardService();
+const teardownService = new ProjectTeardownService();
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod === 'DELETE') {
+    return await handleTeardown(event, headers);
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' })
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+
+    const sortBy = params.sortBy as ProjectDashboardQuery['sortBy'];
+    if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `sortBy must be one of: ${SORT_FIELDS.join(', ')}` })
+      };
+    }
+
+    const status = params.status as ProjectDashboardQuery['status'];
+    if (status && !STATUSES.includes(status)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: `status must be one of: ${STATUSES.join(', ')}` })
+      };
+    }
+
+    const dashboard = await dashboardService.getDashboard({
+      search: params.search?.trim() || undefined,
+      template: params.template || undefined,
+      aiProvider: params.aiProvider || undefined,
+      status,
+      sortBy,
+      order: params.order === 'asc' || params.order === 'desc' ? params.order : undefined,
+      limit: Number(params.limit) || undefined,
+      offset: Number(params.offset) || undefined,
+      includeInfrastructure: params.infrastructure !== 'false'
+    });
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(dashboard)
+    };
+
+  } catch (error) {
+    console.error('Projects dashboard error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: 'Failed to load projects' })
+    };
+  }
+};
+
+/**
+ * Tear down a project's GitHub, Netlify and MongoDB resources. Needs the admin API key.
+ */
+async function handleTeardown(event: HandlerEvent, headers: Record<string, string>) {
+  const apiKey = event.headers.authorization?.replace('Bearer ', '');
+  if (!process.env.ADMIN_API_KEY || apiKey !== process.env.ADMIN_API_KEY) {
+    return {
+      statusCode: 401,
+      headers,
+      body: JSON.stringify({ error: 'Unauthorized' })
+    };
+  }
+
+  try {
+    const params = event.queryStringParameters || {};
+    if (!params.projectId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'projectId is required' })
+      };
+    }
+
+    const optionsError = validateTeardownOptions(params);
+    if (optionsError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: optionsError })
+      };
+    }
+
+    const record = await teardownService.teardownProject(params.projectId, {
+      dryRun: params.dryRun === 'true',
+      github: params.github as TeardownOptions['github'],
+      mongodb: params.mongodb as TeardownOptions['mongodb'],
+      requestedBy: 'api',
+      reason: params.reason
+    });
+
+    return record
+      ? { statusCode: 200, headers, body: JSON.stringify(record) }
+      : { statusCode: 404, headers, body: JSON.stringify({ error: 'Project not found' }) };
+
+  } catch (error) {
+    console.error('Project teardown error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: 'Project teardown failed' })
+    };
+  }
+}
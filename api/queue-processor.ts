@@ -1,8 +1,15 @@
 // netlify/functions/queue-processor.ts
-import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
+import { Handler } from '@netlify/functions';
 import { QueueManager } from './shared/queue-manager';
+import { dispatchBackgroundFunction } from './shared/background-functions';
 
-export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+// Retries scheduled by the change processing pipeline run in the background function;
+// this scheduled function would time out long before the pipeline finishes
+QueueManager.registerHandler('retry_change_processing', async ({ sessionId }) => {
+  await dispatchBackgroundFunction('process-changes-background', sessionId);
+});
+
+export const handler: Handler = async () => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
     'Content-Type': 'application/json'
@@ -10,16 +17,16 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
 
   try {
     // This function can be triggered by a cron job or manually
-    const queueNames = ['notifications', 'cleanup', 'backup', 'reports'];
+    const queueNames = ['processing', 'notifications', 'cleanup', 'backup', 'reports'];
     
     for (const queueName of queueNames) {
       await QueueManager.processQueue(queueName);
     }
 
-    const status = queueNames.reduce((acc, name) => {
-      acc[name] = QueueManager.getQueueStatus(name);
-      return acc;
-    }, {} as Record<string, any>);
+    const status: Record<string, any> = {};
+    for (const queueName of queueNames) {
+      status[queueName] = await QueueManager.getQueueStatus(queueName);
+    }
 
     return {
       statusCode: 200,
@@ -39,7 +46,7 @@ export const handler: Handler = async (event: HandlerEvent, context: HandlerCont
       headers,
       body: JSON.stringify({
         error: 'Queue processing failed',
-        message: error.message
+        message: error instanceof Error ? error.message : String(error)
       })
     };
   }
@@ -0,0 +1,131 @@
+// netlify/functions/session-events.ts - stream session progress to the UI over Server-Sent Events
+import { stream } from '@netlify/functions';
+import { Readable } from 'stream';
+import { EnhancedSessionManager, SessionEvent } from './shared/enhanced-session-manager';
+
+const sessionManager = new EnhancedSessionManager();
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+// Close before the function timeout; EventSource reconnects and resumes from Last-Event-ID
+const STREAM_DURATION_MS = 25000;
+
+const TERMINAL_STATUSES = ['completed', 'failed'];
+
+function formatEvent(event: string, data: any, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function isTerminalEvent(event: SessionEvent): boolean {
+  return event.type === 'status' && TERMINAL_STATUSES.includes(event.data?.status);
+}
+
+/**
+ * SSE frames for a session: a snapshot for new subscribers, then the stream events after it
+ */
+async function* sessionEventStream(sessionId: string, summary: any, resumeFromId?: string): AsyncGenerator<string> {
+  let lastEventId = resumeFromId;
+
+  yield `retry: ${POLL_INTERVAL_MS}\n\n`;
+
+  // A new subscriber gets the current state first, then only the events after it
+  if (!lastEventId) {
+    lastEventId = await sessionManager.getLatestEventId(sessionId);
+    yield formatEvent('snapshot', summary, lastEventId);
+
+    if (TERMINAL_STATUSES.includes(summary.status)) {
+      yield formatEvent('end', { status: summary.status });
+      return;
+    }
+  }
+
+  const startedAt = Date.now();
+  let lastWriteAt = Date.now();
+
+  try {
+    while (Date.now() - startedAt < STREAM_DURATION_MS) {
+      const events = await sessionManager.getEventsSince(sessionId, lastEventId);
+
+      for (const sessionEvent of events) {
+        yield formatEvent(sessionEvent.type, sessionEvent.data, sessionEvent.id);
+        lastEventId = sessionEvent.id;
+        lastWriteAt = Date.now();
+
+        if (isTerminalEvent(sessionEvent)) {
+          yield formatEvent('end', { status: sessionEvent.data.status });
+          return;
+        }
+      }
+
+      if (Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+        yield ': keepalive\n\n';
+        lastWriteAt = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } catch (error) {
+    console.error('❌ Session event stream failed:', error);
+    yield formatEvent('stream-error', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export const handler = stream(async (event) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Last-Event-ID',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Max-Age': '86400'
+  };
+
+  // Handle CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Method not allowed' })
+    };
+  }
+
+  const pathParts = event.path.split('/');
+  const sessionId = event.queryStringParameters?.sessionId || pathParts[pathParts.length - 1];
+
+  if (!sessionId || sessionId === 'session-events') {
+    return {
+      statusCode: 400,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Session ID required' })
+    };
+  }
+
+  const summary = await sessionManager.getSessionSummary(sessionId);
+  if (!summary) {
+    return {
+      statusCode: 404,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Session not found' })
+    };
+  }
+
+  // EventSource sends Last-Event-ID on reconnect; the query parameter lets a fresh page resume too
+  const resumeFromId = event.headers['last-event-id'] || event.queryStringParameters?.lastEventId;
+
+  const body = Readable.from(sessionEventStream(sessionId, summary, resumeFromId));
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    },
+    body
+  };
+});
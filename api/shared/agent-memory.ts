@@ -0,0 +1,332 @@
+// Agent Memory - what CustomAIAgent learns about a project, persisted per project so it outlives a function call
+import { Redis } from '@upstash/redis';
+import RedisKeys from '../../src/services/redis-keys';
+
+// Initialize Redis client
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+// Conversation entries kept verbatim; older ones are folded into the summary
+const MAX_CONVERSATION_ENTRIES = 30;
+const RETAINED_CONVERSATION_ENTRIES = 10;
+const MAX_ENTRY_LENGTH = 1500;
+const MAX_TASK_HISTORY = 100;
+const MAX_CODE_PATTERNS = 30;
+// Weight of one session outcome in a pattern's effectiveness
+const EFFECTIVENESS_LEARNING_RATE = 0.2;
+const INITIAL_EFFECTIVENESS = 0.5;
+const MIN_INJECTED_EFFECTIVENESS = 0.3;
+// Longer than a summary request takes, so a crashed compaction does not block later ones for long
+const COMPACTION_LOCK_SECONDS = 300;
+
+export interface ConversationEntry {
+  role: string;
+  content: string;
+  timestamp: number;
+}
+
+export interface MemoryTaskEntry {
+  task: string;
+  approach: string;
+  result: string;
+  success: boolean; // Whether the request succeeded, replaced by the session outcome once it is known
+  timestamp: number;
+  sessionId?: string;
+  outcome?: 'success' | 'failure';
+}
+
+export interface CodePattern {
+  pattern: string; // A convention of the project, e.g. "Pages live in src/pages and use the AppLayout wrapper"
+  context: string;
+  effectiveness: number; // 0-1, moved towards the outcomes of the sessions the pattern was used in
+  uses: number;
+  createdAt: number;
+}
+
+export interface ProjectAgentMemory {
+  projectId: string;
+  summary: string; // Compacted older conversation
+  conversation: ConversationEntry[];
+  taskHistory: MemoryTaskEntry[];
+  codePatterns: CodePattern[];
+  updatedAt: number;
+}
+
+export interface MemoryUpdate {
+  conversation?: ConversationEntry[];
+  taskHistory?: MemoryTaskEntry[];
+  usedPatterns?: string[]; // Patterns included in a prompt of the session
+  sessionId?: string;
+}
+
+// Summarizes compacted conversation and extracts the project conventions it shows
+export type MemorySummarizer = (
+  entries: ConversationEntry[],
+  previousSummary: string
+) => Promise<{ summary: string; patterns: Array<{ pattern: string; context: string }> }>;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
+
+function getWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3));
+}
+
+// Share of the query's words that appear in the text
+function getRelevance(queryWords: Set<string>, text: string): number {
+  if (queryWords.size === 0) return 0;
+  const words = getWords(text);
+  let matches = 0;
+  queryWords.forEach(word => { if (words.has(word)) matches++; });
+  return matches / queryWords.size;
+}
+
+/**
+ * Project memory for a prompt: the summary, the most effective conventions and the prior tasks most like the query
+ */
+export function formatMemoryContext(
+  memory: Pick<ProjectAgentMemory, 'summary' | 'taskHistory' | 'codePatterns'>,
+  query: string,
+  limits: { patterns?: number; tasks?: number } = {}
+): { context: string; patterns: string[] } {
+  const patterns = memory.codePatterns
+    .filter(pattern => pattern.effectiveness >= MIN_INJECTED_EFFECTIVENESS)
+    .sort((a, b) => b.effectiveness - a.effectiveness || b.uses - a.uses)
+    .slice(0, limits.patterns ?? 6);
+
+  const queryWords = getWords(query);
+  const tasks = memory.taskHistory
+    .map(entry => ({ entry, relevance: getRelevance(queryWords, entry.task) }))
+    .filter(({ relevance }) => relevance > 0.2)
+    .sort((a, b) => b.relevance - a.relevance || b.entry.timestamp - a.entry.timestamp)
+    .slice(0, limits.tasks ?? 3)
+    .map(({ entry }) => entry);
+
+  const sections: string[] = [];
+  if (memory.summary) {
+    sections.push(`What earlier work on this project established:\n${memory.summary}`);
+  }
+  if (patterns.length > 0) {
+    sections.push(`Project conventions:\n${patterns.map(pattern => `- ${pattern.pattern}${pattern.context ? ` (${pattern.context})` : ''}`).join('\n')}`);
+  }
+  if (tasks.length > 0) {
+    sections.push(`Similar earlier tasks:\n${tasks.map(task => {
+      const outcome = task.outcome ? (task.outcome === 'success' ? 'succeeded' : 'failed') : (task.success ? 'completed' : 'failed');
+      return `- ${task.task} -> ${outcome}: ${truncate(task.result, 200)}`;
+    }).join('\n')}`);
+  }
+
+  return {
+    context: sections.length > 0 ? `**PROJECT MEMORY:**\n${sections.join('\n\n')}` : '',
+    patterns: patterns.map(pattern => pattern.pattern)
+  };
+}
+
+// Credits a session's outcome to the patterns it used; the set is consumed so an outcome counts once
+const RECORD_OUTCOME_SCRIPT = `
+local patterns = redis.call('SMEMBERS', KEYS[1])
+redis.call('DEL', KEYS[1])
+for _, pattern in ipairs(patterns) do
+  local effectiveness = redis.call('HGET', KEYS[2], pattern)
+  if effectiveness then
+    redis.call('HSET', KEYS[2], pattern, tonumber(effectiveness) * tonumber(ARGV[1]) + tonumber(ARGV[2]))
+  end
+end
+return #patterns
+`;
+
+type MemoryPart = typeof RedisKeys.AGENT_MEMORY_PARTS[number];
+
+// Upstash deserializes JSON values automatically, but only when they parse
+function parseStored<T>(value: unknown): T {
+  return typeof value === 'string' ? JSON.parse(value) : value as T;
+}
+
+/**
+ * Memory is kept in lists and hashes per project: agents of the same project running side by side append to
+ * the conversation and task lists and count pattern uses atomically, so no write overwrites another.
+ */
+export class AgentMemoryStore {
+  private static redis = redis;
+
+  private static key(projectId: string, part: MemoryPart): string {
+    return RedisKeys.projectAgentMemory(projectId, part);
+  }
+
+  static async load(projectId: string): Promise<ProjectAgentMemory | null> {
+    const pipeline = this.redis.pipeline();
+    pipeline.get(this.key(projectId, 'summary'));
+    pipeline.lrange(this.key(projectId, 'conversation'), 0, -1);
+    pipeline.lrange(this.key(projectId, 'tasks'), 0, -1);
+    pipeline.hgetall(this.key(projectId, 'outcomes'));
+    pipeline.hgetall(this.key(projectId, 'patterns'));
+    pipeline.hgetall(this.key(projectId, 'pattern-uses'));
+    pipeline.hgetall(this.key(projectId, 'pattern-effectiveness'));
+    const [summary, conversation, tasks, outcomes, patterns, uses, effectiveness] = await pipeline.exec<[
+      unknown,
+      unknown[],
+      unknown[],
+      Record<string, string> | null,
+      Record<string, unknown> | null,
+      Record<string, number> | null,
+      Record<string, number> | null
+    ]>();
+
+    if (!summary && conversation.length === 0 && tasks.length === 0 && !patterns) return null;
+
+    return {
+      projectId,
+      summary: summary ? String(summary) : '',
+      conversation: conversation.map(entry => parseStored<ConversationEntry>(entry)),
+      taskHistory: tasks.map(value => {
+        const entry = parseStored<MemoryTaskEntry>(value);
+        const outcome = entry.sessionId ? outcomes?.[entry.sessionId] : undefined;
+        return outcome === 'success' || outcome === 'failure'
+          ? { ...entry, outcome, success: outcome === 'success' }
+          : entry;
+      }),
+      codePatterns: Object.entries(patterns || {}).map(([pattern, value]) => {
+        const { context, createdAt } = parseStored<{ context: string; createdAt: number }>(value);
+        return {
+          pattern,
+          context,
+          effectiveness: Number(effectiveness?.[pattern] ?? INITIAL_EFFECTIVENESS),
+          uses: Number(uses?.[pattern] ?? 0),
+          createdAt
+        };
+      }),
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Add an agent's conversation, tasks and pattern uses; returns the length of the conversation afterwards
+   */
+  static async append(projectId: string, update: MemoryUpdate): Promise<number> {
+    const conversationKey = this.key(projectId, 'conversation');
+    const tasksKey = this.key(projectId, 'tasks');
+    const usesKey = this.key(projectId, 'pattern-uses');
+    const pipeline = this.redis.pipeline();
+
+    const conversation = (update.conversation || []).map(entry => JSON.stringify({
+      ...entry,
+      content: truncate(entry.content, MAX_ENTRY_LENGTH)
+    }));
+    if (conversation.length > 0) {
+      pipeline.rpush(conversationKey, ...conversation);
+      pipeline.expire(conversationKey, RedisKeys.TTL.PROJECT);
+    }
+
+    const tasks = (update.taskHistory || []).map(entry => JSON.stringify(entry));
+    if (tasks.length > 0) {
+      pipeline.rpush(tasksKey, ...tasks);
+      pipeline.ltrim(tasksKey, -MAX_TASK_HISTORY, -1);
+      pipeline.expire(tasksKey, RedisKeys.TTL.PROJECT);
+    }
+
+    const usedPatterns = update.usedPatterns || [];
+    if (usedPatterns.length > 0) {
+      usedPatterns.forEach(pattern => pipeline.hincrby(usesKey, pattern, 1));
+      pipeline.expire(usesKey, RedisKeys.TTL.PROJECT);
+      if (update.sessionId) {
+        const sessionPatternsKey = RedisKeys.sessionAgentMemoryPatterns(projectId, update.sessionId);
+        pipeline.sadd(sessionPatternsKey, usedPatterns[0], ...usedPatterns.slice(1));
+        pipeline.expire(sessionPatternsKey, RedisKeys.TTL.SESSION);
+      }
+    }
+
+    pipeline.llen(conversationKey);
+    const results = await pipeline.exec<unknown[]>();
+    return Number(results[results.length - 1]);
+  }
+
+  static needsCompaction(conversationLength: number): boolean {
+    return conversationLength > MAX_CONVERSATION_ENTRIES;
+  }
+
+  /**
+   * Fold all but the latest conversation entries into the summary and keep the conventions found in them
+   */
+  static async compact(projectId: string, summarize: MemorySummarizer): Promise<void> {
+    // One compaction at a time: two would each drop the entries they summarized
+    const lockKey = this.key(projectId, 'compaction-lock');
+    if (!(await this.redis.set(lockKey, Date.now(), { nx: true, ex: COMPACTION_LOCK_SECONDS }))) return;
+
+    try {
+      const memory = await this.load(projectId);
+      if (!memory || !this.needsCompaction(memory.conversation.length)) return;
+
+      const compacted = memory.conversation.slice(0, -RETAINED_CONVERSATION_ENTRIES);
+      const { summary, patterns } = await summarize(compacted, memory.summary);
+
+      const keys = {
+        conversation: this.key(projectId, 'conversation'),
+        summary: this.key(projectId, 'summary'),
+        outcomes: this.key(projectId, 'outcomes'),
+        patterns: this.key(projectId, 'patterns'),
+        uses: this.key(projectId, 'pattern-uses'),
+        effectiveness: this.key(projectId, 'pattern-effectiveness')
+      };
+      const pipeline = this.redis.pipeline();
+
+      // Entries are only appended, so trimming the summarized head keeps those appended meanwhile
+      pipeline.ltrim(keys.conversation, compacted.length, -1);
+      pipeline.set(keys.summary, summary, { ex: RedisKeys.TTL.PROJECT });
+
+      const now = Date.now();
+      const codePatterns = [...memory.codePatterns];
+      for (const { pattern, context } of patterns) {
+        if (!pattern?.trim() || codePatterns.some(existing => existing.pattern === pattern)) continue;
+        codePatterns.push({ pattern, context: context || '', effectiveness: INITIAL_EFFECTIVENESS, uses: 0, createdAt: now });
+        pipeline.hsetnx(keys.patterns, pattern, JSON.stringify({ context: context || '', createdAt: now }));
+        pipeline.hsetnx(keys.effectiveness, pattern, INITIAL_EFFECTIVENESS);
+      }
+
+      // Least effective conventions make room for new ones
+      const dropped = codePatterns
+        .sort((a, b) => b.effectiveness - a.effectiveness || b.createdAt - a.createdAt)
+        .slice(MAX_CODE_PATTERNS)
+        .map(pattern => pattern.pattern);
+      if (dropped.length > 0) {
+        pipeline.hdel(keys.patterns, ...dropped);
+        pipeline.hdel(keys.uses, ...dropped);
+        pipeline.hdel(keys.effectiveness, ...dropped);
+      }
+
+      // Outcomes are only kept for sessions still in the task history
+      const sessionIds = new Set(memory.taskHistory.map(entry => entry.sessionId));
+      const staleOutcomes = Object.keys(await this.redis.hgetall(keys.outcomes) || {})
+        .filter(sessionId => !sessionIds.has(sessionId));
+      if (staleOutcomes.length > 0) {
+        pipeline.hdel(keys.outcomes, ...staleOutcomes);
+      }
+
+      [keys.patterns, keys.uses, keys.effectiveness].forEach(key => pipeline.expire(key, RedisKeys.TTL.PROJECT));
+      await pipeline.exec();
+    } finally {
+      await this.redis.del(lockKey);
+    }
+  }
+
+  /**
+   * Apply a finished session's outcome to the tasks it ran and the conventions it used
+   */
+  static async recordSessionOutcome(projectId: string, sessionId: string, success: boolean): Promise<void> {
+    const outcomesKey = this.key(projectId, 'outcomes');
+    await this.redis.hset(outcomesKey, { [sessionId]: success ? 'success' : 'failure' });
+    await this.redis.expire(outcomesKey, RedisKeys.TTL.PROJECT);
+
+    await this.redis.eval(
+      RECORD_OUTCOME_SCRIPT,
+      [RedisKeys.sessionAgentMemoryPatterns(projectId, sessionId), this.key(projectId, 'pattern-effectiveness')],
+      [String(1 - EFFECTIVENESS_LEARNING_RATE), String(success ? EFFECTIVENESS_LEARNING_RATE : 0)]
+    );
+  }
+
+  static async clear(projectId: string): Promise<void> {
+    await this.redis.del(...RedisKeys.projectAgentMemoryKeys(projectId));
+  }
+}
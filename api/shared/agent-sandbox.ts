@@ -0,0 +1,27 @@
+// Agent Sandbox - the sandbox an agent session gets in the runtime it is in
+import { AgentSandbox, WorkspaceSandbox } from './workspace-sandbox';
+import { GitHubSandbox } from './github-sandbox';
+
+export type SessionSandbox = AgentSandbox & { dispose(): Promise<void> };
+
+/**
+ * 'workspace' where git and a writable disk are available, 'github' in Netlify functions, which have neither.
+ * AGENT_SANDBOX overrides the choice.
+ */
+export function getSandboxKind(): 'workspace' | 'github' {
+  const configured = process.env.AGENT_SANDBOX;
+  if (configured === 'workspace' || configured === 'github') return configured;
+  // Deployed Netlify functions run on AWS Lambda; `netlify dev` runs them locally
+  return process.env.AWS_LAMBDA_FUNCTION_NAME ? 'github' : 'workspace';
+}
+
+/**
+ * Sandbox for an agent session on a repository. Nothing is cloned or downloaded until the agent's tools need it.
+ * Call dispose() when the session ends.
+ */
+export async function createAgentSandbox(repositoryUrl: string, branch: string, baseBranch?: string): Promise<SessionSandbox> {
+  if (getSandboxKind() === 'github') {
+    return new GitHubSandbox(repositoryUrl, branch, { baseBranch });
+  }
+  return WorkspaceSandbox.create();
+}
@@ -1,6 +1,11 @@
 // AI File Processor for Agentic AI System
 import { CustomAIAgent } from './custom-ai-agent';
+import type { ModelRoute } from './model-router';
+import type { AgentSandbox } from './workspace-sandbox';
 import { EnhancedGitHubService } from '../../src/services/enhanced-github-service';
+import { AppliedHunk, applyPatch, parsePatch } from './patch-applier';
+import { CodeIssue, collectExports, findRemovedExports, findSyntaxIssues, formatCodeIssue, isParseableScript } from './code-validator';
+import { RepositoryIndex, buildChangeQuery, formatRepositoryContext } from './repository-indexer';
 
 export interface ChangeRequest {
   id: string;
@@ -23,6 +28,9 @@ export interface ProcessingResult {
   testSuggestions: string[];
   commitMessage: string;
   error?: string;
+  outputMode?: 'patch' | 'full';
+  hunks?: AppliedHunk[]; // Applied search/replace hunks when the model answered with a patch
+  validationIssues?: CodeIssue[]; // Located issues that made the generated code fail validation
 }
 
 export interface FileProcessingGroup {
@@ -36,33 +44,45 @@ export interface ValidationResult {
   isValid: boolean;
   issues: string[];
   securityConcerns: string[];
+  details?: CodeIssue[]; // Syntax, JSX and removed-export issues with their line/column
 }
 
+export interface FileProcessingOptions {
+  importedExports?: string[]; // Exports of this file that other files import and must keep
+  repositoryIndex?: RepositoryIndex; // Snippets related to the changes are added to the prompt
+  contextTokenBudget?: number; // Tokens of related snippets, defaults to REPOSITORY_CONTEXT_TOKEN_BUDGET
+  feedback?: string[]; // Why an earlier implementation of these changes was sent back
+}
+
+// Files with at least this many lines are edited through patches in 'auto' mode
+const PATCH_MODE_MIN_LINES = 150;
+
 export class AIFileProcessor {
   private aiAgent: CustomAIAgent;
   private githubService: EnhancedGitHubService;
   private maxRetries: number = 3;
-
-  constructor(aiProvider: 'anthropic' | 'openai' | 'google' | 'grok' = 'anthropic') {
-    // Create a minimal sandbox interface for the AI agent
-    const mockSandbox = {
-      readFile: async (path: string) => '',
-      writeFile: async (path: string, content: string) => { },
-      listFiles: async (path: string) => [],
-      gitClone: async (url: string, branch: string) => 'Cloned successfully',
-      gitCreateBranch: async (name: string) => 'Branch created',
-      gitCommit: async (message: string) => 'Committed',
-      runTests: async (path?: string) => 'Tests passed',
-      runCommand: async (command: string, options?: any) => 'Command executed',
-      createPullRequest: async (title: string, description: string) => ({ url: 'https://github.com/mock/pr' })
-    };
+  private outputMode: 'patch' | 'full' | 'auto';
+
+  constructor(
+    aiProvider: 'anthropic' | 'openai' | 'google' | 'grok' = 'anthropic',
+    options: {
+      outputMode?: 'patch' | 'full' | 'auto';
+      onModelRoute?: (route: ModelRoute) => void | Promise<void>; // Reports the provider/model serving each request
+      projectId?: string; // Project billed for token usage and held to its budget
+      sessionId?: string; // Session whose outcome is credited to the project memory used
+      sandbox?: AgentSandbox; // Backs the agent's file, git and command tools
+    } = {}
+  ) {
+    this.outputMode = options.outputMode || 'auto';
 
     this.aiAgent = new CustomAIAgent({
-      sessionId: 'file-processor',
-      sandbox: mockSandbox,
+      sessionId: options.sessionId || 'file-processor',
+      sandbox: options.sandbox || null,
       repositoryUrl: '',
       provider: aiProvider,
       model: 'default',
+      onModelRoute: options.onModelRoute,
+      projectId: options.projectId,
       projectContext: {
         componentRegistry: {},
         dependencies: {},
@@ -115,7 +135,7 @@ IMPORTANT: Respond with ONLY a valid JSON object, no additional text:
     let response: string | undefined;
     
     try {
-      response = await this.aiAgent.processRequest(prompt);
+      response = await this.aiAgent.processRequest(prompt, { task: 'validation' });
       
       // Extract JSON from response (handle cases where AI adds extra text)
       let jsonResponse = response;
@@ -241,24 +261,59 @@ IMPORTANT: Respond with ONLY a valid JSON object, no additional text:
   }
 
   /**
-   * Process changes for a single file with retry logic
+   * Process changes for a single file, editing large files through verified patches
+   * and falling back to whole-file generation when a patch cannot be applied
    */
   async processFileChanges(
     filePath: string,
     fileContent: string,
     changes: ChangeRequest[],
-    attempt: number = 1
+    attempt: number = 1,
+    options: FileProcessingOptions = {}
   ): Promise<ProcessingResult> {
-    const prompt = `
-You are a senior React/TypeScript developer. I need you to implement the following changes to this file:
+    if (attempt === 1 && this.shouldUsePatchMode(fileContent)) {
+      const patchResult = await this.processFileChangesAsPatch(filePath, fileContent, changes, options);
+      if (patchResult.success) {
+        return patchResult;
+      }
+      console.log(`[AI-PROCESSOR] Patch mode failed for ${filePath}: ${patchResult.error}. Falling back to whole-file mode`);
+      return this.processWholeFile(filePath, fileContent, changes, attempt, options, patchResult.validationIssues);
+    }
 
-File: ${filePath}
-Current content:
-\`\`\`typescript
-${fileContent}
-\`\`\`
+    return this.processWholeFile(filePath, fileContent, changes, attempt, options);
+  }
 
-Changes to implement:
+  private shouldUsePatchMode(fileContent: string): boolean {
+    if (this.outputMode === 'full' || !fileContent.trim()) {
+      return false;
+    }
+    return this.outputMode === 'patch' || fileContent.split('\n').length >= PATCH_MODE_MIN_LINES;
+  }
+
+  // Recorded in the project memory and matched against earlier tasks
+  private describeTask(filePath: string, changes: ChangeRequest[]): string {
+    return `${filePath}: ${changes.map(change => `${change.category} - ${change.feedback}`).join('; ')}`.slice(0, 300);
+  }
+
+  /**
+   * Sibling components, shared types and config related to the changes, within the token budget
+   */
+  private buildRepositoryContext(filePath: string, changes: ChangeRequest[], options: FileProcessingOptions): string {
+    if (!options.repositoryIndex) return '';
+
+    const snippets = options.repositoryIndex.retrieve(buildChangeQuery(filePath, changes), {
+      targetPath: filePath,
+      tokenBudget: options.contextTokenBudget
+    });
+    console.log(`[AI-PROCESSOR] Retrieved ${snippets.length} related snippets for ${filePath}`);
+    return formatRepositoryContext(snippets);
+  }
+
+  /**
+   * Requested changes and editing constraints, shared by the patch and whole-file prompts
+   */
+  private buildChangeInstructions(changes: ChangeRequest[]): string {
+    return `Changes to implement:
 ${changes.map((change, index) => `
 ${index + 1}. Component: ${change.componentId}
    Category: ${change.category}
@@ -293,9 +348,168 @@ IMPORTANT - MEDIA ASSETS:
   - Food: 1640777, 1565982, 1279330, 262978
   - People/Teams: 3184418, 3184465, 3153201, 1181519
 - Include alt text that describes the actual image content
+`;
+  }
+
+  /**
+   * Located issues from the previous attempt, so a retry fixes them instead of repeating them
+   */
+  private buildValidationFeedback(previousIssues: CodeIssue[]): string {
+    if (previousIssues.length === 0) return '';
+
+    return `
+YOUR PREVIOUS ATTEMPT WAS REJECTED. The generated file had these problems (line/column refer to that output,
+except removed exports which refer to the current content above):
+${previousIssues.map(issue => `- ${formatCodeIssue(issue)}`).join('\n')}
+
+Fix every one of these problems in this attempt. Keep all exports that other files import.
+`;
+  }
+
+  /**
+   * Notes from the team on an earlier implementation, so the new one addresses them
+   */
+  private buildTeamFeedback(feedback: string[] = []): string {
+    if (feedback.length === 0) return '';
+
+    return `
+AN EARLIER IMPLEMENTATION OF THESE CHANGES WAS SENT BACK with this feedback:
+${feedback.map(note => `- ${note}`).join('\n')}
+
+Implement the changes again from the current content above and address every point.
+`;
+  }
+
+  /**
+   * Ask for search/replace blocks instead of the whole file and apply them to the fetched content
+   */
+  private async processFileChangesAsPatch(
+    filePath: string,
+    fileContent: string,
+    changes: ChangeRequest[],
+    options: FileProcessingOptions
+  ): Promise<ProcessingResult> {
+    const prompt = `
+You are a senior React/TypeScript developer. I need you to implement the following changes to this file:
+
+File: ${filePath}
+Current content:
+\`\`\`typescript
+${fileContent}
+\`\`\`
+${this.buildRepositoryContext(filePath, changes, options)}
+${this.buildChangeInstructions(changes)}${this.buildTeamFeedback(options.feedback)}
+Do NOT return the whole file. Return only the edits as search/replace blocks. Each SEARCH section must
+copy the existing lines exactly (including indentation) and match exactly one location in the file.
+Label every block with the componentId it implements.
 
 Provide your response in this exact format:
 
+---METADATA---
+{
+  "success": true,
+  "explanation": "detailed explanation of what was changed",
+  "testSuggestions": ["list of tests that should be created for these changes"],
+  "commitMessage": "Clear, descriptive commit message for these changes",
+  "changesImplemented": ["list of change IDs that were successfully implemented"]
+}
+---PATCH---
+<<<<<<< SEARCH (componentId)
+[exact existing lines]
+=======
+[replacement lines]
+>>>>>>> REPLACE
+---END---
+
+If you cannot implement the changes safely, use this format:
+---METADATA---
+{
+  "success": false,
+  "error": "detailed explanation of why changes cannot be implemented"
+}
+---END---
+`;
+
+    const failure = (error: string, validationIssues?: CodeIssue[]): ProcessingResult => ({
+      success: false,
+      updatedContent: '',
+      explanation: '',
+      testSuggestions: [],
+      commitMessage: '',
+      outputMode: 'patch',
+      error,
+      validationIssues
+    });
+
+    try {
+      console.log(`[AI-PROCESSOR] Making patch request for file: ${filePath}`);
+      const response = await this.aiAgent.processRequest(prompt, {
+        task: 'generation',
+        memoryTask: this.describeTask(filePath, changes)
+      });
+
+      const metadataMatch = response.match(/---METADATA---([\s\S]*?)---(?:PATCH|END)---/);
+      const patchMatch = response.match(/---PATCH---([\s\S]*?)---END---/);
+      if (!metadataMatch) {
+        return failure('Response did not contain a METADATA section');
+      }
+
+      const metadata = JSON.parse(metadataMatch[1].trim());
+      if (!metadata.success) {
+        return failure(metadata.error || 'AI failed to process changes');
+      }
+      if (!patchMatch) {
+        return failure('Response did not contain a PATCH section');
+      }
+
+      const patch = applyPatch(fileContent, parsePatch(patchMatch[1]));
+      console.log(`[AI-PROCESSOR] Applied ${patch.applied.length} hunks to ${filePath}, ${patch.errors.length} errors`);
+      if (!patch.success) {
+        return failure(`Patch could not be applied: ${patch.errors.join('; ')}`);
+      }
+
+      const validationResult = await this.validateGeneratedCode(patch.content, filePath, fileContent, options.importedExports);
+      if (!validationResult.isValid) {
+        return failure(`Patched code failed validation: ${validationResult.issues.join(', ')}`, validationResult.details);
+      }
+
+      return {
+        success: true,
+        updatedContent: patch.content,
+        explanation: metadata.explanation,
+        testSuggestions: metadata.testSuggestions || [],
+        commitMessage: metadata.commitMessage || `Update ${filePath} with AI-generated changes`,
+        outputMode: 'patch',
+        hunks: patch.applied
+      };
+    } catch (error) {
+      return failure(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Process changes by regenerating the complete file, with retry logic
+   */
+  private async processWholeFile(
+    filePath: string,
+    fileContent: string,
+    changes: ChangeRequest[],
+    attempt: number = 1,
+    options: FileProcessingOptions = {},
+    previousIssues: CodeIssue[] = []
+  ): Promise<ProcessingResult> {
+    const prompt = `
+You are a senior React/TypeScript developer. I need you to implement the following changes to this file:
+
+File: ${filePath}
+Current content:
+\`\`\`typescript
+${fileContent}
+\`\`\`
+${this.buildRepositoryContext(filePath, changes, options)}
+${this.buildChangeInstructions(changes)}${this.buildTeamFeedback(options.feedback)}${this.buildValidationFeedback(previousIssues)}
+Provide your response in this exact format:
+
 ---METADATA---
 {
   "success": true,
@@ -326,7 +540,10 @@ If you cannot implement the changes safely, use this format:
       console.log(`[AI-PROCESSOR] File content length: ${fileContent.length} characters`);
       console.log(`[AI-PROCESSOR] Changes count: ${changes.length}`);
       
-      response = await this.aiAgent.processRequest(prompt);
+      response = await this.aiAgent.processRequest(prompt, {
+        task: 'generation',
+        memoryTask: this.describeTask(filePath, changes)
+      });
       
       console.log(`[AI-PROCESSOR] AI response received, length: ${response.length} characters`);
       console.log(`[AI-PROCESSOR] AI response preview: ${response.substring(0, 200)}...`);
@@ -384,7 +601,7 @@ If you cannot implement the changes safely, use this format:
         console.log(`[AI-PROCESSOR] Generated code preview: ${result.updatedContent?.substring(0, 200) || 'EMPTY'}...`);
 
         // Validate the generated code
-        const validationResult = await this.validateGeneratedCode(result.updatedContent, filePath);
+        const validationResult = await this.validateGeneratedCode(result.updatedContent, filePath, fileContent, options.importedExports);
         
         console.log(`[AI-PROCESSOR] Validation result: isValid=${validationResult.isValid}, issues=${validationResult.issues.length}`);
         if (validationResult.issues.length > 0) {
@@ -394,8 +611,8 @@ If you cannot implement the changes safely, use this format:
         if (!validationResult.isValid) {
           console.log(`[AI-PROCESSOR] Validation failed on attempt ${attempt}/${this.maxRetries}`);
           if (attempt < this.maxRetries) {
-            console.log(`Validation failed on attempt ${attempt}, retrying...`);
-            return this.processFileChanges(filePath, fileContent, changes, attempt + 1);
+            console.log(`Validation failed on attempt ${attempt}, retrying with validation feedback...`);
+            return this.processWholeFile(filePath, fileContent, changes, attempt + 1, options, validationResult.details);
           } else {
             return {
               success: false,
@@ -403,7 +620,8 @@ If you cannot implement the changes safely, use this format:
               explanation: '',
               testSuggestions: [],
               commitMessage: '',
-              error: `Code validation failed after ${this.maxRetries} attempts: ${validationResult.issues.join(', ')}`
+              error: `Code validation failed after ${this.maxRetries} attempts: ${validationResult.issues.join(', ')}`,
+              validationIssues: validationResult.details
             };
           }
         }
@@ -413,7 +631,8 @@ If you cannot implement the changes safely, use this format:
           updatedContent: result.updatedContent,
           explanation: result.explanation,
           testSuggestions: result.testSuggestions || [],
-          commitMessage: result.commitMessage || `Update ${filePath} with AI-generated changes`
+          commitMessage: result.commitMessage || `Update ${filePath} with AI-generated changes`,
+          outputMode: 'full'
         };
       } else {
         return {
@@ -431,7 +650,7 @@ If you cannot implement the changes safely, use this format:
       
       if (attempt < this.maxRetries) {
         console.log(`Processing failed on attempt ${attempt}, retrying...`);
-        return this.processFileChanges(filePath, fileContent, changes, attempt + 1);
+        return this.processWholeFile(filePath, fileContent, changes, attempt + 1, options);
       } else {
         const errorMessage = typeof error === 'object' && error !== null && 'message' in error ? (error as { message: string }).message : String(error);
         return {
@@ -449,24 +668,29 @@ If you cannot implement the changes safely, use this format:
   /**
    * Validate generated code for syntax and security
    */
-  private async validateGeneratedCode(code: string, filePath: string): Promise<ValidationResult> {
+  private async validateGeneratedCode(
+    code: string,
+    filePath: string,
+    originalContent: string = '',
+    importedExports: string[] = []
+  ): Promise<ValidationResult> {
     const issues: string[] = [];
     const securityConcerns: string[] = [];
+    const details: CodeIssue[] = [];
 
     // Basic syntax checks
     if (!code.trim()) {
       issues.push('Generated code is empty');
-    }
+    } else if (isParseableScript(filePath)) {
+      // Parse the output so syntax errors, unbalanced JSX and dropped exports are reported with their location
+      details.push(...findSyntaxIssues(code, filePath));
+      details.push(...findRemovedExports(originalContent, code, filePath, importedExports));
 
-    // Check for React/TypeScript patterns
-    if (filePath.endsWith('.tsx') || filePath.endsWith('.ts')) {
-      if (!code.includes('import') && code.length > 100) {
-        issues.push('Missing import statements for a substantial file');
+      if (filePath.endsWith('.tsx') && details.length === 0 && collectExports(code, filePath).size === 0) {
+        details.push({ kind: 'export', message: 'Component file has no exports', line: 1, column: 1 });
       }
 
-      if (filePath.endsWith('.tsx') && !code.includes('export') && code.length > 50) {
-        issues.push('Missing export statement for component file');
-      }
+      issues.push(...details.map(formatCodeIssue));
     }
 
     // Security checks
@@ -504,7 +728,7 @@ Check for:
 Return JSON: {"isValid": boolean, "issues": ["list of issues"]}
 `;
 
-        const aiResponse = await this.aiAgent.processRequest(validationPrompt);
+        const aiResponse = await this.aiAgent.processRequest(validationPrompt, { task: 'validation' });
         const aiResult = JSON.parse(aiResponse);
 
         if (!aiResult.isValid) {
@@ -518,7 +742,8 @@ Return JSON: {"isValid": boolean, "issues": ["list of issues"]}
     return {
       isValid: issues.length === 0 && securityConcerns.length === 0,
       issues,
-      securityConcerns
+      securityConcerns,
+      details
     };
   }
 
@@ -553,7 +778,7 @@ Return a JSON array of test suggestions:
 `;
 
     try {
-      const response = await this.aiAgent.processRequest(prompt);
+      const response = await this.aiAgent.processRequest(prompt, { task: 'summary' });
       const testSuggestions = JSON.parse(response);
       return Array.isArray(testSuggestions) ? testSuggestions : [];
     } catch (error) {
@@ -596,6 +821,33 @@ Return a JSON array of test suggestions:
     return message;
   }
 
+  /**
+   * Generate one commit message summarizing every change request of a submission
+   */
+  generateSubmissionCommitMessage(changes: ChangeRequest[], filePaths: string[]): string {
+    const categories = [...new Set(changes.map(c => c.category))];
+    const highPriority = changes.filter(c => c.priority === 'high' || c.priority === 'urgent').length;
+
+    let message = `feat: apply ${changes.length} change request${changes.length === 1 ? '' : 's'}`;
+    message += categories.length === 1 ? ` - ${categories[0]} improvements` : ' - multiple UI enhancements';
+
+    if (highPriority > 0) {
+      message += ` (${highPriority} high priority)`;
+    }
+
+    message += '\n\nChanges implemented:';
+    changes.forEach(change => {
+      message += `\n- ${change.componentId}: ${change.feedback}`;
+    });
+
+    message += '\n\nFiles updated:';
+    filePaths.forEach(filePath => {
+      message += `\n- ${filePath}`;
+    });
+
+    return message;
+  }
+
   /**
    * Process all file groups with comprehensive error handling
    */
@@ -0,0 +1,28 @@
+// Background Functions - hand a session's work to a Netlify background function (15 minute limit)
+
+/**
+ * Invoke a background function for a session; its stored submission says what to run.
+ * Resolves once Netlify accepted the invocation, long before the work is done.
+ */
+export async function dispatchBackgroundFunction(functionName: string, sessionId: string): Promise<void> {
+  const response = await fetch(`${process.env.URL}/.netlify/functions/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.ADMIN_API_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ sessionId })
+  });
+
+  // Background functions answer 202 once the invocation is accepted
+  if (response.status !== 202) {
+    throw new Error(`Failed to dispatch ${functionName} for session ${sessionId}: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Only dispatchBackgroundFunction may invoke background functions
+ */
+export function isDispatchAuthorized(authorization?: string): boolean {
+  return !!process.env.ADMIN_API_KEY && authorization?.replace('Bearer ', '') === process.env.ADMIN_API_KEY;
+}
@@ -0,0 +1,103 @@
+// Browser Driver - pluggable headless browser used to run preview deployment test scenarios
+import { chromium, firefox, webkit, type Browser, type BrowserType } from 'playwright';
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface BrowserPage {
+  goto(url: string): Promise<void>;
+  click(selector: string): Promise<void>;
+  type(selector: string, value: string): Promise<void>;
+  hover(selector: string): Promise<void>;
+  scroll(selector?: string): Promise<void>;
+  wait(ms: number): Promise<void>;
+  screenshot(): Promise<Buffer>;
+  isVisible(selector: string): Promise<boolean>;
+  textContent(selector: string): Promise<string | null>;
+  getAttribute(selector: string, name: string): Promise<string | null>;
+  getStyle(selector: string, property: string): Promise<string | null>;
+  count(selector: string): Promise<number>;
+  url(): string;
+  close(): Promise<void>;
+}
+
+export interface BrowserDriver {
+  readonly name: string;
+  /**
+   * Whether the driver can run here, e.g. its browser binaries are installed
+   */
+  isAvailable(): Promise<boolean>;
+  openPage(browser: BrowserName, viewport: Viewport, timeout: number): Promise<BrowserPage>;
+  close(): Promise<void>;
+}
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
+/**
+ * Playwright-backed driver. Browser binaries are installed separately: `npx playwright install chromium`
+ */
+export class PlaywrightBrowserDriver implements BrowserDriver {
+  readonly name = 'playwright';
+  private browsers = new Map<BrowserName, Browser>();
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.launch('chromium');
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ Playwright unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  private async launch(browserName: BrowserName): Promise<Browser> {
+    let browser = this.browsers.get(browserName);
+    if (!browser) {
+      browser = await BROWSER_TYPES[browserName].launch({ headless: true });
+      this.browsers.set(browserName, browser);
+    }
+    return browser;
+  }
+
+  async openPage(browserName: BrowserName, viewport: Viewport, timeout: number): Promise<BrowserPage> {
+    const browser = await this.launch(browserName);
+    const context = await browser.newContext({ viewport });
+    const page = await context.newPage();
+    page.setDefaultTimeout(timeout);
+
+    return {
+      goto: async url => { await page.goto(url, { waitUntil: 'load' }); },
+      click: async selector => { await page.click(selector); },
+      type: async (selector, value) => { await page.fill(selector, value); },
+      hover: async selector => { await page.hover(selector); },
+      scroll: async selector => {
+        if (selector) {
+          await page.locator(selector).first().scrollIntoViewIfNeeded();
+        } else {
+          await page.mouse.wheel(0, viewport.height);
+        }
+      },
+      wait: async ms => { await page.waitForTimeout(ms); },
+      screenshot: () => page.screenshot({ fullPage: true }),
+      isVisible: selector => page.locator(selector).first().isVisible(),
+      textContent: selector => page.locator(selector).first().textContent(),
+      getAttribute: (selector, name) => page.locator(selector).first().getAttribute(name),
+      getStyle: (selector, property) => page.locator(selector).first().evaluate(
+        (element, name) => getComputedStyle(element).getPropertyValue(name),
+        property
+      ),
+      count: selector => page.locator(selector).count(),
+      url: () => page.url(),
+      close: () => context.close()
+    };
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.browsers.values()).map(browser => browser.close().catch(() => undefined)));
+    this.browsers.clear();
+  }
+}
@@ -0,0 +1,318 @@
+// Build Verifier - build AI-generated changes in a temporary workspace before they are pushed
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { EnhancedGitHubService, FileChange } from '../../src/services/enhanced-github-service';
+import { ParsedError, DeploymentErrorInfo } from '../v1/types/project-types';
+import { getPrimaryErrorType, parseBuildLog } from '../v1/utils/build-error-parsers';
+import { fixCodeWithAI, isFixableError, LOCKFILES } from '../v1/utils/ai-error-utils';
+import type { ModelRoute } from './model-router';
+import { parseCommand } from './workspace-sandbox';
+
+const execFileAsync = promisify(execFile);
+
+// Build output kept for logs and AI prompts; parsers still see the full output
+const MAX_OUTPUT_LENGTH = 20000;
+// Shared by all steps of one verification; Netlify stops background functions after 15 minutes
+const DEFAULT_BUILD_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_BUILD_TIMEOUT_MS = 12 * 60 * 1000;
+
+export interface VerificationFile {
+  path: string;
+  content: string;
+}
+
+// Commands come from the server-side template, never from a request
+export interface BuildCommands {
+  installCommand?: string; // Detected from the lockfile when omitted
+  buildCommand?: string; // Template buildCommand, defaults to the package.json build script
+  testCommand?: string; // Only run when given
+}
+
+export interface BuildVerificationResult {
+  success: boolean;
+  skipped?: boolean; // No command to run, e.g. the repository has no package.json
+  failedStep?: 'checkout' | 'install' | 'build' | 'test';
+  command?: string;
+  output: string;
+  errors: ParsedError[];
+  duration: number;
+  lockfiles?: VerificationFile[]; // Rewritten by installing a changed package.json
+}
+
+export interface VerifyAndRepairOptions {
+  sessionId: string;
+  repoUrl: string;
+  branch: string;
+  commands?: BuildCommands;
+  aiProvider?: string;
+  maxRepairAttempts?: number;
+  projectId?: string;
+  onModelRoute?: (route: ModelRoute) => void | Promise<void>;
+  onProgress?: (message: string) => void | Promise<void>;
+}
+
+/**
+ * Verification runs commands on the server, so only the deployment can switch it on: LOCAL_BUILD_VERIFICATION=true
+ */
+export function isBuildVerificationEnabled(): boolean {
+  return process.env.LOCAL_BUILD_VERIFICATION === 'true';
+}
+
+export class BuildVerifier {
+  private githubService: EnhancedGitHubService;
+  private timeoutMs: number;
+
+  constructor(githubService: EnhancedGitHubService = new EnhancedGitHubService()) {
+    this.githubService = githubService;
+    this.timeoutMs = Math.min(Number(process.env.LOCAL_BUILD_TIMEOUT_MS) || DEFAULT_BUILD_TIMEOUT_MS, MAX_BUILD_TIMEOUT_MS);
+  }
+
+  /**
+   * Check out the branch, overlay the files and run install, build and test commands.
+   * `onBuilt` runs after every step passed, while the workspace and its build output still exist.
+   */
+  async verify(
+    repoUrl: string,
+    branch: string,
+    files: VerificationFile[],
+    commands: BuildCommands = {},
+    onBuilt?: (workspace: string) => Promise<void>
+  ): Promise<BuildVerificationResult> {
+    const startTime = Date.now();
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'geenius-verify-'));
+
+    try {
+      try {
+        await this.checkout(repoUrl, branch, workspace);
+        await this.writeFiles(workspace, files);
+      } catch (error) {
+        return {
+          success: false,
+          failedStep: 'checkout',
+          output: error instanceof Error ? error.message : String(error),
+          errors: [],
+          duration: Date.now() - startTime
+        };
+      }
+
+      const steps = await this.resolveSteps(workspace, files, commands);
+      if (!steps.some(step => step.name === 'build' || step.name === 'test')) {
+        return { success: true, skipped: true, output: 'No build or test command to run', errors: [], duration: Date.now() - startTime };
+      }
+
+      // Installing a changed package.json updates the lockfile, which has to be committed along with it
+      const lockfiles = files.some(file => file.path === 'package.json') ? await this.readLockfiles(workspace) : [];
+      let updatedLockfiles: VerificationFile[] = [];
+
+      const deadline = startTime + this.timeoutMs;
+      for (const step of steps) {
+        console.log(`[BUILD-VERIFIER] Running ${step.name}: ${step.command}`);
+        const { success, output } = await this.run(step.command, workspace, deadline - Date.now());
+
+        if (!success) {
+          return {
+            success: false,
+            failedStep: step.name,
+            command: step.command,
+            output: output.slice(-MAX_OUTPUT_LENGTH),
+            errors: parseBuildLog(output),
+            duration: Date.now() - startTime,
+            lockfiles: updatedLockfiles
+          };
+        }
+
+        if (step.name === 'install' && lockfiles.length > 0) {
+          updatedLockfiles = (await this.readLockfiles(workspace)).filter(lockfile =>
+            lockfiles.some(original => original.path === lockfile.path && original.content !== lockfile.content));
+        }
+      }
+
+      await onBuilt?.(workspace);
+      return { success: true, output: '', errors: [], duration: Date.now() - startTime, lockfiles: updatedLockfiles };
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private async checkout(repoUrl: string, branch: string, workspace: string): Promise<void> {
+    const archive = await this.githubService.downloadArchive(repoUrl, branch);
+    const archivePath = path.join(workspace, '.repo.tar.gz');
+    await fs.writeFile(archivePath, archive);
+    // GitHub wraps the tree in an "<owner>-<repo>-<sha>/" directory
+    await execFileAsync('tar', ['-xzf', archivePath, '--strip-components=1', '-C', workspace]);
+    await fs.rm(archivePath);
+  }
+
+  private async writeFiles(workspace: string, files: VerificationFile[]): Promise<void> {
+    for (const file of files) {
+      const filePath = path.resolve(workspace, file.path);
+      if (!filePath.startsWith(workspace + path.sep)) {
+        throw new Error(`Refusing to write outside the workspace: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.content);
+    }
+  }
+
+  private async readLockfiles(workspace: string): Promise<VerificationFile[]> {
+    const lockfiles = await Promise.all(LOCKFILES.map(async lockfile => {
+      const content = await fs.readFile(path.join(workspace, lockfile), 'utf-8').catch(() => null);
+      return content === null ? null : { path: lockfile, content };
+    }));
+    return lockfiles.filter((lockfile): lockfile is VerificationFile => lockfile !== null);
+  }
+
+  private async resolveSteps(
+    workspace: string,
+    files: VerificationFile[],
+    commands: BuildCommands
+  ): Promise<Array<{ name: 'install' | 'build' | 'test'; command: string }>> {
+    const packageJson = await fs.readFile(path.join(workspace, 'package.json'), 'utf-8')
+      .then(content => JSON.parse(content))
+      .catch(() => null);
+    if (!packageJson) return [];
+
+    const exists = (file: string) => fs.access(path.join(workspace, file)).then(() => true, () => false);
+    const packageJsonChanged = files.some(file => file.path === 'package.json');
+
+    let packageManager = 'npm';
+    let installCommand = packageJsonChanged ? 'npm install' : 'npm ci';
+    if (await exists('pnpm-lock.yaml')) {
+      packageManager = 'pnpm';
+      installCommand = `pnpm install ${packageJsonChanged ? '--no-frozen-lockfile' : '--frozen-lockfile'}`;
+    } else if (await exists('yarn.lock')) {
+      packageManager = 'yarn';
+      installCommand = 'yarn install';
+    } else if (!(await exists('package-lock.json'))) {
+      installCommand = 'npm install';
+    }
+
+    const buildCommand = commands.buildCommand
+      || (packageJson.scripts?.build ? `${packageManager} run build` : undefined);
+
+    const steps: Array<{ name: 'install' | 'build' | 'test'; command: string }> = [
+      { name: 'install', command: commands.installCommand || installCommand }
+    ];
+    if (buildCommand) steps.push({ name: 'build', command: buildCommand });
+    if (commands.testCommand) steps.push({ name: 'test', command: commands.testCommand });
+    return steps;
+  }
+
+  /**
+   * Run one command without a shell, and without the function's API keys and tokens in its environment
+   */
+  private async run(command: string, cwd: string, timeoutMs: number): Promise<{ success: boolean; output: string }> {
+    if (timeoutMs <= 0) {
+      return { success: false, output: `Timed out after ${Math.round(this.timeoutMs / 1000)}s` };
+    }
+
+    let args: string[];
+    try {
+      args = parseCommand(command);
+    } catch (error) {
+      return { success: false, output: error instanceof Error ? error.message : String(error) };
+    }
+
+    const home = path.join(cwd, '.verify-home');
+    await fs.mkdir(home, { recursive: true });
+    try {
+      const { stdout, stderr } = await execFileAsync(args[0], args.slice(1), {
+        cwd,
+        timeout: timeoutMs,
+        killSignal: 'SIGKILL',
+        maxBuffer: 50 * 1024 * 1024,
+        env: {
+          PATH: `${path.join(cwd, 'node_modules', '.bin')}${path.delimiter}${process.env.PATH || ''}`,
+          HOME: home,
+          LANG: 'C.UTF-8',
+          CI: 'true',
+          NODE_ENV: 'development'
+        }
+      });
+      return { success: true, output: `${stdout}\n${stderr}` };
+    } catch (error) {
+      const { stdout, stderr, killed, message } = error as { stdout?: string; stderr?: string; killed?: boolean; message: string };
+      const reason = killed ? `Timed out after ${Math.round(this.timeoutMs / 1000)}s` : message;
+      return { success: false, output: `${stdout || ''}\n${stderr || ''}\n${reason}` };
+    }
+  }
+}
+
+/**
+ * Verify the files and let the AI fix reported errors until the build passes or attempts run out.
+ * Returns the (possibly repaired) files; the caller commits them either way.
+ */
+export async function verifyAndRepair(
+  files: FileChange[],
+  options: VerifyAndRepairOptions
+): Promise<{ files: FileChange[]; result: BuildVerificationResult; repairedFiles: string[] }> {
+  const verifier = new BuildVerifier();
+  const githubService = new EnhancedGitHubService();
+  const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+  const progress = async (message: string) => { await options.onProgress?.(message); };
+
+  let currentFiles = [...files];
+  const repairedFiles = new Set<string>();
+
+  for (let attempt = 0; ; attempt++) {
+    await progress(attempt === 0
+      ? '🔨 Verifying build locally before pushing...'
+      : `🔨 Re-running local build (repair attempt ${attempt}/${maxRepairAttempts})...`);
+
+    const result = await verifier.verify(options.repoUrl, options.branch, currentFiles, options.commands);
+
+    for (const lockfile of result.lockfiles || []) {
+      currentFiles = withFile(currentFiles, lockfile.path, lockfile.content, `Update ${lockfile.path} for package.json`);
+      repairedFiles.add(lockfile.path);
+    }
+
+    if (result.success) {
+      await progress(result.skipped
+        ? `⏭️ Local build verification skipped: ${result.output}`
+        : `✅ Local build passed in ${Math.round(result.duration / 1000)}s`);
+      return { files: currentFiles, result, repairedFiles: Array.from(repairedFiles) };
+    }
+
+    await progress(`❌ Local ${result.failedStep} failed with ${result.errors.length} parsed errors`);
+
+    const fixableErrors = result.errors.filter(isFixableError);
+    if (result.failedStep === 'checkout' || fixableErrors.length === 0 || attempt >= maxRepairAttempts) {
+      return { files: currentFiles, result, repairedFiles: Array.from(repairedFiles) };
+    }
+
+    const errorInfo: DeploymentErrorInfo = {
+      errorType: getPrimaryErrorType(result.errors),
+      errors: result.errors,
+      buildLog: result.output,
+      canFix: true
+    };
+    const fixResult = await fixCodeWithAI(options.sessionId, errorInfo, options.repoUrl, options.aiProvider, {
+      projectId: options.projectId,
+      onModelRoute: options.onModelRoute,
+      // Fix the generated content, falling back to the branch for files the AI did not touch
+      getFileContent: async filePath => currentFiles.find(file => file.path === filePath)?.content
+        ?? githubService.getFileContent(options.repoUrl, filePath, options.branch)
+    });
+
+    if (!fixResult.success) {
+      await progress(`⚠️ AI could not fix local build errors: ${fixResult.explanation}`);
+      return { files: currentFiles, result, repairedFiles: Array.from(repairedFiles) };
+    }
+
+    for (const fix of fixResult.fixes) {
+      currentFiles = withFile(currentFiles, fix.file, fix.newContent, `Fix build errors in ${fix.file}`);
+      repairedFiles.add(fix.file);
+    }
+    await progress(`🤖 AI fixed ${fixResult.fixes.length} files: ${fixResult.fixes.map(fix => fix.file).join(', ')}`);
+  }
+}
+
+// Replaces the content of a file in the list, or adds the file with the message
+function withFile(files: FileChange[], filePath: string, content: string, message: string): FileChange[] {
+  return files.some(file => file.path === filePath)
+    ? files.map(file => file.path === filePath ? { ...file, content } : file)
+    : [...files, { path: filePath, content, message }];
+}
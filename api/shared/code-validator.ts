@@ -0,0 +1,164 @@
+// Code Validator - AST checks for generated TypeScript/JavaScript using the TypeScript compiler API
+import * as ts from 'typescript';
+
+export interface CodeIssue {
+  kind: 'syntax' | 'jsx' | 'export';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Whether the file is a script the validator can parse
+ */
+export function isParseableScript(filePath: string): boolean {
+  return getScriptKind(filePath) !== undefined;
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind | undefined {
+  const extension = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+  return SCRIPT_KINDS[extension];
+}
+
+function parseSourceFile(code: string, filePath: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, code, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+}
+
+function toPosition(sourceFile: ts.SourceFile, offset: number): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+/**
+ * Report syntax errors, including unbalanced or mismatched JSX tags, with their location
+ */
+export function findSyntaxIssues(code: string, filePath: string): CodeIssue[] {
+  if (!isParseableScript(filePath)) return [];
+
+  // transpileModule only reports syntactic diagnostics, so no type information or imports are needed
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: filePath,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      jsx: ts.JsxEmit.Preserve,
+      allowJs: true
+    }
+  });
+
+  const sourceFile = parseSourceFile(code, filePath);
+
+  return diagnostics
+    .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      return {
+        // 17xxx diagnostics are the JSX ones ("JSX element 'div' has no corresponding closing tag", ...)
+        kind: (diagnostic.code >= 17000 && diagnostic.code < 18000) || /JSX/.test(message) ? 'jsx' : 'syntax',
+        message,
+        ...toPosition(sourceFile, diagnostic.start ?? 0)
+      };
+    });
+}
+
+/**
+ * Collect the names a module exports, with 'default' for the default export
+ */
+export function collectExports(code: string, filePath: string): Map<string, { line: number; column: number }> {
+  const exports = new Map<string, { line: number; column: number }>();
+  if (!isParseableScript(filePath)) return exports;
+
+  const sourceFile = parseSourceFile(code, filePath);
+  const add = (name: string, node: ts.Node) => {
+    if (!exports.has(name)) {
+      exports.set(name, toPosition(sourceFile, node.getStart(sourceFile)));
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      add('default', statement);
+      continue;
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const clause = statement.exportClause;
+      if (clause && ts.isNamedExports(clause)) {
+        clause.elements.forEach(element => add(element.name.text, element));
+      } else if (clause && ts.isNamespaceExport(clause)) {
+        add(clause.name.text, clause);
+      }
+      // `export * from` re-exports can't be resolved without the target module
+      continue;
+    }
+
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) || [] : [];
+    if (!modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) continue;
+
+    if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+      add('default', statement);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        collectBindingNames(declaration.name).forEach(name => add(name, declaration));
+      });
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isModuleDeclaration(statement)) &&
+      statement.name && ts.isIdentifier(statement.name)
+    ) {
+      add(statement.name.text, statement);
+    }
+  }
+
+  return exports;
+}
+
+function collectBindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text];
+  return name.elements.flatMap(element =>
+    ts.isOmittedExpression(element) ? [] : collectBindingNames(element.name)
+  );
+}
+
+/**
+ * Report exports present in the original file that the updated file drops while other files still import them.
+ * Locations point at the declaration in the original file, since it no longer exists in the updated one.
+ */
+export function findRemovedExports(
+  originalCode: string,
+  updatedCode: string,
+  filePath: string,
+  importedExports: string[]
+): CodeIssue[] {
+  if (!isParseableScript(filePath) || importedExports.length === 0) return [];
+
+  const originalExports = collectExports(originalCode, filePath);
+  const updatedExports = collectExports(updatedCode, filePath);
+
+  return importedExports
+    .filter(name => originalExports.has(name) && !updatedExports.has(name))
+    .map(name => ({
+      kind: 'export',
+      message: `${name === 'default' ? 'Default export' : `Export '${name}'`} was removed but is imported by other files (originally declared at line ${originalExports.get(name)!.line})`,
+      ...originalExports.get(name)!
+    }));
+}
+
+/**
+ * Render an issue as a single line for logs and retry prompts
+ */
+export function formatCodeIssue(issue: CodeIssue): string {
+  return `[${issue.kind}] line ${issue.line}, column ${issue.column}: ${issue.message}`;
+}
@@ -1,17 +1,23 @@
 // netlify/functions/shared/custom-ai-agent.ts
 import { generateText, tool } from 'ai';
 import { z } from 'zod';
-import { anthropic } from '@ai-sdk/anthropic';
-import { openai } from '@ai-sdk/openai';
-import { google } from '@ai-sdk/google';
 import { PexelsService } from '../../src/services/pexels';
+import { AIProvider, ModelRoute, ModelRouter, ModelTask } from './model-router';
+import { BudgetExceededError, UsageTracker, estimateCost, readTokenUsage } from './usage-tracker';
+import type { AgentSandbox } from './workspace-sandbox';
+import { AgentMemoryStore, CodePattern, ConversationEntry, MemoryTaskEntry, formatMemoryContext } from './agent-memory';
 
 interface AgentConfig {
   sessionId: string;
-  sandbox: any;
+  sandbox: AgentSandbox | null; // Without one, the file, git, test and command tools are not offered
   repositoryUrl: string;
-  provider: 'anthropic' | 'openai' | 'google' | 'grok';
+  provider: AIProvider;
   model: string;
+  systemPrompt?: string; // The agent's role on a team, sent with every request
+  fallbackProviders?: AIProvider[]; // Tried in order when the provider fails, defaults to AI_PROVIDER_FALLBACKS
+  onModelRoute?: (route: ModelRoute) => void | Promise<void>; // Reports which provider/model served each request
+  projectId?: string; // Project billed for token usage; requests are refused once its budget is spent
+  persistMemory?: boolean; // Keep the agent's memory in Redis under projectId, on by default when projectId is set
   projectContext: {
     componentRegistry: any;
     dependencies: Record<string, string>;
@@ -21,20 +27,11 @@ interface AgentConfig {
 }
 
 interface AgentMemory {
-  conversation: Array<{ role: string; content: string; timestamp: number }>;
+  conversation: ConversationEntry[];
   projectContext: any;
-  taskHistory: Array<{
-    task: string;
-    approach: string;
-    result: string;
-    success: boolean;
-    timestamp: number;
-  }>;
-  codePatterns: Array<{
-    pattern: string;
-    context: string;
-    effectiveness: number;
-  }>;
+  summary: string; // Older conversation, compacted
+  taskHistory: MemoryTaskEntry[];
+  codePatterns: CodePattern[];
 }
 
 interface AgentResult {
@@ -56,18 +53,30 @@ export class CustomAIAgent {
   private memory: AgentMemory;
   private tools: Map<string, any>;
   private pexelsService: PexelsService;
+  private router: ModelRouter;
+  private memoryLoad?: Promise<void>;
+  // Added since the memory was last persisted
+  private unsavedConversation: ConversationEntry[] = [];
+  private unsavedTasks: MemoryTaskEntry[] = [];
+  private usedPatterns = new Set<string>();
 
   constructor(config: AgentConfig) {
     this.config = config;
     this.memory = this.initializeMemory();
     this.tools = new Map();
     this.pexelsService = new PexelsService();
+    this.router = new ModelRouter({
+      provider: config.provider,
+      model: config.model,
+      fallbackProviders: config.fallbackProviders
+    });
   }
 
   private initializeMemory(): AgentMemory {
     return {
       conversation: [],
       projectContext: this.config.projectContext,
+      summary: '',
       taskHistory: [],
       codePatterns: []
     };
@@ -78,117 +87,10 @@ export class CustomAIAgent {
   }
 
   private async registerTools(): Promise<void> {
-    // File system tools
-    this.tools.set('read_file', tool({
-      description: 'Read the contents of a file in the sandbox',
-      parameters: z.object({
-        path: z.string().describe('File path to read')
-      }),
-      execute: async ({ path }) => {
-        return await this.config.sandbox.readFile(path);
-      }
-    }));
-
-    this.tools.set('write_file', tool({
-      description: 'Write or update a file in the sandbox',
-      parameters: z.object({
-        path: z.string().describe('File path to write'),
-        content: z.string().describe('File content')
-      }),
-      execute: async ({ path, content }) => {
-        await this.config.sandbox.writeFile(path, content);
-        return `File ${path} updated successfully`;
-      }
-    }));
-
-    this.tools.set('list_files', tool({
-      description: 'List files and directories in a given path',
-      parameters: z.object({
-        path: z.string().optional().describe('Directory path to list (defaults to current directory)')
-      }),
-      execute: async ({ path = '.' }) => {
-        return await this.config.sandbox.listFiles(path);
-      }
-    }));
-
-    // Git operations
-    this.tools.set('git_clone', tool({
-      description: 'Clone a repository into the sandbox',
-      parameters: z.object({
-        repositoryUrl: z.string().describe('Git repository URL'),
-        branch: z.string().optional().describe('Branch to checkout (defaults to develop)')
-      }),
-      execute: async ({ repositoryUrl, branch = 'develop' }) => {
-        return await this.config.sandbox.gitClone(repositoryUrl, branch);
-      }
-    }));
-
-    this.tools.set('git_create_branch', tool({
-      description: 'Create and switch to a new git branch',
-      parameters: z.object({
-        branchName: z.string().describe('Name of the new branch')
-      }),
-      execute: async ({ branchName }) => {
-        return await this.config.sandbox.gitCreateBranch(branchName);
-      }
-    }));
-
-    this.tools.set('git_commit', tool({
-      description: 'Commit changes to git',
-      parameters: z.object({
-        message: z.string().describe('Commit message')
-      }),
-      execute: async ({ message }) => {
-        return await this.config.sandbox.gitCommit(message);
-      }
-    }));
-
-    // Testing tools
-    this.tools.set('run_tests', tool({
-      description: 'Run the project test suite',
-      parameters: z.object({
-        testPath: z.string().optional().describe('Specific test file or directory to run')
-      }),
-      execute: async ({ testPath }) => {
-        return await this.config.sandbox.runTests(testPath);
-      }
-    }));
-
-    this.tools.set('create_test', tool({
-      description: 'Create a test file for a component',
-      parameters: z.object({
-        componentPath: z.string().describe('Path to the component file'),
-        testType: z.enum(['unit', 'integration', 'e2e']).describe('Type of test to create')
-      }),
-      execute: async ({ componentPath, testType }) => {
-        return await this.createTest(componentPath, testType);
-      }
-    }));
-
-    // Command execution
-    this.tools.set('run_command', tool({
-      description: 'Run a shell command in the sandbox',
-      parameters: z.object({
-        command: z.string().describe('Command to execute'),
-        workingDir: z.string().optional().describe('Working directory for the command')
-      }),
-      execute: async ({ command, workingDir = '.' }) => {
-        return await this.config.sandbox.runCommand(command, { cwd: workingDir });
-      }
-    }));
-
-    // GitHub operations
-    this.tools.set('create_pull_request', tool({
-      description: 'Create a pull request on GitHub',
-      parameters: z.object({
-        title: z.string().describe('PR title'),
-        changes: z.array(z.any()).describe('List of changes made'),
-        sessionId: z.string().describe('Session ID for tracking')
-      }),
-      execute: async ({ title, changes, sessionId }) => {
-        return await this.createPullRequest(title, changes, sessionId);
-      }
-    }));
+    const sandbox = this.config.sandbox;
+    if (sandbox) {
+      this.registerSandboxTools(sandbox);
+    }
 
     // Deployment monitoring
     this.tools.set('wait_for_deployment', tool({
@@ -391,12 +293,148 @@ export class CustomAIAgent {
     }));
   }
 
+  /**
+   * File, git, test and command tools backed by the sandbox. Failures are returned to the model instead of ending the task.
+   */
+  private registerSandboxTools(sandbox: AgentSandbox): void {
+    // File system tools
+    this.tools.set('read_file', tool({
+      description: 'Read the contents of a file in the sandbox',
+      parameters: z.object({
+        path: z.string().describe('File path to read')
+      }),
+      execute: async ({ path }) => {
+        return this.runSandboxTool(() => sandbox.readFile(path));
+      }
+    }));
+
+    this.tools.set('write_file', tool({
+      description: 'Write or update a file in the sandbox',
+      parameters: z.object({
+        path: z.string().describe('File path to write'),
+        content: z.string().describe('File content')
+      }),
+      execute: async ({ path, content }) => {
+        return this.runSandboxTool(async () => {
+          await sandbox.writeFile(path, content);
+          return `File ${path} updated successfully`;
+        });
+      }
+    }));
+
+    this.tools.set('list_files', tool({
+      description: 'List files and directories in a given path',
+      parameters: z.object({
+        path: z.string().optional().describe('Directory path to list (defaults to current directory)')
+      }),
+      execute: async ({ path = '.' }) => {
+        return this.runSandboxTool(() => sandbox.listFiles(path));
+      }
+    }));
+
+    // Git operations
+    this.tools.set('git_clone', tool({
+      description: 'Clone a repository into the sandbox',
+      parameters: z.object({
+        repositoryUrl: z.string().describe('Git repository URL'),
+        branch: z.string().optional().describe('Branch to checkout (defaults to develop)')
+      }),
+      execute: async ({ repositoryUrl, branch = 'develop' }) => {
+        return this.runSandboxTool(() => sandbox.gitClone(repositoryUrl, branch));
+      }
+    }));
+
+    this.tools.set('git_create_branch', tool({
+      description: 'Create and switch to a new git branch',
+      parameters: z.object({
+        branchName: z.string().describe('Name of the new branch')
+      }),
+      execute: async ({ branchName }) => {
+        return this.runSandboxTool(() => sandbox.gitCreateBranch(branchName));
+      }
+    }));
+
+    this.tools.set('git_commit', tool({
+      description: 'Commit changes to git',
+      parameters: z.object({
+        message: z.string().describe('Commit message')
+      }),
+      execute: async ({ message }) => {
+        return this.runSandboxTool(() => sandbox.gitCommit(message));
+      }
+    }));
+
+    // Testing tools; sandboxes without a process to run them in, like GitHubSandbox, leave these out
+    const { runTests, runCommand } = sandbox;
+    if (runTests) {
+      this.tools.set('run_tests', tool({
+        description: 'Run the project test suite',
+        parameters: z.object({
+          testPath: z.string().optional().describe('Specific test file or directory to run')
+        }),
+        execute: async ({ testPath }) => {
+          return this.runSandboxTool(() => runTests.call(sandbox, testPath));
+        }
+      }));
+    }
+
+    this.tools.set('create_test', tool({
+      description: 'Create a test file for a component',
+      parameters: z.object({
+        componentPath: z.string().describe('Path to the component file'),
+        testType: z.enum(['unit', 'integration', 'e2e']).describe('Type of test to create')
+      }),
+      execute: async ({ componentPath, testType }) => {
+        return this.runSandboxTool(() => this.createTest(sandbox, componentPath, testType));
+      }
+    }));
+
+    // Command execution
+    if (runCommand) {
+      this.tools.set('run_command', tool({
+        description: 'Run a command in the sandbox, e.g. npm run build or tsc --noEmit. Commands are allow-listed and run without a shell, so pipes and && are not available.',
+        parameters: z.object({
+          command: z.string().describe('Command to execute'),
+          workingDir: z.string().optional().describe('Working directory for the command')
+        }),
+        execute: async ({ command, workingDir = '.' }) => {
+          return this.runSandboxTool(() => runCommand.call(sandbox, command, { cwd: workingDir }));
+        }
+      }));
+    }
+
+    // GitHub operations
+    this.tools.set('create_pull_request', tool({
+      description: 'Create a pull request on GitHub',
+      parameters: z.object({
+        title: z.string().describe('PR title'),
+        changes: z.array(z.any()).describe('List of changes made'),
+        sessionId: z.string().describe('Session ID for tracking')
+      }),
+      execute: async ({ title, changes, sessionId }) => {
+        return this.runSandboxTool(() => this.createPullRequest(sandbox, title, changes, sessionId));
+      }
+    }));
+  }
+
+  private async runSandboxTool<T>(operation: () => Promise<T>): Promise<T | { success: false; error: string }> {
+    try {
+      return await operation();
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   async processTask(
     prompt: string, 
     options: {
       reasoning: boolean;
       maxSteps: number;
       onProgress?: (step: string, agent?: string) => Promise<void>;
+      memoryTask?: string; // Short description of the task; only tasks with one are added to the project memory
     }
   ): Promise<AgentResult> {
     const reasoning: string[] = [];
@@ -409,12 +447,8 @@ export class CustomAIAgent {
     }> = [];
 
     try {
-      // Add task to memory
-      this.memory.conversation.push({
-        role: 'user',
-        content: prompt,
-        timestamp: Date.now()
-      });
+      await this.loadMemory();
+      const memoryContext = options.memoryTask ? this.getMemoryContext(options.memoryTask) : '';
 
       if (options.reasoning) {
         reasoning.push('🧠 Analyzing task and generating execution plan...');
@@ -430,7 +464,7 @@ ${Array.from(this.tools.keys()).map(tool => `- ${tool}`).join('\n')}
 - Repository: ${this.config.repositoryUrl}
 - Framework: ${this.memory.projectContext.framework}
 - Component Registry: ${JSON.stringify(this.memory.projectContext.componentRegistry, null, 2)}
-
+${memoryContext ? `\n${memoryContext}\n` : ''}
 **YOUR APPROACH:**
 1. Analyze the task thoroughly
 2. Break it down into actionable steps
@@ -457,22 +491,28 @@ ${Array.from(this.tools.keys()).map(tool => `- ${tool}`).join('\n')}
 Start by analyzing the current codebase structure, then implement the requested changes step by step.`;
 
       // Use AI SDK with all registered tools
-      const result = await generateText({
-        model: this.getModelString(),
+      const result = await this.generate('general', model => generateText({
+        model,
+        system: this.config.systemPrompt,
         prompt: `${systemPrompt}\n\nTask: ${prompt}`,
         tools: Object.fromEntries(this.tools.entries()),
         maxSteps: options.maxSteps,
         temperature: 0.1
-      });
-
-      // Store successful task in memory
-      this.memory.taskHistory.push({
-        task: prompt,
-        approach: `${result.steps?.length || 0} steps executed`,
-        result: result.text.slice(0, 500),
-        success: true,
-        timestamp: Date.now()
-      });
+      }));
+
+      // Store a summary of the successful task in memory
+      if (options.memoryTask) {
+        const summary = result.text.slice(0, 500);
+        this.remember({ role: 'user', content: options.memoryTask, timestamp: Date.now() });
+        this.remember({ role: 'assistant', content: summary, timestamp: Date.now() });
+        this.recordTask({
+          task: options.memoryTask,
+          approach: `${result.steps?.length || 0} steps executed`,
+          result: summary,
+          success: true
+        });
+        await this.saveMemory();
+      }
 
       return {
         success: true,
@@ -488,6 +528,10 @@ Start by analyzing the current codebase structure, then implement the requested
       };
 
     } catch (error) {
+      if (options.memoryTask) {
+        this.recordTask({ task: options.memoryTask, approach: 'failed', result: error.message, success: false });
+        await this.saveMemory();
+      }
       return {
         success: false,
         error: error.message,
@@ -506,8 +550,8 @@ Start by analyzing the current codebase structure, then implement the requested
     return await tool.execute(parameters);
   }
 
-  private async createTest(componentPath: string, testType: string): Promise<any> {
-    const componentCode = await this.config.sandbox.readFile(componentPath);
+  private async createTest(sandbox: AgentSandbox, componentPath: string, testType: string): Promise<any> {
+    const componentCode = await sandbox.readFile(componentPath);
     const componentName = componentPath.split('/').pop()?.replace('.tsx', '');
     
     const testPrompt = `Create a comprehensive ${testType} test for this React component:
@@ -527,14 +571,14 @@ Create tests that cover:
 
 Use Jest and React Testing Library. Provide the complete test file.`;
 
-    const testResult = await generateText({
-      model: this.getModelString(),
+    const testResult = await this.generate('generation', model => generateText({
+      model,
       prompt: testPrompt,
       temperature: 0.1
-    });
+    }));
 
     const testPath = componentPath.replace('.tsx', '.test.tsx');
-    await this.config.sandbox.writeFile(testPath, testResult.text);
+    await sandbox.writeFile(testPath, testResult.text);
     
     return {
       testPath,
@@ -544,7 +588,7 @@ Use Jest and React Testing Library. Provide the complete test file.`;
     };
   }
 
-  private async createPullRequest(title: string, changes: any[], sessionId: string): Promise<any> {
+  private async createPullRequest(sandbox: AgentSandbox, title: string, changes: any[], sessionId: string): Promise<any> {
     const description = `# AI-Generated Improvements
 
 This pull request contains ${changes.length} AI-generated improvements:
@@ -556,7 +600,7 @@ ${changes.map((change, index) =>
 🤖 Generated automatically by Geenius AI Agent
 Session ID: ${sessionId}`;
 
-    return await this.config.sandbox.createPullRequest(title, description);
+    return await sandbox.createPullRequest(title, description);
   }
 
   private async waitForDeployment(branchName: string): Promise<any> {
@@ -568,15 +612,147 @@ Session ID: ${sessionId}`;
     };
   }
 
-  private getModelString(): any {
-    const modelMap = {
-      'anthropic': anthropic('claude-sonnet-4-20250514'),
-      'openai': openai('gpt-4-turbo'),
-      'google': google('gemini-pro'),
-      'grok': anthropic('claude-sonnet-4-20250514') // Fallback to Claude for Grok
+  /**
+   * Run a model request through the router, account for its token usage and report which provider served it
+   */
+  private async generate<T>(
+    task: ModelTask,
+    request: (model: any, maxOutputTokens: number) => Promise<T>
+  ): Promise<T> {
+    if (this.config.projectId) {
+      await UsageTracker.assertWithinBudget(this.config.projectId);
+    }
+
+    const { result, route } = await this.router.run(task, request);
+    route.usage = readTokenUsage(result);
+    route.estimatedCost = estimateCost(route.modelId, route.usage);
+
+    if (this.config.projectId) {
+      try {
+        await UsageTracker.recordUsage(this.config.projectId, route);
+      } catch (error) {
+        console.warn('Failed to record token usage:', error);
+      }
+    }
+
+    if (route.fallback) {
+      console.warn(`🔀 ${task} request served by fallback provider ${route.provider}/${route.modelId}`);
+    }
+    if (this.config.onModelRoute) {
+      try {
+        await this.config.onModelRoute(route);
+      } catch (error) {
+        console.warn('Failed to record model route:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private get persistsMemory(): boolean {
+    return !!this.config.projectId && this.config.persistMemory !== false;
+  }
+
+  /**
+   * Load the project's persisted memory once, before the first request
+   */
+  private loadMemory(): Promise<void> {
+    if (!this.persistsMemory) return Promise.resolve();
+
+    if (!this.memoryLoad) {
+      this.memoryLoad = AgentMemoryStore.load(this.config.projectId!)
+        .then(stored => {
+          if (!stored) return;
+          this.memory = {
+            ...this.memory,
+            summary: stored.summary,
+            conversation: [...stored.conversation, ...this.memory.conversation],
+            taskHistory: [...stored.taskHistory, ...this.memory.taskHistory],
+            codePatterns: stored.codePatterns
+          };
+        })
+        .catch(error => console.warn('Failed to load agent memory:', error));
+    }
+    return this.memoryLoad;
+  }
+
+  private remember(entry: ConversationEntry): void {
+    this.memory.conversation.push(entry);
+    this.unsavedConversation.push(entry);
+  }
+
+  private recordTask(entry: Omit<MemoryTaskEntry, 'timestamp' | 'sessionId'>): void {
+    const task: MemoryTaskEntry = { ...entry, timestamp: Date.now(), sessionId: this.config.sessionId };
+    this.memory.taskHistory.push(task);
+    this.unsavedTasks.push(task);
+  }
+
+  // Conventions put in a prompt are credited with (or blamed for) the session's outcome
+  private getMemoryContext(query: string): string {
+    const { context, patterns } = formatMemoryContext(this.memory, query);
+    patterns.forEach(pattern => this.usedPatterns.add(pattern));
+    return context;
+  }
+
+  /**
+   * Persist what this agent added to the project's memory, compacting the memory once its conversation grows
+   */
+  private async saveMemory(): Promise<void> {
+    if (!this.persistsMemory) return;
+
+    const update = {
+      conversation: this.unsavedConversation.splice(0),
+      taskHistory: this.unsavedTasks.splice(0),
+      usedPatterns: [...this.usedPatterns],
+      sessionId: this.config.sessionId
+    };
+    this.usedPatterns.clear();
+    if (update.conversation.length === 0 && update.taskHistory.length === 0 && update.usedPatterns.length === 0) return;
+
+    try {
+      const conversationLength = await AgentMemoryStore.append(this.config.projectId!, update);
+      if (AgentMemoryStore.needsCompaction(conversationLength)) {
+        await AgentMemoryStore.compact(this.config.projectId!, (entries, previousSummary) => this.summarizeMemory(entries, previousSummary));
+      }
+    } catch (error) {
+      console.warn('Failed to save agent memory:', error);
+    }
+  }
+
+  private async summarizeMemory(
+    entries: ConversationEntry[],
+    previousSummary: string
+  ): Promise<{ summary: string; patterns: Array<{ pattern: string; context: string }> }> {
+    const prompt = `You maintain the long-term memory of an AI agent that keeps working on the same software project.
+
+${previousSummary ? `Current memory:\n${previousSummary}\n\n` : ''}Recent requests and responses:
+${entries.map(entry => `[${entry.role}] ${entry.content}`).join('\n\n')}
+
+Update the memory. Keep what later work on this project needs: decisions, file layout, naming and styling conventions,
+libraries in use, and mistakes to avoid. Drop one-off details. Stay under 300 words.
+
+Also list the conventions the code follows, each as one short imperative sentence.
+
+Respond with JSON only:
+{"summary": "...", "conventions": [{"pattern": "...", "context": "where or when it applies"}]}`;
+
+    const result = await this.generate('summary', (model, maxOutputTokens) => generateText({
+      model,
+      prompt,
+      temperature: 0.1,
+      maxTokens: maxOutputTokens
+    }));
+
+    const json = result.text.match(/\{[\s\S]*\}/);
+    const parsed = json ? JSON.parse(json[0]) : null;
+    if (!parsed?.summary) {
+      throw new Error('Memory summary response was not valid JSON');
+    }
+
+    return {
+      summary: String(parsed.summary),
+      patterns: Array.isArray(parsed.conventions) ? parsed.conventions : []
     };
-    
-    return modelMap[this.config.provider] || anthropic('claude-sonnet-4-20250514');
   }
 
   async getStats(): Promise<any> {
@@ -601,8 +777,9 @@ Session ID: ${sessionId}`;
   }
 
   async switchProvider(newConfig: { provider: string; apiKey: string; model: string }): Promise<void> {
-    this.config.provider = newConfig.provider as any;
-    // In real implementation, update provider configuration
+    this.config.provider = newConfig.provider as AIProvider;
+    this.config.model = newConfig.model;
+    this.router.setProvider(this.config.provider, newConfig.model);
   }
 
   async getMemoryStats(): Promise<any> {
@@ -610,39 +787,49 @@ Session ID: ${sessionId}`;
       conversationLength: this.memory.conversation.length,
       taskHistoryLength: this.memory.taskHistory.length,
       codePatternsLength: this.memory.codePatterns.length,
+      summaryLength: this.memory.summary?.length || 0,
       lastActivity: this.memory.conversation[this.memory.conversation.length - 1]?.timestamp
     };
   }
 
   /**
-   * Process a single request with the AI agent
+   * Process a single request with the AI agent, using the model chosen for the task.
+   * With a memoryTask, the project memory relevant to it is added to the prompt and a summary of the request is recorded in it; requests without one leave no trace in the memory.
    */
-  async processRequest(prompt: string): Promise<string> {
+  async processRequest(prompt: string, options: { task?: ModelTask; memoryTask?: string } = {}): Promise<string> {
     try {
-      const result = await generateText({
-        model: this.getModelString(),
-        prompt: prompt,
+      await this.loadMemory();
+      const memoryContext = options.memoryTask ? this.getMemoryContext(options.memoryTask) : '';
+
+      const result = await this.generate(options.task || 'general', (model, maxOutputTokens) => generateText({
+        model,
+        system: this.config.systemPrompt,
+        prompt: memoryContext ? `${memoryContext}\n\n${prompt}` : prompt,
         temperature: 0.1,
-        maxTokens: 48000
-      });
-
-      // Store in memory
-      this.memory.conversation.push({
-        role: 'user',
-        content: prompt,
-        timestamp: Date.now()
-      });
-      
-      this.memory.conversation.push({
-        role: 'assistant',
-        content: result.text,
-        timestamp: Date.now()
-      });
+        maxTokens: maxOutputTokens
+      }));
+
+      // Store a summary of the task in memory
+      if (options.memoryTask) {
+        const summary = result.text.slice(0, 500);
+        this.remember({ role: 'user', content: options.memoryTask, timestamp: Date.now() });
+        this.remember({ role: 'assistant', content: summary, timestamp: Date.now() });
+        this.recordTask({ task: options.memoryTask, approach: `${options.task || 'general'} request`, result: summary, success: true });
+        await this.saveMemory();
+      }
 
       return result.text;
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (options.memoryTask) {
+        this.recordTask({ task: options.memoryTask, approach: `${options.task || 'general'} request`, result: message, success: false });
+        await this.saveMemory();
+      }
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       console.error('AI processing error:', error);
-      throw new Error(`AI request failed: ${error.message}`);
+      throw new Error(`AI request failed: ${message}`);
     }
   }
 }
@@ -4,6 +4,7 @@ import { EnhancedGitHubService } from '../../src/services/enhanced-github-servic
 export interface DependencyInfo {
   imports: string[];
   exports: string[];
+  importedNames: Record<string, string[]>; // Resolved local file path -> names imported from it ('default' for default imports)
   relatedFiles: string[];
   affectedComponents: string[];
   dependencyTree: DependencyNode[];
@@ -39,7 +40,8 @@ export class DependencyAnalyzer {
   async analyzeMultipleFiles(
     repoUrl: string,
     filePaths: string[],
-    changes: any[]
+    changes: any[],
+    branch?: string
   ): Promise<{
     dependencyMap: Map<string, DependencyInfo>;
     processingOrder: string[];
@@ -49,7 +51,7 @@ export class DependencyAnalyzer {
     const allFiles = new Set(filePaths);
 
     // First, retrieve and cache all file contents
-    await this.cacheFileContents(repoUrl, filePaths);
+    await this.cacheFileContents(repoUrl, filePaths, branch);
 
     // Analyze each file's dependencies
     for (const filePath of filePaths) {
@@ -70,7 +72,7 @@ export class DependencyAnalyzer {
     // Analyze additional related files
     const additionalFiles = Array.from(allFiles).filter(f => !filePaths.includes(f));
     if (additionalFiles.length > 0) {
-      await this.cacheFileContents(repoUrl, additionalFiles);
+      await this.cacheFileContents(repoUrl, additionalFiles, branch);
       for (const filePath of additionalFiles) {
         const content = this.fileCache.get(filePath);
         if (content) {
@@ -96,11 +98,11 @@ export class DependencyAnalyzer {
   /**
    * Cache file contents for analysis
    */
-  private async cacheFileContents(repoUrl: string, filePaths: string[]): Promise<void> {
+  private async cacheFileContents(repoUrl: string, filePaths: string[], branch?: string): Promise<void> {
     const uncachedFiles = filePaths.filter(path => !this.fileCache.has(path));
     
     if (uncachedFiles.length > 0) {
-      const fileContents = await this.githubService.retrieveFiles(repoUrl, uncachedFiles);
+      const fileContents = await this.githubService.retrieveFiles(repoUrl, uncachedFiles, branch);
       fileContents.forEach(file => {
         this.fileCache.set(file.path, file.content);
       });
@@ -122,20 +124,22 @@ export class DependencyAnalyzer {
 
     const imports: string[] = [];
     const exports: string[] = [];
+    const importedNames: Record<string, string[]> = {};
     const relatedFiles: string[] = [];
     const affectedComponents: string[] = [];
 
     // Parse import statements
-    const importRegex = /import\s+(?:{[^}]*}|\*\s+as\s+\w+|\w+)?\s*(?:,\s*{[^}]*})?\s*from\s+['"](.*?)['"];?/g;
+    const importRegex = /import\s+((?:type\s+)?(?:{[^}]*}|\*\s+as\s+\w+|\w+)?\s*(?:,\s*{[^}]*})?)\s*from\s+['"](.*?)['"];?/g;
     let match;
     while ((match = importRegex.exec(content)) !== null) {
-      const importPath = match[1];
+      const importPath = match[2];
       imports.push(importPath);
 
       // Resolve relative imports to actual file paths
       if (importPath.startsWith('./') || importPath.startsWith('../')) {
         const resolvedPath = this.resolveRelativePath(filePath, importPath);
         relatedFiles.push(resolvedPath);
+        importedNames[resolvedPath] = [...(importedNames[resolvedPath] || []), ...this.parseImportedNames(match[1])];
       }
     }
 
@@ -164,6 +168,7 @@ export class DependencyAnalyzer {
     const dependencyInfo: DependencyInfo = {
       imports,
       exports,
+      importedNames,
       relatedFiles,
       affectedComponents,
       dependencyTree
@@ -174,6 +179,42 @@ export class DependencyAnalyzer {
     return dependencyInfo;
   }
 
+  /**
+   * Names bound by an import clause, e.g. `Hero, { Button as Btn, type Props }` -> default, Button, Props.
+   * Namespace imports are skipped since the members used can't be known from the clause.
+   */
+  private parseImportedNames(importClause: string): string[] {
+    const names: string[] = [];
+    const clause = importClause.replace(/^type\s+/, '').trim();
+
+    const defaultMatch = clause.match(/^(\w+)\s*(?:,|$)/);
+    if (defaultMatch) {
+      names.push('default');
+    }
+
+    const namedMatch = clause.match(/{([^}]*)}/);
+    if (namedMatch) {
+      for (const specifier of namedMatch[1].split(',')) {
+        const name = specifier.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+        if (name) names.push(name);
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Exports of a file that other analyzed files import, which generated code must keep
+   */
+  getImportedExports(filePath: string, dependencyMap: Map<string, DependencyInfo>): string[] {
+    const names = new Set<string>();
+    for (const [importerPath, info] of dependencyMap) {
+      if (importerPath === filePath) continue;
+      (info.importedNames[filePath] || []).forEach(name => names.add(name));
+    }
+    return Array.from(names);
+  }
+
   /**
    * Resolve relative import paths to absolute file paths
    */
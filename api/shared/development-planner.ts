@@ -0,0 +1,96 @@
+// Development planning helpers shared by the web develop endpoint and the CLI
+import { CustomAIAgent } from './custom-ai-agent';
+import { ChangeRequest } from './ai-file-processor';
+import { AgentTeamConfig } from './enhanced-agent-orchestrator';
+import type { DevelopOptions } from '../../src/types/config';
+
+/**
+ * Resolve `auto` into a concrete agent mode based on task complexity and project setup
+ */
+export function resolveAgentMode(
+  request: DevelopOptions,
+  projectAgentMode?: string
+): 'single' | 'orchestrated' {
+  if (request.preferredMode !== 'auto') {
+    return request.preferredMode;
+  }
+  if (projectAgentMode === 'orchestrated' || projectAgentMode === 'single') {
+    return projectAgentMode;
+  }
+  // Hybrid projects (and projects without a preference) escalate complex tasks to the team
+  return request.complexity === 'complex' ? 'orchestrated' : 'single';
+}
+
+/**
+ * Ask the agent which files have to be created or modified for a free-form task
+ */
+export async function planTargetFiles(
+  agent: CustomAIAgent,
+  request: DevelopOptions,
+  availableFiles: string[]
+): Promise<string[]> {
+  const response = await agent.processRequest(`You are planning the implementation of a feature.
+
+Feature: ${request.featureName}
+Complexity: ${request.complexity}
+Task: ${request.taskDescription}
+
+Project files:
+${availableFiles.join('\n')}
+
+Return ONLY a JSON array with the paths of the files that must be created or modified, e.g. ["src/App.tsx"].
+Prefer modifying existing files. Keep the list as small as the task allows.`, { task: 'planning' });
+
+  const match = response.match(/\[[\s\S]*\]/);
+  if (!match) {
+    throw new Error('Planning response did not contain a file list');
+  }
+
+  const targetFiles = JSON.parse(match[0]);
+  if (!Array.isArray(targetFiles) || targetFiles.length === 0) {
+    throw new Error('Planning did not identify any files to change');
+  }
+
+  return targetFiles
+    .filter((path: unknown): path is string => typeof path === 'string' && path.length > 0)
+    .map(path => path.replace(/^\.?\//, ''));
+}
+
+/**
+ * Express a free-form development task as a change request for one file
+ */
+export function createDevelopmentChange(
+  id: string,
+  request: DevelopOptions,
+  filePath: string
+): ChangeRequest {
+  return {
+    id,
+    componentId: request.featureName,
+    feedback: request.taskDescription,
+    timestamp: Date.now(),
+    category: 'enhancement',
+    priority: request.priority,
+    status: 'in_progress',
+    componentContext: { filePath },
+    pageContext: {}
+  };
+}
+
+/**
+ * Build an agent team where every role uses the same provider
+ */
+export function createUniformTeamConfig(
+  provider: AgentTeamConfig['leadAgent']['provider'],
+  model?: string
+): AgentTeamConfig {
+  return {
+    leadAgent: { provider, model },
+    specialists: {
+      analyzer: { provider, model },
+      developer: { provider, model },
+      tester: { provider, model },
+      reviewer: { provider, model }
+    }
+  };
+}
@@ -0,0 +1,219 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const state = { active: 0, maxActive: 0, calls: [] as string[] };
+
+  // Every agent and processor call is logged and yields once, so tasks that may run together overlap
+  const track = async <T>(label: string, respond: () => T | Promise<T>): Promise<T> => {
+    state.calls.push(label);
+    state.active++;
+    state.maxActive = Math.max(state.maxActive, state.active);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return await respond();
+    } finally {
+      state.active--;
+    }
+  };
+
+  return {
+    state,
+    track,
+    respond: vi.fn(),
+    processFileChanges: vi.fn()
+  };
+});
+
+vi.mock('./custom-ai-agent', () => ({
+  CustomAIAgent: vi.fn(() => ({
+    processRequest: (prompt: string) => {
+      const label = [
+        ['Analyze this dependency', 'analysis'],
+        ['strategic implementation plan', 'planning'],
+        ['A colleague implemented', 'validation'],
+        ['Review these', 'review'],
+        ['A task has failed', 'recovery']
+      ].find(([marker]) => prompt.includes(marker))![1];
+      return mocks.track(label, () => mocks.respond(label, prompt));
+    }
+  }))
+}));
+vi.mock('./ai-file-processor', () => ({
+  AIFileProcessor: vi.fn(() => ({
+    processFileChanges: (filePath: string, ...args: unknown[]) =>
+      mocks.track(filePath, () => mocks.processFileChanges(filePath, ...args))
+  }))
+}));
+vi.mock('./dependency-analyzer', () => ({
+  DependencyAnalyzer: vi.fn(() => ({
+    analyzeMultipleFiles: async () => ({ processingOrder: [], riskAnalysis: {}, dependencyMap: {} }),
+    getImportedExports: () => []
+  }))
+}));
+vi.mock('./test-suite-generator', () => ({
+  TestSuiteGenerator: vi.fn(() => ({
+    generateTestSuite: () => mocks.track('tests', () => ({ coverage: 80 }))
+  }))
+}));
+vi.mock('./enhanced-session-manager', () => ({
+  EnhancedSessionManager: vi.fn()
+}));
+vi.mock('./repository-indexer', () => ({
+  RepositoryIndex: vi.fn(),
+  formatRepositoryContext: () => ''
+}));
+
+import type { ChangeRequest } from './ai-file-processor';
+import type { EnhancedSessionManager } from './enhanced-session-manager';
+import {
+  AgentTeamConfig,
+  EnhancedAgentOrchestrator,
+  OrchestrationOptions,
+  resolveOrchestrationStrategy
+} from './enhanced-agent-orchestrator';
+
+const agent = { provider: 'anthropic' as const };
+const team: AgentTeamConfig = {
+  leadAgent: agent,
+  specialists: { analyzer: agent, developer: agent, tester: agent, reviewer: agent }
+};
+
+const change = (componentId: string): ChangeRequest => ({
+  id: `change-${componentId}`,
+  componentId,
+  feedback: `Update ${componentId}`,
+  timestamp: 0,
+  category: 'content',
+  priority: 'medium',
+  status: 'pending',
+  componentContext: {},
+  pageContext: {}
+});
+
+const changes = [change('hero'), change('footer')];
+const fileGroups = [
+  { filePath: 'src/Hero.tsx', originalContent: 'hero', changes: [changes[0]] },
+  { filePath: 'src/Footer.tsx', originalContent: 'footer', changes: [changes[1]] }
+];
+
+function orchestrate(options: OrchestrationOptions) {
+  const sessionManager = {
+    addLog: vi.fn(async () => {}),
+    recordModelRoute: vi.fn(async () => {})
+  } as unknown as EnhancedSessionManager;
+
+  return new EnhancedAgentOrchestrator(sessionManager, team)
+    .orchestrateProcessing('session_1', 'https://github.com/acme/site', changes, fileGroups, options);
+}
+
+describe('resolveOrchestrationStrategy', () => {
+  it('applies overrides to the strategy preset and falls back to hierarchical', () => {
+    expect(resolveOrchestrationStrategy({ strategy: 'parallel', maxConcurrency: 0, maxReviewRounds: 2 }))
+      .toEqual({ type: 'parallel', maxConcurrency: 4, retryOnFailure: false, crossValidation: false, maxReviewRounds: 2 });
+    expect(resolveOrchestrationStrategy({ strategy: 'unknown' as never, crossValidation: true }))
+      .toMatchObject({ type: 'hierarchical', maxConcurrency: 2, crossValidation: true });
+  });
+});
+
+describe('EnhancedAgentOrchestrator task graph', () => {
+  beforeEach(() => {
+    mocks.respond.mockImplementation(async (label: string) => {
+      if (label === 'review') return JSON.stringify({ overallScore: 9, changesRequested: [] });
+      if (label === 'validation') return JSON.stringify({ approved: true, issues: [] });
+      if (label === 'recovery') return JSON.stringify({ shouldRetry: false });
+      return '{}';
+    });
+    mocks.processFileChanges.mockImplementation(async (filePath: string) => ({
+      success: true,
+      updatedContent: `updated ${filePath}`,
+      explanation: 'Done',
+      commitMessage: `Update ${filePath}`
+    }));
+  });
+
+  afterEach(() => {
+    mocks.state.active = 0;
+    mocks.state.maxActive = 0;
+    mocks.state.calls = [];
+    vi.clearAllMocks();
+  });
+
+  it('runs one task at a time in dependency order for sequential teams', async () => {
+    const result = await orchestrate({ strategy: 'sequential' });
+
+    expect(result).toMatchObject({ success: true, completedTasks: 6, failedTasks: 0 });
+    expect(mocks.state.calls).toEqual(['analysis', 'planning', 'src/Hero.tsx', 'src/Footer.tsx', 'review', 'tests']);
+    expect(mocks.state.maxActive).toBe(1);
+  });
+
+  it('implements files alongside planning for parallel teams', async () => {
+    const result = await orchestrate({ strategy: 'parallel' });
+
+    expect(result.success).toBe(true);
+    expect(mocks.state.calls.slice(0, 4)).toEqual(['analysis', 'planning', 'src/Hero.tsx', 'src/Footer.tsx']);
+    expect(mocks.state.maxActive).toBe(3);
+  });
+
+  it('fails the tasks that need a failed task', async () => {
+    mocks.respond.mockImplementation(async (label: string) => {
+      if (label === 'planning') throw new Error('model unavailable');
+      return '{}';
+    });
+
+    const result = await orchestrate({ strategy: 'hierarchical' });
+
+    expect(result.success).toBe(false);
+    expect(mocks.processFileChanges).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([
+      'Create strategic implementation plan: model unavailable',
+      'Implement changes for src/Hero.tsx: Blocked by failed task: Create strategic implementation plan',
+      'Implement changes for src/Footer.tsx: Blocked by failed task: Create strategic implementation plan',
+      'Review all implementations for quality and security: No implementations to review',
+      'Generate comprehensive test suite: No implementations to generate tests for'
+    ]);
+  });
+
+  it('retries a failed file with the lead agent guidance', async () => {
+    mocks.processFileChanges.mockResolvedValueOnce({ success: false, error: 'Validation failed' });
+    mocks.respond.mockImplementation(async (label: string) => {
+      if (label === 'recovery') return JSON.stringify({ shouldRetry: true, alternativeApproach: 'Keep the default export' });
+      if (label === 'review') return JSON.stringify({ changesRequested: [] });
+      return '{}';
+    });
+
+    const result = await orchestrate({ strategy: 'sequential' });
+
+    expect(result.success).toBe(true);
+    expect(mocks.state.calls).toEqual(['analysis', 'planning', 'src/Hero.tsx', 'recovery', 'src/Hero.tsx', 'src/Footer.tsx', 'review', 'tests']);
+    expect(mocks.processFileChanges).toHaveBeenLastCalledWith('src/Footer.tsx', 'footer', [changes[1]], 1, expect.anything());
+    expect(mocks.processFileChanges.mock.calls[1][4].feedback).toEqual(['Lead architect: Keep the default export']);
+  });
+
+  it('sends files back for rework and reviews them again before generating tests', async () => {
+    mocks.respond.mockImplementation(async (label: string) => {
+      if (label !== 'review') return '{}';
+      const firstReview = mocks.state.calls.filter(call => call === 'review').length === 1;
+      return JSON.stringify({
+        changesRequested: firstReview ? [{ filePath: 'src/Footer.tsx', issues: ['Missing copyright year'] }] : []
+      });
+    });
+
+    const result = await orchestrate({ strategy: 'sequential' });
+
+    expect(result).toMatchObject({ success: true, completedTasks: 8 });
+    expect(mocks.state.calls).toEqual([
+      'analysis', 'planning', 'src/Hero.tsx', 'src/Footer.tsx', 'review', 'src/Footer.tsx', 'review', 'tests'
+    ]);
+    expect(mocks.processFileChanges.mock.calls[2][4].feedback).toEqual(['Reviewer: Missing copyright year']);
+  });
+
+  it('has a second developer check every implementation in collaborative teams', async () => {
+    const result = await orchestrate({ strategy: 'collaborative', maxConcurrency: 1 });
+
+    expect(result.success).toBe(true);
+    expect(mocks.state.calls).toEqual([
+      'analysis', 'planning', 'src/Hero.tsx', 'validation', 'src/Footer.tsx', 'validation', 'review', 'tests'
+    ]);
+  });
+});
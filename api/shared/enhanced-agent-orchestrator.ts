@@ -4,26 +4,47 @@ import { AIFileProcessor, ChangeRequest } from './ai-file-processor';
 import { DependencyAnalyzer } from './dependency-analyzer';
 import { TestSuiteGenerator, TestGenerationConfig } from './test-suite-generator';
 import { EnhancedSessionManager } from './enhanced-session-manager';
+import type { AIProvider, ModelRoute } from './model-router';
+import type { AgentSandbox } from './workspace-sandbox';
+import { RepositoryIndex, formatRepositoryContext } from './repository-indexer';
+import type { OrchestrationStrategy } from '../../src/types/agent';
+
+// Implementations the second developer rejects are reworked this many times before they go to review anyway
+const MAX_CROSS_VALIDATION_ROUNDS = 1;
+// Generated code shown to the second developer
+const MAX_VALIDATION_CONTENT_LENGTH = 12000;
+
+export interface AgentSettings {
+  provider: AIProvider;
+  model?: string; // Defaults to the provider's model for each task
+}
 
 export interface AgentTeamConfig {
-  leadAgent: {
-    provider: 'anthropic' | 'openai' | 'google' | 'grok';
-    model?: string;
-  };
+  leadAgent: AgentSettings;
   specialists: {
-    analyzer: { provider: string; model?: string };
-    developer: { provider: string; model?: string };
-    tester: { provider: string; model?: string };
-    reviewer: { provider: string; model?: string };
+    analyzer: AgentSettings;
+    developer: AgentSettings;
+    tester: AgentSettings;
+    reviewer: AgentSettings;
+    crossValidator?: AgentSettings; // Second developer, defaults to the developer's settings
   };
 }
 
+// What the team works on, shared by all of its agents
+export interface OrchestratorContext {
+  sessionId?: string; // Session whose outcome is credited to the project memory the agents use
+  repositoryUrl?: string;
+  projectId?: string; // Project the team's requests are billed to and whose memory the agents share
+  sandbox?: AgentSandbox; // Backs the agents' file, git and command tools
+}
+
 export interface ProcessingTask {
   id: string;
-  type: 'analyze' | 'develop' | 'test' | 'review' | 'document';
+  type: 'analyze' | 'develop' | 'validate' | 'test' | 'review' | 'document';
   description: string;
   input: any;
-  dependencies: string[];
+  dependencies: string[]; // Must complete before the task runs
+  optionalDependencies: string[]; // Must finish before the task runs, but may fail
   priority: 'low' | 'medium' | 'high';
   assignedAgent: string;
   status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'retrying';
@@ -34,6 +55,21 @@ export interface ProcessingTask {
   retryCount: number;
 }
 
+export type OrchestrationStrategyType = OrchestrationStrategy['type'];
+
+export interface OrchestrationStrategySettings extends OrchestrationStrategy {
+  maxReviewRounds: number; // Times the reviewer may send files back for rework
+}
+
+export interface OrchestrationOptions {
+  repositoryIndex?: RepositoryIndex; // Related code retrieved from it is added to the analysis, planning and file prompts
+  contextTokenBudget?: number; // Tokens of related code per prompt
+  strategy?: OrchestrationStrategyType; // Defaults to 'hierarchical'
+  maxConcurrency?: number; // Overrides the strategy's limit on tasks running at once
+  crossValidation?: boolean; // Overrides whether a second developer checks each implementation
+  maxReviewRounds?: number;
+}
+
 export interface OrchestrationResult {
   success: boolean;
   completedTasks: number;
@@ -43,6 +79,38 @@ export interface OrchestrationResult {
   errors: string[];
 }
 
+/**
+ * How each strategy runs the task graph:
+ * - sequential: one task at a time, each file implemented after the previous one
+ * - parallel: files implemented right after the analysis, alongside planning; tests generated alongside the review
+ * - hierarchical: the lead agent plans before files are implemented and guides retries of failed files
+ * - collaborative: hierarchical, with a second developer cross-validating every implementation
+ */
+const STRATEGY_PRESETS: Record<OrchestrationStrategyType, OrchestrationStrategySettings> = {
+  sequential: { type: 'sequential', maxConcurrency: 1, retryOnFailure: true, crossValidation: false, maxReviewRounds: 1 },
+  parallel: { type: 'parallel', maxConcurrency: 4, retryOnFailure: false, crossValidation: false, maxReviewRounds: 0 },
+  hierarchical: { type: 'hierarchical', maxConcurrency: 2, retryOnFailure: true, crossValidation: false, maxReviewRounds: 1 },
+  collaborative: { type: 'collaborative', maxConcurrency: 2, retryOnFailure: true, crossValidation: true, maxReviewRounds: 2 }
+};
+
+/**
+ * Settings of the requested strategy with the project's overrides; unknown strategies fall back to hierarchical
+ */
+export function resolveOrchestrationStrategy(options: OrchestrationOptions = {}): OrchestrationStrategySettings {
+  const preset = (options.strategy && STRATEGY_PRESETS[options.strategy]) || STRATEGY_PRESETS.hierarchical;
+  return {
+    ...preset,
+    maxConcurrency: Math.max(1, options.maxConcurrency || preset.maxConcurrency),
+    crossValidation: options.crossValidation ?? preset.crossValidation,
+    maxReviewRounds: options.maxReviewRounds ?? preset.maxReviewRounds
+  };
+}
+
+// Agents return single notes or lists of them
+function toNotes(value: unknown): string[] {
+  return [value].flat().filter((note): note is string => typeof note === 'string' && note.trim().length > 0);
+}
+
 export class EnhancedAgentOrchestrator {
   private sessionManager: EnhancedSessionManager;
   private agents: Map<string, CustomAIAgent> = new Map();
@@ -50,13 +118,22 @@ export class EnhancedAgentOrchestrator {
   private tasks: Map<string, ProcessingTask> = new Map();
   private taskQueue: string[] = [];
   private activeTaskCount = 0;
-  private maxConcurrentTasks = 2; // Conservative for now
+  private activeSessionId?: string; // Session the agents' model routes are logged to
+  private options: OrchestrationOptions = {};
+  private strategy: OrchestrationStrategySettings = resolveOrchestrationStrategy();
+  private fileGroups: any[] = [];
+  private implementations: Array<{ success: boolean; result?: any; error?: string }> = []; // Latest implementation of each file group
+  private results = new Map<string, any>();
+  private reviewRounds = 0;
+  private context: OrchestratorContext;
 
   constructor(
     sessionManager: EnhancedSessionManager,
-    teamConfig: AgentTeamConfig
+    teamConfig: AgentTeamConfig,
+    context: OrchestratorContext = {}
   ) {
     this.sessionManager = sessionManager;
+    this.context = context;
     this.initializeAgentTeam(teamConfig);
     this.initializeSpecializedProcessors(teamConfig.leadAgent.provider);
   }
@@ -66,225 +143,447 @@ export class EnhancedAgentOrchestrator {
    */
   private initializeAgentTeam(config: AgentTeamConfig): void {
     // Lead Agent - Overall coordination and decision making
-    this.agents.set('lead', new CustomAIAgent({
-      provider: config.leadAgent.provider,
-      model: config.leadAgent.model,
-      role: 'senior-architect',
-      expertise: ['system-design', 'project-management', 'decision-making'],
-      systemPrompt: `You are a senior software architect leading an AI development team. 
+    this.agents.set('lead', this.createAgent(config.leadAgent, `You are a senior software architect leading an AI development team. 
       Your role is to coordinate tasks, make high-level decisions, and ensure quality outcomes.
-      Always consider the bigger picture and potential impacts of changes.`
-    }));
+      Always consider the bigger picture and potential impacts of changes.`));
 
     // Analyzer Agent - Code analysis and dependency mapping
-    this.agents.set('analyzer', new CustomAIAgent({
-      provider: config.specialists.analyzer.provider,
-      model: config.specialists.analyzer.model,
-      role: 'senior-analyst',
-      expertise: ['code-analysis', 'dependency-mapping', 'architecture-review'],
-      systemPrompt: `You are a senior code analyst specializing in understanding complex codebases.
+    this.agents.set('analyzer', this.createAgent(config.specialists.analyzer, `You are a senior code analyst specializing in understanding complex codebases.
       Your role is to analyze dependencies, identify potential impacts, and provide insights
-      about code structure and relationships.`
-    }));
+      about code structure and relationships.`));
 
     // Developer Agent - Code implementation and modifications
-    this.agents.set('developer', new CustomAIAgent({
-      provider: config.specialists.developer.provider,
-      model: config.specialists.developer.model,
-      role: 'senior-developer',
-      expertise: ['react', 'typescript', 'component-development', 'ui-implementation'],
-      systemPrompt: `You are a senior React/TypeScript developer with expertise in modern frontend development.
+    this.agents.set('developer', this.createAgent(config.specialists.developer, `You are a senior React/TypeScript developer with expertise in modern frontend development.
       Your role is to implement changes efficiently while maintaining code quality and best practices.
-      Always consider performance, accessibility, and maintainability.`
-    }));
+      Always consider performance, accessibility, and maintainability.`));
 
     // Tester Agent - Test generation and quality assurance
-    this.agents.set('tester', new CustomAIAgent({
-      provider: config.specialists.tester.provider,
-      model: config.specialists.tester.model,
-      role: 'qa-engineer',
-      expertise: ['testing', 'quality-assurance', 'test-automation'],
-      systemPrompt: `You are a senior QA engineer specializing in comprehensive testing strategies.
+    this.agents.set('tester', this.createAgent(config.specialists.tester, `You are a senior QA engineer specializing in comprehensive testing strategies.
       Your role is to ensure changes are thoroughly tested and meet quality standards.
-      Focus on creating meaningful tests that catch real issues.`
-    }));
+      Focus on creating meaningful tests that catch real issues.`));
 
     // Reviewer Agent - Code review and final validation
-    this.agents.set('reviewer', new CustomAIAgent({
-      provider: config.specialists.reviewer.provider,
-      model: config.specialists.reviewer.model,
-      role: 'senior-reviewer',
-      expertise: ['code-review', 'security', 'best-practices', 'performance'],
-      systemPrompt: `You are a senior code reviewer with deep expertise in security and best practices.
+    this.agents.set('reviewer', this.createAgent(config.specialists.reviewer, `You are a senior code reviewer with deep expertise in security and best practices.
       Your role is to review implementations for potential issues, security concerns, and improvements.
-      Provide constructive feedback and ensure changes meet high standards.`
-    }));
+      Provide constructive feedback and ensure changes meet high standards.`));
+
+    // Second Developer - Cross-validates the developer's implementations in collaborative teams
+    const crossValidator = config.specialists.crossValidator || config.specialists.developer;
+    this.agents.set('cross-validator', this.createAgent(crossValidator, `You are a second senior React/TypeScript developer on the team.
+      Your role is to check a colleague's implementation against the requested changes before it goes to review.
+      Reject it only for concrete problems: missing or wrong changes, broken behaviour or code that will not compile.`));
+  }
+
+  private createAgent(settings: AgentSettings, systemPrompt: string): CustomAIAgent {
+    return new CustomAIAgent({
+      sessionId: this.context.sessionId || 'orchestrator',
+      sandbox: this.context.sandbox || null,
+      repositoryUrl: this.context.repositoryUrl || '',
+      provider: settings.provider,
+      model: settings.model || 'default',
+      systemPrompt,
+      onModelRoute: route => this.recordModelRoute(route),
+      projectId: this.context.projectId,
+      projectContext: {
+        componentRegistry: {},
+        dependencies: {},
+        framework: 'react',
+        structure: 'typescript'
+      }
+    });
+  }
+
+  private async recordModelRoute(route: ModelRoute): Promise<void> {
+    if (this.activeSessionId) {
+      await this.sessionManager.recordModelRoute(this.activeSessionId, route);
+    }
   }
 
   /**
    * Initialize specialized processors
    */
-  private initializeSpecializedProcessors(aiProvider: string): void {
-    this.processors.set('fileProcessor', new AIFileProcessor(aiProvider as any));
+  private initializeSpecializedProcessors(aiProvider: AIProvider): void {
+    this.processors.set('fileProcessor', new AIFileProcessor(aiProvider, {
+      onModelRoute: route => this.recordModelRoute(route),
+      projectId: this.context.projectId,
+      sessionId: this.context.sessionId,
+      sandbox: this.context.sandbox
+    }));
     this.processors.set('dependencyAnalyzer', new DependencyAnalyzer());
-    this.processors.set('testGenerator', new TestSuiteGenerator(aiProvider as any));
+    this.processors.set('testGenerator', new TestSuiteGenerator(aiProvider));
   }
 
   /**
-   * Orchestrate the complete processing workflow
+   * Orchestrate the complete processing workflow as a task graph shaped by the strategy
    */
   async orchestrateProcessing(
     sessionId: string,
     repoUrl: string,
     changes: ChangeRequest[],
-    fileGroups: any[]
+    fileGroups: any[],
+    options: OrchestrationOptions = {}
   ): Promise<OrchestrationResult> {
     const startTime = Date.now();
-    const results = new Map<string, any>();
     const errors: string[] = [];
+    this.cleanup();
+    this.activeSessionId = sessionId;
+    this.options = options;
+    this.strategy = resolveOrchestrationStrategy(options);
+    this.fileGroups = fileGroups;
+    this.implementations = fileGroups.map(() => ({ success: false, error: 'Not implemented' }));
+    this.results = new Map();
+    this.reviewRounds = 0;
 
     try {
-      await this.sessionManager.addLog(sessionId, 'info', 'Starting agent orchestration workflow');
-
-      // Phase 1: Analysis (Lead + Analyzer)
-      const analysisTask = await this.createTask({
-        type: 'analyze',
-        description: 'Analyze dependencies and code structure',
-        input: { repoUrl, changes, fileGroups },
-        priority: 'high',
-        assignedAgent: 'analyzer'
-      });
-
-      const analysisResult = await this.executeTask(sessionId, analysisTask);
-      if (!analysisResult.success) {
-        throw new Error('Analysis phase failed');
-      }
-      results.set('analysis', analysisResult.result);
-
-      // Phase 2: Strategic Planning (Lead Agent)
-      const planningTask = await this.createTask({
-        type: 'develop',
-        description: 'Create strategic implementation plan',
-        input: { changes, analysisResult: analysisResult.result },
-        priority: 'high',
-        assignedAgent: 'lead',
-        dependencies: [analysisTask.id]
-      });
-
-      const planningResult = await this.executeTask(sessionId, planningTask);
-      if (!planningResult.success) {
-        throw new Error('Planning phase failed');
-      }
-      results.set('planning', planningResult.result);
+      await this.sessionManager.addLog(sessionId, 'info',
+        `Starting agent orchestration workflow (${this.strategy.type} strategy)`, { strategy: this.strategy });
 
-      // Phase 3: Implementation (Developer + File Processor)
-      const implementationTasks: ProcessingTask[] = [];
-      
-      for (const [index, fileGroup] of fileGroups.entries()) {
-        const implTask = await this.createTask({
-          type: 'develop',
-          description: `Implement changes for ${fileGroup.filePath}`,
-          input: { fileGroup, strategicPlan: planningResult.result },
-          priority: 'high',
-          assignedAgent: 'developer',
-          dependencies: [planningTask.id]
-        });
-        implementationTasks.push(implTask);
-      }
+      await this.buildTaskGraph(repoUrl, changes);
+      await this.runTaskGraph(sessionId);
 
-      // Execute implementation tasks with controlled concurrency
-      const implementationResults = await this.executeTasksConcurrently(
-        sessionId, 
-        implementationTasks, 
-        this.maxConcurrentTasks
-      );
-
-      const failedImplementations = implementationResults.filter(r => !r.success);
-      if (failedImplementations.length > 0) {
-        await this.sessionManager.addLog(sessionId, 'warning', 
-          `${failedImplementations.length} file implementations failed, attempting recovery`);
-        
-        // Retry failed implementations with lead agent assistance
-        for (const failed of failedImplementations) {
-          const retryResult = await this.retryWithLeadAssistance(sessionId, failed);
-          if (retryResult.success) {
-            implementationResults[implementationResults.indexOf(failed)] = retryResult;
-          }
-        }
-      }
-
-      results.set('implementations', implementationResults);
-
-      // Phase 4: Quality Review (Reviewer)
-      const reviewTask = await this.createTask({
-        type: 'review',
-        description: 'Review all implementations for quality and security',
-        input: { implementations: implementationResults },
-        priority: 'high',
-        assignedAgent: 'reviewer',
-        dependencies: implementationTasks.map(t => t.id)
-      });
-
-      const reviewResult = await this.executeTask(sessionId, reviewTask);
-      if (!reviewResult.success) {
-        await this.sessionManager.addLog(sessionId, 'warning', 'Review phase had issues, but proceeding');
-      }
-      results.set('review', reviewResult.result);
-
-      // Phase 5: Test Generation (Tester)
-      const testTask = await this.createTask({
-        type: 'test',
-        description: 'Generate comprehensive test suite',
-        input: { 
-          implementations: implementationResults,
-          changes,
-          reviewFeedback: reviewResult.result 
-        },
-        priority: 'medium',
-        assignedAgent: 'tester',
-        dependencies: [reviewTask.id]
-      });
-
-      const testResult = await this.executeTask(sessionId, testTask);
-      results.set('tests', testResult.result);
+      this.results.set('implementations', this.implementations);
 
       // Calculate final metrics
-      const completedTasks = Array.from(this.tasks.values()).filter(t => t.status === 'completed').length;
-      const failedTasks = Array.from(this.tasks.values()).filter(t => t.status === 'failed').length;
+      const tasks = Array.from(this.tasks.values());
+      const completedTasks = tasks.filter(t => t.status === 'completed').length;
+      const failedTasks = tasks.filter(t => t.status === 'failed');
       const totalTime = Date.now() - startTime;
+      errors.push(...failedTasks.map(task => `${task.description}: ${task.error}`));
 
-      await this.sessionManager.addLog(sessionId, 'success', 
-        'Agent orchestration completed successfully', {
+      await this.sessionManager.addLog(sessionId, failedTasks.length === 0 ? 'success' : 'warning',
+        `Agent orchestration completed with ${failedTasks.length} failed tasks`, {
+          strategy: this.strategy.type,
           completedTasks,
-          failedTasks,
+          failedTasks: failedTasks.length,
+          reviewRounds: this.reviewRounds,
           totalTimeMs: totalTime,
           tasksExecuted: this.tasks.size
         });
 
       return {
-        success: failedTasks === 0,
+        success: failedTasks.length === 0,
         completedTasks,
-        failedTasks,
+        failedTasks: failedTasks.length,
         totalTime,
-        results,
+        results: this.results,
         errors
       };
 
     } catch (error) {
-      await this.sessionManager.addLog(sessionId, 'error', 'Agent orchestration failed', { error: error.message });
-      errors.push(error.message);
+      const message = error instanceof Error ? error.message : String(error);
+      await this.sessionManager.addLog(sessionId, 'error', 'Agent orchestration failed', { error: message });
+      errors.push(message);
 
       return {
         success: false,
         completedTasks: Array.from(this.tasks.values()).filter(t => t.status === 'completed').length,
         failedTasks: Array.from(this.tasks.values()).filter(t => t.status === 'failed').length,
         totalTime: Date.now() - startTime,
-        results,
+        results: this.results,
         errors
       };
     }
   }
 
+  /**
+   * Lay out the tasks for the strategy; rework sent back by the second developer or the reviewer is added as it runs
+   */
+  private async buildTaskGraph(repoUrl: string, changes: ChangeRequest[]): Promise<void> {
+    const analysisTask = await this.createTask({
+      type: 'analyze',
+      description: 'Analyze dependencies and code structure',
+      input: { repoUrl, changes, fileGroups: this.fileGroups },
+      priority: 'high',
+      assignedAgent: 'analyzer'
+    });
+
+    const planningTask = await this.createTask({
+      type: 'develop',
+      description: 'Create strategic implementation plan',
+      input: { changes },
+      priority: 'high',
+      assignedAgent: 'lead',
+      dependencies: [analysisTask.id]
+    });
+
+    // Parallel teams implement as soon as the analysis is in; the others wait for the lead's plan
+    const implementationDependencies = this.strategy.type === 'parallel' ? [analysisTask.id] : [planningTask.id];
+    const fileTaskIds: string[] = [];
+    for (const fileIndex of this.fileGroups.keys()) {
+      fileTaskIds.push(await this.createImplementationTasks(fileIndex, {
+        dependencies: implementationDependencies,
+        // Sequential teams finish one file before starting the next, whether or not it succeeded
+        optionalDependencies: this.strategy.type === 'sequential' ? fileTaskIds.slice(-1) : []
+      }));
+    }
+
+    const reviewTask = await this.createTask({
+      type: 'review',
+      description: 'Review all implementations for quality and security',
+      input: {},
+      priority: 'high',
+      assignedAgent: 'reviewer',
+      optionalDependencies: fileTaskIds
+    });
+
+    await this.createTask({
+      type: 'test',
+      description: 'Generate comprehensive test suite',
+      input: { changes },
+      priority: 'medium',
+      assignedAgent: 'tester',
+      optionalDependencies: this.strategy.type === 'parallel' ? fileTaskIds : [reviewTask.id]
+    });
+  }
+
+  /**
+   * Implement one file group, followed by the second developer's check when cross-validation is on.
+   * Returns the task that finishes the file, for later tasks to wait on.
+   */
+  private async createImplementationTasks(
+    fileIndex: number,
+    params: {
+      dependencies?: string[];
+      optionalDependencies?: string[];
+      feedback?: string[]; // Notes on an earlier implementation that was sent back
+      validationRound?: number;
+    } = {}
+  ): Promise<string> {
+    const { filePath } = this.fileGroups[fileIndex];
+    const feedback = params.feedback || [];
+    const validationRound = params.validationRound || 0;
+
+    const implementationTask = await this.createTask({
+      type: 'develop',
+      description: `${feedback.length > 0 ? 'Rework' : 'Implement'} changes for ${filePath}`,
+      input: { fileIndex, feedback },
+      priority: 'high',
+      assignedAgent: 'developer',
+      dependencies: params.dependencies,
+      optionalDependencies: params.optionalDependencies
+    });
+    if (!this.strategy.crossValidation) {
+      return implementationTask.id;
+    }
+
+    const validationTask = await this.createTask({
+      type: 'validate',
+      description: `Cross-validate changes for ${filePath}`,
+      input: { fileIndex, implementationTaskId: implementationTask.id, validationRound },
+      priority: 'high',
+      assignedAgent: 'cross-validator',
+      dependencies: [implementationTask.id]
+    });
+    return validationTask.id;
+  }
+
+  /**
+   * Run tasks as their dependencies finish, at most maxConcurrency at a time
+   */
+  private async runTaskGraph(sessionId: string): Promise<void> {
+    const running = new Map<string, Promise<void>>();
+    // Running tasks may still be retried, so only finished ones count
+    const isFinished = (taskId: string) => {
+      const status = this.tasks.get(taskId)?.status;
+      return !running.has(taskId) && (status === 'completed' || status === 'failed');
+    };
+
+    while (true) {
+      await this.failBlockedTasks(sessionId, isFinished);
+
+      const ready = this.getPendingTasks().filter(task => !running.has(task.id)
+        && task.dependencies.every(id => isFinished(id) && this.tasks.get(id)!.status === 'completed')
+        && task.optionalDependencies.every(isFinished));
+
+      for (const task of ready.slice(0, this.strategy.maxConcurrency - running.size)) {
+        // executeTask marks the task in progress before its first await, so it is not picked up twice
+        running.set(task.id, this.runTask(sessionId, task).finally(() => running.delete(task.id)));
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    // Whatever is still pending waits on tasks that can never finish
+    for (const task of this.getPendingTasks()) {
+      task.status = 'failed';
+      task.error = 'Dependencies never completed';
+    }
+  }
+
+  /**
+   * Fail pending tasks whose required dependencies failed, and the tasks that need those in turn
+   */
+  private async failBlockedTasks(sessionId: string, isFinished: (taskId: string) => boolean): Promise<void> {
+    let blocked: ProcessingTask | undefined;
+    do {
+      blocked = undefined;
+      for (const task of this.getPendingTasks()) {
+        const failedDependency = task.dependencies
+          .map(id => this.tasks.get(id)!)
+          .find(dependency => isFinished(dependency.id) && dependency.status === 'failed');
+        if (!failedDependency) continue;
+
+        task.status = 'failed';
+        task.error = `Blocked by failed task: ${failedDependency.description}`;
+        blocked = task;
+        await this.sessionManager.addLog(sessionId, 'warning', `Skipping ${task.type} task: ${task.error}`, { taskId: task.id });
+      }
+    } while (blocked);
+  }
+
+  // Pending tasks by priority, in the order they were created
+  private getPendingTasks(): ProcessingTask[] {
+    const priorities: Record<ProcessingTask['priority'], number> = { high: 0, medium: 1, low: 2 };
+    return this.taskQueue
+      .map(id => this.tasks.get(id)!)
+      .filter(task => task.status === 'pending')
+      .sort((a, b) => priorities[a.priority] - priorities[b.priority]);
+  }
+
+  /**
+   * Execute a task and act on its outcome: keep results, retry failed files and queue rework
+   */
+  private async runTask(sessionId: string, task: ProcessingTask): Promise<void> {
+    const outcome = await this.executeTask(sessionId, task);
+
+    try {
+      switch (task.type) {
+        case 'analyze':
+          if (outcome.success) this.results.set('analysis', outcome.result);
+          break;
+        case 'develop':
+          if (task.input.fileIndex === undefined) {
+            if (outcome.success) this.results.set('planning', outcome.result);
+          } else {
+            await this.handleImplementation(sessionId, task, outcome);
+          }
+          break;
+        case 'validate':
+          if (outcome.success) await this.handleCrossValidation(sessionId, task, outcome.result);
+          break;
+        case 'review':
+          this.results.set('review', outcome.result);
+          if (outcome.success) await this.handleReview(sessionId, task, outcome.result);
+          break;
+        case 'test':
+          this.results.set('tests', outcome.result);
+          break;
+      }
+    } catch (error) {
+      await this.sessionManager.addLog(sessionId, 'warning',
+        `Could not act on the outcome of ${task.type} task: ${error instanceof Error ? error.message : String(error)}`, { taskId: task.id });
+    }
+  }
+
+  /**
+   * Keep the file's latest implementation; failed files get one retry guided by the lead agent
+   */
+  private async handleImplementation(
+    sessionId: string,
+    task: ProcessingTask,
+    outcome: { success: boolean; result?: any; error?: string }
+  ): Promise<void> {
+    const { fileIndex } = task.input;
+
+    if (!outcome.success && this.strategy.retryOnFailure && task.retryCount === 0) {
+      task.status = 'retrying';
+      const guidance = await this.getRecoveryGuidance(sessionId, task);
+      if (guidance) {
+        await this.sessionManager.addLog(sessionId, 'info', 'Retrying task with lead agent guidance', { taskId: task.id });
+        task.retryCount++;
+        task.error = undefined;
+        task.input = { ...task.input, feedback: [...task.input.feedback, ...guidance] };
+        task.status = 'pending';
+        return;
+      }
+      task.status = 'failed';
+    }
+
+    // A failed rework keeps the earlier implementation
+    if (outcome.success || !this.implementations[fileIndex].success) {
+      this.implementations[fileIndex] = outcome;
+    }
+  }
+
+  /**
+   * Send an implementation the second developer rejected back to the developer
+   */
+  private async handleCrossValidation(sessionId: string, task: ProcessingTask, validation: any): Promise<void> {
+    const { fileIndex, validationRound } = task.input;
+    const { filePath } = this.fileGroups[fileIndex];
+    const issues = toNotes(validation?.issues);
+
+    if (validation?.approved === true || issues.length === 0) {
+      await this.sessionManager.addLog(sessionId, 'success', `Second developer approved ${filePath}`, { taskId: task.id });
+      return;
+    }
+    if (validationRound >= MAX_CROSS_VALIDATION_ROUNDS) {
+      await this.sessionManager.addLog(sessionId, 'warning',
+        `Second developer still has concerns about ${filePath}; passing it to review`, { taskId: task.id, issues });
+      return;
+    }
+
+    await this.sessionManager.addLog(sessionId, 'info',
+      `Second developer sent ${filePath} back for rework`, { taskId: task.id, issues });
+    const reworkTaskId = await this.createImplementationTasks(fileIndex, {
+      feedback: issues.map(issue => `Second developer: ${issue}`),
+      validationRound: validationRound + 1
+    });
+    this.replaceDependency(task.id, reworkTaskId);
+  }
+
+  /**
+   * Send the files the reviewer requested changes to back for rework, followed by another review
+   */
+  private async handleReview(sessionId: string, task: ProcessingTask, review: any): Promise<void> {
+    const requested = new Map<number, string[]>();
+    for (const request of [review?.changesRequested].flat()) {
+      const fileIndex = this.fileGroups.findIndex(group => group.filePath === request?.filePath);
+      const issues = toNotes(request?.issues);
+      if (fileIndex >= 0 && issues.length > 0) {
+        requested.set(fileIndex, [...(requested.get(fileIndex) || []), ...issues]);
+      }
+    }
+    if (requested.size === 0) return;
+
+    if (this.reviewRounds >= this.strategy.maxReviewRounds) {
+      await this.sessionManager.addLog(sessionId, 'warning',
+        `Reviewer requested changes to ${requested.size} files, but no review rounds are left`, { taskId: task.id });
+      return;
+    }
+
+    this.reviewRounds++;
+    await this.sessionManager.addLog(sessionId, 'info',
+      `Reviewer sent ${requested.size} files back for rework (round ${this.reviewRounds}/${this.strategy.maxReviewRounds})`,
+      { taskId: task.id, files: Array.from(requested.keys()).map(index => this.fileGroups[index].filePath) });
+
+    const reworkTaskIds: string[] = [];
+    for (const [fileIndex, issues] of requested) {
+      reworkTaskIds.push(await this.createImplementationTasks(fileIndex, {
+        feedback: issues.map(issue => `Reviewer: ${issue}`)
+      }));
+    }
+
+    const reviewTask = await this.createTask({
+      type: 'review',
+      description: `Review reworked implementations (round ${this.reviewRounds})`,
+      input: {},
+      priority: 'high',
+      assignedAgent: 'reviewer',
+      optionalDependencies: reworkTaskIds
+    });
+    this.replaceDependency(task.id, reviewTask.id);
+  }
+
+  // Tasks still waiting on a finished task wait on its rework instead
+  private replaceDependency(taskId: string, replacementId: string): void {
+    for (const task of this.getPendingTasks()) {
+      task.dependencies = task.dependencies.map(id => id === taskId ? replacementId : id);
+      task.optionalDependencies = task.optionalDependencies.map(id => id === taskId ? replacementId : id);
+    }
+  }
+
   /**
    * Create a new processing task
    */
@@ -295,6 +594,7 @@ export class EnhancedAgentOrchestrator {
     priority: ProcessingTask['priority'];
     assignedAgent: string;
     dependencies?: string[];
+    optionalDependencies?: string[];
   }): Promise<ProcessingTask> {
     const task: ProcessingTask = {
       id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -302,6 +602,7 @@ export class EnhancedAgentOrchestrator {
       description: params.description,
       input: params.input,
       dependencies: params.dependencies || [],
+      optionalDependencies: params.optionalDependencies || [],
       priority: params.priority,
       assignedAgent: params.assignedAgent,
       status: 'pending',
@@ -342,11 +643,14 @@ export class EnhancedAgentOrchestrator {
         case 'develop':
           result = await this.executeDevelopmentTask(task, agent);
           break;
+        case 'validate':
+          result = await this.executeValidationTask(task, agent);
+          break;
         case 'test':
           result = await this.executeTestingTask(task, agent);
           break;
         case 'review':
-          result = await this.executeReviewTask(task, agent);
+          result = await this.executeReviewTask(agent);
           break;
         default:
           throw new Error(`Unknown task type: ${task.type}`);
@@ -363,15 +667,16 @@ export class EnhancedAgentOrchestrator {
       return { success: true, result };
 
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       task.status = 'failed';
-      task.error = error.message;
+      task.error = message;
       task.endTime = Date.now();
 
       await this.sessionManager.addLog(sessionId, 'error', 
-        `Failed ${task.type} task: ${error.message}`, 
+        `Failed ${task.type} task: ${message}`, 
         { taskId: task.id });
 
-      return { success: false, error: error.message };
+      return { success: false, error: message };
     } finally {
       this.activeTaskCount--;
     }
@@ -397,7 +702,7 @@ Risk analysis: ${JSON.stringify(analysisResult.riskAnalysis, null, 2)}
 
 Changes to implement:
 ${changes.map(c => `- ${c.componentId}: ${c.feedback}`).join('\n')}
-
+${this.getRepositoryContext(changes)}
 Provide strategic insights:
 1. What are the highest risk changes?
 2. What additional considerations should be made?
@@ -408,7 +713,7 @@ Provide strategic insights:
 Return your analysis as JSON with these keys: risks, recommendations, processingStrategy, additionalFiles
 `;
 
-    const aiInsights = await agent.processRequest(aiAnalysisPrompt);
+    const aiInsights = await agent.processRequest(aiAnalysisPrompt, { task: 'analysis' });
     
     return {
       ...analysisResult,
@@ -422,27 +727,42 @@ Return your analysis as JSON with these keys: risks, recommendations, processing
   private async executeDevelopmentTask(task: ProcessingTask, agent: CustomAIAgent): Promise<any> {
     const fileProcessor = this.processors.get('fileProcessor') as AIFileProcessor;
 
-    if (task.input.fileGroup) {
+    if (task.input.fileIndex !== undefined) {
       // Single file implementation
-      const { fileGroup, strategicPlan } = task.input;
-      
+      const { fileIndex, feedback } = task.input;
+      const fileGroup = this.fileGroups[fileIndex];
+      const dependencyAnalyzer = this.processors.get('dependencyAnalyzer') as DependencyAnalyzer;
+      const analysis = this.results.get('analysis');
+
       const result = await fileProcessor.processFileChanges(
         fileGroup.filePath,
         fileGroup.originalContent,
-        fileGroup.changes
+        fileGroup.changes,
+        1,
+        {
+          // Exports other files import from this one, so validation rejects output that drops them
+          importedExports: analysis ? dependencyAnalyzer.getImportedExports(fileGroup.filePath, analysis.dependencyMap) : [],
+          repositoryIndex: this.options.repositoryIndex,
+          contextTokenBudget: this.options.contextTokenBudget,
+          feedback
+        }
       );
+      if (!result.success) {
+        throw new Error(result.error || `Could not implement changes for ${fileGroup.filePath}`);
+      }
 
-      return result;
+      return { ...result, filePath: fileGroup.filePath };
     } else {
       // Strategic planning task
-      const { changes, analysisResult } = task.input;
+      const { changes } = task.input;
+      const analysisResult = this.results.get('analysis');
       
       const planningPrompt = `
 Based on this analysis, create a strategic implementation plan:
 
 Analysis Results: ${JSON.stringify(analysisResult, null, 2)}
 Changes to implement: ${changes.map((c: any) => `- ${c.componentId}: ${c.feedback}`).join('\n')}
-
+${this.getRepositoryContext(changes)}
 Create a detailed implementation plan that includes:
 1. Optimal order of implementation
 2. Risk mitigation strategies
@@ -453,25 +773,68 @@ Create a detailed implementation plan that includes:
 Return as JSON with keys: implementationOrder, riskMitigation, testingStrategy, rollbackPlan, performanceNotes
 `;
 
-      const planningResult = await agent.processRequest(planningPrompt);
+      const planningResult = await agent.processRequest(planningPrompt, { task: 'planning' });
       return JSON.parse(planningResult);
     }
   }
 
+  /**
+   * Code related to all of the changes, for the prompts that plan them
+   */
+  private getRepositoryContext(changes: ChangeRequest[]): string {
+    if (!this.options.repositoryIndex) return '';
+
+    const query = changes.map(change => `${change.componentId} ${change.category} ${change.feedback}`).join('\n');
+    return formatRepositoryContext(this.options.repositoryIndex.retrieve(query, {
+      tokenBudget: this.options.contextTokenBudget
+    }));
+  }
+
+  /**
+   * Execute cross-validation task: the second developer checks an implementation against its change requests
+   */
+  private async executeValidationTask(task: ProcessingTask, agent: CustomAIAgent): Promise<any> {
+    const { fileIndex, implementationTaskId } = task.input;
+    const fileGroup = this.fileGroups[fileIndex];
+    const implementation = this.tasks.get(implementationTaskId)?.result;
+
+    const validationPrompt = `
+A colleague implemented these changes in ${fileGroup.filePath}:
+${fileGroup.changes.map((c: ChangeRequest) => `- ${c.componentId}: ${c.feedback}`).join('\n')}
+
+Their explanation: ${implementation.explanation}
+
+Updated file:
+\`\`\`typescript
+${implementation.updatedContent.substring(0, MAX_VALIDATION_CONTENT_LENGTH)}
+\`\`\`
+
+Check that every requested change is implemented correctly and that nothing else was broken.
+Return JSON with keys: approved (boolean), issues (list of concrete problems the developer must fix; empty when approved)
+`;
+
+    const validationResult = await agent.processRequest(validationPrompt, { task: 'review' });
+    return this.parseAgentJson(validationResult);
+  }
+
   /**
    * Execute testing task
    */
   private async executeTestingTask(task: ProcessingTask, agent: CustomAIAgent): Promise<any> {
-    const { implementations, changes, reviewFeedback } = task.input;
+    const { changes } = task.input;
+    const reviewFeedback = this.results.get('review');
     const testGenerator = this.processors.get('testGenerator') as TestSuiteGenerator;
 
-    const fileChanges = implementations
-      .filter((impl: any) => impl.success)
-      .map((impl: any) => ({
+    const fileChanges = this.implementations
+      .filter(impl => impl.success)
+      .map(impl => ({
         path: impl.result.filePath || 'unknown',
         content: impl.result.updatedContent || '',
         message: impl.result.commitMessage || 'AI generated changes'
       }));
+    if (fileChanges.length === 0) {
+      throw new Error('No implementations to generate tests for');
+    }
 
     const testConfig: TestGenerationConfig = {
       framework: 'vitest',
@@ -491,17 +854,19 @@ Return as JSON with keys: implementationOrder, riskMitigation, testingStrategy,
   }
 
   /**
-   * Execute review task
+   * Execute review task over the latest implementation of every file
    */
-  private async executeReviewTask(task: ProcessingTask, agent: CustomAIAgent): Promise<any> {
-    const { implementations } = task.input;
+  private async executeReviewTask(agent: CustomAIAgent): Promise<any> {
+    if (!this.implementations.some(impl => impl.success)) {
+      throw new Error('No implementations to review');
+    }
 
     const reviewPrompt = `
 Review these AI-generated code implementations for quality, security, and best practices:
 
-${implementations.map((impl: any, index: number) => `
+${this.implementations.map((impl, index) => `
 Implementation ${index + 1}:
-File: ${impl.result?.filePath || 'unknown'}
+File: ${this.fileGroups[index].filePath}
 Success: ${impl.success}
 ${impl.success ? `
 Code:
@@ -520,62 +885,35 @@ Provide a comprehensive review covering:
 5. Maintainability issues
 6. Testing recommendations
 
-Return as JSON with keys: overallScore, issues, recommendations, securityConcerns, performanceNotes, testRecommendations
+Return as JSON with keys: overallScore, issues, recommendations, securityConcerns, performanceNotes, testRecommendations,
+changesRequested (list of { filePath, issues } for files that must be fixed before they can be merged; empty when none must)
 `;
 
-    const reviewResult = await agent.processRequest(reviewPrompt);
-    return JSON.parse(reviewResult);
+    const reviewResult = await agent.processRequest(reviewPrompt, { task: 'review' });
+    return this.parseAgentJson(reviewResult);
   }
 
-  /**
-   * Execute multiple tasks concurrently with limit
-   */
-  private async executeTasksConcurrently(
-    sessionId: string,
-    tasks: ProcessingTask[],
-    maxConcurrent: number
-  ): Promise<Array<{ success: boolean; result?: any; error?: string }>> {
-    const results: Array<{ success: boolean; result?: any; error?: string }> = [];
-    const executing: Promise<any>[] = [];
-
-    for (const task of tasks) {
-      if (executing.length >= maxConcurrent) {
-        // Wait for one to complete before starting the next
-        await Promise.race(executing);
-      }
-
-      const taskPromise = this.executeTask(sessionId, task).then(result => {
-        const index = executing.indexOf(taskPromise);
-        if (index > -1) executing.splice(index, 1);
-        return result;
-      });
-
-      executing.push(taskPromise);
-      results.push(await taskPromise);
-    }
-
-    // Wait for all remaining tasks
-    await Promise.all(executing);
-
-    return results;
+  // Agents sometimes wrap their JSON in prose or code fences
+  private parseAgentJson(response: string): any {
+    const match = response.match(/\{[\s\S]*\}/);
+    return JSON.parse(match ? match[0] : response);
   }
 
   /**
-   * Retry failed task with lead agent assistance
+   * Ask the lead agent how a failed task could succeed; returns its guidance, or null when it should not be retried
    */
-  private async retryWithLeadAssistance(
-    sessionId: string,
-    failedResult: { success: boolean; error?: string }
-  ): Promise<{ success: boolean; result?: any; error?: string }> {
+  private async getRecoveryGuidance(sessionId: string, task: ProcessingTask): Promise<string[] | null> {
     const leadAgent = this.agents.get('lead');
     if (!leadAgent) {
-      return failedResult;
+      return null;
     }
 
-    await this.sessionManager.addLog(sessionId, 'info', 'Lead agent assisting with failed task recovery');
+    await this.sessionManager.addLog(sessionId, 'info', 'Lead agent assisting with failed task recovery', { taskId: task.id });
 
     const recoveryPrompt = `
-A task has failed with this error: ${failedResult.error}
+A task has failed with this error: ${task.error}
+
+Task: ${task.description}
 
 As the lead architect, provide guidance on how to recover from this failure:
 1. What alternative approaches could work?
@@ -587,18 +925,16 @@ Return JSON with keys: shouldRetry, alternativeApproach, modifications, safeguar
 `;
 
     try {
-      const recoveryGuidance = await leadAgent.processRequest(recoveryPrompt);
-      const guidance = JSON.parse(recoveryGuidance);
-
-      if (guidance.shouldRetry) {
-        await this.sessionManager.addLog(sessionId, 'info', 'Retrying task with lead agent guidance');
-        // Implementation of retry logic would go here
-        return { success: true, result: guidance };
-      } else {
-        return failedResult;
+      const recoveryGuidance = await leadAgent.processRequest(recoveryPrompt, { task: 'planning' });
+      const guidance = this.parseAgentJson(recoveryGuidance);
+      if (!guidance.shouldRetry) {
+        return null;
       }
+
+      return toNotes([guidance.alternativeApproach, guidance.modifications, guidance.safeguards].flat())
+        .map(note => `Lead architect: ${note}`);
     } catch (error) {
-      return failedResult;
+      return null;
     }
   }
 
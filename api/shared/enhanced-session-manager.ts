@@ -1,6 +1,11 @@
 // Enhanced Session Management for Agentic AI System
 import { Redis } from '@upstash/redis';
 import RedisKeys from '../../src/services/redis-keys';
+import type { AppliedHunk } from './patch-applier';
+import type { ModelRoute } from './model-router';
+import { UsageTracker } from './usage-tracker';
+import { TaskTracker } from './task-tracker';
+import { AgentMemoryStore } from './agent-memory';
 
 // Initialize Redis client
 const redis = new Redis({
@@ -24,6 +29,8 @@ export interface FileProcessingInfo {
   processingTime?: number;
   commitSha?: string;
   error?: string;
+  outputMode?: 'patch' | 'full';
+  hunks?: AppliedHunk[];
 }
 
 export interface RetryInfo {
@@ -33,6 +40,34 @@ export interface RetryInfo {
   nextRetryAt?: number;
 }
 
+export type CheckpointPhase = 'validation' | 'fileGroups' | 'commits' | 'pullRequest' | 'deployment';
+
+export interface FileOutputCheckpoint {
+  content: string;
+  commitMessage: string;
+  hunks?: AppliedHunk[];
+  completedAt: number;
+}
+
+export interface ProcessingCheckpoints {
+  // Original submission, kept so a failed session can be resumed without the client resending it
+  submission?: any;
+  completedPhases: Partial<Record<CheckpointPhase, { completedAt: number; data?: Record<string, any> }>>;
+  fileOutputs: Record<string, FileOutputCheckpoint>;
+}
+
+export type SessionEventType = 'status' | 'log' | 'file' | 'commit' | 'preview' | 'project';
+
+export interface SessionEvent {
+  id: string; // Redis stream entry id, used as the SSE event id for Last-Event-ID resume
+  type: SessionEventType;
+  data: any;
+  timestamp: number;
+}
+
+// Stream entries kept per session, enough for a reconnecting client to catch up
+const SESSION_EVENTS_MAX_LENGTH = 1000;
+
 export interface EnhancedProcessingSession {
   // Basic session info
   id: string;
@@ -59,6 +94,11 @@ export interface EnhancedProcessingSession {
   prUrl?: string;
   prNumber?: number;
   previewUrl?: string;
+
+  // Project initialization results
+  repoUrl?: string;
+  netlifyUrl?: string;
+  mongodbDatabase?: string;
   
   // Timing
   startTime: number;
@@ -82,7 +122,7 @@ export interface EnhancedProcessingSession {
     sha: string;
     message: string;
     url: string;
-    filePath: string;
+    files: string[];
   }>;
   testResults?: {
     passed: number;
@@ -90,6 +130,41 @@ export interface EnhancedProcessingSession {
     total: number;
     details: string[];
   };
+
+  // Resume support
+  checkpoints?: ProcessingCheckpoints;
+}
+
+// What project listings show of a session, indexed per project so they never load full sessions
+export interface ProjectSessionSummary {
+  id: string;
+  status: string;
+  progress: number;
+  currentStep: string;
+  startTime: number;
+  endTime?: number;
+  prUrl?: string;
+  previewUrl?: string;
+  error?: string;
+}
+
+function summarizeSession(session: EnhancedProcessingSession): ProjectSessionSummary {
+  return {
+    id: session.id,
+    status: session.status,
+    progress: session.progress,
+    currentStep: session.currentStep,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    prUrl: session.prUrl,
+    previewUrl: session.previewUrl,
+    error: session.error
+  };
+}
+
+function parseSessionSummary(value: unknown): ProjectSessionSummary {
+  // Upstash deserializes JSON values automatically
+  return typeof value === 'string' ? JSON.parse(value) : value as ProjectSessionSummary;
 }
 
 export class EnhancedSessionManager {
@@ -206,12 +281,20 @@ export class EnhancedSessionManager {
   }
 
   /**
-   * Store session data with TTL using RedisKeys
+   * Store session data with TTL using RedisKeys, and its summary in the project's session index
    */
   async setSession(sessionId: string, session: EnhancedProcessingSession): Promise<void> {
     try {
       const key = RedisKeys.session(sessionId);
-      await this.redis.setex(key, this.SESSION_TTL, JSON.stringify(session));
+      const pipeline = this.redis.pipeline();
+      pipeline.setex(key, this.SESSION_TTL, JSON.stringify(session));
+
+      if (session.projectId) {
+        const indexKey = RedisKeys.projectSessions(session.projectId);
+        pipeline.hset(indexKey, { [sessionId]: JSON.stringify(summarizeSession(session)) });
+        pipeline.expire(indexKey, this.SESSION_TTL);
+      }
+      await pipeline.exec();
     } catch (error) {
       console.error('Failed to store session:', error);
       // Fallback to in-memory storage if Redis fails
@@ -245,6 +328,35 @@ export class EnhancedSessionManager {
     }
   }
 
+  /**
+   * Summaries of each project's sessions, newest first. Summaries of expired sessions are dropped from the index.
+   */
+  async getProjectSessions(projectIds: string[]): Promise<Map<string, ProjectSessionSummary[]>> {
+    const sessionsByProject = new Map<string, ProjectSessionSummary[]>();
+    if (projectIds.length === 0) return sessionsByProject;
+
+    const pipeline = this.redis.pipeline();
+    for (const projectId of projectIds) {
+      pipeline.hgetall(RedisKeys.projectSessions(projectId));
+    }
+    const hashes = await pipeline.exec<Array<Record<string, unknown> | null>>();
+
+    const expiredBefore = Date.now() - this.SESSION_TTL * 1000;
+    for (const [index, projectId] of projectIds.entries()) {
+      const summaries = Object.values(hashes[index] || {}).map(parseSessionSummary);
+      const expired = summaries.filter(summary => summary.startTime < expiredBefore);
+      if (expired.length > 0) {
+        await this.redis.hdel(RedisKeys.projectSessions(projectId), ...expired.map(summary => summary.id));
+      }
+
+      sessionsByProject.set(projectId, summaries
+        .filter(summary => summary.startTime >= expiredBefore)
+        .sort((a, b) => b.startTime - a.startTime));
+    }
+
+    return sessionsByProject;
+  }
+
   /**
    * Update session status and progress
    */
@@ -275,6 +387,13 @@ export class EnhancedSessionManager {
     }
 
     await this.setSession(sessionId, session);
+    await this.appendEvent(sessionId, 'status', {
+      status: session.status,
+      progress: session.progress,
+      currentStep: session.currentStep,
+      estimatedCompletionTime: session.estimatedCompletionTime
+    });
+    await this.syncTasks(session);
   }
 
   /**
@@ -317,6 +436,8 @@ export class EnhancedSessionManager {
     } catch (error) {
       console.error('Failed to store log separately:', error);
     }
+
+    await this.appendEvent(sessionId, 'log', log);
   }
 
   /**
@@ -402,6 +523,13 @@ export class EnhancedSessionManager {
     }
 
     await this.setSession(sessionId, session);
+    await this.appendEvent(sessionId, 'file', {
+      file: session.fileGroups.find(f => f.path === filePath),
+      totalFiles: session.totalFiles,
+      processedFiles: session.processedFiles,
+      failedFiles: session.failedFiles,
+      progress: session.progress
+    });
   }
 
   /**
@@ -413,20 +541,117 @@ export class EnhancedSessionManager {
       sha: string;
       message: string;
       url: string;
-      filePath: string;
+      files: string[];
     }
   ): Promise<void> {
     const session = await this.getSession(sessionId);
     if (session) {
       session.commits.push(commitInfo);
       await this.setSession(sessionId, session);
-      await this.addLog(sessionId, 'success', `Committed changes to ${commitInfo.filePath}`, {
+      await this.appendEvent(sessionId, 'commit', commitInfo);
+      await this.addLog(sessionId, 'success', `Committed changes to ${commitInfo.files.join(', ')}`, {
         sha: commitInfo.sha,
         url: commitInfo.url
       });
     }
   }
 
+  /**
+   * Store the original submission so the session can be resumed later
+   */
+  async setSubmission(sessionId: string, submission: any): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.checkpoints = { ...this.emptyCheckpoints(), ...session.checkpoints, submission };
+      await this.setSession(sessionId, session);
+    }
+  }
+
+  /**
+   * Record a completed pipeline phase
+   */
+  async setCheckpoint(
+    sessionId: string,
+    phase: CheckpointPhase,
+    data?: Record<string, any>
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.checkpoints = session.checkpoints || this.emptyCheckpoints();
+      session.checkpoints.completedPhases[phase] = { completedAt: Date.now(), data };
+      await this.setSession(sessionId, session);
+      await this.addLog(sessionId, 'debug', `Checkpoint reached: ${phase}`, data);
+    }
+  }
+
+  /**
+   * Record which provider and model served an AI request and add its token usage to the session totals.
+   * Fallbacks are logged as warnings.
+   */
+  async recordModelRoute(sessionId: string, route: ModelRoute): Promise<void> {
+    try {
+      await UsageTracker.recordSessionUsage(sessionId, route);
+    } catch (error) {
+      console.error('Failed to record session usage:', error);
+    }
+
+    if (route.fallback) {
+      const failed = route.failedProviders.map(failure => failure.provider).join(', ');
+      await this.addLog(sessionId, 'warning',
+        `🔀 ${route.task} request served by fallback ${route.provider}/${route.modelId} after ${failed} failed`,
+        { ...route }, 'model-router');
+    } else {
+      await this.addLog(sessionId, 'debug',
+        `🤖 ${route.task} request served by ${route.provider}/${route.modelId}`, { ...route }, 'model-router');
+    }
+  }
+
+  /**
+   * Record the AI output for a single file so retries do not regenerate it
+   */
+  async setFileOutput(
+    sessionId: string,
+    filePath: string,
+    content: string,
+    commitMessage: string,
+    hunks?: AppliedHunk[]
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.checkpoints = session.checkpoints || this.emptyCheckpoints();
+      session.checkpoints.fileOutputs[filePath] = { content, commitMessage, hunks, completedAt: Date.now() };
+      await this.setSession(sessionId, session);
+    }
+  }
+
+  async getCheckpoints(sessionId: string): Promise<ProcessingCheckpoints> {
+    const session = await this.getSession(sessionId);
+    return session?.checkpoints || this.emptyCheckpoints();
+  }
+
+  /**
+   * Reopen a failed session so processing can continue from its last checkpoint
+   */
+  async prepareResume(sessionId: string): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.status = 'received';
+      session.error = undefined;
+      session.endTime = undefined;
+      session.retryInfo = undefined;
+      session.currentStep = 'Resuming from last checkpoint';
+      await this.setSession(sessionId, session);
+      await this.addLog(sessionId, 'info', 'Resuming session from last checkpoint', {
+        completedPhases: Object.keys(session.checkpoints?.completedPhases || {}),
+        completedFiles: Object.keys(session.checkpoints?.fileOutputs || {}).length
+      });
+    }
+  }
+
+  private emptyCheckpoints(): ProcessingCheckpoints {
+    return { completedPhases: {}, fileOutputs: {} };
+  }
+
   /**
    * Set branch and PR information
    */
@@ -443,6 +668,7 @@ export class EnhancedSessionManager {
       await this.addLog(sessionId, 'info', `Created feature branch: ${branchName}`, {
         featureName
       });
+      await this.syncTasks(session);
     }
   }
 
@@ -462,6 +688,24 @@ export class EnhancedSessionManager {
       await this.addLog(sessionId, 'success', `Pull request created: #${prNumber}`, {
         prUrl
       });
+      await this.syncTasks(session);
+    }
+  }
+
+  /**
+   * Store what project initialization created, and tell subscribers where the repository and site are
+   */
+  async setInitializationResult(
+    sessionId: string,
+    result: { repoUrl?: string; netlifyUrl?: string; mongodbDatabase?: string }
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.repoUrl = result.repoUrl;
+      session.netlifyUrl = result.netlifyUrl;
+      session.mongodbDatabase = result.mongodbDatabase;
+      await this.setSession(sessionId, session);
+      await this.appendEvent(sessionId, 'project', { repoUrl: result.repoUrl, netlifyUrl: result.netlifyUrl });
     }
   }
 
@@ -473,9 +717,30 @@ export class EnhancedSessionManager {
     if (session) {
       session.previewUrl = previewUrl;
       await this.setSession(sessionId, session);
+      await this.appendEvent(sessionId, 'preview', { previewUrl });
       await this.addLog(sessionId, 'success', 'Preview deployment ready', {
         previewUrl
       });
+      await this.syncTasks(session);
+    }
+  }
+
+  /**
+   * Record acceptance test results for the session
+   */
+  async setTestResults(
+    sessionId: string,
+    testResults: NonNullable<EnhancedProcessingSession['testResults']>
+  ): Promise<void> {
+    const session = await this.getSession(sessionId);
+    if (session) {
+      session.testResults = testResults;
+      await this.setSession(sessionId, session);
+      await this.addLog(sessionId, testResults.failed > 0 ? 'error' : 'success',
+        `Acceptance tests: ${testResults.passed}/${testResults.total} passed`, {
+          failed: testResults.failed,
+          details: testResults.details
+        });
     }
   }
 
@@ -490,7 +755,16 @@ export class EnhancedSessionManager {
       session.endTime = Date.now();
       session.progress = 0;
       await this.setSession(sessionId, session);
+      await this.appendEvent(sessionId, 'status', {
+        status: session.status,
+        progress: session.progress,
+        currentStep: session.currentStep,
+        error,
+        endTime: session.endTime
+      });
       await this.addLog(sessionId, 'error', 'Session failed', { error });
+      await this.syncTasks(session);
+      await this.recordMemoryOutcome(session, false);
     }
   }
 
@@ -505,18 +779,52 @@ export class EnhancedSessionManager {
       session.progress = 100;
       session.currentStep = 'Processing completed successfully';
       await this.setSession(sessionId, session);
+      await this.appendEvent(sessionId, 'status', {
+        status: session.status,
+        progress: session.progress,
+        currentStep: session.currentStep,
+        endTime: session.endTime,
+        prUrl: session.prUrl,
+        previewUrl: session.previewUrl
+      });
+      await this.syncTasks(session);
+      await this.recordMemoryOutcome(session, true);
       
       const totalTime = Math.round((session.endTime - session.startTime) / 1000);
       await this.addLog(sessionId, 'success', 'Processing completed successfully', {
         totalTime: `${totalTime} seconds`,
         processedFiles: session.processedFiles,
         commits: session.commits.length,
+        files: session.fileGroups.length,
         prUrl: session.prUrl,
         previewUrl: session.previewUrl
       });
     }
   }
 
+  /**
+   * Keep the tasks the session works on in step with it; task tracking never fails the session
+   */
+  private async syncTasks(session: EnhancedProcessingSession): Promise<void> {
+    try {
+      await TaskTracker.syncSession(session);
+    } catch (error) {
+      console.error('Failed to sync tasks for session:', error);
+    }
+  }
+
+  /**
+   * Credit the session's outcome to the project memory its agents used
+   */
+  private async recordMemoryOutcome(session: EnhancedProcessingSession, success: boolean): Promise<void> {
+    if (!session.projectId) return;
+    try {
+      await AgentMemoryStore.recordSessionOutcome(session.projectId, session.id, success);
+    } catch (error) {
+      console.error('Failed to record session outcome in agent memory:', error);
+    }
+  }
+
   /**
    * Set retry information
    */
@@ -542,6 +850,59 @@ export class EnhancedSessionManager {
     }
   }
 
+  /**
+   * Append an event to the session's Redis stream for SSE subscribers.
+   * Failures only log so a stream outage never breaks processing.
+   */
+  private async appendEvent(sessionId: string, type: SessionEventType, data: any): Promise<void> {
+    try {
+      const key = RedisKeys.sessionEvents(sessionId);
+      await this.redis.xadd(key, '*', { type, data: JSON.stringify(data), timestamp: Date.now() }, {
+        trim: { type: 'MAXLEN', threshold: SESSION_EVENTS_MAX_LENGTH, comparison: '~' }
+      });
+      await this.redis.expire(key, this.SESSION_TTL);
+    } catch (error) {
+      console.error('Failed to append session event:', error);
+    }
+  }
+
+  /**
+   * Events appended after `lastEventId`, or from the start of the stream when it is omitted
+   */
+  async getEventsSince(sessionId: string, lastEventId?: string, count: number = 100): Promise<SessionEvent[]> {
+    try {
+      const entries = await this.redis.xrange(
+        RedisKeys.sessionEvents(sessionId),
+        lastEventId ? `(${lastEventId}` : '-',
+        '+',
+        count
+      ) as Record<string, Record<string, unknown>>;
+
+      return Object.entries(entries || {}).map(([id, entry]) => ({
+        id,
+        type: entry.type as SessionEventType,
+        data: typeof entry.data === 'string' ? JSON.parse(entry.data) : entry.data,
+        timestamp: Number(entry.timestamp) || 0
+      }));
+    } catch (error) {
+      console.error('Failed to read session events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Id of the newest event, so a snapshot can be followed by only the events after it
+   */
+  async getLatestEventId(sessionId: string): Promise<string | undefined> {
+    try {
+      const entries = await this.redis.xrevrange(RedisKeys.sessionEvents(sessionId), '+', '-', 1);
+      return Object.keys(entries || {})[0];
+    } catch (error) {
+      console.error('Failed to read latest session event:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Get session summary for status endpoint
    */
@@ -565,8 +926,14 @@ export class EnhancedSessionManager {
       processedFiles: session.processedFiles,
       failedFiles: session.failedFiles,
       commits: session.commits.length,
-      logs: session.logs, // All logs
-      retryInfo: session.retryInfo
+      files: session.fileGroups,
+      repoUrl: session.repoUrl,
+      netlifyUrl: session.netlifyUrl,
+      logs: await this.getAllSessionLogs(sessionId), // Including those trimmed from the session
+      retryInfo: session.retryInfo,
+      testResults: session.testResults,
+      completedPhases: Object.keys(session.checkpoints?.completedPhases || {}),
+      usage: await UsageTracker.getSessionUsage(sessionId).catch(() => undefined)
     };
   }
 
@@ -595,7 +962,10 @@ export class EnhancedSessionManager {
       for (const sessionId of sessionIds) {
         const session = await this.getSession(sessionId);
         if (session && session.startTime < cutoffTime) {
-          await this.redis.del(RedisKeys.session(sessionId));
+          await this.redis.del(RedisKeys.session(sessionId), RedisKeys.sessionEvents(sessionId), RedisKeys.sessionUsage(sessionId));
+          if (session.projectId) {
+            await this.redis.hdel(RedisKeys.projectSessions(session.projectId), sessionId);
+          }
           this.fallbackStorage.delete(sessionId);
           cleaned++;
         }
@@ -0,0 +1,176 @@
+// GitHub Sandbox - the agent's file and git tools over the GitHub API, for functions that cannot clone a repository
+import path from 'path';
+import { EnhancedGitHubService, FileChange, PullRequestInfo } from '../../src/services/enhanced-github-service';
+import { AgentSandbox, SandboxError } from './workspace-sandbox';
+
+// Tree entries fetched per branch for list_files
+const MAX_TREE_FILES = 5000;
+
+export interface StagedChange {
+  path: string;
+  content: string;
+  isNew: boolean; // Not on the branch yet
+}
+
+export interface GitHubSandboxOptions {
+  baseBranch?: string; // Pull requests target this branch, defaults to the branch the sandbox starts on
+  githubService?: EnhancedGitHubService;
+}
+
+// owner/repo in lower case, so differently written URLs of one repository compare equal
+function getRepositoryKey(repositoryUrl: string): string {
+  return repositoryUrl.trim().toLowerCase().replace(/^https?:\/\/(www\.)?github\.com\//, '').replace(/(\.git)?\/*$/, '');
+}
+
+/**
+ * Reads come from a branch on GitHub; writes are staged in memory until gitCommit pushes them as one commit.
+ * Commands cannot run, so the agent gets no run_tests or run_command tools with this sandbox.
+ */
+export class GitHubSandbox implements AgentSandbox {
+  private githubService: EnhancedGitHubService;
+  private repositoryUrl: string;
+  private branch: string;
+  private baseBranch: string;
+  private staged = new Map<string, StagedChange>();
+  private treeCache?: Promise<string[]>;
+
+  constructor(repositoryUrl: string, branch: string = 'develop', options: GitHubSandboxOptions = {}) {
+    this.repositoryUrl = repositoryUrl;
+    this.branch = branch;
+    this.baseBranch = options.baseBranch || branch;
+    this.githubService = options.githubService || new EnhancedGitHubService();
+  }
+
+  get currentBranch(): string {
+    return this.branch;
+  }
+
+  /**
+   * The change set gitCommit would push, for review before anything reaches GitHub
+   */
+  getStagedChanges(): StagedChange[] {
+    return [...this.staged.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  discardStagedChanges(): void {
+    this.staged.clear();
+  }
+
+  // Nothing is kept outside memory; unpushed changes are dropped
+  async dispose(): Promise<void> {
+    this.discardStagedChanges();
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const normalized = this.normalizePath(filePath);
+    const staged = this.staged.get(normalized);
+    if (staged) return staged.content;
+
+    return this.githubService.getFileContent(this.repositoryUrl, normalized, this.branch);
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    const normalized = this.normalizePath(filePath);
+    const isNew = this.staged.get(normalized)?.isNew ?? !(await this.getTree()).includes(normalized);
+    this.staged.set(normalized, { path: normalized, content, isNew });
+  }
+
+  /**
+   * Entries of a directory, including staged files, directories with a trailing slash
+   */
+  async listFiles(dirPath: string = '.'): Promise<string[]> {
+    const normalized = this.normalizePath(dirPath);
+    const prefix = normalized ? `${normalized}/` : '';
+    const entries = new Set<string>();
+
+    for (const filePath of [...await this.getTree(), ...this.staged.keys()]) {
+      if (!filePath.startsWith(prefix)) continue;
+      const [name, ...rest] = filePath.slice(prefix.length).split('/');
+      entries.add(rest.length > 0 ? `${prefix}${name}/` : `${prefix}${name}`);
+    }
+
+    if (entries.size === 0 && normalized) {
+      throw new SandboxError(`No such directory: ${dirPath}`);
+    }
+    return [...entries].sort();
+  }
+
+  /**
+   * Point the sandbox at another branch of its repository; nothing is downloaded.
+   * The sandbox stays pinned to the session's repository, since the platform token can write to others.
+   */
+  async gitClone(repositoryUrl: string, branch: string = 'develop'): Promise<string> {
+    if (getRepositoryKey(repositoryUrl) !== getRepositoryKey(this.repositoryUrl)) {
+      throw new SandboxError(`The sandbox is pinned to ${this.repositoryUrl}`);
+    }
+    if (this.staged.size > 0) {
+      throw new SandboxError(`${this.staged.size} staged changes would be lost; commit them first`);
+    }
+
+    this.branch = branch;
+    this.baseBranch = branch;
+    this.treeCache = undefined;
+    return `Using ${this.repositoryUrl} (${branch}) through the GitHub API`;
+  }
+
+  /**
+   * Create the branch on GitHub from the current one. Staged changes move with it.
+   */
+  async gitCreateBranch(branchName: string): Promise<string> {
+    await this.githubService.createFeatureBranch(this.repositoryUrl, branchName, this.branch);
+    this.branch = branchName;
+    return `Created branch ${branchName}; staged changes will be committed to it`;
+  }
+
+  async gitCommit(message: string): Promise<string> {
+    if (this.staged.size === 0) {
+      return 'Nothing to commit';
+    }
+    if (this.branch === this.baseBranch) {
+      throw new SandboxError(`Create a branch first; commits are not made directly to ${this.baseBranch}`);
+    }
+
+    const changes: FileChange[] = this.getStagedChanges().map(change => ({
+      path: change.path,
+      content: change.content,
+      message
+    }));
+    const [commit] = await this.githubService.commitChanges(this.repositoryUrl, this.branch, changes, {
+      mode: 'atomic',
+      message
+    });
+
+    this.staged.clear();
+    this.treeCache = undefined;
+    return `Committed ${changes.length} files as ${commit.sha.slice(0, 7)}`;
+  }
+
+  async createPullRequest(title: string, description: string): Promise<PullRequestInfo> {
+    if (this.staged.size > 0) {
+      throw new SandboxError(`${this.staged.size} staged changes are not committed yet`);
+    }
+    if (this.branch === this.baseBranch) {
+      throw new SandboxError(`Create a branch first; the sandbox is on the base branch ${this.baseBranch}`);
+    }
+
+    return this.githubService.createPullRequest(this.repositoryUrl, this.branch, title, description, this.baseBranch);
+  }
+
+  // Repository-relative POSIX paths; '' is the root
+  private normalizePath(filePath: string): string {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '').replace(/\/$/, '');
+    if (normalized === '..' || normalized.startsWith('../')) {
+      throw new SandboxError(`Path is outside the repository: ${filePath}`);
+    }
+    return normalized === '.' ? '' : normalized;
+  }
+
+  private getTree(): Promise<string[]> {
+    if (!this.treeCache) {
+      this.treeCache = this.githubService.listFilesRecursive(this.repositoryUrl, '', this.branch, MAX_TREE_FILES);
+      // A failed lookup should not stick
+      this.treeCache.catch(() => { this.treeCache = undefined; });
+    }
+    return this.treeCache;
+  }
+}
@@ -0,0 +1,74 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModelRouter } from './model-router';
+
+const API_KEY_ENV_VARS = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GOOGLE_API_KEY', 'GOOGLE_GENERATIVE_AI_API_KEY', 'GROK_API_KEY', 'XAI_API_KEY'];
+
+describe('ModelRouter', () => {
+  beforeEach(() => {
+    for (const envVar of [...API_KEY_ENV_VARS, 'AI_PROVIDER_FALLBACKS']) {
+      vi.stubEnv(envVar, '');
+    }
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back only to providers with an API key, in the default order', () => {
+    vi.stubEnv('GOOGLE_GENERATIVE_AI_API_KEY', 'key');
+    vi.stubEnv('OPENAI_API_KEY', 'key');
+
+    expect(new ModelRouter({ provider: 'grok' }).getProviderChain()).toEqual(['grok', 'openai', 'google']);
+  });
+
+  it('takes the fallback order from AI_PROVIDER_FALLBACKS or the options', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'key');
+    vi.stubEnv('OPENAI_API_KEY', 'key');
+    vi.stubEnv('AI_PROVIDER_FALLBACKS', 'openai, unknown, anthropic');
+
+    expect(new ModelRouter({ provider: 'anthropic' }).getProviderChain()).toEqual(['anthropic', 'openai']);
+    expect(new ModelRouter({ provider: 'google', fallbackProviders: [] }).getProviderChain()).toEqual(['google']);
+  });
+
+  it('picks the model tier by task and keeps an explicit model for its own provider', () => {
+    const router = new ModelRouter({ provider: 'anthropic', model: 'claude-opus-4-20250514' });
+
+    expect(router.resolveModelId('anthropic', 'validation')).toBe('claude-opus-4-20250514');
+    expect(router.resolveModelId('openai', 'validation')).toBe('gpt-4o-mini');
+    expect(router.resolveModelId('openai', 'generation')).toBe('gpt-4-turbo');
+    expect(new ModelRouter({ provider: 'openai', model: 'claude-opus-4-20250514' }).resolveModelId('openai', 'summary'))
+      .toBe('gpt-4o-mini');
+    expect(new ModelRouter({ provider: 'google', model: 'default' }).resolveModelId('google', 'review')).toBe('gemini-pro');
+  });
+
+  it('retries a failed request on the next provider and reports the route', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'key');
+    const request = vi.fn()
+      .mockRejectedValueOnce(new Error('overloaded'))
+      .mockResolvedValueOnce('done');
+
+    const { result, route } = await new ModelRouter({ provider: 'anthropic' }).run('summary', request);
+
+    expect(result).toBe('done');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request).toHaveBeenLastCalledWith(expect.anything(), 8192);
+    expect(route).toEqual({
+      task: 'summary',
+      provider: 'openai',
+      modelId: 'gpt-4o-mini',
+      fallback: true,
+      failedProviders: [{ provider: 'anthropic', modelId: 'claude-3-5-haiku-20241022', error: 'overloaded' }]
+    });
+  });
+
+  it('throws with every provider error when the whole chain fails', async () => {
+    vi.stubEnv('GROK_API_KEY', 'key');
+    const request = vi.fn().mockRejectedValue(new Error('unavailable'));
+
+    await expect(new ModelRouter({ provider: 'anthropic' }).run('generation', request))
+      .rejects.toThrow('All AI providers failed: anthropic: unavailable; grok: unavailable');
+  });
+});
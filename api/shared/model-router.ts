@@ -0,0 +1,165 @@
+// Model Router - per-task model choice and provider fallback for AI agents
+import { anthropic } from '@ai-sdk/anthropic';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import type { TokenUsage } from './usage-tracker';
+
+export type AIProvider = 'anthropic' | 'openai' | 'google' | 'grok';
+
+// What a request is used for - decides whether a cheap or a strong model serves it
+export type ModelTask = 'validation' | 'summary' | 'analysis' | 'planning' | 'generation' | 'review' | 'general';
+
+export type ModelTier = 'fast' | 'strong';
+
+export interface ModelRoute {
+  task: ModelTask;
+  provider: AIProvider;
+  modelId: string;
+  fallback: boolean; // Served by a provider other than the configured one
+  failedProviders: Array<{ provider: AIProvider; modelId: string; error: string }>;
+  usage?: TokenUsage; // Tokens reported by the serving provider
+  estimatedCost?: number; // USD, from the model's list price
+}
+
+export interface ModelRouterOptions {
+  provider: AIProvider;
+  model?: string; // Explicit model for the primary provider, 'default' uses the task tier
+  fallbackProviders?: AIProvider[]; // Overrides AI_PROVIDER_FALLBACKS, pass [] to disable fallback
+}
+
+const TASK_TIERS: Record<ModelTask, ModelTier> = {
+  validation: 'fast',
+  summary: 'fast',
+  analysis: 'strong',
+  planning: 'strong',
+  generation: 'strong',
+  review: 'strong',
+  general: 'strong'
+};
+
+const PROVIDER_MODELS: Record<AIProvider, Record<ModelTier, string>> = {
+  anthropic: { fast: 'claude-3-5-haiku-20241022', strong: 'claude-sonnet-4-20250514' },
+  openai: { fast: 'gpt-4o-mini', strong: 'gpt-4-turbo' },
+  google: { fast: 'gemini-1.5-flash', strong: 'gemini-pro' },
+  grok: { fast: 'grok-3-mini', strong: 'grok-3' }
+};
+
+// Output token budget per tier - the fast models cap their output well below the strong ones
+const TIER_MAX_OUTPUT_TOKENS: Record<ModelTier, number> = {
+  fast: 8192,
+  strong: 48000
+};
+
+// Model id prefixes, used to ignore an explicit model that belongs to a different provider
+const MODEL_PREFIXES: Record<AIProvider, string[]> = {
+  anthropic: ['claude'],
+  openai: ['gpt', 'o1', 'o3', 'o4'],
+  google: ['gemini'],
+  grok: ['grok']
+};
+
+const PROVIDER_API_KEYS: Record<AIProvider, string[]> = {
+  anthropic: ['ANTHROPIC_API_KEY'],
+  openai: ['OPENAI_API_KEY'],
+  google: ['GOOGLE_API_KEY', 'GOOGLE_GENERATIVE_AI_API_KEY'],
+  grok: ['GROK_API_KEY', 'XAI_API_KEY']
+};
+
+const DEFAULT_FALLBACK_ORDER: AIProvider[] = ['anthropic', 'openai', 'google', 'grok'];
+
+const google = createGoogleGenerativeAI({
+  apiKey: process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY
+});
+
+// xAI serves Grok through an OpenAI-compatible API
+const grok = createOpenAI({
+  baseURL: 'https://api.x.ai/v1',
+  apiKey: process.env.GROK_API_KEY || process.env.XAI_API_KEY,
+  compatibility: 'compatible'
+});
+
+const PROVIDER_CLIENTS: Record<AIProvider, (modelId: string) => any> = {
+  anthropic: modelId => anthropic(modelId),
+  openai: modelId => openai(modelId),
+  google: modelId => google(modelId),
+  grok: modelId => grok(modelId)
+};
+
+export function isProviderConfigured(provider: AIProvider): boolean {
+  return PROVIDER_API_KEYS[provider].some(envVar => !!process.env[envVar]);
+}
+
+function isAIProvider(value: string): value is AIProvider {
+  return value in PROVIDER_MODELS;
+}
+
+/**
+ * Routes each request to a model picked by task, trying the next configured provider when one fails
+ */
+export class ModelRouter {
+  private options: ModelRouterOptions;
+
+  constructor(options: ModelRouterOptions) {
+    this.options = options;
+  }
+
+  setProvider(provider: AIProvider, model?: string): void {
+    this.options = { ...this.options, provider, model };
+  }
+
+  /**
+   * Providers in the order they are tried: the configured one first, then fallbacks with an API key
+   */
+  getProviderChain(): AIProvider[] {
+    const envFallbacks = (process.env.AI_PROVIDER_FALLBACKS || '')
+      .split(',')
+      .map(provider => provider.trim())
+      .filter(isAIProvider);
+    const fallbacks = this.options.fallbackProviders
+      ?? (envFallbacks.length > 0 ? envFallbacks : DEFAULT_FALLBACK_ORDER);
+
+    const chain = [this.options.provider, ...fallbacks.filter(provider => isProviderConfigured(provider))];
+    return Array.from(new Set(chain));
+  }
+
+  resolveModelId(provider: AIProvider, task: ModelTask): string {
+    const explicitModel = this.options.model;
+    if (
+      provider === this.options.provider &&
+      explicitModel && explicitModel !== 'default' &&
+      MODEL_PREFIXES[provider].some(prefix => explicitModel.startsWith(prefix))
+    ) {
+      return explicitModel;
+    }
+    return PROVIDER_MODELS[provider][TASK_TIERS[task]];
+  }
+
+  /**
+   * Run a request against each provider in the chain until one succeeds
+   */
+  async run<T>(
+    task: ModelTask,
+    request: (model: any, maxOutputTokens: number) => Promise<T>
+  ): Promise<{ result: T; route: ModelRoute }> {
+    const failedProviders: ModelRoute['failedProviders'] = [];
+
+    for (const provider of this.getProviderChain()) {
+      const modelId = this.resolveModelId(provider, task);
+      try {
+        const result = await request(PROVIDER_CLIENTS[provider](modelId), TIER_MAX_OUTPUT_TOKENS[TASK_TIERS[task]]);
+        return {
+          result,
+          route: { task, provider, modelId, fallback: provider !== this.options.provider, failedProviders }
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ ${provider}/${modelId} failed for ${task} request: ${errorMessage}`);
+        failedProviders.push({ provider, modelId, error: errorMessage });
+      }
+    }
+
+    throw new Error(
+      `All AI providers failed: ${failedProviders.map(failure => `${failure.provider}: ${failure.error}`).join('; ')}`
+    );
+  }
+}
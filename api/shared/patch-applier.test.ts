@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { applyPatch, formatHunkAsDiff, parsePatch } from './patch-applier';
+
+const APP = [
+  'export function App() {',
+  '  const title = "Hello";',
+  '  return <h1>{title}</h1>;',
+  '}'
+].join('\n');
+
+describe('parsePatch', () => {
+  it('parses search/replace blocks with their component IDs', () => {
+    const hunks = parsePatch([
+      '<<<<<<< SEARCH (componentId: hero-title)',
+      '  const title = "Hello";',
+      '=======',
+      '  const title = "Welcome";',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  return <h1>{title}</h1>;',
+      '=======',
+      '>>>>>>> REPLACE'
+    ].join('\n'));
+
+    expect(hunks).toEqual([
+      { componentId: 'hero-title', search: '  const title = "Hello";', replace: '  const title = "Welcome";' },
+      { componentId: undefined, search: '  return <h1>{title}</h1>;', replace: '' }
+    ]);
+  });
+
+  it('falls back to unified diff hunks and keeps context lines on both sides', () => {
+    const hunks = parsePatch([
+      '--- a/src/App.tsx',
+      '+++ b/src/App.tsx',
+      '@@ -1,3 +1,3 @@ hero-title',
+      ' export function App() {',
+      '-  const title = "Hello";',
+      '+  const title = "Welcome";',
+      '\\ No newline at end of file'
+    ].join('\n'));
+
+    expect(hunks).toEqual([{
+      componentId: 'hero-title',
+      search: 'export function App() {\n  const title = "Hello";',
+      replace: 'export function App() {\n  const title = "Welcome";'
+    }]);
+  });
+
+  it('finds no hunks in plain text', () => {
+    expect(parsePatch('Here is the updated file.')).toEqual([]);
+  });
+});
+
+describe('applyPatch', () => {
+  it('applies hunks in order and records where each one starts', () => {
+    const result = applyPatch(APP, [
+      { search: '  const title = "Hello";', replace: '  const title = "Welcome";' },
+      { search: '<h1>{title}</h1>', replace: '<h1 className="title">{title}</h1>' }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.content).toBe(APP.replace('"Hello"', '"Welcome"').replace('<h1>', '<h1 className="title">'));
+    expect(result.applied.map(hunk => hunk.startLine)).toEqual([2, 3]);
+  });
+
+  it('tolerates trailing whitespace differences', () => {
+    const result = applyPatch(APP.replace('"Hello";', '"Hello";   '), [
+      { search: '  const title = "Hello";\n  return <h1>{title}</h1>;', replace: '  return <h1>Welcome</h1>;' }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.content).toBe('export function App() {\n  return <h1>Welcome</h1>;\n}');
+  });
+
+  it('rejects search text that is missing, ambiguous or empty', () => {
+    const result = applyPatch(`${APP}\n${APP}`, [
+      { search: 'const missing = true;', replace: '' },
+      { componentId: 'hero-title', search: '  const title = "Hello";', replace: '' },
+      { search: '  \n', replace: 'x' }
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.applied).toEqual([]);
+    expect(result.content).toBe(`${APP}\n${APP}`);
+    expect(result.errors).toEqual([
+      'Hunk 1: search text not found in file',
+      'Hunk 2 (hero-title): search text matches more than one location',
+      'Hunk 3: search text is empty'
+    ]);
+  });
+
+  it('fails without hunks', () => {
+    expect(applyPatch(APP, [])).toEqual({ success: false, content: APP, applied: [], errors: ['Patch contains no hunks'] });
+  });
+});
+
+describe('formatHunkAsDiff', () => {
+  it('renders removed and added lines under the hunk position', () => {
+    expect(formatHunkAsDiff({ componentId: 'hero-title', search: 'a\nb', replace: 'c', startLine: 4 }))
+      .toBe('@@ line 4 @@ hero-title\n-a\n-b\n+c');
+    expect(formatHunkAsDiff({ search: 'a', replace: '', startLine: 1 })).toBe('@@ line 1 @@\n-a');
+  });
+});
@@ -0,0 +1,163 @@
+// Patch Applier - parse and apply model-generated search/replace blocks or unified diff hunks
+
+export interface PatchHunk {
+  componentId?: string;
+  search: string;
+  replace: string;
+}
+
+export interface AppliedHunk extends PatchHunk {
+  startLine: number; // 1-based line in the content the hunk was applied to
+}
+
+export interface PatchApplyResult {
+  success: boolean;
+  content: string;
+  applied: AppliedHunk[];
+  errors: string[];
+}
+
+const SEARCH_REPLACE_BLOCK = /<<<<<<< SEARCH(?:[ \t]*\(([^)\n]*)\))?[ \t]*\n([\s\S]*?)\n?=======\n([\s\S]*?)\n?>>>>>>> REPLACE/g;
+const UNIFIED_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@ ?(.*)$/;
+
+/**
+ * Parse a patch in search/replace format, falling back to unified diff hunks
+ */
+export function parsePatch(patchText: string): PatchHunk[] {
+  const hunks = parseSearchReplaceBlocks(patchText);
+  return hunks.length > 0 ? hunks : parseUnifiedDiff(patchText);
+}
+
+function parseSearchReplaceBlocks(patchText: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  for (const match of patchText.matchAll(SEARCH_REPLACE_BLOCK)) {
+    hunks.push({
+      componentId: parseComponentId(match[1]),
+      search: match[2],
+      replace: match[3]
+    });
+  }
+  return hunks;
+}
+
+function parseUnifiedDiff(patchText: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: { componentId?: string; oldLines: string[]; newLines: string[] } | null = null;
+
+  const pushCurrent = () => {
+    if (current && (current.oldLines.length > 0 || current.newLines.length > 0)) {
+      hunks.push({
+        componentId: current.componentId,
+        search: current.oldLines.join('\n'),
+        replace: current.newLines.join('\n')
+      });
+    }
+  };
+
+  for (const line of patchText.replace(/\s+$/, '').split('\n')) {
+    const header = line.match(UNIFIED_HUNK_HEADER);
+    if (header) {
+      pushCurrent();
+      current = { componentId: parseComponentId(header[1]), oldLines: [], newLines: [] };
+      continue;
+    }
+
+    // File headers and anything before the first hunk
+    if (!current) continue;
+
+    if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+    }
+    // "\ No newline at end of file" and other markers are ignored
+  }
+  pushCurrent();
+
+  return hunks;
+}
+
+function parseComponentId(label?: string): string | undefined {
+  const componentId = label?.replace(/^componentId:\s*/i, '').trim();
+  return componentId || undefined;
+}
+
+/**
+ * Apply hunks in order. Every search text must match exactly one location of the current content,
+ * otherwise the patch is rejected so the caller can fall back to whole-file generation.
+ */
+export function applyPatch(content: string, hunks: PatchHunk[]): PatchApplyResult {
+  let result = content;
+  const applied: AppliedHunk[] = [];
+  const errors: string[] = [];
+
+  if (hunks.length === 0) {
+    return { success: false, content, applied, errors: ['Patch contains no hunks'] };
+  }
+
+  for (const [index, hunk] of hunks.entries()) {
+    const label = `Hunk ${index + 1}${hunk.componentId ? ` (${hunk.componentId})` : ''}`;
+
+    if (!hunk.search.trim()) {
+      errors.push(`${label}: search text is empty`);
+      continue;
+    }
+
+    const location = locateUnique(result, hunk.search);
+    if ('error' in location) {
+      errors.push(`${label}: ${location.error}`);
+      continue;
+    }
+
+    applied.push({ ...hunk, startLine: result.slice(0, location.start).split('\n').length });
+    result = result.slice(0, location.start) + hunk.replace + result.slice(location.end);
+  }
+
+  return { success: errors.length === 0, content: result, applied, errors };
+}
+
+/**
+ * Find the single occurrence of `search`, tolerating trailing whitespace differences per line
+ */
+function locateUnique(content: string, search: string): { start: number; end: number } | { error: string } {
+  const first = content.indexOf(search);
+  if (first >= 0) {
+    if (content.indexOf(search, first + 1) >= 0) {
+      return { error: 'search text matches more than one location' };
+    }
+    return { start: first, end: first + search.length };
+  }
+
+  const lines = content.split('\n');
+  const searchLines = search.split('\n').map(line => line.trimEnd());
+  const matches: number[] = [];
+
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    if (searchLines.every((searchLine, offset) => lines[i + offset].trimEnd() === searchLine)) {
+      matches.push(i);
+    }
+  }
+
+  if (matches.length === 0) {
+    return { error: 'search text not found in file' };
+  }
+  if (matches.length > 1) {
+    return { error: 'search text matches more than one location' };
+  }
+
+  const start = lines.slice(0, matches[0]).reduce((offset, line) => offset + line.length + 1, 0);
+  const matchedText = lines.slice(matches[0], matches[0] + searchLines.length).join('\n');
+  return { start, end: start + matchedText.length };
+}
+
+/**
+ * Render an applied hunk as a unified diff snippet for logs and pull request bodies
+ */
+export function formatHunkAsDiff(hunk: AppliedHunk): string {
+  const removed = hunk.search.split('\n').map(line => `-${line}`);
+  const added = hunk.replace ? hunk.replace.split('\n').map(line => `+${line}`) : [];
+  return [`@@ line ${hunk.startLine} @@${hunk.componentId ? ` ${hunk.componentId}` : ''}`, ...removed, ...added].join('\n');
+}
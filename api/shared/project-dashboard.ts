@@ -0,0 +1,178 @@
+// Project Dashboard - every generated project side by side, with its sessions, deploy and database state
+import { storage, ProjectData } from '../../src/services/redis-storage';
+import { NetlifyService } from '../../src/services/netlify';
+import { MongoDBService } from '../../src/services/mongodb';
+import { AsyncQueue } from '../../src/utils/helpers';
+import { EnhancedSessionManager, ProjectSessionSummary } from './enhanced-session-manager';
+
+// Netlify and Atlas lookups made at once
+const INFRASTRUCTURE_CONCURRENCY = 5;
+const LATEST_SESSIONS_PER_PROJECT = 3;
+
+const FINISHED_SESSION_STATUSES = ['completed', 'failed', 'merged', 'deployed', 'error', 'cancelled'];
+
+export interface ProjectDashboardQuery {
+  search?: string; // Matched against name, id, template and repository
+  template?: string;
+  aiProvider?: string;
+  status?: ProjectData['status'];
+  sortBy?: 'name' | 'createdAt' | 'updatedAt' | 'lastActivity';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+  includeInfrastructure?: boolean; // Netlify and MongoDB lookups, on by default
+}
+
+export interface NetlifyDeployState {
+  siteId: string;
+  url?: string;
+  state: string; // State of the published deploy, 'none' before the first one
+  publishedAt?: string;
+  error?: string;
+}
+
+export interface MongoClusterState {
+  clusters: Array<{ name: string; state: string; paused: boolean }>;
+  error?: string;
+}
+
+export interface ProjectDashboardEntry extends ProjectData {
+  latestSessions: ProjectSessionSummary[];
+  activeSessions: number;
+  lastActivity: number;
+  netlify?: NetlifyDeployState;
+  mongodb?: MongoClusterState;
+}
+
+export interface ProjectDashboard {
+  projects: ProjectDashboardEntry[];
+  total: number; // Matching projects before limit/offset
+  filters: {
+    templates: string[];
+    aiProviders: string[];
+  };
+}
+
+function matchesQuery(project: ProjectData, query: ProjectDashboardQuery): boolean {
+  if (query.template && project.template !== query.template) return false;
+  if (query.aiProvider && project.aiProvider !== query.aiProvider) return false;
+  if (query.status && project.status !== query.status) return false;
+
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    return [project.name, project.id, project.template, project.repositoryUrl]
+      .some(value => value?.toLowerCase().includes(search));
+  }
+  return true;
+}
+
+function compareProjects(a: ProjectDashboardEntry, b: ProjectDashboardEntry, sortBy: NonNullable<ProjectDashboardQuery['sortBy']>): number {
+  if (sortBy === 'name') return a.name.localeCompare(b.name);
+  return a[sortBy] - b[sortBy];
+}
+
+export class ProjectDashboardService {
+  private netlifyService: NetlifyService;
+  private mongodbService: MongoDBService;
+  private sessionManager: EnhancedSessionManager;
+
+  constructor() {
+    this.netlifyService = new NetlifyService();
+    this.mongodbService = new MongoDBService();
+    this.sessionManager = new EnhancedSessionManager();
+  }
+
+  async getDashboard(query: ProjectDashboardQuery = {}): Promise<ProjectDashboard> {
+    const projects = await storage.getAllProjects();
+    const matching = projects.filter(project => matchesQuery(project, query));
+
+    // Initialization sessions use the project name as their project ID
+    const sessionsByProject = await this.sessionManager.getProjectSessions([
+      ...new Set(matching.flatMap(project => [project.id, project.name]))
+    ]);
+
+    const entries: ProjectDashboardEntry[] = matching
+      .map(project => {
+        const sessions = [
+          ...(sessionsByProject.get(project.id) || []),
+          ...(project.name !== project.id ? sessionsByProject.get(project.name) || [] : [])
+        ].sort((a, b) => b.startTime - a.startTime);
+
+        return {
+          ...project,
+          latestSessions: sessions.slice(0, LATEST_SESSIONS_PER_PROJECT),
+          activeSessions: sessions.filter(session => !FINISHED_SESSION_STATUSES.includes(session.status)).length,
+          lastActivity: Math.max(project.updatedAt, ...sessions.map(session => session.endTime || session.startTime))
+        };
+      });
+
+    const sortBy = query.sortBy || 'lastActivity';
+    const direction = (query.order || (sortBy === 'name' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+    entries.sort((a, b) => compareProjects(a, b, sortBy) * direction);
+
+    const offset = query.offset || 0;
+    const page = entries.slice(offset, query.limit ? offset + query.limit : undefined);
+
+    // External lookups only for the projects being returned
+    if (query.includeInfrastructure !== false) {
+      await this.addInfrastructureState(page);
+    }
+
+    return {
+      projects: page,
+      total: entries.length,
+      filters: {
+        templates: [...new Set(projects.map(project => project.template).filter(Boolean))].sort(),
+        aiProviders: [...new Set(projects.map(project => project.aiProvider).filter(Boolean))].sort()
+      }
+    };
+  }
+
+  private async addInfrastructureState(entries: ProjectDashboardEntry[]): Promise<void> {
+    const queue = new AsyncQueue(INFRASTRUCTURE_CONCURRENCY);
+    // Several projects can share an Atlas project
+    const clusterRequests = new Map<string, Promise<any[]>>();
+
+    await Promise.all(entries.map(entry => queue.add(async () => {
+      // Netlify accepts a site's domain wherever it takes a site ID
+      const siteId = entry.netlifySiteId || entry.netlifyUrl?.replace(/^https?:\/\//, '').split('/')[0];
+      if (siteId) {
+        entry.netlify = await this.getNetlifyState(siteId);
+      }
+
+      if (entry.mongodbProjectId) {
+        if (!clusterRequests.has(entry.mongodbProjectId)) {
+          clusterRequests.set(entry.mongodbProjectId, this.mongodbService.getClusters(entry.mongodbProjectId));
+        }
+        entry.mongodb = await this.getMongoState(clusterRequests.get(entry.mongodbProjectId)!, entry.mongodbClusterName);
+      }
+    })));
+  }
+
+  private async getNetlifyState(siteId: string): Promise<NetlifyDeployState> {
+    try {
+      const site = await this.netlifyService.getSite(siteId);
+      return {
+        siteId: site.id || siteId,
+        url: site.ssl_url || site.url,
+        state: site.published_deploy?.state || 'none',
+        publishedAt: site.published_deploy?.published_at
+      };
+    } catch (error) {
+      return { siteId, state: 'unknown', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async getMongoState(clustersRequest: Promise<any[]>, clusterName?: string): Promise<MongoClusterState> {
+    try {
+      const clusters = await clustersRequest;
+      return {
+        clusters: clusters
+          .filter(cluster => !clusterName || cluster.name === clusterName)
+          .map(cluster => ({ name: cluster.name, state: cluster.stateName || 'UNKNOWN', paused: !!cluster.paused }))
+      };
+    } catch (error) {
+      return { clusters: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
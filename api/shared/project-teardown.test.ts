@@ -0,0 +1,113 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getProject: vi.fn(),
+    setProject: vi.fn(),
+    deleteProject: vi.fn(),
+    getAllProjects: vi.fn()
+  },
+  redis: {
+    del: vi.fn(),
+    lpush: vi.fn(),
+    ltrim: vi.fn(),
+    lrange: vi.fn()
+  },
+  github: {
+    archiveRepository: vi.fn(),
+    deleteRepository: vi.fn()
+  }
+}));
+
+vi.mock('@upstash/redis', () => ({
+  Redis: vi.fn(() => mocks.redis)
+}));
+vi.mock('../../src/services/redis-storage', () => ({
+  storage: mocks.storage
+}));
+vi.mock('../../src/services/enhanced-github-service', () => ({
+  EnhancedGitHubService: vi.fn(() => mocks.github)
+}));
+vi.mock('../../src/services/mongodb', () => ({
+  MongoDBService: vi.fn(() => ({}))
+}));
+
+import { ProjectTeardownService } from './project-teardown';
+
+const project = {
+  id: 'project_1',
+  name: 'dev-bakery',
+  repositoryUrl: 'https://github.com/acme/dev-bakery',
+  netlifySiteId: 'site-123'
+};
+
+describe('ProjectTeardownService', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubEnv('NETLIFY_TOKEN', 'netlify-token');
+    vi.stubGlobal('fetch', fetchMock);
+    mocks.storage.getProject.mockResolvedValue(project);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('deletes the Netlify site through the API before the Redis records', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const record = await new ProjectTeardownService().teardownProject(project.id, { mongodb: 'keep' });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.netlify.com/api/v1/sites/site-123',
+      expect.objectContaining({ method: 'DELETE' })
+    );
+    expect(record?.actions.map(action => [action.resource, action.status])).toEqual([
+      ['github', 'done'],
+      ['netlify', 'done'],
+      ['redis', 'done']
+    ]);
+    expect(record?.complete).toBe(true);
+    expect(mocks.storage.deleteProject).toHaveBeenCalledWith(project.id);
+  });
+
+  it('treats a site that is already gone as removed', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, statusText: 'Not Found' }));
+
+    const record = await new ProjectTeardownService().teardownProject(project.id, { github: 'keep' });
+
+    expect(record?.actions.find(action => action.resource === 'netlify')).toMatchObject({ status: 'skipped', detail: 'Already removed' });
+    expect(mocks.storage.deleteProject).toHaveBeenCalledWith(project.id);
+  });
+
+  it('keeps the project record when the site cannot be deleted', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ message: 'Forbidden' }), { status: 403, statusText: 'Forbidden' }));
+
+    const record = await new ProjectTeardownService().teardownProject(project.id, { github: 'keep' });
+
+    expect(record?.actions.find(action => action.resource === 'netlify')?.status).toBe('failed');
+    expect(record?.complete).toBe(false);
+    expect(mocks.storage.deleteProject).not.toHaveBeenCalled();
+    expect(mocks.storage.setProject).toHaveBeenCalledWith(project.id, expect.objectContaining({ status: 'archived' }));
+  });
+
+  it('refuses to scan for orphans when no projects can be read', async () => {
+    const service = new ProjectTeardownService();
+
+    mocks.storage.getAllProjects.mockResolvedValueOnce([]);
+    await expect(service.scanOrphans()).rejects.toThrow('No registered projects found');
+
+    mocks.storage.getAllProjects.mockRejectedValueOnce(new Error('Redis unavailable'));
+    await expect(service.scanOrphans()).rejects.toThrow('Redis unavailable');
+  });
+
+  it('removes orphans only when they are named', async () => {
+    await expect(new ProjectTeardownService().cleanupOrphans({ dryRun: false }))
+      .rejects.toThrow('ids from a dry-run scan are required to remove orphans');
+    expect(mocks.storage.getAllProjects).not.toHaveBeenCalled();
+  });
+});
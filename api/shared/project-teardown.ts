@@ -0,0 +1,435 @@
+// Project Teardown - removes a project's GitHub, Netlify and MongoDB resources, and garbage collects orphaned dev- resources
+import { Redis } from '@upstash/redis';
+import RedisKeys from '../../src/services/redis-keys';
+import { storage, ProjectData } from '../../src/services/redis-storage';
+import { EnhancedGitHubService } from '../../src/services/enhanced-github-service';
+import { NetlifyService } from '../../src/services/netlify';
+import { MongoDBService } from '../../src/services/mongodb';
+import { AsyncQueue } from '../../src/utils/helpers';
+
+// Initialize Redis client
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+// Prefix given to every resource created in development (see addDevPrefix in initialize-project)
+const DEV_PREFIX = 'dev-';
+const DEFAULT_ORPHAN_AGE_HOURS = 24;
+const CLUSTER_LOOKUP_CONCURRENCY = 5;
+const AUDIT_LOG_SIZE = 200;
+
+export const GITHUB_TEARDOWN_MODES = ['delete', 'archive', 'keep'] as const;
+export const MONGODB_TEARDOWN_MODES = ['project', 'cluster', 'keep'] as const;
+
+export interface TeardownOptions {
+  dryRun?: boolean; // Plan the actions without running them
+  github?: typeof GITHUB_TEARDOWN_MODES[number]; // Defaults to archive
+  mongodb?: typeof MONGODB_TEARDOWN_MODES[number]; // Defaults to the Atlas project when it was created for the project, otherwise its cluster
+  requestedBy?: string;
+  reason?: string;
+}
+
+export type TeardownResource = 'github' | 'netlify' | 'mongodb_cluster' | 'mongodb_project' | 'redis';
+
+export interface TeardownAction {
+  resource: TeardownResource;
+  id: string; // Repository URL, site ID, Atlas project ID, `<atlas project>/<cluster>` or project ID
+  name?: string;
+  operation: 'delete' | 'archive';
+  status: 'planned' | 'done' | 'skipped' | 'pending' | 'failed';
+  detail?: string; // Why the action was skipped, is pending or failed
+}
+
+export interface TeardownRecord {
+  id: string;
+  target: 'project' | 'orphans';
+  projectId?: string;
+  projectName?: string;
+  dryRun: boolean;
+  requestedBy?: string;
+  reason?: string;
+  actions: TeardownAction[];
+  complete: boolean; // Nothing failed or is left pending, so a rerun has nothing to do
+  startedAt: number;
+  completedAt: number;
+}
+
+export interface OrphanResource {
+  resource: Exclude<TeardownResource, 'redis'>;
+  id: string;
+  name: string;
+  createdAt?: number;
+}
+
+export interface OrphanScanOptions {
+  olderThanHours?: number; // Leaves resources of initializations that are still running alone
+  githubOwners?: string[]; // Defaults to the owners of registered projects and GITHUB_USERNAME
+}
+
+export interface OrphanScan {
+  resources: OrphanResource[];
+  errors: Array<{ provider: string; error: string }>; // Providers that could not be listed
+  scannedAt: number;
+}
+
+export interface OrphanCleanupOptions extends TeardownOptions, OrphanScanOptions {
+  ids?: string[]; // Orphans from a dry-run scan to remove; required unless dryRun is set
+}
+
+/**
+ * Error message for invalid teardown options, or null when they are valid
+ */
+export function validateTeardownOptions(options: { github?: unknown; mongodb?: unknown }): string | null {
+  if (options.github !== undefined && !GITHUB_TEARDOWN_MODES.includes(options.github as any)) {
+    return `github must be one of: ${GITHUB_TEARDOWN_MODES.join(', ')}`;
+  }
+  if (options.mongodb !== undefined && !MONGODB_TEARDOWN_MODES.includes(options.mongodb as any)) {
+    return `mongodb must be one of: ${MONGODB_TEARDOWN_MODES.join(', ')}`;
+  }
+  return null;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The services report a missing resource as a 404 status or a "not found" message
+function isNotFound(error: unknown): boolean {
+  return (error as { status?: number })?.status === 404 || /not found/i.test(getErrorMessage(error));
+}
+
+function getHostname(url: string): string {
+  return url.replace(/^https?:\/\//, '').split('/')[0].toLowerCase();
+}
+
+function getRepoFullName(repoUrl: string): string {
+  const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+  return match ? `${match[1]}/${match[2].replace('.git', '')}`.toLowerCase() : repoUrl.toLowerCase();
+}
+
+function parseTime(value?: string): number | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export class ProjectTeardownService {
+  private githubService: EnhancedGitHubService;
+  private netlifyService: NetlifyService;
+  private mongodbService: MongoDBService;
+
+  constructor() {
+    this.githubService = new EnhancedGitHubService();
+    this.netlifyService = new NetlifyService();
+    this.mongodbService = new MongoDBService();
+  }
+
+  /**
+   * Remove a registered project's resources, then its Redis records. Returns null for an unknown project.
+   * Failed or pending actions keep the project record (marked archived) so the teardown can be run again.
+   */
+  async teardownProject(projectId: string, options: TeardownOptions = {}): Promise<TeardownRecord | null> {
+    const project = await storage.getProject(projectId);
+    if (!project) return null;
+
+    const startedAt = Date.now();
+    const actions = await this.planProject(project, options);
+
+    if (!options.dryRun) {
+      const redisAction = actions.pop()!;
+      await this.runActions(actions);
+
+      if (actions.every(action => action.status === 'done' || action.status === 'skipped')) {
+        await this.runAction(redisAction);
+      } else {
+        redisAction.status = 'skipped';
+        redisAction.detail = 'Kept so the teardown can be run again';
+        await storage.setProject(project.id, { ...project, status: 'archived', updatedAt: Date.now() });
+      }
+      actions.push(redisAction);
+    }
+
+    return this.finishRecord({
+      id: RedisKeys.generateTeardownId(),
+      target: 'project',
+      projectId: project.id,
+      projectName: project.name,
+      dryRun: !!options.dryRun,
+      requestedBy: options.requestedBy,
+      reason: options.reason,
+      actions,
+      complete: false,
+      startedAt,
+      completedAt: startedAt
+    });
+  }
+
+  /**
+   * Find dev- prefixed repositories, Netlify sites and Atlas projects and clusters that no registered project refers to.
+   * Throws when the registered projects cannot be listed, since every resource would then look orphaned.
+   */
+  async scanOrphans(options: OrphanScanOptions = {}): Promise<OrphanScan> {
+    const projects = await storage.getAllProjects();
+    if (projects.length === 0) {
+      throw new Error('No registered projects found; refusing to treat every dev- resource as orphaned');
+    }
+    const cutoff = Date.now() - (options.olderThanHours ?? DEFAULT_ORPHAN_AGE_HOURS) * 60 * 60 * 1000;
+    const isOld = (createdAt?: number) => createdAt === undefined || createdAt < cutoff;
+
+    const repositories = new Set(projects.filter(project => project.repositoryUrl).map(project => getRepoFullName(project.repositoryUrl!)));
+    const sites = new Set(projects.flatMap(project => [project.netlifySiteId, project.netlifyUrl && getHostname(project.netlifyUrl)])
+      .filter((site): site is string => !!site));
+    const atlasProjects = new Set(projects.map(project => project.mongodbProjectId).filter((id): id is string => !!id));
+    const clusters = new Set(projects.map(project => project.mongodbClusterName).filter((name): name is string => !!name));
+    // Projects registered before cluster names were recorded could own any cluster in their Atlas project
+    const unknownClusterProjects = new Set(projects.filter(project => project.mongodbProjectId && !project.mongodbClusterName).map(project => project.mongodbProjectId!));
+
+    const resources: OrphanResource[] = [];
+    const errors: OrphanScan['errors'] = [];
+
+    const owners = options.githubOwners?.length
+      ? options.githubOwners
+      : [...new Set([...projects.map(project => project.githubOrg), process.env.GITHUB_USERNAME])]
+        .filter((owner): owner is string => !!owner && owner !== 'unknown');
+    for (const owner of owners) {
+      try {
+        for (const repo of await this.githubService.listOwnerRepositories(owner)) {
+          const createdAt = parseTime(repo.createdAt);
+          // Archived repositories are what an earlier teardown left behind
+          if (repo.name.startsWith(DEV_PREFIX) && !repo.archived && isOld(createdAt) && !repositories.has(getRepoFullName(repo.url))) {
+            resources.push({ resource: 'github', id: repo.url, name: `${owner}/${repo.name}`, createdAt });
+          }
+        }
+      } catch (error) {
+        errors.push({ provider: `github:${owner}`, error: getErrorMessage(error) });
+      }
+    }
+
+    try {
+      for (const site of await this.netlifyService.listSites()) {
+        const createdAt = parseTime(site.created_at);
+        const referenced = sites.has(site.id) || [site.url, site.ssl_url].some(url => url && sites.has(getHostname(url)));
+        if (site.name?.startsWith(DEV_PREFIX) && isOld(createdAt) && !referenced) {
+          resources.push({ resource: 'netlify', id: site.id, name: site.name, createdAt });
+        }
+      }
+    } catch (error) {
+      errors.push({ provider: 'netlify', error: getErrorMessage(error) });
+    }
+
+    try {
+      const sharedProjects: any[] = [];
+      for (const atlasProject of await this.mongodbService.listProjects()) {
+        const createdAt = parseTime(atlasProject.created);
+        if (atlasProjects.has(atlasProject.id)) {
+          if (!unknownClusterProjects.has(atlasProject.id)) sharedProjects.push(atlasProject);
+        } else if (atlasProject.name?.startsWith(DEV_PREFIX) && isOld(createdAt)) {
+          resources.push({ resource: 'mongodb_project', id: atlasProject.id, name: atlasProject.name, createdAt });
+        }
+      }
+
+      // Registered projects can share an Atlas project with clusters of projects that were never registered
+      const queue = new AsyncQueue(CLUSTER_LOOKUP_CONCURRENCY);
+      await Promise.all(sharedProjects.map(atlasProject => queue.add(async () => {
+        try {
+          for (const cluster of await this.mongodbService.getClusters(atlasProject.id)) {
+            const createdAt = parseTime(cluster.createDate);
+            if (cluster.name?.startsWith(DEV_PREFIX) && isOld(createdAt) && !clusters.has(cluster.name)) {
+              resources.push({ resource: 'mongodb_cluster', id: `${atlasProject.id}/${cluster.name}`, name: cluster.name, createdAt });
+            }
+          }
+        } catch (error) {
+          errors.push({ provider: `mongodb:${atlasProject.name}`, error: getErrorMessage(error) });
+        }
+      })));
+    } catch (error) {
+      errors.push({ provider: 'mongodb', error: getErrorMessage(error) });
+    }
+
+    return { resources, errors, scannedAt: Date.now() };
+  }
+
+  /**
+   * Remove the orphans named in `ids`. The scan runs again here, so only resources it still finds can be removed.
+   * Without `ids` only a dry run is possible, which plans the removal of everything the scan finds.
+   */
+  async cleanupOrphans(options: OrphanCleanupOptions = {}): Promise<TeardownRecord & { scanErrors: OrphanScan['errors'] }> {
+    if (!options.dryRun && !options.ids?.length) {
+      throw new Error('ids from a dry-run scan are required to remove orphans');
+    }
+
+    const startedAt = Date.now();
+    const scan = await this.scanOrphans(options);
+    const orphans = options.ids ? scan.resources.filter(resource => options.ids!.includes(resource.id)) : scan.resources;
+
+    const actions: TeardownAction[] = [];
+    const githubMode = options.github || 'archive';
+    for (const orphan of orphans) {
+      if (orphan.resource === 'github') {
+        if (githubMode !== 'keep') {
+          actions.push({ resource: 'github', id: orphan.id, name: orphan.name, operation: githubMode, status: 'planned' });
+        }
+      } else if (orphan.resource === 'mongodb_project') {
+        if (options.mongodb === 'keep') continue;
+        actions.push(...await this.planAtlasProject(orphan.id), {
+          resource: 'mongodb_project', id: orphan.id, name: orphan.name, operation: 'delete', status: 'planned'
+        });
+      } else if (orphan.resource === 'mongodb_cluster') {
+        if (options.mongodb === 'keep') continue;
+        actions.push({ resource: 'mongodb_cluster', id: orphan.id, name: orphan.name, operation: 'delete', status: 'planned' });
+      } else {
+        actions.push({ resource: orphan.resource, id: orphan.id, name: orphan.name, operation: 'delete', status: 'planned' });
+      }
+    }
+
+    if (!options.dryRun) {
+      await this.runActions(actions);
+    }
+
+    const record = await this.finishRecord({
+      id: RedisKeys.generateTeardownId(),
+      target: 'orphans',
+      dryRun: !!options.dryRun,
+      requestedBy: options.requestedBy,
+      reason: options.reason,
+      actions,
+      complete: false,
+      startedAt,
+      completedAt: startedAt
+    });
+    return { ...record, scanErrors: scan.errors };
+  }
+
+  /**
+   * Teardowns that ran, most recent first. Dry runs are not recorded.
+   */
+  async getAuditLog(limit: number = 50): Promise<TeardownRecord[]> {
+    const entries = await redis.lrange<unknown>(RedisKeys.teardownAudit(), 0, limit - 1);
+    // Upstash deserializes JSON values automatically
+    return entries.map(entry => typeof entry === 'string' ? JSON.parse(entry) : entry as TeardownRecord);
+  }
+
+  private async planProject(project: ProjectData, options: TeardownOptions): Promise<TeardownAction[]> {
+    const actions: TeardownAction[] = [];
+
+    const githubMode = options.github || 'archive';
+    if (project.repositoryUrl && githubMode !== 'keep') {
+      actions.push({ resource: 'github', id: project.repositoryUrl, operation: githubMode, status: 'planned' });
+    }
+
+    // Netlify accepts a site's domain wherever it takes a site ID
+    const siteId = project.netlifySiteId || (project.netlifyUrl && getHostname(project.netlifyUrl));
+    if (siteId) {
+      actions.push({ resource: 'netlify', id: siteId, operation: 'delete', status: 'planned' });
+    }
+
+    const mongodbMode = options.mongodb || (project.mongodbProjectCreated ? 'project' : 'cluster');
+    if (project.mongodbProjectId && mongodbMode === 'project') {
+      actions.push(...await this.planAtlasProject(project.mongodbProjectId), {
+        resource: 'mongodb_project', id: project.mongodbProjectId, operation: 'delete', status: 'planned'
+      });
+    } else if (project.mongodbProjectId && mongodbMode === 'cluster') {
+      actions.push(project.mongodbClusterName
+        ? { resource: 'mongodb_cluster', id: `${project.mongodbProjectId}/${project.mongodbClusterName}`, name: project.mongodbClusterName, operation: 'delete', status: 'planned' }
+        : { resource: 'mongodb_cluster', id: project.mongodbProjectId, operation: 'delete', status: 'skipped', detail: 'Cluster name was not recorded for this project' });
+    }
+
+    // Always last; teardownProject only runs it once everything else is gone
+    actions.push({ resource: 'redis', id: project.id, name: project.name, operation: 'delete', status: 'planned' });
+    return actions;
+  }
+
+  // Atlas only deletes a project once its clusters are gone
+  private async planAtlasProject(atlasProjectId: string): Promise<TeardownAction[]> {
+    try {
+      const clusters = await this.mongodbService.getClusters(atlasProjectId);
+      return clusters.map(cluster => ({
+        resource: 'mongodb_cluster' as const,
+        id: `${atlasProjectId}/${cluster.name}`,
+        name: cluster.name,
+        operation: 'delete' as const,
+        status: 'planned' as const
+      }));
+    } catch (error) {
+      // The project delete reports what is left
+      return [];
+    }
+  }
+
+  private async runActions(actions: TeardownAction[]): Promise<void> {
+    // In order: clusters have to be removed before the Atlas project holding them
+    for (const action of actions) {
+      if (action.status === 'planned') {
+        await this.runAction(action);
+      }
+    }
+  }
+
+  private async runAction(action: TeardownAction): Promise<void> {
+    try {
+      switch (action.resource) {
+        case 'github':
+          if (action.operation === 'archive') {
+            await this.githubService.archiveRepository(action.id);
+          } else {
+            await this.githubService.deleteRepository(action.id);
+          }
+          break;
+        case 'netlify':
+          await this.netlifyService.deleteSite(action.id);
+          break;
+        case 'mongodb_cluster': {
+          const [atlasProjectId, clusterName] = action.id.split('/');
+          await this.mongodbService.deleteCluster(atlasProjectId, clusterName);
+          break;
+        }
+        case 'mongodb_project':
+          await this.mongodbService.deleteProject(action.id);
+          break;
+        case 'redis':
+          await storage.deleteProject(action.id);
+          await redis.del(
+            RedisKeys.projectTasks(action.id),
+            RedisKeys.projectSessions(action.id),
+            RedisKeys.projectUsage(action.id),
+            RedisKeys.projectBudget(action.id),
+            ...RedisKeys.projectAgentMemoryKeys(action.id)
+          );
+          break;
+      }
+      action.status = 'done';
+    } catch (error) {
+      const message = getErrorMessage(error);
+      if (isNotFound(error)) {
+        action.status = 'skipped';
+        action.detail = 'Already removed';
+      } else if (action.resource === 'mongodb_project' && /active clusters/i.test(message)) {
+        // Cluster termination takes a few minutes
+        action.status = 'pending';
+        action.detail = 'Clusters are still terminating; run the teardown again to delete the project';
+      } else {
+        action.status = 'failed';
+        action.detail = message;
+      }
+    }
+  }
+
+  private async finishRecord(record: TeardownRecord): Promise<TeardownRecord> {
+    const finished: TeardownRecord = {
+      ...record,
+      complete: record.actions.every(action => action.status !== 'failed' && action.status !== 'pending'),
+      completedAt: Date.now()
+    };
+
+    if (!finished.dryRun) {
+      try {
+        await redis.lpush(RedisKeys.teardownAudit(), JSON.stringify(finished));
+        await redis.ltrim(RedisKeys.teardownAudit(), 0, AUDIT_LOG_SIZE - 1);
+      } catch (error) {
+        console.error('Failed to record teardown:', error);
+      }
+    }
+
+    return finished;
+  }
+}
@@ -0,0 +1,156 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory stand-in for the Redis commands the queue uses
+const mocks = vi.hoisted(() => {
+  const values = new Map<string, unknown>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const lists = new Map<string, string[]>();
+
+  const sortedSet = (key: string) => {
+    if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+    return sortedSets.get(key)!;
+  };
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key)!;
+  };
+
+  return {
+    values,
+    sortedSets,
+    lists,
+    redis: {
+      // Upstash deserializes JSON values on read
+      setex: vi.fn(async (key: string, _ttl: number, value: string) => { values.set(key, JSON.parse(value)); }),
+      get: vi.fn(async (key: string) => values.get(key) ?? null),
+      incr: vi.fn(async (key: string) => {
+        const count = Number(values.get(key) || 0) + 1;
+        values.set(key, count);
+        return count;
+      }),
+      zadd: vi.fn(async (key: string, { score, member }: { score: number; member: string }) => {
+        sortedSet(key).set(member, score);
+        return 1;
+      }),
+      zrem: vi.fn(async (key: string, member: string) => (sortedSet(key).delete(member) ? 1 : 0)),
+      zrange: vi.fn(async (key: string, min: number, max: number, options?: { count?: number }) =>
+        [...sortedSet(key)]
+          .filter(([, score]) => score >= min && score <= max)
+          .sort((a, b) => a[1] - b[1])
+          .map(([member]) => member)
+          .slice(0, options?.count ?? Infinity)),
+      lpush: vi.fn(async (key: string, value: string) => list(key).unshift(value)),
+      lrange: vi.fn(async (key: string, start: number, stop: number) => list(key).slice(start, stop + 1)),
+      llen: vi.fn(async (key: string) => list(key).length),
+      rpop: vi.fn(async (key: string) => list(key).pop() ?? null)
+    }
+  };
+});
+
+vi.mock('@upstash/redis', () => ({
+  Redis: vi.fn(() => mocks.redis)
+}));
+vi.mock('./integration-manager', () => ({
+  IntegrationManager: {}
+}));
+
+import RedisKeys from '../../src/services/redis-keys';
+import { QueueManager } from './queue-manager';
+
+const QUEUE = 'test-queue';
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+describe('QueueManager', () => {
+  const handler = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    QueueManager.registerHandler('test', handler);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    handler.mockReset();
+    mocks.values.clear();
+    mocks.sortedSets.clear();
+    mocks.lists.clear();
+  });
+
+  it('runs ready jobs by priority and leaves delayed jobs pending', async () => {
+    const low = await QueueManager.addJob(QUEUE, 'test', { name: 'low' });
+    const high = await QueueManager.addJob(QUEUE, 'test', { name: 'high' }, { priority: 5 });
+    const delayed = await QueueManager.addJob(QUEUE, 'test', { name: 'delayed' }, { delay: 60_000 });
+
+    await QueueManager.processQueue(QUEUE);
+
+    expect(handler.mock.calls.map(([payload]) => payload.name)).toEqual(['high', 'low']);
+    expect((await QueueManager.getJob(low))?.status).toBe('completed');
+    expect((await QueueManager.getJob(high))?.attemptHistory).toEqual([
+      { attempt: 1, startedAt: NOW, finishedAt: NOW, status: 'completed' }
+    ]);
+    expect((await QueueManager.getJob(delayed))?.status).toBe('pending');
+    expect(mocks.values.get(RedisKeys.queueCompleted(QUEUE))).toBe(2);
+    expect(mocks.sortedSets.get(RedisKeys.queueProcessing(QUEUE))?.size).toBe(0);
+  });
+
+  it('retries failed jobs with backoff and dead-letters them when out of attempts', async () => {
+    handler.mockRejectedValue(new Error('boom'));
+    const jobId = await QueueManager.addJob(QUEUE, 'test', {}, { maxAttempts: 2 });
+
+    await QueueManager.processQueue(QUEUE);
+    expect(await QueueManager.getJob(jobId)).toMatchObject({ status: 'pending', attempts: 1, scheduledFor: NOW + 2000, error: 'boom' });
+
+    // Not due yet
+    await QueueManager.processQueue(QUEUE);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW + 2000);
+    await QueueManager.processQueue(QUEUE);
+
+    const [deadJob] = await QueueManager.getDeadLetterJobs(QUEUE);
+    expect(deadJob).toMatchObject({ id: jobId, status: 'failed', attempts: 2 });
+    expect(deadJob.attemptHistory.map(attempt => attempt.status)).toEqual(['failed', 'failed']);
+
+    expect(await QueueManager.retryFailedJobs(QUEUE)).toBe(1);
+    expect(await QueueManager.getJob(jobId)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(mocks.lists.get(RedisKeys.queueDeadLetter(QUEUE))).toEqual([]);
+  });
+
+  it('fails jobs of unknown types', async () => {
+    const jobId = await QueueManager.addJob(QUEUE, 'missing', {}, { maxAttempts: 1 });
+
+    await QueueManager.processQueue(QUEUE);
+
+    expect(await QueueManager.getJob(jobId)).toMatchObject({ status: 'failed', error: 'Unknown job type: missing' });
+  });
+
+  it('returns jobs whose visibility timeout expired to the queue', async () => {
+    const jobId = await QueueManager.addJob(QUEUE, 'test', {}, { visibilityTimeout: 1000 });
+    const job = (await QueueManager.getJob(jobId))!;
+
+    // A worker claimed the job and was terminated before finishing it
+    await mocks.redis.zrem(RedisKeys.queuePending(QUEUE), jobId);
+    await mocks.redis.setex(RedisKeys.queueJob(jobId), 0, JSON.stringify({
+      ...job,
+      status: 'processing',
+      attempts: 1,
+      attemptHistory: [{ attempt: 1, startedAt: NOW, status: 'processing' }]
+    }));
+    await mocks.redis.zadd(RedisKeys.queueProcessing(QUEUE), { score: NOW + 1000, member: jobId });
+
+    vi.setSystemTime(NOW + 1001);
+    await QueueManager.processQueue(QUEUE);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await QueueManager.getJob(jobId)).toMatchObject({
+      status: 'pending',
+      scheduledFor: NOW + 1001 + 2000,
+      attemptHistory: [{ status: 'timed_out', error: 'Visibility timeout of 1000ms exceeded' }]
+    });
+    expect(mocks.sortedSets.get(RedisKeys.queueProcessing(QUEUE))?.has(jobId)).toBe(false);
+  });
+});
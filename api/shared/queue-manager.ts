@@ -1,6 +1,25 @@
 // netlify/functions/shared/queue-manager.ts
-interface QueueJob {
+import { Redis } from '@upstash/redis';
+import RedisKeys from '../../src/services/redis-keys';
+import { IntegrationManager } from './integration-manager';
+
+// Initialize Redis client
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+export interface JobAttempt {
+  attempt: number;
+  startedAt: number;
+  finishedAt?: number;
+  status: 'processing' | 'completed' | 'failed' | 'timed_out';
+  error?: string;
+}
+
+export interface QueueJob {
   id: string;
+  queueName: string;
   type: string;
   payload: any;
   priority: number;
@@ -8,120 +27,192 @@ interface QueueJob {
   scheduledFor?: number;
   attempts: number;
   maxAttempts: number;
+  visibilityTimeout: number;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   error?: string;
+  attemptHistory: JobAttempt[];
 }
 
+export type JobHandler = (payload: any, job: QueueJob) => Promise<void>;
+
+const DEFAULT_VISIBILITY_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+const MAX_JOBS_PER_RUN = 25;
+
+/**
+ * Persistent job queue on Upstash Redis.
+ *
+ * Pending jobs live in a sorted set scored by the time they become available, claimed jobs move to a
+ * processing set scored by their visibility deadline. Jobs whose deadline passes without completion are
+ * returned to the queue, jobs that run out of attempts are moved to the dead-letter list.
+ */
 export class QueueManager {
-  private static queues: Map<string, QueueJob[]> = new Map();
-  private static processing: Set<string> = new Set();
+  private static redis = redis;
+  private static handlers: Map<string, JobHandler> = new Map([
+    ['send_notification', (payload: any) => QueueManager.handleNotification(payload)],
+    ['cleanup_session', (payload: any) => QueueManager.handleSessionCleanup(payload)],
+    ['backup_data', (payload: any) => QueueManager.handleBackup(payload)],
+    ['generate_report', (payload: any) => QueueManager.handleReportGeneration(payload)]
+  ]);
+
+  /**
+   * Register a handler for a job type (overrides built-in handlers with the same type)
+   */
+  static registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
 
   static async addJob(
-    queueName: string, 
-    type: string, 
-    payload: any, 
+    queueName: string,
+    type: string,
+    payload: any,
     options: {
       priority?: number;
       delay?: number;
       maxAttempts?: number;
+      visibilityTimeout?: number;
     } = {}
   ): Promise<string> {
+    const now = Date.now();
     const job: QueueJob = {
-      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `job_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      queueName,
       type,
       payload,
       priority: options.priority || 0,
-      createdAt: Date.now(),
-      scheduledFor: options.delay ? Date.now() + options.delay : undefined,
+      createdAt: now,
+      scheduledFor: options.delay ? now + options.delay : undefined,
       attempts: 0,
       maxAttempts: options.maxAttempts || 3,
-      status: 'pending'
+      visibilityTimeout: options.visibilityTimeout || DEFAULT_VISIBILITY_TIMEOUT,
+      status: 'pending',
+      attemptHistory: []
     };
 
-    if (!this.queues.has(queueName)) {
-      this.queues.set(queueName, []);
-    }
-
-    const queue = this.queues.get(queueName)!;
-    queue.push(job);
-    
-    // Sort by priority (higher priority first)
-    queue.sort((a, b) => b.priority - a.priority);
+    await this.saveJob(job);
+    await this.redis.zadd(RedisKeys.queuePending(queueName), { score: job.scheduledFor || now, member: job.id });
 
     return job.id;
   }
 
   static async processQueue(queueName: string): Promise<void> {
-    if (this.processing.has(queueName)) {
-      return; // Already processing this queue
-    }
+    await this.requeueExpiredJobs(queueName);
 
-    this.processing.add(queueName);
+    const now = Date.now();
+    const readyIds = await this.redis.zrange<string[]>(RedisKeys.queuePending(queueName), 0, now, {
+      byScore: true,
+      offset: 0,
+      count: MAX_JOBS_PER_RUN
+    });
+    if (readyIds.length === 0) return;
 
-    try {
-      const queue = this.queues.get(queueName);
-      if (!queue) return;
-
-      const now = Date.now();
-      const readyJobs = queue.filter(job => 
-        job.status === 'pending' && 
-        (!job.scheduledFor || job.scheduledFor <= now)
-      );
-
-      for (const job of readyJobs) {
-        await this.processJob(job);
-      }
+    const readyJobs = (await Promise.all(readyIds.map(id => this.getJob(id))))
+      .filter((job): job is QueueJob => job !== null)
+      // Higher priority first, then oldest first
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
 
-      // Remove completed and failed jobs that exceeded max attempts
-      this.queues.set(queueName, queue.filter(job => 
-        job.status === 'pending' || 
-        (job.status === 'failed' && job.attempts < job.maxAttempts)
-      ));
+    for (const job of readyJobs) {
+      // Removing the job from the pending set is the claim - only one worker can succeed
+      const claimed = await this.redis.zrem(RedisKeys.queuePending(queueName), job.id);
+      if (!claimed) continue;
 
-    } finally {
-      this.processing.delete(queueName);
+      await this.processJob(job);
     }
   }
 
   private static async processJob(job: QueueJob): Promise<void> {
+    const startedAt = Date.now();
     job.status = 'processing';
     job.attempts++;
+    job.attemptHistory.push({ attempt: job.attempts, startedAt, status: 'processing' });
+
+    await this.saveJob(job);
+    await this.redis.zadd(RedisKeys.queueProcessing(job.queueName), {
+      score: startedAt + job.visibilityTimeout,
+      member: job.id
+    });
+
+    const attempt = job.attemptHistory[job.attemptHistory.length - 1];
 
     try {
-      switch (job.type) {
-        case 'send_notification':
-          await this.handleNotification(job.payload);
-          break;
-        case 'cleanup_session':
-          await this.handleSessionCleanup(job.payload);
-          break;
-        case 'backup_data':
-          await this.handleBackup(job.payload);
-          break;
-        case 'generate_report':
-          await this.handleReportGeneration(job.payload);
-          break;
-        default:
-          throw new Error(`Unknown job type: ${job.type}`);
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`Unknown job type: ${job.type}`);
       }
 
+      await handler(job.payload, job);
+
+      attempt.status = 'completed';
+      attempt.finishedAt = Date.now();
       job.status = 'completed';
+      job.error = undefined;
+
+      await this.redis.zrem(RedisKeys.queueProcessing(job.queueName), job.id);
+      await this.saveJob(job, RedisKeys.TTL.TEMP);
+      await this.redis.incr(RedisKeys.queueCompleted(job.queueName));
     } catch (error) {
-      job.error = error.message;
-      
-      if (job.attempts >= job.maxAttempts) {
-        job.status = 'failed';
-      } else {
-        job.status = 'pending';
-        // Exponential backoff for retries
-        job.scheduledFor = Date.now() + (Math.pow(2, job.attempts) * 1000);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      attempt.status = 'failed';
+      attempt.finishedAt = Date.now();
+      attempt.error = errorMessage;
+
+      await this.redis.zrem(RedisKeys.queueProcessing(job.queueName), job.id);
+      await this.handleFailedAttempt(job, errorMessage);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or dead-letter the job when it is out of attempts
+   */
+  private static async handleFailedAttempt(job: QueueJob, errorMessage: string): Promise<void> {
+    job.error = errorMessage;
+
+    if (job.attempts >= job.maxAttempts) {
+      job.status = 'failed';
+      await this.saveJob(job);
+      await this.redis.lpush(RedisKeys.queueDeadLetter(job.queueName), job.id);
+      console.error(`💀 Job ${job.id} (${job.type}) moved to dead-letter queue: ${errorMessage}`);
+      return;
+    }
+
+    job.status = 'pending';
+    job.scheduledFor = Date.now() + (Math.pow(2, job.attempts) * 1000);
+    await this.saveJob(job);
+    await this.redis.zadd(RedisKeys.queuePending(job.queueName), { score: job.scheduledFor, member: job.id });
+  }
+
+  /**
+   * Return jobs whose visibility timeout expired (e.g. the function running them was terminated)
+   */
+  private static async requeueExpiredJobs(queueName: string): Promise<number> {
+    const expiredIds = await this.redis.zrange<string[]>(RedisKeys.queueProcessing(queueName), 0, Date.now(), {
+      byScore: true
+    });
+
+    let requeued = 0;
+    for (const id of expiredIds) {
+      const removed = await this.redis.zrem(RedisKeys.queueProcessing(queueName), id);
+      if (!removed) continue;
+
+      const job = await this.getJob(id);
+      if (!job) continue;
+
+      const attempt = job.attemptHistory[job.attemptHistory.length - 1];
+      if (attempt) {
+        attempt.status = 'timed_out';
+        attempt.finishedAt = Date.now();
+        attempt.error = `Visibility timeout of ${job.visibilityTimeout}ms exceeded`;
       }
+
+      await this.handleFailedAttempt(job, `Visibility timeout of ${job.visibilityTimeout}ms exceeded`);
+      requeued++;
     }
+
+    return requeued;
   }
 
   private static async handleNotification(payload: any): Promise<void> {
     const { type, config, message, sessionId } = payload;
-    
+
     switch (type) {
       case 'slack':
         await IntegrationManager.notifySlack(config, message, sessionId);
@@ -148,40 +239,79 @@ export class QueueManager {
   }
 
   private static async handleReportGeneration(payload: any): Promise<void> {
-    const { reportType, parameters } = payload;
+    const { reportType } = payload;
     // Implement report generation logic
     console.log(`Generating report: ${reportType}`);
   }
 
-  static getQueueStatus(queueName: string): {
+  static async getQueueStatus(queueName: string): Promise<{
     pending: number;
+    delayed: number;
     processing: number;
     completed: number;
     failed: number;
-  } {
-    const queue = this.queues.get(queueName) || [];
-    
+  }> {
+    const now = Date.now();
+    const [pending, delayed, processing, completed, failed] = await Promise.all([
+      this.redis.zcount(RedisKeys.queuePending(queueName), 0, now),
+      this.redis.zcount(RedisKeys.queuePending(queueName), `(${now}`, '+inf'),
+      this.redis.zcard(RedisKeys.queueProcessing(queueName)),
+      this.redis.get<number>(RedisKeys.queueCompleted(queueName)),
+      this.redis.llen(RedisKeys.queueDeadLetter(queueName))
+    ]);
+
     return {
-      pending: queue.filter(job => job.status === 'pending').length,
-      processing: queue.filter(job => job.status === 'processing').length,
-      completed: queue.filter(job => job.status === 'completed').length,
-      failed: queue.filter(job => job.status === 'failed').length
+      pending,
+      delayed,
+      processing,
+      completed: Number(completed) || 0,
+      failed
     };
   }
 
+  static async getJob(jobId: string): Promise<QueueJob | null> {
+    const jobData = await this.redis.get(RedisKeys.queueJob(jobId));
+    if (!jobData) return null;
+
+    // Upstash Redis automatically parses JSON
+    return typeof jobData === 'string' ? JSON.parse(jobData) : jobData as QueueJob;
+  }
+
+  /**
+   * List jobs in the dead-letter queue, newest first
+   */
+  static async getDeadLetterJobs(queueName: string, limit: number = 50): Promise<QueueJob[]> {
+    const ids = await this.redis.lrange<string>(RedisKeys.queueDeadLetter(queueName), 0, limit - 1);
+    const jobs = await Promise.all(ids.map(id => this.getJob(id)));
+    return jobs.filter((job): job is QueueJob => job !== null);
+  }
+
+  /**
+   * Move dead-lettered jobs back into the queue with a fresh set of attempts
+   */
   static async retryFailedJobs(queueName: string): Promise<number> {
-    const queue = this.queues.get(queueName) || [];
     let retriedCount = 0;
+    const deadCount = await this.redis.llen(RedisKeys.queueDeadLetter(queueName));
+
+    for (let i = 0; i < deadCount; i++) {
+      const jobId = await this.redis.rpop<string>(RedisKeys.queueDeadLetter(queueName));
+      if (!jobId) break;
 
-    for (const job of queue) {
-      if (job.status === 'failed' && job.attempts < job.maxAttempts) {
+      const job = await this.getJob(jobId);
+      if (job) {
         job.status = 'pending';
+        job.attempts = 0;
         job.scheduledFor = undefined;
+        await this.saveJob(job);
+        await this.redis.zadd(RedisKeys.queuePending(queueName), { score: Date.now(), member: job.id });
         retriedCount++;
       }
     }
 
     return retriedCount;
   }
-}
 
+  private static async saveJob(job: QueueJob, ttl: number = RedisKeys.TTL.SESSION): Promise<void> {
+    await this.redis.setex(RedisKeys.queueJob(job.id), ttl, JSON.stringify(job));
+  }
+}
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/services/enhanced-github-service', () => ({
+  EnhancedGitHubService: vi.fn()
+}));
+
+import type { EnhancedGitHubService } from '../../src/services/enhanced-github-service';
+import { estimateTokens, formatRepositoryContext, RepositoryIndex } from './repository-indexer';
+
+const files = [
+  { path: 'src/components/HeroSection.tsx', content: 'export function HeroSection() {\n  return <section className="hero">Welcome</section>;\n}' },
+  { path: 'src/components/Footer.tsx', content: 'export function Footer() {\n  return <footer>Contact us</footer>;\n}' },
+  { path: 'src/types/hero.ts', content: 'export interface HeroProps {\n  title: string;\n}' },
+  { path: 'src/pages/About.tsx', content: 'export function About() {\n  return <main>About the bakery</main>;\n}' }
+];
+
+describe('RepositoryIndex', () => {
+  it('matches split identifiers and ranks the most relevant chunks first', () => {
+    const snippets = new RepositoryIndex(files).retrieve('Make the hero section taller');
+
+    expect(snippets.map(snippet => snippet.path)).toEqual(['src/components/HeroSection.tsx', 'src/types/hero.ts']);
+    expect(snippets[0].score).toBeGreaterThan(snippets[1].score);
+    expect(snippets[0]).toMatchObject({ startLine: 1, endLine: 3, kind: 'component' });
+  });
+
+  it('leaves out the file being edited and prefers its siblings', () => {
+    const index = new RepositoryIndex(files);
+
+    const snippets = index.retrieve('hero footer about', { targetPath: 'src/components/HeroSection.tsx' });
+
+    expect(snippets.map(snippet => snippet.path)).not.toContain('src/components/HeroSection.tsx');
+    expect(snippets[0].path).toBe('src/components/Footer.tsx');
+  });
+
+  it('keeps the snippets within the token budget', () => {
+    const index = new RepositoryIndex(files);
+    const [best] = index.retrieve('hero');
+
+    const snippets = index.retrieve('hero', { tokenBudget: estimateTokens(best.content) });
+
+    expect(snippets.map(snippet => snippet.path)).toEqual([best.path]);
+  });
+
+  it('splits long files into overlapping chunks and returns at most two per file', () => {
+    const lines = Array.from({ length: 200 }, (_, line) => `const value${line} = "hero ${line}";`);
+    const index = new RepositoryIndex([{ path: 'src/data.ts', content: lines.join('\n') }]);
+
+    expect(index.size).toEqual({ files: 1, chunks: 4 });
+    const snippets = index.retrieve('hero', { tokenBudget: 10000 });
+    expect(snippets).toHaveLength(2);
+    expect(snippets.map(snippet => snippet.endLine - snippet.startLine + 1)).toEqual([60, 60]);
+  });
+
+  it('finds nothing for a query of stop words', () => {
+    expect(new RepositoryIndex(files).retrieve('please make this')).toEqual([]);
+  });
+
+  it('indexes the source files of a branch tarball', async () => {
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'repository-indexer-test-'));
+    try {
+      const root = path.join(workspace, 'acme-site-abc123');
+      for (const [filePath, content] of Object.entries({
+        'src/App.tsx': 'export function App() { return <Hero />; }',
+        'src/styles.css': '.hero { color: red; }',
+        'node_modules/react/index.js': 'module.exports = {};',
+        'README.md': '# Site'
+      })) {
+        await fs.mkdir(path.dirname(path.join(root, filePath)), { recursive: true });
+        await fs.writeFile(path.join(root, filePath), content);
+      }
+      execFileSync('tar', ['-czf', path.join(workspace, 'repo.tar.gz'), '-C', workspace, 'acme-site-abc123']);
+
+      const githubService = {
+        downloadArchive: vi.fn(async () => fs.readFile(path.join(workspace, 'repo.tar.gz')))
+      } as unknown as EnhancedGitHubService;
+      const index = await RepositoryIndex.build('https://github.com/acme/site', 'main', { githubService });
+
+      expect(githubService.downloadArchive).toHaveBeenCalledWith('https://github.com/acme/site', 'main');
+      expect(index.size).toEqual({ files: 2, chunks: 2 });
+      expect(index.retrieve('hero').map(snippet => snippet.path).sort()).toEqual(['src/App.tsx', 'src/styles.css']);
+
+      // A recent index of the same branch is reused
+      expect(await RepositoryIndex.build('https://github.com/acme/site', 'main', { githubService })).toBe(index);
+      expect(githubService.downloadArchive).toHaveBeenCalledTimes(1);
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('formatRepositoryContext', () => {
+  it('renders snippets as fenced code with their location', () => {
+    const context = formatRepositoryContext([
+      { path: 'src/types/hero.ts', startLine: 1, endLine: 3, content: 'export interface HeroProps {}', kind: 'types', score: 1 }
+    ]);
+
+    expect(context).toContain('File: src/types/hero.ts (lines 1-3)\n```ts\nexport interface HeroProps {}\n```');
+    expect(formatRepositoryContext([])).toBe('');
+  });
+});
@@ -0,0 +1,297 @@
+// Repository Indexer - BM25 retrieval over a project's source, so prompts see the code related to a change
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { EnhancedGitHubService } from '../../src/services/enhanced-github-service';
+import type { ChangeRequest } from './ai-file-processor';
+
+const execFileAsync = promisify(execFile);
+
+const INDEXED_FILE_PATTERN = /\.(tsx?|jsx?|css|scss)$|(^|\/)tailwind\.config\.[cm]?[jt]s$/;
+const MAX_INDEXED_FILES = 400;
+const MAX_FILE_LENGTH = 60000; // Longer files are generated or vendored, not worth a prompt
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', '.git']);
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+const MAX_CHUNKS_PER_FILE = 2;
+// Indexes are reused by the requests of one warm function instance
+const INDEX_CACHE_TTL_MS = 10 * 60 * 1000;
+const CHARS_PER_TOKEN = 4;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = Number(process.env.REPOSITORY_CONTEXT_TOKEN_BUDGET) || 3000;
+
+// Files worth more than their term overlap: neighbours of the edited file, shared types and the design tokens
+const SIBLING_BOOST = 1.5;
+const KIND_BOOSTS: Record<ChunkKind, number> = {
+  component: 1,
+  types: 1.3,
+  style: 1.1,
+  config: 1.4,
+  source: 1
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'into', 'make', 'should', 'would', 'please',
+  'const', 'let', 'return', 'import', 'export', 'default', 'function', 'true', 'false', 'null', 'undefined'
+]);
+
+export type ChunkKind = 'component' | 'types' | 'style' | 'config' | 'source';
+
+export interface RepositoryFile {
+  path: string;
+  content: string;
+}
+
+export interface RepositoryChunk {
+  path: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  content: string;
+  kind: ChunkKind;
+}
+
+export interface RetrievedSnippet extends RepositoryChunk {
+  score: number;
+}
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  targetPath?: string; // File being edited: excluded, and its siblings are preferred
+  excludePaths?: string[];
+}
+
+export interface RepositoryIndexBuildOptions {
+  githubService?: EnhancedGitHubService;
+  maxFiles?: number;
+}
+
+interface IndexedChunk extends RepositoryChunk {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+const indexCache = new Map<string, { index: Promise<RepositoryIndex>; builtAt: number }>();
+
+// Identifiers are split on camelCase, kebab and snake case so "HeroSection" matches "hero section"
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+function getChunkKind(filePath: string): ChunkKind {
+  if (/(^|\/)tailwind\.config\.[cm]?[jt]s$/.test(filePath)) return 'config';
+  if (/\.d\.ts$|(^|\/)types?(\/|\.tsx?$)/.test(filePath)) return 'types';
+  if (/\.(css|scss)$/.test(filePath)) return 'style';
+  if (/\.(tsx|jsx)$/.test(filePath)) return 'component';
+  return 'source';
+}
+
+function chunkFile(file: RepositoryFile): RepositoryChunk[] {
+  const lines = file.content.split('\n');
+  const kind = getChunkKind(file.path);
+  if (lines.length <= CHUNK_LINES * 1.5) {
+    return [{ path: file.path, startLine: 1, endLine: lines.length, content: file.content, kind }];
+  }
+
+  const chunks: RepositoryChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    chunks.push({ path: file.path, startLine: start + 1, endLine: end, content: lines.slice(start, end).join('\n'), kind });
+    if (end === lines.length) break;
+  }
+  return chunks;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Retrieval query for the change requests of one file
+ */
+export function buildChangeQuery(filePath: string, changes: ChangeRequest[]): string {
+  return [
+    filePath,
+    ...changes.map(change => [
+      change.componentId,
+      change.category,
+      change.feedback,
+      change.componentContext ? JSON.stringify(change.componentContext) : ''
+    ].join(' '))
+  ].join('\n');
+}
+
+/**
+ * Prompt section for retrieved snippets; empty when nothing was retrieved
+ */
+export function formatRepositoryContext(snippets: RetrievedSnippet[]): string {
+  if (snippets.length === 0) return '';
+
+  return `
+RELATED CODE FROM THE REPOSITORY (for reference only - reuse its components, types and design tokens; do not edit these files):
+${snippets.map(snippet => `
+File: ${snippet.path} (lines ${snippet.startLine}-${snippet.endLine})
+\`\`\`${path.extname(snippet.path).slice(1) || 'text'}
+${snippet.content}
+\`\`\`
+`).join('')}`;
+}
+
+/**
+ * In-memory BM25 index over chunks of a repository's source files
+ */
+export class RepositoryIndex {
+  private chunks: IndexedChunk[];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(files: RepositoryFile[]) {
+    this.chunks = files.flatMap(chunkFile).map(chunk => {
+      const terms = tokenize(`${chunk.path} ${chunk.content}`);
+      const termFrequencies = new Map<string, number>();
+      terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+      return { ...chunk, termFrequencies, length: terms.length };
+    });
+
+    for (const chunk of this.chunks) {
+      chunk.termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      });
+    }
+    this.averageLength = this.chunks.reduce((total, chunk) => total + chunk.length, 0) / (this.chunks.length || 1);
+  }
+
+  /**
+   * Index a repository branch, reusing a recent index of the same branch
+   */
+  static build(repoUrl: string, branch: string = 'develop', options: RepositoryIndexBuildOptions = {}): Promise<RepositoryIndex> {
+    const cacheKey = `${repoUrl}#${branch}`;
+    const cached = indexCache.get(cacheKey);
+    if (cached && Date.now() - cached.builtAt < INDEX_CACHE_TTL_MS) {
+      return cached.index;
+    }
+
+    const index = this.fetchFiles(repoUrl, branch, options).then(files => new RepositoryIndex(files));
+    indexCache.set(cacheKey, { index, builtAt: Date.now() });
+    // A failed build should not stick
+    index.catch(() => indexCache.delete(cacheKey));
+    return index;
+  }
+
+  /**
+   * Read the indexed files from one tarball of the branch rather than one API request per file
+   */
+  private static async fetchFiles(
+    repoUrl: string,
+    branch: string,
+    options: RepositoryIndexBuildOptions
+  ): Promise<RepositoryFile[]> {
+    const githubService = options.githubService || new EnhancedGitHubService();
+    const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'geenius-index-'));
+
+    try {
+      const archivePath = path.join(workspace, '.repo.tar.gz');
+      await fs.writeFile(archivePath, await githubService.downloadArchive(repoUrl, branch));
+      // GitHub wraps the tree in an "<owner>-<repo>-<sha>/" directory
+      await execFileAsync('tar', ['-xzf', archivePath, '--strip-components=1', '-C', workspace]);
+      await fs.rm(archivePath);
+
+      const filePaths = (await this.listFiles(workspace))
+        .filter(filePath => INDEXED_FILE_PATTERN.test(filePath))
+        .slice(0, options.maxFiles || MAX_INDEXED_FILES);
+
+      const files: RepositoryFile[] = [];
+      for (const filePath of filePaths) {
+        const content = await fs.readFile(path.join(workspace, filePath), 'utf-8');
+        if (content.length <= MAX_FILE_LENGTH) {
+          files.push({ path: filePath, content });
+        }
+      }
+      return files;
+    } finally {
+      await fs.rm(workspace, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  // Repository-relative paths in a stable order, without dependencies and build output
+  private static async listFiles(root: string, directory: string = ''): Promise<string[]> {
+    const entries = await fs.readdir(path.join(root, directory), { withFileTypes: true });
+    const filePaths: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        filePaths.push(...await this.listFiles(root, entryPath));
+      } else if (entry.isFile()) {
+        filePaths.push(entryPath);
+      }
+    }
+    return filePaths;
+  }
+
+  get size(): { files: number; chunks: number } {
+    return { files: new Set(this.chunks.map(chunk => chunk.path)).size, chunks: this.chunks.length };
+  }
+
+  /**
+   * Most relevant snippets for a query that fit in the token budget, best first
+   */
+  retrieve(query: string, options: RetrievalOptions = {}): RetrievedSnippet[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    const excluded = new Set([...(options.excludePaths || []), ...(options.targetPath ? [options.targetPath] : [])]);
+    const targetDirectory = options.targetPath ? path.posix.dirname(options.targetPath) : undefined;
+
+    const scored = this.chunks
+      .filter(chunk => !excluded.has(chunk.path))
+      .map(chunk => {
+        let score = this.score(chunk, queryTerms) * KIND_BOOSTS[chunk.kind];
+        if (targetDirectory && path.posix.dirname(chunk.path) === targetDirectory) {
+          score *= SIBLING_BOOST;
+        }
+        return { chunk, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    let remainingTokens = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+    const chunksPerFile = new Map<string, number>();
+    const snippets: RetrievedSnippet[] = [];
+
+    for (const { chunk, score } of scored) {
+      const tokens = estimateTokens(chunk.content);
+      const fileChunks = chunksPerFile.get(chunk.path) || 0;
+      // Smaller snippets further down the ranking may still fit
+      if (tokens > remainingTokens || fileChunks >= MAX_CHUNKS_PER_FILE) continue;
+
+      const { termFrequencies, length, ...snippet } = chunk;
+      snippets.push({ ...snippet, score });
+      chunksPerFile.set(chunk.path, fileChunks + 1);
+      remainingTokens -= tokens;
+    }
+
+    return snippets;
+  }
+
+  private score(chunk: IndexedChunk, queryTerms: string[]): number {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = chunk.termFrequencies.get(term);
+      if (!frequency) continue;
+
+      const documentFrequency = this.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (this.chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1))
+        / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / this.averageLength));
+    }
+    return score;
+  }
+}
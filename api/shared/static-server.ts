@@ -0,0 +1,71 @@
+// Static Server - serves a built app from disk so browser tests can run without a deployment
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StaticServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8'
+};
+
+/**
+ * Serve `rootDir` on a random localhost port. Unknown paths fall back to index.html for client-side routing.
+ */
+export async function serveStaticDirectory(rootDir: string): Promise<StaticServer> {
+  const root = path.resolve(rootDir);
+
+  const server = createServer(async (request, response) => {
+    const requestPath = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname);
+    let filePath = path.join(root, requestPath);
+
+    // Reject paths that escape the served directory, including siblings sharing its prefix
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      response.writeHead(403).end();
+      return;
+    }
+
+    try {
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats) {
+        filePath = path.join(root, 'index.html');
+      } else if (stats.isDirectory()) {
+        filePath = path.join(filePath, 'index.html');
+      }
+
+      const content = await fs.readFile(filePath);
+      response.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream'
+      });
+      response.end(request.method === 'HEAD' ? undefined : content);
+    } catch (error) {
+      response.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
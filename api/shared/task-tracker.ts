@@ -0,0 +1,238 @@
+// Task Tracker - per-project backlog of AI work, linked to the sessions, branches and PRs that implement it
+import { Redis } from '@upstash/redis';
+import { z } from 'zod';
+import RedisKeys from '../../src/services/redis-keys';
+import type { EnhancedProcessingSession } from './enhanced-session-manager';
+
+// Initialize Redis client
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+const TaskStatusSchema = z.enum(['open', 'in_progress', 'in_review', 'completed', 'failed']);
+const TaskPrioritySchema = z.enum(['low', 'medium', 'high', 'urgent']);
+
+export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>;
+
+export interface ProjectTask {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  tags: string[];
+  priority: TaskPriority;
+  status: TaskStatus;
+  source: 'chat' | 'change_request';
+  changeRequestId?: string; // EnhancedChangeRequest the task was created from
+  assignee?: string;
+
+  // Work that implements the task; the latest session is last
+  sessionIds: string[];
+  branchName?: string;
+  prUrl?: string;
+  prNumber?: number;
+  previewUrl?: string;
+  error?: string;
+
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CreateTaskInput {
+  name: string;
+  description?: string;
+  tags?: string[];
+  priority?: TaskPriority;
+  assignee?: string;
+  source?: ProjectTask['source'];
+  changeRequestId?: string;
+}
+
+// Request bodies of the task board API; unknown fields are dropped
+export const CreateTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Task name is required'),
+  description: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  priority: TaskPrioritySchema.optional(),
+  assignee: z.string().optional()
+});
+
+// Fields clients may edit; links and timestamps are maintained by the tracker
+export const TaskUpdateSchema = CreateTaskSchema.extend({
+  tags: z.array(z.string()),
+  status: TaskStatusSchema
+}).partial();
+
+export type TaskUpdate = z.infer<typeof TaskUpdateSchema>;
+
+// Only the fields of an EnhancedChangeRequest the tracker needs
+interface ChangeRequestLike {
+  id: string;
+  feedback: string;
+  category: string;
+  priority: string;
+  componentContext?: { name?: string };
+}
+
+/**
+ * Task status implied by the status of the session working on it
+ */
+export function getTaskStatusForSession(session: Pick<EnhancedProcessingSession, 'status' | 'prUrl'>): TaskStatus {
+  const status = session.status as string;
+  switch (status) {
+    case 'failed':
+      return 'failed';
+    case 'merged':
+      return 'completed';
+    case 'preview_ready':
+    case 'merging':
+      return 'in_review';
+    case 'completed':
+      // The work is done once its PR is merged
+      return session.prUrl ? 'in_review' : 'completed';
+    default:
+      return 'in_progress';
+  }
+}
+
+function parseTask(value: unknown): ProjectTask {
+  // Upstash deserializes JSON values automatically
+  return typeof value === 'string' ? JSON.parse(value) : value as ProjectTask;
+}
+
+/**
+ * Tasks are stored as a Redis hash per project (task id -> JSON), with a set per session of the tasks it works on
+ */
+export class TaskTracker {
+  private static redis = redis;
+
+  static async getTasks(projectId: string): Promise<ProjectTask[]> {
+    const hash = await this.redis.hgetall<Record<string, unknown>>(RedisKeys.projectTasks(projectId));
+    if (!hash) return [];
+
+    return Object.values(hash)
+      .map(parseTask)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  static async getTask(projectId: string, taskId: string): Promise<ProjectTask | null> {
+    const value = await this.redis.hget(RedisKeys.projectTasks(projectId), taskId);
+    return value ? parseTask(value) : null;
+  }
+
+  static async createTask(projectId: string, input: CreateTaskInput): Promise<ProjectTask> {
+    const now = Date.now();
+    const task: ProjectTask = {
+      id: RedisKeys.generateTaskId(),
+      projectId,
+      name: input.name.trim(),
+      description: input.description?.trim() || '',
+      tags: input.tags || [],
+      priority: TaskPrioritySchema.safeParse(input.priority).data || 'medium',
+      status: 'open',
+      source: input.source || 'chat',
+      changeRequestId: input.changeRequestId,
+      assignee: input.assignee,
+      sessionIds: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.saveTask(task);
+    return task;
+  }
+
+  static async updateTask(projectId: string, taskId: string, update: TaskUpdate): Promise<ProjectTask | null> {
+    const task = await this.getTask(projectId, taskId);
+    if (!task) return null;
+
+    const updated: ProjectTask = { ...task, ...update, updatedAt: Date.now() };
+    await this.saveTask(updated);
+    return updated;
+  }
+
+  static async deleteTask(projectId: string, taskId: string): Promise<boolean> {
+    const removed = await this.redis.hdel(RedisKeys.projectTasks(projectId), taskId);
+    return removed > 0;
+  }
+
+  /**
+   * Find or create a task for each change request. Resubmitted change requests reuse their existing task.
+   */
+  static async createFromChangeRequests(projectId: string, changes: ChangeRequestLike[]): Promise<ProjectTask[]> {
+    const existing = await this.getTasks(projectId);
+    const tasks: ProjectTask[] = [];
+
+    for (const change of changes) {
+      const task = existing.find(candidate => candidate.changeRequestId === change.id)
+        || await this.createTask(projectId, {
+          name: change.feedback.length > 80 ? `${change.feedback.slice(0, 77)}...` : change.feedback,
+          description: change.feedback,
+          tags: [change.category, change.componentContext?.name].filter((tag): tag is string => !!tag),
+          priority: change.priority as TaskPriority,
+          source: 'change_request',
+          changeRequestId: change.id
+        });
+      tasks.push(task);
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Record that a session works on the tasks; later session updates are applied to them by syncSession
+   */
+  static async linkSession(projectId: string, taskIds: string[], sessionId: string): Promise<void> {
+    if (taskIds.length === 0) return;
+
+    await this.redis.sadd(RedisKeys.sessionTasks(sessionId), ...taskIds as [string, ...string[]]);
+    await this.redis.expire(RedisKeys.sessionTasks(sessionId), RedisKeys.TTL.SESSION);
+
+    for (const taskId of taskIds) {
+      const task = await this.getTask(projectId, taskId);
+      if (!task) continue;
+
+      await this.saveTask({
+        ...task,
+        sessionIds: task.sessionIds.includes(sessionId) ? task.sessionIds : [...task.sessionIds, sessionId],
+        status: 'in_progress',
+        error: undefined,
+        updatedAt: Date.now()
+      });
+    }
+  }
+
+  /**
+   * Copy the session's status, branch, PR and preview onto the tasks linked to it
+   */
+  static async syncSession(session: EnhancedProcessingSession): Promise<void> {
+    const taskIds = await this.redis.smembers(RedisKeys.sessionTasks(session.id));
+    if (taskIds.length === 0) return;
+
+    const status = getTaskStatusForSession(session);
+    for (const taskId of taskIds) {
+      const task = await this.getTask(session.projectId, taskId);
+      // A newer session owns the task now
+      if (!task || task.sessionIds[task.sessionIds.length - 1] !== session.id) continue;
+
+      await this.saveTask({
+        ...task,
+        status,
+        branchName: session.branchName || task.branchName,
+        prUrl: session.prUrl || task.prUrl,
+        prNumber: session.prNumber || task.prNumber,
+        previewUrl: session.previewUrl || task.previewUrl,
+        error: status === 'failed' ? session.error : undefined,
+        updatedAt: Date.now()
+      });
+    }
+  }
+
+  private static async saveTask(task: ProjectTask): Promise<void> {
+    const key = RedisKeys.projectTasks(task.projectId);
+    await this.redis.hset(key, { [task.id]: JSON.stringify(task) });
+    await this.redis.expire(key, RedisKeys.TTL.PROJECT);
+  }
+}
@@ -36,9 +36,18 @@ export class TestSuiteGenerator {
 
   constructor(aiProvider: 'anthropic' | 'openai' | 'google' | 'grok' = 'anthropic') {
     this.aiAgent = new CustomAIAgent({
+      sessionId: 'test-suite-generator',
+      sandbox: null,
+      repositoryUrl: '',
       provider: aiProvider,
-      role: 'qa-engineer',
-      expertise: ['testing', 'react-testing-library', 'playwright', 'jest', 'vitest']
+      model: 'default',
+      systemPrompt: 'You are a QA engineer experienced with React Testing Library, Playwright, Jest and Vitest.',
+      projectContext: {
+        componentRegistry: {},
+        dependencies: {},
+        framework: 'react',
+        structure: 'typescript'
+      }
     });
     this.githubService = new EnhancedGitHubService();
   }
@@ -79,14 +88,12 @@ export class TestSuiteGenerator {
       }
 
       if (config.testTypes.includes('e2e')) {
-        const e2eTests = await this.generateE2ETests(fileChange, relatedChanges, config.framework);
+        // Unit test frameworks do not drive a browser, so their e2e tests use Playwright
+        const e2eFramework = config.framework === 'cypress' ? 'cypress' : 'playwright';
+        const e2eTests = await this.generateE2ETests(fileChange, relatedChanges, e2eFramework);
         testFiles.push(...e2eTests);
         
-        if (config.framework === 'playwright') {
-          dependencies.add('@playwright/test');
-        } else if (config.framework === 'cypress') {
-          dependencies.add('cypress');
-        }
+        dependencies.add(e2eFramework === 'cypress' ? 'cypress' : '@playwright/test');
       }
 
       if (config.includeVisualTests) {
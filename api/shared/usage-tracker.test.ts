@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const pipeline = {
+    hincrby: vi.fn(),
+    hincrbyfloat: vi.fn(),
+    expire: vi.fn(),
+    sadd: vi.fn(),
+    exec: vi.fn()
+  };
+  return {
+    pipeline,
+    redis: {
+      pipeline: vi.fn(() => pipeline),
+      hgetall: vi.fn(),
+      get: vi.fn()
+    }
+  };
+});
+
+vi.mock('@upstash/redis', () => ({
+  Redis: vi.fn(() => mocks.redis)
+}));
+
+import RedisKeys from '../../src/services/redis-keys';
+import type { ModelRoute } from './model-router';
+import { BudgetExceededError, estimateCost, readTokenUsage, UsageTracker } from './usage-tracker';
+
+const route: ModelRoute = {
+  task: 'generation',
+  provider: 'anthropic',
+  modelId: 'claude-sonnet-4-20250514',
+  fallback: false,
+  failedProviders: [],
+  usage: { promptTokens: 1000, completionTokens: 200, totalTokens: 1200 },
+  estimatedCost: 0.006
+};
+
+describe('estimateCost', () => {
+  it('prices by the longest matching model prefix', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+    expect(estimateCost('gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(estimateCost('gpt-4o-2024-08-06', usage)).toBeCloseTo(12.5);
+  });
+
+  it('prices unknown models like a strong model', () => {
+    expect(estimateCost('mystery-model', { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 })).toBe(3);
+  });
+});
+
+describe('readTokenUsage', () => {
+  it('reads the usage of a generateText result and derives a missing total', () => {
+    expect(readTokenUsage({ usage: { promptTokens: 10, completionTokens: 5 } }))
+      .toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    expect(readTokenUsage({})).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+  });
+});
+
+describe('UsageTracker', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('increments project totals and provider totals in one pipeline', async () => {
+    await UsageTracker.recordUsage('project_1', route);
+
+    const key = RedisKeys.projectUsage('project_1');
+    expect(mocks.pipeline.hincrby).toHaveBeenCalledWith(key, 'totalTokens', 1200);
+    expect(mocks.pipeline.hincrby).toHaveBeenCalledWith(key, 'anthropic:totalTokens', 1200);
+    expect(mocks.pipeline.hincrby).toHaveBeenCalledWith(key, 'calls', 1);
+    expect(mocks.pipeline.hincrbyfloat).toHaveBeenCalledWith(key, 'anthropic:estimatedCost', 0.006);
+    expect(mocks.pipeline.sadd).toHaveBeenCalledWith(RedisKeys.usageProjects(), 'project_1');
+    expect(mocks.pipeline.exec).toHaveBeenCalledTimes(1);
+  });
+
+  it('records nothing for a route without usage', async () => {
+    await UsageTracker.recordUsage('project_1', { ...route, usage: undefined });
+
+    expect(mocks.redis.pipeline).not.toHaveBeenCalled();
+  });
+
+  it('reads usage hashes into totals per provider', async () => {
+    mocks.redis.hgetall.mockResolvedValue({
+      totalTokens: 1500,
+      calls: '2',
+      estimatedCost: '0.01',
+      'anthropic:totalTokens': 1200,
+      'openai:totalTokens': '300',
+      unrelated: 7
+    });
+
+    const usage = await UsageTracker.getProjectUsage('project_1');
+
+    expect(usage).toMatchObject({ totalTokens: 1500, calls: 2, estimatedCost: 0.01, promptTokens: 0 });
+    expect(usage.byProvider.anthropic?.totalTokens).toBe(1200);
+    expect(usage.byProvider.openai?.totalTokens).toBe(300);
+  });
+
+  it('falls back to the budget defaults from the environment', async () => {
+    vi.stubEnv('PROJECT_AI_BUDGET_USD', '5');
+    vi.stubEnv('PROJECT_AI_BUDGET_TOKENS', '');
+    mocks.redis.get.mockResolvedValue({ maxTokens: 1000 });
+
+    expect(await UsageTracker.getProjectBudget('project_1')).toEqual({ maxCost: 5, maxTokens: 1000 });
+  });
+
+  it('reports a spent budget and throws on it', async () => {
+    vi.stubEnv('PROJECT_AI_BUDGET_USD', '');
+    vi.stubEnv('PROJECT_AI_BUDGET_TOKENS', '');
+    mocks.redis.hgetall.mockResolvedValue({ estimatedCost: 2.5, totalTokens: 1200 });
+    mocks.redis.get.mockResolvedValue(JSON.stringify({ maxCost: 2 }));
+
+    const status = await UsageTracker.checkBudget('project_1');
+
+    expect(status.exceeded).toBe(true);
+    expect(status.reason).toBe('AI budget of $2.00 spent ($2.50 used)');
+    await expect(UsageTracker.assertWithinBudget('project_1')).rejects.toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('stays within a budget that has not been reached', async () => {
+    vi.stubEnv('PROJECT_AI_BUDGET_USD', '');
+    vi.stubEnv('PROJECT_AI_BUDGET_TOKENS', '');
+    mocks.redis.hgetall.mockResolvedValue({ estimatedCost: 1, totalTokens: 999 });
+    mocks.redis.get.mockResolvedValue({ maxCost: 2, maxTokens: 1000 });
+
+    await expect(UsageTracker.checkBudget('project_1')).resolves.toMatchObject({ exceeded: false });
+    await expect(UsageTracker.assertWithinBudget('project_1')).resolves.toBeUndefined();
+  });
+});
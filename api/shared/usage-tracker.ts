@@ -0,0 +1,253 @@
+// Usage Tracker - token/cost accounting and budgets for AI model calls
+import { Redis } from '@upstash/redis';
+import RedisKeys from '../../src/services/redis-keys';
+import type { AIProvider, ModelRoute } from './model-router';
+
+// Initialize Redis client
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  estimatedCost: number; // USD
+  calls: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byProvider: Partial<Record<AIProvider, UsageTotals>>;
+}
+
+export interface ProjectBudget {
+  maxCost?: number; // USD
+  maxTokens?: number;
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  usage: UsageSummary;
+  budget: ProjectBudget;
+  reason?: string;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, public projectId: string, public status: BudgetStatus) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// USD per million tokens [prompt, completion], matched by model id prefix (longest prefix wins)
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'claude-opus-4': [15, 75],
+  'claude-sonnet-4': [3, 15],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-5-haiku': [0.8, 4],
+  'gpt-4-turbo': [10, 30],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gemini-1.5-flash': [0.075, 0.3],
+  'gemini-1.5-pro': [1.25, 5],
+  'gemini-pro': [0.5, 1.5],
+  'grok-3-mini': [0.3, 0.5],
+  'grok-3': [3, 15],
+  'grok-4': [3, 15]
+};
+
+// Unknown models are priced like a strong model so budgets err on the safe side
+const DEFAULT_PRICING: [number, number] = [3, 15];
+
+const USAGE_FIELDS: Array<keyof UsageTotals> = ['promptTokens', 'completionTokens', 'totalTokens', 'estimatedCost', 'calls'];
+
+export function estimateCost(modelId: string, usage: TokenUsage): number {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(candidate => modelId.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  const [promptPrice, completionPrice] = prefix ? MODEL_PRICING[prefix] : DEFAULT_PRICING;
+
+  return (usage.promptTokens * promptPrice + usage.completionTokens * completionPrice) / 1_000_000;
+}
+
+/**
+ * Read the token usage the AI SDK reports on a generateText result
+ */
+export function readTokenUsage(result: any): TokenUsage {
+  const promptTokens = Number(result?.usage?.promptTokens) || 0;
+  const completionTokens = Number(result?.usage?.completionTokens) || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(result?.usage?.totalTokens) || promptTokens + completionTokens
+  };
+}
+
+export function emptyUsageSummary(): UsageSummary {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0, calls: 0, byProvider: {} };
+}
+
+// Usage hashes keep totals in fields like `totalTokens` and per-provider totals in `anthropic:totalTokens`
+function incrementUsageHash(pipeline: ReturnType<Redis['pipeline']>, key: string, route: ModelRoute, usage: TokenUsage): void {
+  const increments: Record<string, number> = {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    calls: 1
+  };
+
+  for (const [field, value] of Object.entries(increments)) {
+    pipeline.hincrby(key, field, value);
+    pipeline.hincrby(key, `${route.provider}:${field}`, value);
+  }
+  pipeline.hincrbyfloat(key, 'estimatedCost', route.estimatedCost || 0);
+  pipeline.hincrbyfloat(key, `${route.provider}:estimatedCost`, route.estimatedCost || 0);
+}
+
+function parseUsageHash(hash: Record<string, string | number> | null): UsageSummary {
+  const summary = emptyUsageSummary();
+  if (!hash) return summary;
+
+  for (const [field, value] of Object.entries(hash)) {
+    const [scope, name] = field.includes(':') ? field.split(':') : [null, field];
+    if (!USAGE_FIELDS.includes(name as keyof UsageTotals)) continue;
+
+    if (scope) {
+      const provider = scope as AIProvider;
+      summary.byProvider[provider] = summary.byProvider[provider]
+        || { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0, calls: 0 };
+      summary.byProvider[provider]![name as keyof UsageTotals] = Number(value) || 0;
+    } else {
+      summary[name as keyof UsageTotals] = Number(value) || 0;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Per-project usage totals and budgets, stored as Redis hashes so concurrent functions can increment them
+ */
+export class UsageTracker {
+  private static redis = redis;
+
+  static async recordUsage(projectId: string, route: ModelRoute): Promise<void> {
+    if (!route.usage) return;
+
+    const key = RedisKeys.projectUsage(projectId);
+    const pipeline = this.redis.pipeline();
+    incrementUsageHash(pipeline, key, route, route.usage);
+    pipeline.expire(key, RedisKeys.TTL.PROJECT);
+    pipeline.sadd(RedisKeys.usageProjects(), projectId);
+    await pipeline.exec();
+  }
+
+  static async getProjectUsage(projectId: string): Promise<UsageSummary> {
+    return parseUsageHash(await this.redis.hgetall<Record<string, string | number>>(RedisKeys.projectUsage(projectId)));
+  }
+
+  /**
+   * Add a model call to a session's totals. Sessions are read-modify-written as a whole, so their usage
+   * is kept in a hash of its own where concurrent calls cannot overwrite each other.
+   */
+  static async recordSessionUsage(sessionId: string, route: ModelRoute): Promise<void> {
+    if (!route.usage) return;
+
+    const key = RedisKeys.sessionUsage(sessionId);
+    const pipeline = this.redis.pipeline();
+    incrementUsageHash(pipeline, key, route, route.usage);
+    pipeline.expire(key, RedisKeys.TTL.SESSION);
+    await pipeline.exec();
+  }
+
+  static async getSessionUsage(sessionId: string): Promise<UsageSummary> {
+    return parseUsageHash(await this.redis.hgetall<Record<string, string | number>>(RedisKeys.sessionUsage(sessionId)));
+  }
+
+  /**
+   * Usage of every project that made model calls, plus totals per provider across projects
+   */
+  static async getUsageReport(): Promise<{
+    totals: UsageSummary;
+    projects: Array<{ projectId: string; usage: UsageSummary; budget: ProjectBudget }>;
+  }> {
+    const projectIds = await this.redis.smembers(RedisKeys.usageProjects());
+    const projects = await Promise.all(projectIds.map(async projectId => ({
+      projectId,
+      usage: await this.getProjectUsage(projectId),
+      budget: await this.getProjectBudget(projectId)
+    })));
+
+    const totals = emptyUsageSummary();
+    for (const { usage } of projects) {
+      for (const field of USAGE_FIELDS) {
+        totals[field] += usage[field];
+      }
+      for (const [provider, providerUsage] of Object.entries(usage.byProvider) as Array<[AIProvider, UsageTotals]>) {
+        const providerTotals = totals.byProvider[provider]
+          || { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0, calls: 0 };
+        for (const field of USAGE_FIELDS) {
+          providerTotals[field] += providerUsage[field];
+        }
+        totals.byProvider[provider] = providerTotals;
+      }
+    }
+
+    return {
+      totals,
+      projects: projects.sort((a, b) => b.usage.estimatedCost - a.usage.estimatedCost)
+    };
+  }
+
+  /**
+   * Budget configured for the project, falling back to the PROJECT_AI_BUDGET_USD / PROJECT_AI_BUDGET_TOKENS defaults
+   */
+  static async getProjectBudget(projectId: string): Promise<ProjectBudget> {
+    const stored = await this.redis.get(RedisKeys.projectBudget(projectId));
+    const budget: ProjectBudget = stored
+      ? (typeof stored === 'string' ? JSON.parse(stored) : stored as ProjectBudget)
+      : {};
+
+    return {
+      maxCost: budget.maxCost ?? (Number(process.env.PROJECT_AI_BUDGET_USD) || undefined),
+      maxTokens: budget.maxTokens ?? (Number(process.env.PROJECT_AI_BUDGET_TOKENS) || undefined)
+    };
+  }
+
+  static async setProjectBudget(projectId: string, budget: ProjectBudget): Promise<void> {
+    await this.redis.setex(RedisKeys.projectBudget(projectId), RedisKeys.TTL.PROJECT, JSON.stringify(budget));
+  }
+
+  static async checkBudget(projectId: string): Promise<BudgetStatus> {
+    const [usage, budget] = await Promise.all([this.getProjectUsage(projectId), this.getProjectBudget(projectId)]);
+
+    if (budget.maxCost !== undefined && usage.estimatedCost >= budget.maxCost) {
+      return {
+        exceeded: true, usage, budget,
+        reason: `AI budget of $${budget.maxCost.toFixed(2)} spent ($${usage.estimatedCost.toFixed(2)} used)`
+      };
+    }
+    if (budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens) {
+      return {
+        exceeded: true, usage, budget,
+        reason: `AI token budget of ${budget.maxTokens} spent (${usage.totalTokens} used)`
+      };
+    }
+
+    return { exceeded: false, usage, budget };
+  }
+
+  /**
+   * Throw a BudgetExceededError when the project has spent its budget
+   */
+  static async assertWithinBudget(projectId: string): Promise<void> {
+    const status = await this.checkBudget(projectId);
+    if (status.exceeded) {
+      throw new BudgetExceededError(`Project ${projectId}: ${status.reason}`, projectId, status);
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../src/services/enhanced-github-service', () => ({
+  EnhancedGitHubService: vi.fn()
+}));
+
+import { parseCommand, SandboxError, validateCloneTarget } from './workspace-sandbox';
+
+describe('validateCloneTarget', () => {
+  it('accepts GitHub repositories and plain branch names', () => {
+    expect(() => validateCloneTarget('https://github.com/acme/dev-bakery', 'develop')).not.toThrow();
+    expect(() => validateCloneTarget('https://github.com/acme/dev-bakery.git', 'feature/hero-v2')).not.toThrow();
+  });
+
+  it('rejects values git would read as options and other hosts', () => {
+    for (const repositoryUrl of [
+      '--upload-pack=touch /tmp/pwned',
+      'https://gitlab.com/acme/dev-bakery',
+      'ext::sh -c touch% /tmp/pwned',
+      'file:///etc',
+      'https://github.com/acme/dev-bakery --upload-pack=x'
+    ]) {
+      expect(() => validateCloneTarget(repositoryUrl, 'main')).toThrow(SandboxError);
+    }
+  });
+
+  it('rejects branch names git would read as options', () => {
+    expect(() => validateCloneTarget('https://github.com/acme/dev-bakery', '--upload-pack=x')).toThrow('Invalid branch name');
+    expect(() => validateCloneTarget('https://github.com/acme/dev-bakery', 'main..HEAD')).toThrow('Invalid branch name');
+    expect(() => validateCloneTarget('https://github.com/acme/dev-bakery', 'main branch')).toThrow('Invalid branch name');
+  });
+});
+
+describe('parseCommand', () => {
+  it('splits arguments and honours quotes', () => {
+    expect(parseCommand(`npm run test -- --grep "hero section"`)).toEqual(['npm', 'run', 'test', '--', '--grep', 'hero section']);
+  });
+
+  it('rejects shell operators', () => {
+    expect(() => parseCommand('npm test && curl example.com')).toThrow('Shell operator "&"');
+  });
+});
@@ -0,0 +1,403 @@
+// Workspace Sandbox - a temporary git workspace the AI agent's tools read, write and run commands in
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EnhancedGitHubService, PullRequestInfo } from '../../src/services/enhanced-github-service';
+
+// Output returned to the agent per stream; the end of the output is kept since that is where errors are
+const MAX_OUTPUT_LENGTH = 20000;
+const MAX_READ_BYTES = 1024 * 1024;
+const COMMIT_AUTHOR = { name: 'Geenius AI Agent', email: 'agent@geenius.dev' };
+
+// Clone targets come from the model, so they are held to GitHub repositories and plain branch names
+// that git cannot read as options
+const GITHUB_REPOSITORY_URL = /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/?$/;
+const BRANCH_NAME = /^(?!-)(?!.*\.\.)[\w.\/-]+$/;
+
+// Executables the agent may run, with the subcommands allowed as their first argument ('*' for any arguments).
+// Commands run without a shell, so pipes, redirects and chaining are not available.
+const ALLOWED_COMMANDS: Record<string, string[] | '*'> = {
+  npm: ['install', 'ci', 'test', 'run', 'ls', 'outdated'],
+  pnpm: ['install', 'test', 'run', 'list', 'outdated'],
+  yarn: ['install', 'test', 'run', 'list', 'outdated'],
+  git: ['status', 'diff', 'log', 'show', 'add', 'rm', 'mv', 'restore', 'checkout', 'switch', 'branch', 'ls-files', 'rev-parse', 'stash'],
+  tsc: '*',
+  eslint: '*',
+  prettier: '*',
+  vitest: '*',
+  jest: '*',
+  ls: '*',
+  cat: '*',
+  head: '*',
+  tail: '*',
+  wc: '*',
+  grep: '*'
+};
+
+export interface CommandResult {
+  command: string;
+  exitCode: number | null; // null when the command did not run to completion
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  duration: number;
+}
+
+/**
+ * What CustomAIAgent's tools need from a sandbox. Sandboxes that cannot run processes leave out runTests and runCommand.
+ */
+export interface AgentSandbox {
+  readFile(filePath: string): Promise<string>;
+  writeFile(filePath: string, content: string): Promise<void>;
+  listFiles(dirPath?: string): Promise<string[]>;
+  gitClone(repositoryUrl: string, branch?: string): Promise<string>;
+  gitCreateBranch(branchName: string): Promise<string>;
+  gitCommit(message: string): Promise<string>;
+  runTests?(testPath?: string): Promise<CommandResult>;
+  runCommand?(command: string, options?: { cwd?: string; timeoutMs?: number }): Promise<CommandResult>;
+  createPullRequest(title: string, description: string): Promise<PullRequestInfo>;
+}
+
+export interface WorkspaceSandboxOptions {
+  commandTimeoutMs?: number; // Per command, defaults to SANDBOX_COMMAND_TIMEOUT_MS or 5 minutes
+  allowedCommands?: string[]; // Extra executables allowed with any arguments, added to SANDBOX_ALLOWED_COMMANDS
+  githubService?: EnhancedGitHubService;
+}
+
+export class SandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+/**
+ * Split a command line into arguments, honouring quotes. Shell operators are rejected rather than passed on literally.
+ */
+export function parseCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasArg = false;
+
+  for (const char of command.trim()) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasArg = true;
+    } else if (/\s/.test(char)) {
+      if (hasArg) args.push(current);
+      current = '';
+      hasArg = false;
+    } else if (';&|<>`'.includes(char)) {
+      throw new SandboxError(`Shell operator "${char}" is not supported; run one command at a time`);
+    } else {
+      current += char;
+      hasArg = true;
+    }
+  }
+
+  if (quote) throw new SandboxError('Unterminated quote in command');
+  if (hasArg) args.push(current);
+  return args;
+}
+
+/**
+ * Throw a SandboxError unless the repository is an https://github.com/ URL and the branch a plain branch name
+ */
+export function validateCloneTarget(repositoryUrl: string, branch: string): void {
+  if (!GITHUB_REPOSITORY_URL.test(repositoryUrl)) {
+    throw new SandboxError(`Only https://github.com/<owner>/<repo> repositories can be cloned, not ${repositoryUrl}`);
+  }
+  if (!BRANCH_NAME.test(branch)) {
+    throw new SandboxError(`Invalid branch name: ${branch}`);
+  }
+}
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_OUTPUT_LENGTH
+    ? `[${output.length - MAX_OUTPUT_LENGTH} characters truncated]\n${output.slice(-MAX_OUTPUT_LENGTH)}`
+    : output;
+}
+
+/**
+ * A repository checked out in a temporary directory. Commands are allow-listed, confined to the workspace,
+ * time limited and run without the function's secrets in their environment. Call dispose() when done.
+ */
+export class WorkspaceSandbox implements AgentSandbox {
+  private root: string; // Holds the workspace and an isolated HOME for package manager caches
+  private workspace: string;
+  private githubService: EnhancedGitHubService;
+  private commandTimeoutMs: number;
+  private allowedCommands: Record<string, string[] | '*'>;
+  private repositoryUrl?: string;
+  private baseBranch?: string;
+  private dependenciesInstalled = false;
+
+  private constructor(root: string, options: WorkspaceSandboxOptions) {
+    this.root = root;
+    this.workspace = path.join(root, 'workspace');
+    this.githubService = options.githubService || new EnhancedGitHubService();
+    this.commandTimeoutMs = options.commandTimeoutMs || Number(process.env.SANDBOX_COMMAND_TIMEOUT_MS) || 5 * 60 * 1000;
+
+    const extraCommands = [...(process.env.SANDBOX_ALLOWED_COMMANDS || '').split(','), ...(options.allowedCommands || [])]
+      .map(command => command.trim())
+      .filter(Boolean);
+    this.allowedCommands = { ...ALLOWED_COMMANDS, ...Object.fromEntries(extraCommands.map(command => [command, '*' as const])) };
+  }
+
+  static async create(options: WorkspaceSandboxOptions = {}): Promise<WorkspaceSandbox> {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'geenius-sandbox-'));
+    await fs.mkdir(path.join(root, 'workspace'));
+    await fs.mkdir(path.join(root, 'home'));
+    return new WorkspaceSandbox(root, options);
+  }
+
+  get directory(): string {
+    return this.workspace;
+  }
+
+  async dispose(): Promise<void> {
+    await fs.rm(this.root, { recursive: true, force: true }).catch(() => undefined);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const resolved = this.resolvePath(filePath);
+    const stats = await fs.stat(resolved);
+    if (stats.size > MAX_READ_BYTES) {
+      throw new SandboxError(`${filePath} is ${stats.size} bytes, larger than the ${MAX_READ_BYTES} byte limit`);
+    }
+    return fs.readFile(resolved, 'utf-8');
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    const resolved = this.resolvePath(filePath);
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.writeFile(resolved, content);
+  }
+
+  /**
+   * Entries of a directory relative to the workspace, directories with a trailing slash
+   */
+  async listFiles(dirPath: string = '.'): Promise<string[]> {
+    const resolved = this.resolvePath(dirPath);
+    const entries = await fs.readdir(resolved, { withFileTypes: true });
+
+    return entries
+      .filter(entry => entry.name !== '.git')
+      .map(entry => {
+        const relative = path.relative(this.workspace, path.join(resolved, entry.name));
+        return entry.isDirectory() ? `${relative}/` : relative;
+      })
+      .sort();
+  }
+
+  async gitClone(repositoryUrl: string, branch: string = 'develop'): Promise<string> {
+    if (this.repositoryUrl) {
+      throw new SandboxError(`The sandbox already holds ${this.repositoryUrl}`);
+    }
+
+    validateCloneTarget(repositoryUrl, branch);
+
+    const result = await this.runGit(['clone', '--depth', '1', '--branch', branch, '--', repositoryUrl, '.'], { authenticated: true });
+    if (result.exitCode !== 0) {
+      throw new SandboxError(`git clone failed: ${result.stderr.trim()}`);
+    }
+
+    this.repositoryUrl = repositoryUrl;
+    this.baseBranch = branch;
+    return `Cloned ${repositoryUrl} (${branch})`;
+  }
+
+  async gitCreateBranch(branchName: string): Promise<string> {
+    const validName = await this.runGit(['check-ref-format', '--branch', branchName]);
+    if (validName.exitCode !== 0) {
+      throw new SandboxError(`Invalid branch name: ${branchName}`);
+    }
+
+    const result = await this.runGit(['checkout', '-b', branchName]);
+    if (result.exitCode !== 0) {
+      throw new SandboxError(`Could not create branch ${branchName}: ${result.stderr.trim()}`);
+    }
+    return `Switched to new branch ${branchName}`;
+  }
+
+  async gitCommit(message: string): Promise<string> {
+    await this.runGit(['add', '-A']);
+    const status = await this.runGit(['status', '--porcelain']);
+    if (!status.stdout.trim()) {
+      return 'Nothing to commit';
+    }
+
+    const result = await this.runGit([
+      '-c', `user.name=${COMMIT_AUTHOR.name}`,
+      '-c', `user.email=${COMMIT_AUTHOR.email}`,
+      'commit', '-m', message
+    ]);
+    if (result.exitCode !== 0) {
+      throw new SandboxError(`git commit failed: ${result.stderr.trim() || result.stdout.trim()}`);
+    }
+
+    const sha = (await this.runGit(['rev-parse', '--short', 'HEAD'])).stdout.trim();
+    return `Committed ${status.stdout.trim().split('\n').length} files as ${sha}`;
+  }
+
+  /**
+   * Run the package.json test script, installing dependencies first if needed
+   */
+  async runTests(testPath?: string): Promise<CommandResult> {
+    const packageJson = await this.readFile('package.json').then(content => JSON.parse(content)).catch(() => null);
+    if (!packageJson?.scripts?.test) {
+      return { command: 'test', exitCode: null, stdout: '', stderr: 'package.json has no test script', timedOut: false, duration: 0 };
+    }
+
+    const packageManager = await this.detectPackageManager();
+    if (!this.dependenciesInstalled) {
+      const install = await this.execute(packageManager.install);
+      if (install.exitCode !== 0) return install;
+      this.dependenciesInstalled = true;
+    }
+
+    const args = [packageManager.name, 'test'];
+    if (testPath) {
+      this.resolvePath(testPath);
+      // npm hands arguments after -- to the script
+      args.push(...(packageManager.name === 'npm' ? ['--', testPath] : [testPath]));
+    }
+    return this.execute(args);
+  }
+
+  /**
+   * Run an allow-listed command. Rejected commands are reported in the result rather than thrown,
+   * so the agent can adjust.
+   */
+  async runCommand(command: string, options: { cwd?: string; timeoutMs?: number } = {}): Promise<CommandResult> {
+    try {
+      const args = parseCommand(command);
+      this.checkAllowed(args);
+      const cwd = this.resolvePath(options.cwd || '.');
+      const result = await this.execute(args, { cwd, timeoutMs: options.timeoutMs });
+
+      if (['install', 'ci'].includes(args[1]) && result.exitCode === 0) {
+        this.dependenciesInstalled = true;
+      }
+      return result;
+    } catch (error) {
+      if (!(error instanceof SandboxError)) throw error;
+      return { command, exitCode: null, stdout: '', stderr: error.message, timedOut: false, duration: 0 };
+    }
+  }
+
+  /**
+   * Push the current branch and open a pull request against the branch that was cloned
+   */
+  async createPullRequest(title: string, description: string): Promise<PullRequestInfo> {
+    if (!this.repositoryUrl || !this.baseBranch) {
+      throw new SandboxError('Clone a repository before creating a pull request');
+    }
+
+    const branchName = (await this.runGit(['rev-parse', '--abbrev-ref', 'HEAD'])).stdout.trim();
+    if (branchName === this.baseBranch) {
+      throw new SandboxError(`Create a branch first; the sandbox is on the base branch ${this.baseBranch}`);
+    }
+
+    const push = await this.runGit(['push', 'origin', `HEAD:refs/heads/${branchName}`], { authenticated: true });
+    if (push.exitCode !== 0) {
+      throw new SandboxError(`git push failed: ${push.stderr.trim()}`);
+    }
+
+    return this.githubService.createPullRequest(this.repositoryUrl, branchName, title, description, this.baseBranch);
+  }
+
+  // Workspace-relative paths only; .git is managed by the sandbox
+  private resolvePath(filePath: string): string {
+    const resolved = path.resolve(this.workspace, filePath);
+    if (resolved !== this.workspace && !resolved.startsWith(this.workspace + path.sep)) {
+      throw new SandboxError(`Path is outside the workspace: ${filePath}`);
+    }
+    if (path.relative(this.workspace, resolved).split(path.sep)[0] === '.git') {
+      throw new SandboxError(`Path is inside .git: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  private checkAllowed(args: string[]): void {
+    const [executable, subcommand] = args;
+    if (!executable) {
+      throw new SandboxError('Empty command');
+    }
+
+    const allowed = this.allowedCommands[executable];
+    if (!allowed) {
+      throw new SandboxError(`Command not allowed: ${executable}. Allowed: ${Object.keys(this.allowedCommands).join(', ')}`);
+    }
+    if (allowed !== '*' && !allowed.includes(subcommand)) {
+      throw new SandboxError(`${executable} ${subcommand || ''} is not allowed. Allowed: ${allowed.map(sub => `${executable} ${sub}`).join(', ')}`);
+    }
+
+    // Arguments that look like paths must stay inside the workspace
+    for (const arg of args.slice(1)) {
+      const value = arg.includes('=') && arg.startsWith('-') ? arg.slice(arg.indexOf('=') + 1) : arg;
+      if (path.isAbsolute(value) || value.split(/[\\/]/).includes('..')) {
+        this.resolvePath(value);
+      }
+    }
+  }
+
+  private async detectPackageManager(): Promise<{ name: string; install: string[] }> {
+    const exists = (file: string) => fs.access(path.join(this.workspace, file)).then(() => true, () => false);
+
+    if (await exists('pnpm-lock.yaml')) return { name: 'pnpm', install: ['pnpm', 'install', '--frozen-lockfile'] };
+    if (await exists('yarn.lock')) return { name: 'yarn', install: ['yarn', 'install'] };
+    if (await exists('package-lock.json')) return { name: 'npm', install: ['npm', 'ci'] };
+    return { name: 'npm', install: ['npm', 'install'] };
+  }
+
+  private runGit(args: string[], options: { authenticated?: boolean } = {}): Promise<CommandResult> {
+    // The token goes in a per-command header so it is never written to .git/config
+    const auth = options.authenticated && process.env.GITHUB_TOKEN
+      ? ['-c', `http.https://github.com/.extraheader=AUTHORIZATION: basic ${Buffer.from(`x-access-token:${process.env.GITHUB_TOKEN}`).toString('base64')}`]
+      : [];
+    return this.execute(['git', ...auth, ...args], { displayCommand: `git ${args.join(' ')}` });
+  }
+
+  private execute(
+    args: string[],
+    options: { cwd?: string; timeoutMs?: number; displayCommand?: string } = {}
+  ): Promise<CommandResult> {
+    const [executable, ...rest] = args;
+    const timeoutMs = options.timeoutMs || this.commandTimeoutMs;
+    const startTime = Date.now();
+
+    return new Promise(resolve => {
+      execFile(executable, rest, {
+        cwd: options.cwd || this.workspace,
+        timeout: timeoutMs,
+        killSignal: 'SIGKILL',
+        maxBuffer: 50 * 1024 * 1024,
+        // API keys and tokens of the function are not passed on
+        env: {
+          PATH: `${path.join(this.workspace, 'node_modules', '.bin')}${path.delimiter}${process.env.PATH || ''}`,
+          HOME: path.join(this.root, 'home'),
+          LANG: 'C.UTF-8',
+          CI: 'true',
+          NODE_ENV: 'development',
+          GIT_TERMINAL_PROMPT: '0'
+        }
+      }, (error: any, stdout, stderr) => {
+        const timedOut = !!error?.killed;
+        resolve({
+          command: options.displayCommand || args.join(' '),
+          exitCode: error ? (typeof error.code === 'number' ? error.code : null) : 0,
+          stdout: truncateOutput(String(stdout || '')),
+          stderr: truncateOutput(`${stderr || ''}${timedOut ? `\nTimed out after ${Math.round(timeoutMs / 1000)}s` : ''}${error && typeof error.code !== 'number' && !timedOut ? `\n${error.message}` : ''}`),
+          timedOut,
+          duration: Date.now() - startTime
+        });
+      });
+    });
+  }
+}
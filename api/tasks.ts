@@ -0,0 +1,107 @@
+// netlify/functions/tasks.ts - Project task board
+import { Handler, HandlerEvent } from '@netlify/functions';
+import { z } from 'zod';
+import { CreateTaskSchema, TaskTracker, TaskUpdateSchema } from './shared/task-tracker';
+
+function formatValidationError(error: z.ZodError): string {
+  return error.errors.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message).join(', ');
+}
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  try {
+    const body = event.body ? JSON.parse(event.body) : {};
+    const projectId: string | undefined = event.queryStringParameters?.projectId || body.projectId;
+
+    if (!projectId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'projectId is required' })
+      };
+    }
+
+    if (event.httpMethod === 'GET') {
+      const tasks = await TaskTracker.getTasks(projectId);
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify({ projectId, tasks })
+      };
+    }
+
+    if (event.httpMethod === 'POST') {
+      const input = CreateTaskSchema.safeParse(body);
+      if (!input.success) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: formatValidationError(input.error) })
+        };
+      }
+
+      const task = await TaskTracker.createTask(projectId, { ...input.data, source: 'chat' });
+      return {
+        statusCode: 201,
+        headers,
+        body: JSON.stringify({ task })
+      };
+    }
+
+    const taskId: string | undefined = event.queryStringParameters?.taskId || body.taskId;
+    if (!taskId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'taskId is required' })
+      };
+    }
+
+    if (event.httpMethod === 'PATCH') {
+      const update = TaskUpdateSchema.safeParse(body);
+      if (!update.success) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: formatValidationError(update.error) })
+        };
+      }
+
+      const task = await TaskTracker.updateTask(projectId, taskId, update.data);
+      return task
+        ? { statusCode: 200, headers, body: JSON.stringify({ task }) }
+        : { statusCode: 404, headers, body: JSON.stringify({ error: 'Task not found' }) };
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      const deleted = await TaskTracker.deleteTask(projectId, taskId);
+      return deleted
+        ? { statusCode: 200, headers, body: JSON.stringify({ success: true }) }
+        : { statusCode: 404, headers, body: JSON.stringify({ error: 'Task not found' }) };
+    }
+
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ error: 'Method not allowed' })
+    };
+
+  } catch (error) {
+    console.error('Tasks error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({ error: 'Task operation failed' })
+    };
+  }
+};
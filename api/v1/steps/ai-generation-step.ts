@@ -1,17 +1,29 @@
 // AI file generation step
 
 import { CustomAIAgent } from '../../shared/custom-ai-agent';
+import { BudgetExceededError } from '../../shared/usage-tracker';
 import { EnhancedGitHubService, FileChange } from '../../../src/services/enhanced-github-service';
 import { DevIdRegistryScanner } from '../../shared/devid-registry-scanner';
-import { WorkflowContext } from '../types/project-types';
+import { EnhancedSessionManager } from '../../shared/enhanced-session-manager';
+import { isBuildVerificationEnabled, verifyAndRepair } from '../../shared/build-verifier';
+import { AsyncQueue } from '../../../src/utils/helpers';
+import { FileGenerationFailure, ProjectBrief, TemplateFileContent, WorkflowContext } from '../types/project-types';
+
+// Batches generated at once, and attempts per file before it is reported as failed
+const GENERATION_CONCURRENCY = 3;
+const MAX_GENERATION_ATTEMPTS = 2;
+// Template content per batch; small files share a request, larger ones get their own
+const MAX_BATCH_CHARACTERS = 6000;
 
 export class AIGenerationStep {
   private githubService: EnhancedGitHubService;
   private registryScanner: DevIdRegistryScanner;
+  private sessionManager: EnhancedSessionManager;
 
   constructor() {
     this.githubService = new EnhancedGitHubService();
     this.registryScanner = new DevIdRegistryScanner();
+    this.sessionManager = new EnhancedSessionManager();
   }
 
   async execute(context: WorkflowContext, onProgress?: (message: string) => void): Promise<WorkflowContext> {
@@ -34,6 +46,7 @@ export class AIGenerationStep {
         sessionId,
         sandbox: null,
         repositoryUrl: request.repositoryUrl!,
+        projectId: context.projectId,
         provider: (request.aiProvider as 'anthropic' | 'openai' | 'google' | 'grok') || 'anthropic',
         model: request.model || 'claude-sonnet-4-20250514',
         projectContext: {
@@ -45,55 +58,73 @@ export class AIGenerationStep {
       });
 
       const userRequirements = request.userRequirements || request.projectRequirements!;
-      const generatedFiles: FileChange[] = [];
-
-      // Process ALL template files in a single comprehensive AI request
-      console.log(`[AI-GENERATION-STEP] Processing all ${template.files.length} files in one comprehensive request`);
-      if (onProgress) onProgress(`🤖 Generating complete project with all ${template.files.length} files...`);
-      
-      try {
-        const prompt = this.createComprehensivePrompt(
-          template.files,
-          userRequirements,
-          request.businessDomain,
-          request.projectName
-        );
+      const templateFiles: TemplateFileContent[] = template.files;
+
+      // Plan once so every file is generated against the same entities, routes and naming
+      if (onProgress) onProgress(`🧭 Planning project across ${templateFiles.length} files...`);
+      const brief = await this.createProjectBrief(customAgent, templateFiles, userRequirements, request.businessDomain, request.projectName);
+      console.log(`[AI-GENERATION-STEP] Project brief: ${brief.entities.length} entities, ${brief.pages.length} pages`);
+      if (onProgress) onProgress(`🧭 Planned ${brief.entities.length} data models and ${brief.pages.length} pages for ${brief.appName}`);
+
+      // Generate batches in parallel, retrying failed files on their own
+      const batches = this.createBatches(templateFiles);
+      console.log(`[AI-GENERATION-STEP] Generating ${templateFiles.length} files in ${batches.length} batches`);
+      if (onProgress) onProgress(`🤖 Generating ${templateFiles.length} files in ${batches.length} batches...`);
+
+      const queue = new AsyncQueue(GENERATION_CONCURRENCY);
+      const generated = new Map<string, FileChange>();
+      const failures: FileGenerationFailure[] = [];
+
+      await Promise.all(batches.map(batch => queue.add(async () => {
+        let pending = batch;
+
+        for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && pending.length > 0; attempt++) {
+          const isLastAttempt = attempt === MAX_GENERATION_ATTEMPTS;
+          const errors = await this.generateBatch(customAgent, pending, templateFiles, brief, userRequirements, generated);
+
+          for (const [filePath, error] of errors) {
+            console.warn(`[AI-GENERATION-STEP] ⚠️ ${filePath} failed (attempt ${attempt}/${MAX_GENERATION_ATTEMPTS}): ${error}`);
+            if (isLastAttempt) {
+              failures.push({ path: filePath, error, attempts: attempt });
+            }
+          }
+          pending = pending.filter(file => errors.has(file.path));
 
-        console.log(`[AI-GENERATION-STEP] Comprehensive prompt length: ${prompt.length} characters`);
-        const aiResponse = await customAgent.processRequest(prompt);
-        
-        if (aiResponse && aiResponse.trim()) {
-          // Parse the AI response to extract individual files
-          const parsedFiles = this.parseAIResponse(aiResponse, template.files);
-          
-          if (parsedFiles.length > 0) {
-            generatedFiles.push(...parsedFiles);
-            console.log(`[AI-GENERATION-STEP] ✅ Generated ${parsedFiles.length} files from comprehensive request`);
-            if (onProgress) onProgress(`✅ Generated ${parsedFiles.length} files from comprehensive AI request`);
-          } else {
-            console.warn(`[AI-GENERATION-STEP] ⚠️ No files parsed from AI response`);
-            if (onProgress) onProgress(`⚠️ Failed to parse files from AI response`);
+          if (pending.length > 0 && !isLastAttempt && onProgress) {
+            onProgress(`🔁 Retrying ${pending.map(file => file.path).join(', ')}`);
           }
-        } else {
-          console.warn(`[AI-GENERATION-STEP] ⚠️ No response from AI`);
-          if (onProgress) onProgress(`⚠️ AI returned empty response`);
         }
-      } catch (error: any) {
-        console.error(`[AI-GENERATION-STEP] ❌ Error in comprehensive generation:`, error.message);
-        if (onProgress) onProgress(`❌ Error in comprehensive generation: ${error.message}`);
-        throw error;
+
+        for (const file of batch.filter(file => generated.has(file.path))) {
+          if (onProgress) onProgress(`✅ Generated ${file.path}`);
+        }
+      })));
+
+      // Merge in manifest order
+      const generatedFiles = templateFiles
+        .map(file => generated.get(file.path))
+        .filter((file): file is FileChange => !!file);
+
+      for (const failure of failures) {
+        if (onProgress) onProgress(`❌ Could not generate ${failure.path} after ${failure.attempts} attempts: ${failure.error}`);
       }
 
       if (generatedFiles.length === 0) {
         throw new Error('AI failed to generate any files');
       }
 
-      console.log(`[AI-GENERATION-STEP] ✅ Generated ${generatedFiles.length} files`);
-      if (onProgress) onProgress(`✅ AI generated ${generatedFiles.length} project files`);
+      console.log(`[AI-GENERATION-STEP] ✅ Generated ${generatedFiles.length}/${templateFiles.length} files`);
+      if (onProgress) {
+        onProgress(failures.length > 0
+          ? `⚠️ AI generated ${generatedFiles.length}/${templateFiles.length} files; ${failures.length} keep their template content`
+          : `✅ AI generated ${generatedFiles.length} project files`);
+      }
 
       return {
         ...context,
-        generatedFiles
+        generatedFiles,
+        projectBrief: brief,
+        generationFailures: failures
       };
 
     } catch (error: any) {
@@ -103,12 +134,39 @@ export class AIGenerationStep {
   }
 
   async commitFiles(context: WorkflowContext, onProgress?: (message: string) => void): Promise<WorkflowContext> {
-    const { sessionId, request, generatedFiles } = context;
+    const { sessionId, request, template } = context;
+    let { generatedFiles } = context;
     
     if (!generatedFiles || generatedFiles.length === 0) {
       throw new Error('No generated files to commit');
     }
 
+    // Build the generated files locally first so errors are fixed before they reach GitHub
+    if (isBuildVerificationEnabled()) {
+      const verification = await verifyAndRepair(generatedFiles, {
+        sessionId,
+        repoUrl: request.repositoryUrl!,
+        branch: 'main',
+        commands: { buildCommand: template?.buildCommand, testCommand: template?.testCommand },
+        aiProvider: request.aiProvider || 'anthropic',
+        projectId: context.projectId,
+        onModelRoute: route => this.sessionManager.recordModelRoute(sessionId, route),
+        onProgress: message => {
+          console.log(`[AI-GENERATION-STEP] ${message}`);
+          if (onProgress) onProgress(message);
+        }
+      });
+
+      generatedFiles = verification.files;
+      context = { ...context, generatedFiles };
+
+      // Committing anyway leaves the remaining errors to the deployment fix loop
+      if (!verification.result.success) {
+        console.warn(`[AI-GENERATION-STEP] ⚠️ Local build still failing, committing anyway: ${verification.result.output.slice(-500)}`);
+        if (onProgress) onProgress('⚠️ Local build still failing, committing anyway; deployment fixes will retry');
+      }
+    }
+
     console.log('[AI-GENERATION-STEP] Committing generated files...');
     if (onProgress) onProgress('📝 Preparing to commit directly to main branch');
 
@@ -123,8 +181,7 @@ export class AIGenerationStep {
         await this.githubService.commitChanges(
           request.repositoryUrl!,
           'main',
-          [file],
-          `AI-generated: ${file.path} for ${request.projectName}`
+          [{ ...file, message: `AI-generated: ${file.path} for ${request.projectName}` }]
         );
         
         console.log(`[AI-GENERATION-STEP] ✅ Committed: ${file.path}`);
@@ -142,89 +199,200 @@ export class AIGenerationStep {
     }
   }
 
-  private createComprehensivePrompt(
-    templateFiles: any[],
+  /**
+   * Ask the AI for a shared project brief; falls back to a minimal brief if the reply is not usable
+   */
+  private async createProjectBrief(
+    agent: CustomAIAgent,
+    templateFiles: TemplateFileContent[],
     userRequirements: string,
     businessDomain?: string,
     projectName?: string
+  ): Promise<ProjectBrief> {
+    const fallback: ProjectBrief = {
+      appName: projectName || 'My App',
+      summary: userRequirements,
+      entities: [],
+      pages: [],
+      namingConventions: 'Follow the naming already used in the template files',
+      styleNotes: '',
+      fileNotes: {}
+    };
+
+    const prompt = `
+You are planning the customization of a project template before its files are rewritten one at a time.
+Produce a brief that keeps every file consistent: the same data models, routes, component names and wording.
+
+## PROJECT REQUIREMENTS
+USER REQUIREMENTS: ${userRequirements}
+${businessDomain ? `BUSINESS DOMAIN: ${businessDomain}` : ''}
+${projectName ? `PROJECT NAME: ${projectName}` : ''}
+
+## TEMPLATE FILES
+${templateFiles.map(file => `- ${file.path}: ${file.purpose}`).join('\n')}
+
+Respond with JSON only, in this shape:
+{
+  "appName": "Display name of the app",
+  "summary": "Two or three sentences describing the app",
+  "entities": [{ "name": "Appointment", "fields": ["id", "date", "clientId"] }],
+  "pages": [{ "route": "/", "purpose": "Public landing page" }],
+  "namingConventions": "Component, route and model naming to use everywhere",
+  "styleNotes": "Colors, tone and visual style",
+  "fileNotes": { "path/of/template/file": "What this file must contain for this project" }
+}`;
+
+    try {
+      const response = await agent.processRequest(prompt, { task: 'planning' });
+      const json = response.match(/\{[\s\S]*\}/);
+      if (!json) throw new Error('No JSON object in planning response');
+
+      const parsed = JSON.parse(json[0]);
+      return {
+        appName: parsed.appName || fallback.appName,
+        summary: parsed.summary || fallback.summary,
+        entities: Array.isArray(parsed.entities) ? parsed.entities : [],
+        pages: Array.isArray(parsed.pages) ? parsed.pages : [],
+        namingConventions: parsed.namingConventions || fallback.namingConventions,
+        styleNotes: parsed.styleNotes || '',
+        fileNotes: parsed.fileNotes && typeof parsed.fileNotes === 'object' ? parsed.fileNotes : {}
+      };
+    } catch (error: any) {
+      console.warn(`[AI-GENERATION-STEP] ⚠️ Planning failed, generating from requirements only: ${error.message}`);
+      return fallback;
+    }
+  }
+
+  /**
+   * Group files into batches, pairing up small files and sending large ones alone
+   */
+  private createBatches(templateFiles: TemplateFileContent[]): TemplateFileContent[][] {
+    const batches: TemplateFileContent[][] = [];
+    let current: TemplateFileContent[] = [];
+    let currentSize = 0;
+
+    for (const file of templateFiles) {
+      if (current.length > 0 && currentSize + file.content.length > MAX_BATCH_CHARACTERS) {
+        batches.push(current);
+        current = [];
+        currentSize = 0;
+      }
+      current.push(file);
+      currentSize += file.content.length;
+    }
+    if (current.length > 0) batches.push(current);
+
+    return batches;
+  }
+
+  /**
+   * Generate one batch and store the files that came back complete. Returns an error per file that did not.
+   */
+  private async generateBatch(
+    agent: CustomAIAgent,
+    batch: TemplateFileContent[],
+    allFiles: TemplateFileContent[],
+    brief: ProjectBrief,
+    userRequirements: string,
+    generated: Map<string, FileChange>
+  ): Promise<Map<string, string>> {
+    const errors = new Map<string, string>();
+
+    try {
+      const prompt = this.createBatchPrompt(batch, allFiles, brief, userRequirements);
+      const aiResponse = await agent.processRequest(prompt, { task: 'generation' });
+      const parsedFiles = this.parseAIResponse(aiResponse || '', batch);
+
+      for (const file of batch) {
+        const parsed = parsedFiles.find(parsedFile => parsedFile.path === file.path);
+        if (parsed) {
+          generated.set(file.path, parsed);
+        } else {
+          errors.set(file.path, aiResponse?.trim() ? 'Missing or truncated in AI response' : 'AI returned empty response');
+        }
+      }
+    } catch (error: any) {
+      // Budget limits apply to every remaining request, so retrying would not help
+      if (error instanceof BudgetExceededError) throw error;
+      batch.forEach(file => errors.set(file.path, error.message));
+    }
+
+    return errors;
+  }
+
+  private createBatchPrompt(
+    batch: TemplateFileContent[],
+    allFiles: TemplateFileContent[],
+    brief: ProjectBrief,
+    userRequirements: string
   ): string {
-    const filesSection = templateFiles.map(file => `
+    const filesSection = batch.map(file => `
 ### FILE: ${file.path}
 PURPOSE: ${file.purpose}
-ORIGINAL CONTENT:
-\`\`\`typescript
+${brief.fileNotes[file.path] ? `PLAN FOR THIS FILE: ${brief.fileNotes[file.path]}\n` : ''}ORIGINAL CONTENT:
+\`\`\`${file.path.split('.').pop()}
 ${file.content}
 \`\`\`
 `).join('\n');
 
     return `
-You are an expert React/TypeScript developer. You need to customize ALL provided template files to create a complete, functional application based on the user requirements.
+You are an expert full-stack developer customizing a project template. Other files of the project are generated separately from the same brief, so follow it exactly.
 
-## PROJECT REQUIREMENTS
+## PROJECT BRIEF
+APP NAME: ${brief.appName}
+SUMMARY: ${brief.summary}
 USER REQUIREMENTS: ${userRequirements}
-${businessDomain ? `BUSINESS DOMAIN: ${businessDomain}` : ''}
-${projectName ? `PROJECT NAME: ${projectName}` : ''}
+DATA MODELS:
+${brief.entities.map(entity => `- ${entity.name}: ${entity.fields.join(', ')}`).join('\n') || '- (decide from the requirements)'}
+PAGES:
+${brief.pages.map(page => `- ${page.route}: ${page.purpose}`).join('\n') || '- (decide from the requirements)'}
+NAMING: ${brief.namingConventions}
+${brief.styleNotes ? `STYLE: ${brief.styleNotes}` : ''}
+
+## ALL PROJECT FILES
+${allFiles.map(file => `- ${file.path}: ${file.purpose}${batch.includes(file) ? ' (generate now)' : ''}`).join('\n')}
 
-## TEMPLATE FILES TO CUSTOMIZE
+## FILES TO CUSTOMIZE NOW
 ${filesSection}
 
 ## CRITICAL INSTRUCTIONS
-
-**YOU MUST UPDATE ALL 5 FILES** - Do not skip any files. Each file serves a specific purpose:
-
-### 1. DATABASE & FEATURE DISTRIBUTION (MANDATORY):
-- **Landing Page (src/pages/Landing.tsx)**: Add public-facing features (hero section, contact forms, booking forms, service info for visitors)
-- **Dashboard (src/components/auth/Dashboard.tsx)**: Add admin/management features (data tables, forms, business logic, user management) 
-- **App.tsx**: Add routing for new pages/features
-- **Prisma Schema (prisma/schema.prisma)**: Add database models for ALL business features with proper relationships
-- **Tailwind Config**: Update with project-specific styling if needed
-
-### 2. COMPREHENSIVE FEATURE IMPLEMENTATION:
-- **For ANY business features requiring data storage** → UPDATE the Dashboard with management interfaces
-- **For ANY public-facing features** → UPDATE the Landing page with visitor-friendly interfaces  
-- **For ANY data models needed** → UPDATE the Prisma schema with proper models and relationships
-- **For ANY new pages/routes needed** → UPDATE App.tsx routing
-
-### 3. DATABASE CONNECTION REQUIREMENTS:
-- **MongoDB + Prisma Template**: You MUST update schema.prisma with ALL required business models
-- Prisma auto-generates the client on build, so focus on complete schema design
-- Include proper relationships between models (User, business-specific entities)
-- Use appropriate field types and constraints
-
-### 4. QUALITY REQUIREMENTS:
-- Maintain all existing imports and exports
-- Keep TypeScript compatibility
-- Follow existing code patterns and structure
-- Create functional, production-ready components
-- Add meaningful content, not placeholder text
+- Rewrite EVERY file listed under "FILES TO CUSTOMIZE NOW" completely; do not skip any
+- Use the data models, routes and names from the brief so imports and references match the other files
+- If a database schema file is included, add ALL models from the brief with proper relationships
+- Maintain all existing imports and exports, keep TypeScript compatibility and follow existing patterns
+- Create functional, production-ready code with meaningful content, not placeholder text
 
 ## RESPONSE FORMAT
 
-Provide your response in this EXACT format for each file you're updating:
+Provide your response in this EXACT format for each file:
 
 ===FILE: [filepath]===
 [complete file content]
-===END FILE===
-
-**IMPORTANT**: You must include ALL 5 files in your response, even if some files only need minor changes. Do not skip any files.
-
-Generate the complete customized project:`;
+===END FILE===`;
   }
 
-  private parseAIResponse(aiResponse: string, originalFiles: any[]): FileChange[] {
+  /**
+   * Extract complete files from the response; a file without its END marker was cut off and is dropped
+   */
+  private parseAIResponse(aiResponse: string, originalFiles: TemplateFileContent[]): FileChange[] {
     const files: FileChange[] = [];
-    const fileRegex = /===FILE:\s*([^=]+)===\n([\s\S]*?)(?====END FILE===|$)/g;
+    const fileRegex = /===FILE:\s*([^=]+)===\n([\s\S]*?)(===END FILE===|$)/g;
     
     let match;
     while ((match = fileRegex.exec(aiResponse)) !== null) {
       const filePath = match[1].trim();
       const content = match[2].trim();
+
+      if (!match[3]) {
+        console.warn(`[AI-GENERATION-STEP] ⚠️ Response was truncated in ${filePath}`);
+        break;
+      }
       
       if (content) {
         files.push({
           path: filePath,
           content: content,
-          encoding: 'utf-8'
+          message: `AI-generated: ${filePath}`
         });
         console.log(`[AI-GENERATION-STEP] Parsed file: ${filePath} (${content.length} chars)`);
       }
@@ -239,4 +407,4 @@ Generate the complete customized project:`;
     
     return files;
   }
-}
\ No newline at end of file
+}
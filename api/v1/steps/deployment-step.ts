@@ -1,15 +1,19 @@
 // Deployment and AI error fixing step
 
 import { NetlifyService } from '../../../src/services/netlify';
+import { EnhancedSessionManager } from '../../shared/enhanced-session-manager';
+import { UsageTracker } from '../../shared/usage-tracker';
 import { WorkflowContext } from '../types/project-types';
-import { parseDeploymentError, fixCodeWithAI, applyFixesToRepository } from '../utils/ai-error-utils';
+import { parseDeploymentError, fixCodeWithAI, applyFixesToRepository, getFixStrategy, isFixableError } from '../utils/ai-error-utils';
 import { updateNetlifyWithRepository } from '../utils/environment-utils';
 
 export class DeploymentStep {
   private netlifyService: NetlifyService;
+  private sessionManager: EnhancedSessionManager;
 
   constructor() {
     this.netlifyService = new NetlifyService();
+    this.sessionManager = new EnhancedSessionManager();
   }
 
   async execute(context: WorkflowContext, onProgress?: (message: string) => void): Promise<WorkflowContext> {
@@ -131,8 +135,15 @@ export class DeploymentStep {
     let retryAttempt = 0;
     let currentDeployment = initialDeployment;
     let finalDeployUrl = null;
-
     while (retryAttempt < maxRetries && currentDeployment.state === 'error') {
+      // Stop before spending more on fixes once the project's AI budget is used up
+      const budget = await UsageTracker.checkBudget(context.projectId);
+      if (budget.exceeded) {
+        console.log(`[DEPLOYMENT-STEP] 💸 Stopping AI fixes: ${budget.reason}`);
+        if (onProgress) onProgress(`💸 Stopping AI fixes: ${budget.reason}`);
+        break;
+      }
+
       retryAttempt++;
       console.log(`[DEPLOYMENT-STEP] 🔄 AI Fix Attempt ${retryAttempt}/${maxRetries}...`);
       if (onProgress) onProgress(`🔄 AI Fix Attempt ${retryAttempt}/${maxRetries}...`);
@@ -236,12 +247,29 @@ export class DeploymentStep {
         };
       }
 
-      console.log(`[DEPLOYMENT-STEP] 🔍 Found ${errorInfo.errors.length} fixable ${errorInfo.errorType} errors`);
-      if (onProgress) onProgress(`🔍 Found ${errorInfo.errors.length} fixable ${errorInfo.errorType} errors`);
+      // Each error class is fixed by its own strategy, e.g. dependency errors by editing package.json
+      const fixableErrors = errorInfo.errors.filter(isFixableError);
+      const strategyCounts = new Map<string, number>();
+      for (const error of fixableErrors) {
+        const strategyName = getFixStrategy(error.type)!.name;
+        strategyCounts.set(strategyName, (strategyCounts.get(strategyName) || 0) + 1);
+      }
+      const strategySummary = Array.from(strategyCounts, ([name, count]) => `${name}: ${count}`).join(', ');
+
+      console.log(`[DEPLOYMENT-STEP] 🔍 Found ${fixableErrors.length} fixable errors (${strategySummary})`);
+      if (onProgress) onProgress(`🔍 Found ${fixableErrors.length} fixable errors (${strategySummary})`);
+
+      const unfixableCount = errorInfo.errors.length - fixableErrors.length;
+      if (unfixableCount > 0 && onProgress) {
+        onProgress(`⚠️ ${unfixableCount} errors have no automatic fix and are left as is`);
+      }
 
       // Use AI to generate fixes
       const aiProvider = context.request.aiProvider || 'anthropic';
-      const fixResult = await fixCodeWithAI(sessionId, errorInfo, repoUrl, aiProvider);
+      const fixResult = await fixCodeWithAI(sessionId, errorInfo, repoUrl, aiProvider, {
+        projectId: context.projectId,
+        onModelRoute: route => this.sessionManager.recordModelRoute(sessionId, route)
+      });
 
       if (!fixResult.success) {
         return {
@@ -257,7 +285,7 @@ export class DeploymentStep {
       console.log(`[DEPLOYMENT-STEP] 📝 Applying ${fixResult.fixes.length} code fixes to repository...`);
       if (onProgress) onProgress(`📝 Applying ${fixResult.fixes.length} code fixes to repository...`);
 
-      const applySuccess = await applyFixesToRepository(sessionId, repoUrl, fixResult.fixes);
+      const applySuccess = await applyFixesToRepository(repoUrl, fixResult.fixes);
 
       if (applySuccess) {
         console.log(`[DEPLOYMENT-STEP] 🎉 Successfully applied ${fixResult.fixes.length} AI-generated fixes`);
@@ -3,6 +3,7 @@
 import { NetlifyService } from '../../../src/services/netlify';
 import { WorkflowContext } from '../types/project-types';
 import { generateTemplateEnvironmentVariables, getEnvVarsForProvider, createBareNetlifySite, updateNetlifyWithRepository } from '../utils/environment-utils';
+import { EnvVarResolutionError, getUrlEnvVarNames } from '../../../src/services/env-var-registry';
 
 export class InfrastructureStep {
   private netlifyService: NetlifyService;
@@ -45,6 +46,11 @@ export class InfrastructureStep {
     } catch (error: any) {
       console.error('[INFRASTRUCTURE-STEP] ❌ Infrastructure setup failed:', error.message);
       if (onProgress) onProgress(`⚠️ Infrastructure setup failed: ${error.message}`);
+
+      // A deployment without its environment variables would only fail later
+      if (error instanceof EnvVarResolutionError) {
+        throw error;
+      }
       
       // Don't throw - continue with partial setup
       return {
@@ -109,15 +115,20 @@ export class InfrastructureStep {
   private async setupNetlify(request: any, template: any, mongodbProject: any, onProgress?: (message: string) => void): Promise<any> {
     try {
       console.log('[INFRASTRUCTURE-STEP] 🚀 Setting up Netlify project with real URL...');
+
+      // Step 1: Resolve environment variables before creating anything, so missing ones fail fast
+      const templateEnvVars = generateTemplateEnvironmentVariables(template, request, mongodbProject);
+
       if (onProgress) onProgress('🚀 Creating Netlify site to get real URL...');
 
-      // Step 1: Create bare Netlify site first to get the real URL
+      // Step 2: Create bare Netlify site to get the real URL
       const bareSite = await createBareNetlifySite(this.netlifyService, request.projectName);
       console.log(`[INFRASTRUCTURE-STEP] ✅ Bare site created with URL: ${bareSite.sslUrl}`);
       if (onProgress) onProgress(`✅ Site created with URL: ${bareSite.sslUrl}`);
 
-      // Step 2: Generate environment variables with the real Netlify URL
-      const templateEnvVars = generateTemplateEnvironmentVariables(template, request, mongodbProject, bareSite.sslUrl);
+      for (const envVar of getUrlEnvVarNames(template)) {
+        templateEnvVars[envVar] = bareSite.sslUrl;
+      }
       const aiProviderVars = getEnvVarsForProvider(request.aiProvider || 'anthropic', request.model);
       
       // Prepare all environment variables
@@ -147,6 +158,9 @@ export class InfrastructureStep {
     } catch (error: any) {
       console.error('[INFRASTRUCTURE-STEP] ❌ Netlify setup failed:', error.message);
       if (onProgress) onProgress(`⚠️ Netlify setup failed: ${error.message}`);
+      if (error instanceof EnvVarResolutionError) {
+        throw error;
+      }
       return null;
     }
   }
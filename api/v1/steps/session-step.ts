@@ -1,6 +1,7 @@
 // Session initialization step
 
 import { EnhancedSessionManager } from '../../shared/enhanced-session-manager';
+import { storage } from '../../../src/services/redis-storage';
 import { ProjectInitRequest, WorkflowContext } from '../types/project-types';
 
 export class SessionStep {
@@ -42,6 +43,7 @@ export class SessionStep {
 
     return {
       sessionId,
+      projectId: request.projectId || storage.generateProjectId(),
       request,
       infrastructure: {}
     };
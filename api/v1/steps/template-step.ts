@@ -1,16 +1,20 @@
 // Template retrieval and processing step
 
 import { TemplateRegistry } from '../../../src/services/template-registry';
+import { EnhancedGitHubService } from '../../../src/services/enhanced-github-service';
+import { getFilePurpose, getTemplateFileManifest } from '../../../src/services/template-file-manifest';
 import { AIFileProcessor } from '../../shared/ai-file-processor';
 import { WorkflowContext, TemplateFileContent } from '../types/project-types';
 
 export class TemplateStep {
   private templateRegistry: TemplateRegistry;
   private aiFileProcessor: AIFileProcessor;
+  private githubService: EnhancedGitHubService;
 
   constructor() {
     this.templateRegistry = new TemplateRegistry(process.env.GITHUB_TOKEN!);
     this.aiFileProcessor = new AIFileProcessor();
+    this.githubService = new EnhancedGitHubService();
   }
 
   async execute(context: WorkflowContext, onProgress?: (message: string) => void): Promise<WorkflowContext> {
@@ -19,15 +23,6 @@ export class TemplateStep {
     console.log('[TEMPLATE-STEP] Retrieving template files...');
     if (onProgress) onProgress('🔍 Retrieving template files for AI customization');
 
-    // Core template files for project initialization
-    const CORE_TEMPLATE_FILES = [
-      'src/App.tsx',
-      'src/pages/Landing.tsx',
-      'src/components/auth/Dashboard.tsx',
-      'prisma/schema.prisma',
-      'tailwind.config.js'
-    ];
-
     try {
       // Get template information
       const templates = await this.templateRegistry.getAllTemplates();
@@ -40,10 +35,17 @@ export class TemplateStep {
       console.log(`[TEMPLATE-STEP] Using template: ${template.name}`);
       if (onProgress) onProgress(`📋 Using template: ${template.name}`);
 
+      // Files declared by the template, or discovered from its repository tree
+      const manifest = await getTemplateFileManifest(template, this.githubService);
+      if (manifest.length === 0) {
+        throw new Error(`No customizable files declared or found for template ${template.id}`);
+      }
+      console.log(`[TEMPLATE-STEP] ${template.files?.length ? 'Declared' : 'Discovered'} files: ${manifest.map(entry => entry.path).join(', ')}`);
+
       // Retrieve template files
       const templateFiles: TemplateFileContent[] = [];
       
-      for (const filePath of CORE_TEMPLATE_FILES) {
+      for (const { path: filePath } of manifest) {
         try {
           const content = await this.aiFileProcessor.getFileFromTemplate(
             template.repository,
@@ -54,7 +56,7 @@ export class TemplateStep {
           templateFiles.push({
             path: filePath,
             content,
-            purpose: this.getFilePurpose(filePath)
+            purpose: getFilePurpose(manifest, filePath)
           });
           
           console.log(`[TEMPLATE-STEP] ✅ Retrieved: ${filePath}`);
@@ -83,16 +85,4 @@ export class TemplateStep {
       throw new Error(`Template retrieval failed: ${error.message}`);
     }
   }
-
-  private getFilePurpose(filePath: string): string {
-    const purposes: Record<string, string> = {
-      'src/App.tsx': 'Main application component and routing',
-      'src/pages/Landing.tsx': 'Landing page with business-specific content',
-      'src/components/auth/Dashboard.tsx': 'User dashboard and authenticated experience',
-      'prisma/schema.prisma': 'Database schema and data models',
-      'tailwind.config.js': 'Styling configuration and theme'
-    };
-    
-    return purposes[filePath] || 'Template file for customization';
-  }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 // Project initialization types and interfaces
 
+import type { FileChange } from '../../../src/services/enhanced-github-service';
+
 export interface ProjectInitRequest {
   // Support both new and legacy parameter formats
   userRequirements?: string;        // "doctor website with client and appointment management"
@@ -20,6 +22,7 @@ export interface ProjectInitRequest {
   autoSetup?: boolean;              // Auto setup flag from web UI
   mongodbOrgId?: string;            // MongoDB org ID from web UI
   mongodbProjectId?: string;        // MongoDB project ID from web UI
+  envVars?: Record<string, string>; // User-supplied values for template environment variables
 }
 
 export interface ProjectInitResponse {
@@ -32,13 +35,17 @@ export interface ProjectInitResponse {
   error?: string;
 }
 
+export type BuildErrorType = 'typescript' | 'build' | 'lint' | 'dependency' | 'config' | 'schema' | 'unknown';
+
 export interface ParsedError {
   file: string;
   line?: number;
   column?: number;
   message: string;
   code?: string;
-  type: 'typescript' | 'build' | 'dependency' | 'config' | 'unknown';
+  type: BuildErrorType;
+  source?: string; // Tool that reported the error (tsc, vite, eslint, pnpm, next, angular, prisma, ...)
+  packageName?: string; // Package involved in a dependency error
 }
 
 export interface FileFix {
@@ -49,7 +56,7 @@ export interface FileFix {
 }
 
 export interface DeploymentErrorInfo {
-  errorType: 'typescript' | 'build' | 'dependency' | 'config' | 'unknown';
+  errorType: BuildErrorType;
   errors: ParsedError[];
   buildLog: string;
   canFix: boolean;
@@ -61,6 +68,23 @@ export interface TemplateFileContent {
   purpose: string; // Description of what this file does
 }
 
+// Shared plan every file generation request works from, so separately generated files agree
+export interface ProjectBrief {
+  appName: string;
+  summary: string;
+  entities: Array<{ name: string; fields: string[] }>;
+  pages: Array<{ route: string; purpose: string }>;
+  namingConventions: string;
+  styleNotes: string;
+  fileNotes: Record<string, string>; // What each template file should contain
+}
+
+export interface FileGenerationFailure {
+  path: string;
+  error: string;
+  attempts: number;
+}
+
 export interface ProjectInfrastructure {
   mongodbProject?: any;
   netlifyProject?: any;
@@ -68,7 +92,11 @@ export interface ProjectInfrastructure {
 
 export interface WorkflowContext {
   sessionId: string;
+  projectId: string; // Usage, budgets and agent memory are keyed on it, never on the project name
   request: ProjectInitRequest;
   infrastructure: ProjectInfrastructure;
   template?: any;
+  generatedFiles?: FileChange[];
+  projectBrief?: ProjectBrief;
+  generationFailures?: FileGenerationFailure[];
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 // AI error fixing utilities
 
-import { ParsedError, DeploymentErrorInfo, FileFix } from '../types/project-types';
+import { BuildErrorType, ParsedError, DeploymentErrorInfo, FileFix } from '../types/project-types';
+import { getPrimaryErrorType, parseBuildLog } from './build-error-parsers';
 import { NetlifyService } from '../../../src/services/netlify';
-import { EnhancedGitHubService } from '../../../src/services/enhanced-github-service';
+import { EnhancedGitHubService, FileChange } from '../../../src/services/enhanced-github-service';
 import { CustomAIAgent } from '../../shared/custom-ai-agent';
+import type { ModelRoute } from '../../shared/model-router';
 
 /**
  * Clean markdown code blocks and language identifiers from AI-generated code
@@ -33,77 +35,121 @@ export function cleanMarkdownFromCode(content: string): string {
   return cleaned;
 }
 
+export interface ErrorFixStrategy {
+  name: string;
+  canFix(error: ParsedError): boolean;
+  instructions: string[]; // Added to the fix prompt for files with this kind of error
+  validate?(content: string): string | null; // Rejects AI output that would break the file, returns the reason
+}
+
+export const LOCKFILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock'];
+
+const hasSourceFile = (error: ParsedError) => error.file !== 'unknown' && error.file !== 'package.json';
+
+/**
+ * How each class of build error is fixed. Error types without a strategy need manual intervention.
+ */
+export const ERROR_FIX_STRATEGIES: Partial<Record<BuildErrorType, ErrorFixStrategy>> = {
+  typescript: {
+    name: 'type-fix',
+    canFix: hasSourceFile,
+    instructions: [
+      'For TS6133 errors (unused variables/imports): Remove the unused imports or variables',
+      'For syntax errors (TS1443, TS1005, TS1434, etc.): Fix the syntax issues carefully',
+      'For other TypeScript errors: Fix the type issues while preserving functionality'
+    ]
+  },
+  build: {
+    name: 'build-fix',
+    canFix: hasSourceFile,
+    instructions: [
+      'For syntax and transform errors: Fix the reported syntax at the given line',
+      'For unresolved relative imports: Point the import at the correct existing module, or remove it and the code that depends on it',
+      'For template compiler errors (Angular NG codes, Vue SFC errors): Fix the template markup or the component declarations it uses'
+    ]
+  },
+  lint: {
+    name: 'lint-fix',
+    canFix: hasSourceFile,
+    instructions: [
+      'Fix each reported ESLint rule violation in the code itself',
+      'Do NOT add eslint-disable comments or change the lint configuration'
+    ]
+  },
+  dependency: {
+    name: 'package-json-fix',
+    // A stale lockfile has to be regenerated with the package manager, editing package.json cannot fix it
+    canFix: error => error.file === 'package.json' && error.code !== 'ERR_PNPM_OUTDATED_LOCKFILE',
+    instructions: [
+      'This is package.json: return the complete, valid JSON document and nothing else',
+      'For missing packages: Add them to "dependencies" (or "devDependencies" for build tooling) with a published version range',
+      'For versions that do not exist: Change the range to the latest published version you know of',
+      'For peer dependency conflicts: Align the conflicting package versions so the peer ranges are satisfied',
+      'Do NOT remove or change dependencies unrelated to the errors, and keep the scripts section unchanged'
+    ],
+    validate: content => {
+      try {
+        JSON.parse(content);
+        return null;
+      } catch (error: any) {
+        return `Generated package.json is not valid JSON: ${error.message}`;
+      }
+    }
+  },
+  schema: {
+    name: 'prisma-schema-fix',
+    canFix: hasSourceFile,
+    instructions: [
+      'This is a Prisma schema: fix the reported model and field validation errors',
+      'Keep existing models and fields unless an error requires changing them, and keep relations consistent on both sides'
+    ]
+  },
+  config: {
+    name: 'config-fix',
+    canFix: hasSourceFile,
+    instructions: [
+      'This is a framework configuration file: fix or remove the invalid options reported',
+      'Keep the plugins and settings that are not mentioned in the errors'
+    ]
+  }
+};
+
+export function getFixStrategy(errorType: BuildErrorType): ErrorFixStrategy | undefined {
+  return ERROR_FIX_STRATEGIES[errorType];
+}
+
+export function isFixableError(error: ParsedError): boolean {
+  return getFixStrategy(error.type)?.canFix(error) ?? false;
+}
+
 /**
  * Parse deployment errors from build logs
  */
 export async function parseDeploymentError(deployment: any): Promise<DeploymentErrorInfo> {
-  const errors: ParsedError[] = [];
-  let errorType: 'typescript' | 'build' | 'dependency' | 'config' | 'unknown' = 'unknown';
+  let errors: ParsedError[] = [];
   let buildLog = '';
   
   try {
     const netlifyService = new NetlifyService();
     buildLog = await netlifyService.getBuildLogs(deployment.site_id, deployment.id);
-    
-    // Parse TypeScript errors
-    const tsErrorRegex = /([^:\s]+\.tsx?)\((\d+),(\d+)\):\s*(error\s+TS\d+):\s*(.+)/g;
-    const simpleErrorRegex = /([^:\s]+\.tsx?):(\d+):(\d+):\s*(error\s+TS\d+):\s*(.+)/g;
-    
-    let match;
-    while ((match = tsErrorRegex.exec(buildLog)) !== null) {
-      const [, file, line, column, code, message] = match;
-      errors.push({
-        file: file.replace(/^\.\//, '').replace(/^src\//, 'src/'),
-        line: parseInt(line),
-        column: parseInt(column),
-        message: message.trim(),
-        code: code.replace('error ', ''),
-        type: 'typescript'
-      });
-      errorType = 'typescript';
-    }
-    
-    while ((match = simpleErrorRegex.exec(buildLog)) !== null) {
-      const [, file, line, column, code, message] = match;
-      errors.push({
-        file: file.replace(/^\.\//, '').replace(/^src\//, 'src/'),
-        line: parseInt(line),
-        column: parseInt(column),
-        message: message.trim(),
-        code: code.replace('error ', ''),
-        type: 'typescript'
-      });
-      errorType = 'typescript';
-    }
-    
-    // Parse build errors if no TypeScript errors found
-    if (errors.length === 0) {
-      if (buildLog.includes('npm ERR!') || buildLog.includes('yarn install')) {
-        errorType = 'dependency';
-      } else if (buildLog.includes('webpack') || buildLog.includes('rollup')) {
-        errorType = 'build';
-      } else if (buildLog.includes('config')) {
-        errorType = 'config';
-      }
-      
-      // Add generic error
-      errors.push({
-        file: 'unknown',
-        message: deployment.error_message || 'Build failed',
-        type: errorType
-      });
-    }
-    
+    errors = parseBuildLog(buildLog);
   } catch (error) {
     console.error('[ERROR-PARSER] Failed to get build logs:', error);
+  }
+
+  if (errors.length === 0) {
+    // Nothing recognizable - keep the deployment's own message so it still shows up in the session
     errors.push({
       file: 'unknown',
       message: deployment.error_message || 'Build failed',
       type: 'unknown'
     });
   }
-  
-  const canFix = errorType === 'typescript' && errors.length > 0;
+
+  const errorType = getPrimaryErrorType(errors);
+  const canFix = errors.some(isFixableError);
+
+  console.log(`[ERROR-PARSER] Found ${errors.length} errors (primary type: ${errorType}), canFix: ${canFix}`);
   
   return {
     errorType,
@@ -120,7 +166,12 @@ export async function fixCodeWithAI(
   sessionId: string,
   errorInfo: DeploymentErrorInfo, 
   repoUrl: string,
-  aiProvider: string = 'anthropic'
+  aiProvider: string = 'anthropic',
+  options: {
+    projectId?: string; // Project billed for the fix requests and held to its budget
+    onModelRoute?: (route: ModelRoute) => void | Promise<void>;
+    getFileContent?: (filePath: string) => Promise<string>; // Content to fix, defaults to the file on main
+  } = {}
 ): Promise<{ success: boolean; fixes: FileFix[]; explanation: string }> {
   
   console.log(`[AI-FIXER] Starting AI fix for ${errorInfo.errors.length} errors`);
@@ -132,6 +183,8 @@ export async function fixCodeWithAI(
       repositoryUrl: repoUrl,
       provider: aiProvider as 'anthropic' | 'openai' | 'google' | 'grok',
       model: 'claude-sonnet-4-20250514',
+      projectId: options.projectId,
+      onModelRoute: options.onModelRoute,
       projectContext: {
         componentRegistry: {},
         dependencies: {},
@@ -143,9 +196,9 @@ export async function fixCodeWithAI(
     const fixes: FileFix[] = [];
     const githubService = new EnhancedGitHubService();
     
-    // Group errors by file for efficient processing
+    // Group fixable errors by file for efficient processing
     const fileErrors = new Map<string, ParsedError[]>();
-    for (const error of errorInfo.errors) {
+    for (const error of errorInfo.errors.filter(isFixableError)) {
       if (!fileErrors.has(error.file)) {
         fileErrors.set(error.file, []);
       }
@@ -156,47 +209,58 @@ export async function fixCodeWithAI(
     for (const [filePath, fileErrorList] of fileErrors) {
       
       // Get current file content
-      const currentContent = await githubService.getFileContent(repoUrl, filePath, 'main');
+      const currentContent = options.getFileContent
+        ? await options.getFileContent(filePath)
+        : await githubService.getFileContent(repoUrl, filePath, 'main');
+
+      // A file can have errors of several classes (e.g. type and lint errors in one component)
+      const strategies = Array.from(new Set(fileErrorList.map(error => getFixStrategy(error.type)!)));
+      const instructions = [
+        ...strategies.flatMap(strategy => strategy.instructions),
+        'DO NOT change the overall structure or functionality of the code',
+        'IMPORTANT: Return ONLY the raw file content - NO markdown code blocks, NO language identifiers, NO explanations',
+        'Do NOT wrap your response in ``` blocks',
+        'Preserve all existing imports that are actually used',
+        'Maintain the same code style and formatting'
+      ];
       
       // Create fix prompt for this file
       const fixPrompt = `
-You are a TypeScript/React code fixer. Fix the following errors in this file:
+You are a build error fixer. Fix the following errors in this file:
 
 FILE: ${filePath}
 CURRENT CONTENT:
-\`\`\`typescript
+\`\`\`
 ${currentContent}
 \`\`\`
 
 ERRORS TO FIX:
 ${fileErrorList.map(error => 
-  `- Line ${error.line}: ${error.message} (${error.code})`
+  `- ${error.line ? `Line ${error.line}: ` : ''}${error.message}${error.code ? ` (${error.code})` : ''}${error.source ? ` [${error.source}]` : ''}`
 ).join('\n')}
 
 CRITICAL INSTRUCTIONS:
-1. For TS6133 errors (unused variables/imports): Remove the unused imports or variables
-2. For syntax errors (TS1443, TS1005, TS1434, etc.): Fix the syntax issues carefully
-3. For other TypeScript errors: Fix the type issues while preserving functionality
-4. DO NOT change the overall structure or functionality of the code
-5. IMPORTANT: Return ONLY the raw TypeScript/React code - NO markdown code blocks, NO language identifiers, NO explanations
-6. Do NOT wrap your response in \`\`\`typescript or \`\`\` blocks
-7. Preserve all existing imports that are actually used
-8. Maintain the same code style and formatting
-9. Remove any markdown formatting artifacts like \`\`\`typescript or \`\`\`
+${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join('\n')}
 
 Return the complete fixed file content as raw code:`;
 
-      const fixResult = await customAgent.processRequest(fixPrompt);
+      const fixResult = await customAgent.processRequest(fixPrompt, { task: 'generation' });
       
       if (fixResult && fixResult.trim()) {
         // Clean any markdown formatting from the AI response
         const cleanedContent = cleanMarkdownFromCode(fixResult);
+
+        const rejection = strategies.map(strategy => strategy.validate?.(cleanedContent)).find(Boolean);
+        if (rejection) {
+          console.warn(`[AI-FIXER] Rejected fix for ${filePath}: ${rejection}`);
+          continue;
+        }
         
         fixes.push({
           file: filePath,
           oldContent: currentContent,
           newContent: cleanedContent,
-          description: `Fixed ${fileErrorList.length} errors: ${fileErrorList.map(e => e.code).join(', ')}`
+          description: `Fixed ${fileErrorList.length} ${strategies.map(strategy => strategy.name).join('/')} errors: ${fileErrorList.map(e => e.code || e.type).join(', ')}`
         });
         
         console.log(`[AI-FIXER] Fixed ${fileErrorList.length} errors in ${filePath}`);
@@ -205,7 +269,10 @@ Return the complete fixed file content as raw code:`;
       }
     }
 
-    const explanation = `AI successfully fixed ${fixes.length} files with TypeScript errors. Removed unused imports and variables.`;
+    const fixedTypes = Array.from(new Set(
+      errorInfo.errors.filter(error => fixes.some(fix => fix.file === error.file)).map(error => error.type)
+    ));
+    const explanation = `AI successfully fixed ${fixes.length} files with ${fixedTypes.join(', ')} errors.`;
     
     return {
       success: fixes.length > 0,
@@ -227,7 +294,6 @@ Return the complete fixed file content as raw code:`;
  * Apply fixes to repository
  */
 export async function applyFixesToRepository(
-  sessionId: string,
   repoUrl: string,
   fixes: FileFix[]
 ): Promise<boolean> {
@@ -238,17 +304,25 @@ export async function applyFixesToRepository(
     
     // Apply each fix as a separate commit for better tracking
     for (const fix of fixes) {
-      const fileChanges = [{
+      const fileChanges: FileChange[] = [{
         path: fix.file,
         content: fix.newContent,
-        encoding: 'utf-8' as const
+        message: `AI fix: ${fix.description}`
       }];
+
+      // The lockfile no longer matches the fixed package.json; without one the next build resolves it again
+      if (fix.file === 'package.json') {
+        const rootFiles = await githubService.listFiles(repoUrl, '', 'main');
+        for (const lockfile of LOCKFILES.filter(lockfile => rootFiles.includes(lockfile))) {
+          fileChanges.push({ path: lockfile, content: '', message: `Remove ${lockfile} out of date with package.json`, delete: true });
+        }
+      }
       
       await githubService.commitChanges(
         repoUrl,
         'main',
         fileChanges,
-        `AI fix: ${fix.description}`
+        { mode: 'atomic' }
       );
       
       console.log(`[REPO-FIXER] Applied fix to ${fix.file}: ${fix.description}`);
@@ -0,0 +1,177 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { getPrimaryErrorType, normalizeErrorPath, parseBuildLog } from './build-error-parsers';
+
+describe('normalizeErrorPath', () => {
+  it('makes Netlify and ./-prefixed paths repository-relative', () => {
+    expect(normalizeErrorPath('/opt/build/repo/src/App.tsx')).toBe('src/App.tsx');
+    expect(normalizeErrorPath('./src/App.tsx')).toBe('src/App.tsx');
+    expect(normalizeErrorPath('src\\components\\Hero.tsx')).toBe('src/components/Hero.tsx');
+  });
+});
+
+describe('parseBuildLog', () => {
+  it('parses both tsc output formats and strips Netlify timestamps', () => {
+    const errors = parseBuildLog([
+      "1:23:45 PM: src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "1:23:46 PM: src/Hero.tsx:3:10 - error TS6133: 'x' is declared but its value is never read."
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      {
+        file: 'src/App.tsx',
+        line: 12,
+        column: 5,
+        message: "Type 'string' is not assignable to type 'number'.",
+        code: 'TS2322',
+        type: 'typescript',
+        source: 'tsc'
+      },
+      expect.objectContaining({ file: 'src/Hero.tsx', line: 3, column: 10, code: 'TS6133', type: 'typescript' })
+    ]);
+  });
+
+  it('treats Angular template diagnostics as build errors', () => {
+    const [error] = parseBuildLog("Error: src/app/app.component.html:3:10 - error NG8002: Can't bind to 'foo'.");
+
+    expect(error).toMatchObject({ file: 'src/app/app.component.html', code: 'NG8002', type: 'build', source: 'angular' });
+  });
+
+  it('reports the same diagnostic once', () => {
+    const line = "src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.";
+
+    expect(parseBuildLog(`${line}\n${line}`)).toHaveLength(1);
+  });
+
+  it('parses Next.js type errors', () => {
+    const errors = parseBuildLog("./src/app/page.tsx:12:5\nType error: Property 'x' does not exist on type 'Props'.");
+
+    expect(errors).toEqual([expect.objectContaining({
+      file: 'src/app/page.tsx',
+      line: 12,
+      column: 5,
+      message: "Property 'x' does not exist on type 'Props'.",
+      type: 'typescript',
+      source: 'next'
+    })]);
+  });
+
+  it('maps unresolved Vite imports to the importing file or package.json', () => {
+    const errors = parseBuildLog([
+      '[vite]: Rollup failed to resolve import "./Missing" from "/opt/build/repo/src/App.tsx".',
+      '[vite]: Rollup failed to resolve import "@scope/ui/button" from "src/Hero.tsx".'
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      expect.objectContaining({ file: 'src/App.tsx', code: 'UNRESOLVED_IMPORT', type: 'build' }),
+      expect.objectContaining({ file: 'package.json', type: 'dependency', packageName: '@scope/ui' })
+    ]);
+  });
+
+  it('parses esbuild transform errors', () => {
+    const errors = parseBuildLog('/opt/build/repo/src/App.tsx:12:5: ERROR: Expected ";" but found "x"');
+
+    expect(errors).toEqual([expect.objectContaining({
+      file: 'src/App.tsx',
+      line: 12,
+      column: 5,
+      message: 'Expected ";" but found "x"',
+      code: 'TRANSFORM_ERROR',
+      source: 'esbuild'
+    })]);
+  });
+
+  it('parses webpack module resolution errors', () => {
+    const errors = parseBuildLog([
+      './src/App.tsx',
+      "Module not found: Can't resolve './Foo'",
+      "Module not found: Error: Can't resolve 'lodash/get' in '/opt/build/repo/src'"
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      expect.objectContaining({ file: 'src/App.tsx', code: 'MODULE_NOT_FOUND', type: 'build' }),
+      expect.objectContaining({ file: 'package.json', type: 'dependency', packageName: 'lodash' })
+    ]);
+  });
+
+  it('parses ESLint stylish output per file', () => {
+    const errors = parseBuildLog([
+      '/opt/build/repo/src/App.tsx',
+      "  12:5  error  'x' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+      '',
+      '✖ 1 problem (1 error, 0 warnings)'
+    ].join('\n'));
+
+    expect(errors).toEqual([{
+      file: 'src/App.tsx',
+      line: 12,
+      column: 5,
+      message: "'x' is assigned a value but never used",
+      code: '@typescript-eslint/no-unused-vars',
+      type: 'lint',
+      source: 'eslint'
+    }]);
+  });
+
+  it('parses npm and pnpm install failures', () => {
+    const errors = parseBuildLog([
+      'ERR_PNPM_NO_MATCHING_VERSION  No matching version found for @scope/foo@^9.9.9',
+      'npm ERR! 404 Not Found - GET https://registry.npmjs.org/left-padd - Not found',
+      'ERR_PNPM_OUTDATED_LOCKFILE  Cannot install with "frozen-lockfile" because pnpm-lock.yaml is not up to date with package.json'
+    ].join('\n'));
+
+    expect(errors.map(({ code, source, packageName }) => ({ code, source, packageName }))).toEqual([
+      { code: 'NO_MATCHING_VERSION', source: 'pnpm', packageName: '@scope/foo' },
+      { code: 'PACKAGE_NOT_FOUND', source: 'npm', packageName: 'left-padd' },
+      { code: 'ERR_PNPM_OUTDATED_LOCKFILE', source: 'pnpm', packageName: undefined }
+    ]);
+    expect(errors.every(error => error.file === 'package.json' && error.type === 'dependency')).toBe(true);
+  });
+
+  it('parses npm peer dependency conflicts', () => {
+    const errors = parseBuildLog([
+      'npm ERR! code ERESOLVE',
+      'npm ERR! Could not resolve dependency:',
+      'npm ERR! peer react@"^17.0.0" from react-old-widget@1.0.0'
+    ].join('\n'));
+
+    expect(errors).toEqual([expect.objectContaining({
+      message: 'react-old-widget requires peer react@"^17.0.0"',
+      code: 'ERESOLVE',
+      packageName: 'react-old-widget'
+    })]);
+  });
+
+  it('parses Prisma schema and config load errors', () => {
+    const errors = parseBuildLog([
+      'error: Error validating field `author` in model `Post`: missing opposite relation field',
+      '  -->  prisma/schema.prisma:12',
+      'failed to load config from /opt/build/repo/vite.config.ts'
+    ].join('\n'));
+
+    expect(errors).toEqual([
+      expect.objectContaining({ file: 'prisma/schema.prisma', line: 12, type: 'schema', source: 'prisma' }),
+      expect.objectContaining({ file: 'vite.config.ts', type: 'config', source: 'vite' })
+    ]);
+  });
+
+  it('finds nothing in a clean log', () => {
+    expect(parseBuildLog('vite v7.0.4 building for production...\n✓ built in 2.31s')).toEqual([]);
+  });
+});
+
+describe('getPrimaryErrorType', () => {
+  it('picks the earliest failing stage', () => {
+    const errors = parseBuildLog([
+      "src/App.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      'ERR_PNPM_NO_MATCHING_VERSION  No matching version found for foo@^9.9.9'
+    ].join('\n'));
+
+    expect(getPrimaryErrorType(errors)).toBe('dependency');
+    expect(getPrimaryErrorType(errors.filter(error => error.type !== 'dependency'))).toBe('typescript');
+  });
+
+  it('is unknown without errors', () => {
+    expect(getPrimaryErrorType([])).toBe('unknown');
+  });
+});
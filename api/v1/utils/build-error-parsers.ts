@@ -0,0 +1,370 @@
+// Build error parsers - turn build log output from the template toolchains into ParsedError entries
+
+import { BuildErrorType, ParsedError } from '../types/project-types';
+
+export interface BuildErrorParser {
+  name: string;
+  type: BuildErrorType;
+  parse(buildLog: string): ParsedError[];
+}
+
+// When a log has several kinds of errors, the earliest failing stage decides the error type
+const ERROR_TYPE_PRIORITY: BuildErrorType[] = ['dependency', 'config', 'schema', 'typescript', 'lint', 'build', 'unknown'];
+
+/**
+ * Make paths repository-relative: Netlify builds in /opt/build/repo and tools print ./-prefixed paths
+ */
+export function normalizeErrorPath(file: string): string {
+  return file
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^.*?\/opt\/build\/repo\//, '')
+    .replace(/^\.\//, '');
+}
+
+function isBarePackage(specifier: string): boolean {
+  return !specifier.startsWith('.') && !specifier.startsWith('/') && !specifier.startsWith('~') &&
+    !specifier.startsWith('@/') && !specifier.startsWith('#');
+}
+
+// "@scope/pkg/sub/path" -> "@scope/pkg", "pkg/sub" -> "pkg"
+function packageNameFromSpecifier(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+// "foo@^1.2.0" -> "foo", "@scope/foo@1" -> "@scope/foo"
+function packageNameFromSpec(spec: string): string {
+  const versionAt = spec.lastIndexOf('@');
+  return versionAt > 0 ? spec.slice(0, versionAt) : spec;
+}
+
+function matchAll(buildLog: string, regex: RegExp): RegExpExecArray[] {
+  return Array.from(buildLog.matchAll(regex));
+}
+
+/**
+ * tsc, vue-tsc and Angular compiler diagnostics:
+ *   src/App.tsx(12,5): error TS2322: ...
+ *   src/App.tsx:12:5 - error TS2322: ...
+ *   Error: src/app/app.component.html:3:10 - error NG8002: ...
+ */
+const typescriptParser: BuildErrorParser = {
+  name: 'tsc',
+  type: 'typescript',
+  parse(buildLog) {
+    const parenthesized = matchAll(buildLog, /([^\s():'"]+\.(?:[cm]?[jt]sx?|vue|html))\((\d+),(\d+)\):\s*error\s+((?:TS|NG)\d+):\s*(.+)/g);
+    const colonSeparated = matchAll(buildLog, /([^\s():'"]+\.(?:[cm]?[jt]sx?|vue|html)):(\d+):(\d+)\s*(?:-|:)\s*error\s+((?:TS|NG)\d+):\s*(.+)/g);
+
+    return [...parenthesized, ...colonSeparated].map(([, file, line, column, code, message]) => ({
+      file: normalizeErrorPath(file),
+      line: parseInt(line),
+      column: parseInt(column),
+      message: message.trim(),
+      code,
+      // NG diagnostics come from Angular template compilation, not the type checker
+      type: code.startsWith('NG') ? 'build' : 'typescript',
+      source: code.startsWith('NG') ? 'angular' : 'tsc'
+    }));
+  }
+};
+
+/**
+ * Next.js compile output:
+ *   ./src/app/page.tsx:12:5
+ *   Type error: Property 'x' does not exist on type 'Props'.
+ */
+const nextParser: BuildErrorParser = {
+  name: 'next',
+  type: 'typescript',
+  parse(buildLog) {
+    return matchAll(buildLog, /^\.\/(\S+?):(\d+):(\d+)\r?\n(Type error|Error):\s*(.*)$/gm)
+      .map(([, file, line, column, kind, message]) => ({
+        file: normalizeErrorPath(file),
+        line: parseInt(line),
+        column: parseInt(column),
+        message: message.trim() || kind,
+        type: kind === 'Type error' ? 'typescript' : 'build',
+        source: 'next'
+      }));
+  }
+};
+
+/**
+ * Vite, Rollup and Nuxt (Vite-based) build failures
+ */
+const viteParser: BuildErrorParser = {
+  name: 'vite',
+  type: 'build',
+  parse(buildLog) {
+    const errors: ParsedError[] = [];
+
+    // [vite]: Rollup failed to resolve import "x" from "src/foo.tsx".
+    // Could not resolve "./Foo" from "src/App.tsx"
+    const unresolved = [
+      ...matchAll(buildLog, /failed to resolve import "([^"]+)" from "([^"]+)"/g),
+      ...matchAll(buildLog, /Could not resolve "([^"]+)" from "([^"]+)"/g)
+    ];
+    for (const [, specifier, file] of unresolved) {
+      const missingPackage = isBarePackage(specifier);
+      errors.push({
+        file: missingPackage ? 'package.json' : normalizeErrorPath(file),
+        message: `Cannot resolve import "${specifier}" from ${normalizeErrorPath(file)}`,
+        code: 'UNRESOLVED_IMPORT',
+        type: missingPackage ? 'dependency' : 'build',
+        source: 'vite',
+        packageName: missingPackage ? packageNameFromSpecifier(specifier) : undefined
+      });
+    }
+
+    // [vite:esbuild] Transform failed with 1 error:
+    // /opt/build/repo/src/App.tsx:12:5: ERROR: Expected ";" but found "x"
+    for (const [, file, line, column, message] of matchAll(buildLog, /([^\s:'"]+\.\w+):(\d+):(\d+):\s*ERROR:\s*(.+)/g)) {
+      errors.push({
+        file: normalizeErrorPath(file),
+        line: parseInt(line),
+        column: parseInt(column),
+        message: message.trim(),
+        code: 'TRANSFORM_ERROR',
+        type: 'build',
+        source: 'esbuild'
+      });
+    }
+
+    // error during build / Nuxt Build Error: [vite:vue] <message>
+    // file: /opt/build/repo/components/Foo.vue:12:3
+    const pluginErrors = matchAll(buildLog, /(?:error during build:\s*\n\s*(?:\w*Error:\s*)?|Nuxt Build Error:\s*)(\[[\w:-]+\]\s*)?(.+)(?:\n(?!\s*file:).*){0,6}\n\s*file:\s*(\S+?):(\d+):(\d+)/g);
+    for (const [, plugin, message, file, line, column] of pluginErrors) {
+      errors.push({
+        file: normalizeErrorPath(file),
+        line: parseInt(line),
+        column: parseInt(column),
+        message: message.trim(),
+        code: plugin?.trim().replace(/^\[|\]$/g, ''),
+        type: 'build',
+        source: buildLog.includes('Nuxt Build Error') ? 'nuxt' : 'vite'
+      });
+    }
+
+    return errors;
+  }
+};
+
+/**
+ * webpack (Next.js, Angular, Vue CLI) resolution errors:
+ *   Module not found: Error: Can't resolve 'foo' in '/opt/build/repo/src'
+ *   ./src/App.tsx\nModule not found: Can't resolve './Foo'
+ */
+const webpackParser: BuildErrorParser = {
+  name: 'webpack',
+  type: 'build',
+  parse(buildLog) {
+    return matchAll(buildLog, /(?:^\.\/(\S+)\r?\n)?Module not found:\s*(?:Error:\s*)?Can't resolve '([^']+)'(?: in '([^']+)')?/gm)
+      .map(([, file, specifier, directory]) => {
+        const missingPackage = isBarePackage(specifier);
+        return {
+          file: missingPackage ? 'package.json' : normalizeErrorPath(file || directory || 'unknown'),
+          message: `Module not found: Can't resolve '${specifier}'${file ? ` in ./${file}` : ''}`,
+          code: 'MODULE_NOT_FOUND',
+          type: missingPackage ? 'dependency' : 'build',
+          source: 'webpack',
+          packageName: missingPackage ? packageNameFromSpecifier(specifier) : undefined
+        } as ParsedError;
+      });
+  }
+};
+
+/**
+ * ESLint stylish output (also used by `next lint`):
+ *   /opt/build/repo/src/App.tsx
+ *     12:5  error  'x' is assigned a value but never used  @typescript-eslint/no-unused-vars
+ */
+const eslintParser: BuildErrorParser = {
+  name: 'eslint',
+  type: 'lint',
+  parse(buildLog) {
+    const errors: ParsedError[] = [];
+    let currentFile: string | null = null;
+
+    for (const line of buildLog.split(/\r?\n/)) {
+      if (/^\S+\.(?:[cm]?[jt]sx?|vue|svelte|astro)$/.test(line.trim()) && !/^\s/.test(line)) {
+        currentFile = normalizeErrorPath(line);
+        continue;
+      }
+
+      const match = currentFile && line.match(/^\s*(\d+):(\d+)\s+(?:error|Error:)\s+(.+?)\s{2,}(@?[\w-]+(?:\/[\w-]+)*)\s*$/);
+      if (match) {
+        const [, lineNumber, column, message, rule] = match;
+        errors.push({
+          file: currentFile!,
+          line: parseInt(lineNumber),
+          column: parseInt(column),
+          message: message.trim(),
+          code: rule,
+          type: 'lint',
+          source: 'eslint'
+        });
+      } else if (line.trim() === '') {
+        currentFile = null;
+      }
+    }
+
+    return errors;
+  }
+};
+
+/**
+ * npm and pnpm install failures
+ */
+const packageManagerParser: BuildErrorParser = {
+  name: 'package-manager',
+  type: 'dependency',
+  parse(buildLog) {
+    const errors: ParsedError[] = [];
+    const add = (message: string, code: string, source: string, packageName?: string) => {
+      errors.push({ file: 'package.json', message: message.trim(), code, type: 'dependency', source, packageName });
+    };
+
+    // ERR_PNPM_NO_MATCHING_VERSION  No matching version found for foo@^9.9.9
+    // npm ERR! notarget No matching version found for foo@^9.9.9.
+    for (const [, manager, spec] of matchAll(buildLog, /(ERR_PNPM_NO_MATCHING_VERSION|npm ERR! notarget)\s+No matching version found for (\S+?)\.?(?:\s|$)/g)) {
+      add(`No matching version found for ${spec}`, 'NO_MATCHING_VERSION', manager.startsWith('npm') ? 'npm' : 'pnpm', packageNameFromSpec(spec));
+    }
+
+    // ERR_PNPM_FETCH_404  GET https://registry.npmjs.org/foo: Not Found - 404
+    // npm ERR! 404 Not Found - GET https://registry.npmjs.org/foo - Not found
+    for (const [, manager, encodedName] of matchAll(buildLog, /(ERR_PNPM_FETCH_404|npm ERR! 404)[^\n]*?GET https?:\/\/[^/\s]+\/(\S+?)(?::|\s|$)/g)) {
+      const packageName = decodeURIComponent(encodedName);
+      add(`Package ${packageName} not found in the registry`, 'PACKAGE_NOT_FOUND', manager.startsWith('npm') ? 'npm' : 'pnpm', packageName);
+    }
+
+    // npm ERR! code ERESOLVE ... npm ERR! Could not resolve dependency:\nnpm ERR! peer react@"^17" from foo@1.0.0
+    if (buildLog.includes('ERESOLVE')) {
+      const conflicts = matchAll(buildLog, /npm ERR! (?:peer|peerOptional)\s+(\S+?)@"([^"]+)" from (\S+?)@(\S+)/g);
+      if (conflicts.length > 0) {
+        for (const [, peer, range, dependent] of conflicts) {
+          add(`${dependent} requires peer ${peer}@"${range}"`, 'ERESOLVE', 'npm', dependent);
+        }
+      } else {
+        add('Unable to resolve dependency tree', 'ERESOLVE', 'npm');
+      }
+    }
+
+    // ✕ unmet peer react@^17.0.0: found 18.2.0
+    for (const [, peer, range, found] of matchAll(buildLog, /unmet peer (\S+?)@(\S+?): found (\S+)/g)) {
+      add(`Unmet peer dependency ${peer}@${range} (found ${found})`, 'ERR_PNPM_PEER_DEP_ISSUES', 'pnpm', peer);
+    }
+
+    // ERR_PNPM_OUTDATED_LOCKFILE  Cannot install with "frozen-lockfile" because pnpm-lock.yaml is not up to date with package.json
+    const lockfileMatch = buildLog.match(/ERR_PNPM_OUTDATED_LOCKFILE\s+(.+)/);
+    if (lockfileMatch) {
+      add(lockfileMatch[1], 'ERR_PNPM_OUTDATED_LOCKFILE', 'pnpm');
+    }
+
+    return errors;
+  }
+};
+
+/**
+ * Prisma schema validation:
+ *   error: Error validating field `author` in model `Post`: ...
+ *     -->  prisma/schema.prisma:12
+ */
+const prismaParser: BuildErrorParser = {
+  name: 'prisma',
+  type: 'schema',
+  parse(buildLog) {
+    return matchAll(buildLog, /error:\s*(.+)\r?\n\s*-->\s*(\S*schema\.prisma):(\d+)/g)
+      .map(([, message, file, line]) => ({
+        file: normalizeErrorPath(file),
+        line: parseInt(line),
+        message: message.trim(),
+        code: buildLog.match(/Error code:\s*(P\d+)/)?.[1],
+        type: 'schema',
+        source: 'prisma'
+      } as ParsedError));
+  }
+};
+
+/**
+ * Framework configuration files that fail to load
+ */
+const configParser: BuildErrorParser = {
+  name: 'config',
+  type: 'config',
+  parse(buildLog) {
+    const errors: ParsedError[] = [];
+
+    // failed to load config from /opt/build/repo/vite.config.ts
+    for (const [, file] of matchAll(buildLog, /failed to load config from (\S+)/gi)) {
+      errors.push({ file: normalizeErrorPath(file), message: `Failed to load config from ${normalizeErrorPath(file)}`, type: 'config', source: 'vite' });
+    }
+
+    // Invalid next.config.js options detected:
+    for (const [, file, details] of matchAll(buildLog, /Invalid (next\.config\.\w+) options detected:?\s*(.*)/g)) {
+      errors.push({ file, message: `Invalid ${file} options${details ? `: ${details.trim()}` : ''}`, type: 'config', source: 'next' });
+    }
+
+    return errors;
+  }
+};
+
+const parsers: BuildErrorParser[] = [
+  typescriptParser,
+  nextParser,
+  viteParser,
+  webpackParser,
+  eslintParser,
+  packageManagerParser,
+  prismaParser,
+  configParser
+];
+
+/**
+ * Add a parser for another toolchain; it runs after the built-in ones
+ */
+export function registerBuildErrorParser(parser: BuildErrorParser): void {
+  parsers.push(parser);
+}
+
+export function getBuildErrorParsers(): BuildErrorParser[] {
+  return [...parsers];
+}
+
+/**
+ * Run every registered parser over a build log and merge their findings
+ */
+export function parseBuildLog(rawBuildLog: string): ParsedError[] {
+  const errors: ParsedError[] = [];
+  const seen = new Set<string>();
+
+  // Netlify prefixes every log line with a timestamp, e.g. "1:23:45 PM: "
+  const buildLog = rawBuildLog.replace(/^\d{1,2}:\d{2}:\d{2}\s*(?:AM|PM)?:\s?/gm, '');
+
+  for (const parser of parsers) {
+    let parsed: ParsedError[] = [];
+    try {
+      parsed = parser.parse(buildLog);
+    } catch (error) {
+      console.warn(`[ERROR-PARSER] ${parser.name} parser failed:`, error instanceof Error ? error.message : String(error));
+    }
+
+    for (const error of parsed) {
+      // The same diagnostic is often printed twice (e.g. by tsc and again by the framework CLI)
+      const key = `${error.file}:${error.line ?? ''}:${error.code ?? ''}:${error.message}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        errors.push(error);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The error type that decides how a failed build is handled
+ */
+export function getPrimaryErrorType(errors: ParsedError[]): BuildErrorType {
+  return ERROR_TYPE_PRIORITY.find(type => errors.some(error => error.type === type)) || 'unknown';
+}
@@ -1,6 +1,7 @@
 // Environment variable utilities for different template types
 
 import { NetlifyService } from '../../../src/services/netlify';
+import { getUrlEnvVarNames, resolveRequiredEnvironmentVariables } from '../../../src/services/env-var-registry';
 
 /**
  * Get environment variables for AI provider
@@ -45,7 +46,8 @@ export function getEnvVarsForProvider(provider: string, model?: string): Record<
 }
 
 /**
- * Generate template-specific environment variables
+ * Generate template-specific environment variables from the env var registry.
+ * Throws an EnvVarResolutionError listing every required variable that could not be resolved.
  */
 export function generateTemplateEnvironmentVariables(
   template: any,
@@ -53,123 +55,20 @@ export function generateTemplateEnvironmentVariables(
   mongodbProject?: any,
   netlifyUrl?: string
 ): Record<string, string> {
-  const templateEnvVars: Record<string, string> = {};
-  
-  // Process each required environment variable for this template
-  for (const envVar of template.envVars) {
-    switch (envVar) {
-      // MongoDB-related variables
-      case 'MONGODB_URI':
-      case 'DATABASE_URL':
-        if (mongodbProject) {
-          templateEnvVars[envVar] = mongodbProject.connectionString;
-        }
-        break;
-      case 'MONGODB_DATABASE_NAME':
-        if (mongodbProject) {
-          templateEnvVars[envVar] = mongodbProject.databaseName;
-        }
-        break;
-      case 'MONGODB_CLUSTER_NAME':
-        if (mongodbProject) {
-          templateEnvVars[envVar] = mongodbProject.clusterName;
-        }
-        break;
-      case 'MONGODB_USERNAME':
-        if (mongodbProject) {
-          templateEnvVars[envVar] = mongodbProject.username;
-        }
-        break;
-      case 'MONGODB_PASSWORD':
-        if (mongodbProject) {
-          templateEnvVars[envVar] = mongodbProject.password;
-        }
-        break;
-      
-      // Authentication secrets
-      case 'BETTER_AUTH_SECRET':
-      case 'NEXTAUTH_SECRET':
-      case 'AUTH_SECRET':
-      case 'NUXT_SECRET_KEY':
-        templateEnvVars[envVar] = require('crypto').randomBytes(32).toString('hex');
-        break;
-      
-      // App URLs and names
-      case 'VITE_APP_NAME':
-      case 'NEXT_PUBLIC_APP_NAME':
-      case 'NUXT_PUBLIC_APP_NAME':
-        templateEnvVars[envVar] = request.projectName || 'My App';
-        break;
-      
-      case 'VITE_APP_URL':
-      case 'NEXT_PUBLIC_APP_URL':
-      case 'NUXT_PUBLIC_API_URL':
-      case 'VITE_API_URL':
-        // Use real Netlify URL if available, otherwise placeholder
-        templateEnvVars[envVar] = netlifyUrl || 'https://placeholder.netlify.app';
-        break;
-      
-      case 'BETTER_AUTH_URL':
-      case 'NEXTAUTH_URL':
-        // Use real Netlify URL if available, otherwise placeholder
-        templateEnvVars[envVar] = netlifyUrl || 'https://placeholder.netlify.app';
-        break;
-      
-      // Supabase variables (need to be configured by user)
-      case 'VITE_SUPABASE_URL':
-      case 'NEXT_PUBLIC_SUPABASE_URL':
-      case 'SUPABASE_URL':
-        templateEnvVars[envVar] = process.env.SUPABASE_URL || 'https://your-project.supabase.co';
-        break;
-      case 'VITE_SUPABASE_ANON_KEY':
-      case 'NEXT_PUBLIC_SUPABASE_ANON_KEY':
-      case 'SUPABASE_ANON_KEY':
-        templateEnvVars[envVar] = process.env.SUPABASE_ANON_KEY || 'your-supabase-anon-key';
-        break;
-      case 'SUPABASE_SERVICE_KEY':
-      case 'SUPABASE_SERVICE_ROLE_KEY':
-      case 'NEXT_PUBLIC_SUPABASE_SERVICE_KEY':
-        templateEnvVars[envVar] = process.env.SUPABASE_SERVICE_KEY || 'your-supabase-service-key';
-        break;
-      case 'SUPABASE_PROJECT_ID':
-        templateEnvVars[envVar] = process.env.SUPABASE_PROJECT_ID || 'your-supabase-project-id';
-        break;
-      
-      // PlanetScale variables
-      case 'PLANETSCALE_TOKEN':
-        templateEnvVars[envVar] = process.env.PLANETSCALE_TOKEN || 'your-planetscale-token';
-        break;
-      
-      // Upstash Redis variables
-      case 'VITE_UPSTASH_REDIS_REST_URL':
-      case 'UPSTASH_REDIS_REST_URL':
-        templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_URL || 'https://your-redis.upstash.io';
-        break;
-      case 'VITE_UPSTASH_REDIS_REST_TOKEN':
-      case 'UPSTASH_REDIS_REST_TOKEN':
-        templateEnvVars[envVar] = process.env.UPSTASH_REDIS_REST_TOKEN || 'your-upstash-token';
-        break;
-      
-      // App version for IndexedDB templates
-      case 'VITE_APP_VERSION':
-      case 'NEXT_PUBLIC_APP_VERSION':
-      case 'NUXT_PUBLIC_APP_VERSION':
-        templateEnvVars[envVar] = '1.0.0';
-        break;
-      
-      // Default fallback for any unhandled env vars
-      default:
-        console.warn(`[ENV-SETUP] Unknown environment variable: ${envVar}, setting as placeholder`);
-        templateEnvVars[envVar] = `placeholder-${envVar.toLowerCase()}`;
-        break;
-    }
+  const resolution = resolveRequiredEnvironmentVariables(template, {
+    projectName: request.projectName,
+    repositoryUrl: request.repositoryUrl,
+    baseBranch: 'main',
+    mongodbProject,
+    netlifyUrl,
+    userValues: request.envVars
+  });
+
+  if (resolution.deferred.length > 0) {
+    console.log(`[ENV-SETUP] Deferred until the site URL is known: ${resolution.deferred.join(', ')}`);
   }
-  
-  // Always set repository URL and base branch (required for web interface)
-  templateEnvVars['VITE_REPOSITORY_URL'] = request.repositoryUrl || '';
-  templateEnvVars['VITE_BASE_BRANCH'] = 'main';
-  
-  return templateEnvVars;
+
+  return resolution.values;
 }
 
 /**
@@ -284,18 +183,9 @@ export async function updateUrlEnvironmentVariables(
   let needsUpdate = false;
   
   // Check which URL-based env vars this template needs and update them
-  for (const envVar of template.envVars) {
-    switch (envVar) {
-      case 'VITE_APP_URL':
-      case 'NEXT_PUBLIC_APP_URL':
-      case 'NUXT_PUBLIC_API_URL':
-      case 'VITE_API_URL':
-      case 'BETTER_AUTH_URL':
-      case 'NEXTAUTH_URL':
-        urlEnvVars[envVar] = siteUrl;
-        needsUpdate = true;
-        break;
-    }
+  for (const envVar of getUrlEnvVarNames(template)) {
+    urlEnvVars[envVar] = siteUrl;
+    needsUpdate = true;
   }
   
   if (needsUpdate && Object.keys(urlEnvVars).length > 0) {
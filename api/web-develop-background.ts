@@ -0,0 +1,27 @@
+// netlify/functions/web-develop-background.ts
+// Background function (15 minute limit) that runs the development workflow for a session's stored submission
+import { Handler, HandlerEvent } from '@netlify/functions';
+import { EnhancedSessionManager } from './shared/enhanced-session-manager';
+import { isDispatchAuthorized } from './shared/background-functions';
+import { DevelopmentSubmission, processDevelopmentAsync } from './web-develop';
+
+const sessionManager = new EnhancedSessionManager();
+
+export const handler: Handler = async (event: HandlerEvent) => {
+  // Only the develop endpoint dispatches here
+  if (!isDispatchAuthorized(event.headers.authorization)) {
+    console.error('[WEB-DEVELOP-BACKGROUND] Unauthorized invocation');
+    return { statusCode: 401, body: '' };
+  }
+
+  const { sessionId } = JSON.parse(event.body || '{}') as { sessionId?: string };
+  const session = sessionId ? await sessionManager.getSession(sessionId) : null;
+  const submission = session?.checkpoints?.submission as DevelopmentSubmission | undefined;
+  if (!sessionId || !submission) {
+    console.error(`[WEB-DEVELOP-BACKGROUND] No stored submission for session ${sessionId}`);
+    return { statusCode: 404, body: '' };
+  }
+
+  await processDevelopmentAsync(sessionId, submission.options, submission.context);
+  return { statusCode: 200, body: '' };
+};
@@ -1,67 +1,456 @@
-import { Handler } from '@netlify/functions';
+// Web development workflow - AI feature development on a project's repository
+import { Handler, HandlerEvent, HandlerContext } from '@netlify/functions';
+import { EnhancedSessionManager, ProcessingLog } from './shared/enhanced-session-manager';
+import { EnhancedGitHubService, FileChange } from '../src/services/enhanced-github-service';
+import { AIFileProcessor } from './shared/ai-file-processor';
+import { CustomAIAgent } from './shared/custom-ai-agent';
+import { EnhancedAgentOrchestrator, OrchestrationStrategyType } from './shared/enhanced-agent-orchestrator';
+import { RepositoryIndex } from './shared/repository-indexer';
+import { SessionSandbox, createAgentSandbox } from './shared/agent-sandbox';
+import {
+  createDevelopmentChange,
+  createUniformTeamConfig,
+  planTargetFiles,
+  resolveAgentMode
+} from './shared/development-planner';
+import { storage } from '../src/services/redis-storage';
+import { dispatchBackgroundFunction } from './shared/background-functions';
+import { DevelopCommandSchema, ValidationError, validateInput } from '../src/utils/validation';
+import type { DevelopOptions } from '../src/types/config';
 
-export const handler: Handler = async (event, context) => {
-  if (event.httpMethod !== 'POST') {
-    return {
-      statusCode: 405,
-      body: JSON.stringify({ error: 'Method not allowed' })
-    };
+type AIProvider = 'anthropic' | 'openai' | 'google' | 'grok';
+
+export interface DevelopmentContext {
+  projectId: string;
+  repositoryUrl: string;
+  aiProvider: AIProvider;
+  agentMode?: string;
+  orchestrationStrategy?: string;
+  baseBranch: string;
+}
+
+// Stored with the session for the background function that runs it
+export interface DevelopmentSubmission {
+  options: DevelopOptions;
+  context: DevelopmentContext;
+}
+
+// Initialize services
+const sessionManager = new EnhancedSessionManager();
+const githubService = new EnhancedGitHubService();
+
+async function logDevelopment(
+  sessionId: string,
+  level: ProcessingLog['level'],
+  message: string,
+  metadata?: Record<string, any>
+): Promise<void> {
+  await sessionManager.addLog(sessionId, level, message, metadata, 'web-develop');
+}
+
+/**
+ * Derive a feature branch from the user supplied name, accepting both `my feature` and `feature/my-feature`
+ */
+function generateBranchName(featureName: string): string {
+  const slug = featureName
+    .replace(/^feature\//, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 50);
+
+  return `feature/${slug || `ai-development-${Date.now().toString().slice(-6)}`}`;
+}
+
+/**
+ * Fill in repository and provider settings from the stored project when the client did not send them
+ */
+async function resolveDevelopmentContext(data: any): Promise<DevelopmentContext> {
+  let project = null;
+  if (data.projectId) {
+    try {
+      project = await storage.getProject(data.projectId);
+    } catch (error) {
+      console.warn('Could not load project for development session:', error);
+    }
+  }
+
+  const repositoryUrl = data.repositoryUrl || project?.repositoryUrl;
+  if (!repositoryUrl) {
+    throw new ValidationError('Validation failed', ['repositoryUrl: Repository URL required']);
   }
 
+  return {
+    projectId: data.projectId || project?.id || repositoryUrl.split('/').pop(),
+    repositoryUrl,
+    aiProvider: data.aiProvider || project?.aiProvider || 'anthropic',
+    agentMode: project?.agentMode,
+    orchestrationStrategy: data.orchestrationStrategy || project?.orchestrationStrategy,
+    baseBranch: data.baseBranch || 'main'
+  };
+}
+
+/**
+ * Main development workflow: plan, implement, commit and open a pull request
+ */
+export async function processDevelopmentAsync(
+  sessionId: string,
+  options: DevelopOptions,
+  context: DevelopmentContext
+): Promise<void> {
+  let sandbox: SessionSandbox | undefined;
   try {
-    const data = JSON.parse(event.body || '{}');
-    
-    // Validate required fields
-    if (!data.featureName || !data.taskDescription) {
+    // Phase 1: Feature branch
+    await sessionManager.updateSessionStatus(sessionId, 'processing', 5, 'Creating feature branch...');
+
+    let branchName = generateBranchName(options.featureName);
+    if (await githubService.branchExists(context.repositoryUrl, branchName)) {
+      branchName = `${branchName}-${Date.now()}`;
+      await logDevelopment(sessionId, 'info', `Branch exists, using unique name: ${branchName}`);
+    }
+
+    await githubService.createFeatureBranch(context.repositoryUrl, branchName, context.baseBranch);
+    await sessionManager.setBranchInfo(sessionId, branchName, options.featureName);
+    await logDevelopment(sessionId, 'success', `🌿 Created feature branch: ${branchName}`, {
+      repository: context.repositoryUrl,
+      baseBranch: context.baseBranch
+    });
+
+    // Phase 2: Planning
+    await sessionManager.updateSessionStatus(sessionId, 'analyzing', 15, 'Planning affected files...');
+
+    const mode = resolveAgentMode(options, context.agentMode);
+    await logDevelopment(sessionId, 'info',
+      `🧭 Running in ${mode} mode (${options.complexity} complexity, ${options.priority} priority)`);
+
+    const availableFiles = await githubService.listFilesRecursive(context.repositoryUrl, 'src', context.baseBranch);
+    sandbox = await createAgentSandbox(context.repositoryUrl, branchName, context.baseBranch);
+    const planner = new CustomAIAgent({
+      sessionId,
+      sandbox,
+      repositoryUrl: context.repositoryUrl,
+      provider: context.aiProvider,
+      model: 'default',
+      onModelRoute: route => sessionManager.recordModelRoute(sessionId, route),
+      projectId: context.projectId,
+      projectContext: {
+        componentRegistry: {},
+        dependencies: {},
+        framework: 'react',
+        structure: 'typescript'
+      }
+    });
+
+    const targetFiles = await planTargetFiles(planner, options, availableFiles);
+    await logDevelopment(sessionId, 'info', `📋 Planned changes for ${targetFiles.length} files`, { targetFiles });
+
+    const fileGroups = [];
+    for (const filePath of targetFiles) {
+      const exists = availableFiles.includes(filePath);
+      const originalContent = exists
+        ? await githubService.getFileContent(context.repositoryUrl, filePath, context.baseBranch)
+        : '';
+      fileGroups.push({
+        filePath,
+        originalContent,
+        changes: [createDevelopmentChange(`${sessionId}-${fileGroups.length}`, options, filePath)]
+      });
+      await sessionManager.updateFileProcessing(sessionId, filePath, { status: 'pending', changeCount: 1 });
+    }
+
+    // Phase 3: Implementation
+    await sessionManager.updateSessionStatus(sessionId, 'processing', 30, 'AI agent working on task...');
+
+    const aiProcessor = new AIFileProcessor(context.aiProvider, {
+      onModelRoute: route => sessionManager.recordModelRoute(sessionId, route),
+      projectId: context.projectId,
+      sessionId,
+      sandbox
+    });
+    const fileChanges: FileChange[] = [];
+
+    // Related code for the prompts; the task still runs without it
+    const repositoryIndex = await RepositoryIndex.build(context.repositoryUrl, context.baseBranch)
+      .catch(async error => {
+        await logDevelopment(sessionId, 'warning', `⚠️ Could not index the repository: ${error.message}`);
+        return undefined;
+      });
+
+    if (mode === 'orchestrated') {
+      const orchestrator = new EnhancedAgentOrchestrator(
+        sessionManager,
+        createUniformTeamConfig(context.aiProvider),
+        { sessionId, repositoryUrl: context.repositoryUrl, projectId: context.projectId, sandbox }
+      );
+      const result = await orchestrator.orchestrateProcessing(
+        sessionId,
+        context.repositoryUrl,
+        fileGroups.flatMap(group => group.changes),
+        fileGroups,
+        {
+          repositoryIndex,
+          // Unknown strategies fall back to hierarchical
+          strategy: context.orchestrationStrategy as OrchestrationStrategyType | undefined
+        }
+      );
+      const implementations = result.results.get('implementations') || [];
+
+      for (const [index, implementation] of implementations.entries()) {
+        const group = fileGroups[index];
+        if (!group) continue;
+
+        if (implementation.success && implementation.result?.updatedContent) {
+          fileChanges.push({
+            path: group.filePath,
+            content: implementation.result.updatedContent,
+            message: aiProcessor.generateCommitMessage(group.filePath, group.changes, implementation.result.explanation || '')
+          });
+          await sessionManager.updateFileProcessing(sessionId, group.filePath, { status: 'completed' });
+        } else {
+          await sessionManager.updateFileProcessing(sessionId, group.filePath, {
+            status: 'failed',
+            error: implementation.error || implementation.result?.error
+          });
+        }
+      }
+
+      if (!result.success) {
+        await logDevelopment(sessionId, 'warning',
+          `⚠️ Orchestration finished with ${result.failedTasks} failed tasks`, { errors: result.errors });
+      }
+    } else {
+      let processedCount = 0;
+      for (const group of fileGroups) {
+        const startTime = Date.now();
+        await sessionManager.updateFileProcessing(sessionId, group.filePath, { status: 'processing' });
+
+        const result = await aiProcessor.processFileChanges(group.filePath, group.originalContent, group.changes, 1, {
+          repositoryIndex
+        });
+        if (result.success) {
+          fileChanges.push({
+            path: group.filePath,
+            content: result.updatedContent,
+            message: aiProcessor.generateCommitMessage(group.filePath, group.changes, result.explanation)
+          });
+          await sessionManager.updateFileProcessing(sessionId, group.filePath, {
+            status: 'completed',
+            processingTime: Date.now() - startTime,
+            outputMode: result.outputMode,
+            hunks: result.hunks
+          });
+          await logDevelopment(sessionId, 'success', `✅ Implemented changes in ${group.filePath}`);
+        } else {
+          await sessionManager.updateFileProcessing(sessionId, group.filePath, {
+            status: 'failed',
+            error: result.error
+          });
+          await logDevelopment(sessionId, 'error', `❌ Failed to process ${group.filePath}: ${result.error}`);
+        }
+
+        processedCount++;
+        const progress = 30 + (processedCount / fileGroups.length) * 40;
+        await sessionManager.updateSessionStatus(sessionId, 'processing', progress,
+          `Processed ${processedCount}/${fileGroups.length} files`);
+      }
+    }
+
+    if (fileChanges.length === 0) {
+      throw new Error('The AI agent did not produce any file changes');
+    }
+
+    // Phase 4: Commit
+    await sessionManager.updateSessionStatus(sessionId, 'committing', 75, 'Committing changes to GitHub...');
+
+    const [commit] = await githubService.commitChanges(context.repositoryUrl, branchName, fileChanges, {
+      mode: 'atomic',
+      message: `feat: ${options.featureName}\n\n${options.taskDescription}\n\nFiles updated:\n${fileChanges.map(fc => `- ${fc.path}`).join('\n')}`
+    });
+    await sessionManager.addCommit(sessionId, {
+      sha: commit.sha,
+      message: commit.message,
+      url: commit.url,
+      files: commit.files
+    });
+    await logDevelopment(sessionId, 'success', `📝 Committed ${commit.files.length} files to ${branchName}`);
+
+    // Phase 5: Pull request
+    await sessionManager.updateSessionStatus(sessionId, 'pr_creating', 90, 'Creating pull request...');
+
+    const prInfo = await githubService.createPullRequest(
+      context.repositoryUrl,
+      branchName,
+      `AI Feature: ${options.featureName}`,
+      generatePullRequestBody(sessionId, options, mode, fileChanges),
+      context.baseBranch
+    );
+    await sessionManager.setPullRequestInfo(sessionId, prInfo.htmlUrl, prInfo.number);
+    await logDevelopment(sessionId, 'success', `🔀 Pull Request created: #${prInfo.number}`, {
+      prUrl: prInfo.htmlUrl,
+      prNumber: prInfo.number
+    });
+
+    await sessionManager.setCompleted(sessionId);
+    await logDevelopment(sessionId, 'success', '🎉 Development session completed!');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Development workflow failed:', error);
+    await logDevelopment(sessionId, 'error', `❌ Development failed: ${errorMessage}`);
+    await sessionManager.setError(sessionId, errorMessage);
+  } finally {
+    await sandbox?.dispose();
+  }
+}
+
+function generatePullRequestBody(
+  sessionId: string,
+  options: DevelopOptions,
+  mode: string,
+  fileChanges: FileChange[]
+): string {
+  return `## 🤖 AI-Generated Feature
+
+${options.taskDescription}
+
+### Details
+- **Complexity:** ${options.complexity}
+- **Priority:** ${options.priority}
+- **Agent mode:** ${mode}
+
+### Files Changed
+${fileChanges.map(fc => `- \`${fc.path}\``).join('\n')}
+
+Session ID: ${sessionId}`;
+}
+
+/**
+ * Main handler function
+ */
+export const handler: Handler = async (event: HandlerEvent, context: HandlerContext) => {
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  try {
+    // Handle GET request for session status
+    if (event.httpMethod === 'GET') {
+      const pathParts = event.path.split('/');
+      const sessionId = pathParts[pathParts.length - 1];
+
+      if (!sessionId || sessionId === 'web-develop' || sessionId === 'develop') {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ error: 'Session ID required' })
+        };
+      }
+
+      const sessionSummary = await sessionManager.getSessionSummary(sessionId);
+      if (!sessionSummary) {
+        return {
+          statusCode: 404,
+          headers,
+          body: JSON.stringify({ error: 'Session not found' })
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(sessionSummary)
+      };
+    }
+
+    if (event.httpMethod !== 'POST') {
       return {
-        statusCode: 400,
-        body: JSON.stringify({ 
-          error: 'Missing required fields',
-          required: ['featureName', 'taskDescription']
-        })
+        statusCode: 405,
+        headers,
+        body: JSON.stringify({ error: 'Method not allowed' })
       };
     }
 
-    // For now, return a placeholder response since development workflow
-    // requires more complex implementation
-    const logs = [
-      '🚀 Starting development session...',
-      `📝 Feature: ${data.featureName}`,
-      `📊 Complexity: ${data.complexity || 'medium'}`,
-      `⚡ Priority: ${data.priority || 'medium'}`,
-      `🤖 Agent Mode: ${data.preferredMode || 'auto'}`,
-      '⚠️ Development workflow not yet implemented in web version',
-      '💡 Use CLI for full development capabilities: `pnpm run dev develop`'
-    ];
+    const data = JSON.parse(event.body || '{}');
+
+    let options: DevelopOptions;
+    let developmentContext: DevelopmentContext;
+    try {
+      options = validateInput(DevelopCommandSchema, {
+        featureName: data.featureName,
+        taskDescription: data.taskDescription,
+        complexity: data.complexity || undefined,
+        priority: data.priority || undefined,
+        preferredMode: data.preferredMode || undefined,
+        maxIterations: data.maxIterations ? Number(data.maxIterations) : undefined
+      }) as DevelopOptions;
+      developmentContext = await resolveDevelopmentContext(data);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return {
+          statusCode: 400,
+          headers,
+          body: JSON.stringify({ success: false, error: error.message, details: error.errors })
+        };
+      }
+      throw error;
+    }
+
+    const session = await sessionManager.createSession(
+      `develop_${Date.now()}`,
+      developmentContext.projectId,
+      developmentContext.repositoryUrl,
+      [],
+      {
+        aiProvider: developmentContext.aiProvider,
+        baseBranch: developmentContext.baseBranch,
+        autoTest: false,
+        sessionType: 'DEVELOPMENT'
+      }
+    );
+
+    await logDevelopment(session.id, 'info', `🚀 Development session started: ${options.featureName}`, {
+      complexity: options.complexity,
+      priority: options.priority,
+      preferredMode: options.preferredMode
+    });
+
+    // The workflow outlives this request, so it runs in the background function
+    const submission: DevelopmentSubmission = { options, context: developmentContext };
+    await sessionManager.setSubmission(session.id, submission);
+    try {
+      await dispatchBackgroundFunction('web-develop-background', session.id);
+    } catch (error) {
+      console.error('Development processing error:', error);
+      await sessionManager.setError(session.id, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
 
     return {
       statusCode: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      },
+      headers,
       body: JSON.stringify({
-        success: false,
-        error: 'Development workflow not yet implemented in web version. Please use CLI.',
-        logs,
-        featureBranch: data.featureName,
-        pullRequestUrl: null
+        success: true,
+        sessionId: session.id,
+        message: 'Development session started',
+        statusUrl: `${process.env.URL}/api/develop/${session.id}`
       })
     };
-
   } catch (error: any) {
     console.error('Web develop error:', error);
     return {
       statusCode: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      },
+      headers,
       body: JSON.stringify({
         success: false,
-        error: error.message || 'Internal server error',
-        logs: [`❌ Unexpected error: ${error.message}`]
+        error: error.message || 'Internal server error'
       })
     };
   }
-};
\ No newline at end of file
+};
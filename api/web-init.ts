@@ -269,31 +269,29 @@ async function processInitializationAsync(sessionId: string, data: any) {
     const result = await workflow.initializeProject(options);
 
     if (result.success) {
+      // Store results in session before completing it, since subscribers stop listening once it completes
+      await sessionManager.setInitializationResult(sessionId, {
+        repoUrl: result.repoUrl,
+        netlifyUrl: result.netlifyProject?.ssl_url,
+        mongodbDatabase: result.mongodbProject?.databaseName
+      });
+
+      // Log URLs explicitly
+      if (result.repoUrl) {
+        await sessionManager.addLog(sessionId, 'success', `📁 GitHub Repository: ${result.repoUrl}`);
+      }
+      if (result.netlifyProject?.ssl_url) {
+        await sessionManager.addLog(sessionId, 'success', `🌐 Netlify URL: ${result.netlifyProject.ssl_url}`);
+      }
+      if (result.mongodbProject?.databaseName) {
+        await sessionManager.addLog(sessionId, 'success', `🍃 MongoDB Database: ${result.mongodbProject.databaseName}`);
+      }
+      if (result.mongodbProject?.connectionString) {
+        await sessionManager.addLog(sessionId, 'success', `🔗 MongoDB Connection: ${result.mongodbProject.connectionString}`);
+      }
+
       await sessionManager.updateSessionStatus(sessionId, 'completed', 100, 'Project initialization completed!');
       await sessionManager.addLog(sessionId, 'success', 'Project initialized successfully');
-      
-      // Store results in session
-      const session = await sessionManager.getSession(sessionId);
-      if (session) {
-        session.repoUrl = result.repoUrl;
-        session.netlifyUrl = result.netlifyProject?.ssl_url;
-        session.mongodbDatabase = result.mongodbProject?.databaseName;
-        await sessionManager.setSession(sessionId, session);
-        
-        // Log URLs explicitly
-        if (result.repoUrl) {
-          await sessionManager.addLog(sessionId, 'success', `📁 GitHub Repository: ${result.repoUrl}`);
-        }
-        if (result.netlifyProject?.ssl_url) {
-          await sessionManager.addLog(sessionId, 'success', `🌐 Netlify URL: ${result.netlifyProject.ssl_url}`);
-        }
-        if (result.mongodbProject?.databaseName) {
-          await sessionManager.addLog(sessionId, 'success', `🍃 MongoDB Database: ${result.mongodbProject.databaseName}`);
-        }
-        if (result.mongodbProject?.connectionString) {
-          await sessionManager.addLog(sessionId, 'success', `🔗 MongoDB Connection: ${result.mongodbProject.connectionString}`);
-        }
-      }
     } else {
       await sessionManager.setError(sessionId, result.error || 'Project initialization failed');
       await sessionManager.addLog(sessionId, 'error', result.error || 'Initialization failed');
@@ -0,0 +1,128 @@
+// cli/commands/compare-agents.ts - Benchmark AI providers on the same task
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../../src/utils/config';
+import type { ComparisonResult, ProjectConfig } from '../../src/types/config';
+import { createProjectAgent, requireProjectConfig, PROVIDERS } from '../utils/project-agent';
+
+export async function compareAgentsCommand(cliOptions: { providers?: string } = {}): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = await requireProjectConfig(configManager);
+
+  const requested = cliOptions.providers
+    ? cliOptions.providers.split(',').map(p => p.trim()).filter(Boolean)
+    : [...PROVIDERS];
+
+  const unknown = requested.filter(p => !PROVIDERS.includes(p as any));
+  if (unknown.length > 0) {
+    console.error(chalk.red(`❌ Unknown providers: ${unknown.join(', ')}`));
+    process.exit(1);
+  }
+
+  const providers = requested.filter(provider => {
+    try {
+      configManager.getApiKey(provider);
+      return true;
+    } catch {
+      console.log(chalk.yellow(`⚠️ Skipping ${provider}: no API key configured`));
+      return false;
+    }
+  }) as ProjectConfig['aiProvider'][];
+
+  if (providers.length < 2) {
+    console.error(chalk.red('❌ At least two providers with API keys are needed for a comparison'));
+    process.exit(1);
+  }
+
+  const { task } = await inquirer.prompt([{
+    type: 'input',
+    name: 'task',
+    message: 'Task to compare the providers on:',
+    validate: (input: string) => input.trim().length >= 10 || 'Describe the task in at least 10 characters'
+  }]);
+
+  const results = new Map<string, any>();
+  const speed = new Map<string, number>();
+
+  for (const provider of providers) {
+    const spinner = ora(`Running ${provider}...`).start();
+    const agent = await createProjectAgent(configManager, config, {
+      sessionId: `compare-${provider}`,
+      sandbox: null,
+      provider,
+      model: provider === config.aiProvider ? config.model : undefined
+    });
+
+    const startTime = Date.now();
+    try {
+      const output = await agent.processRequest(task);
+      const duration = Date.now() - startTime;
+      results.set(provider, { success: true, output, duration });
+      speed.set(provider, duration);
+      spinner.succeed(`${provider} finished in ${(duration / 1000).toFixed(1)}s`);
+    } catch (error) {
+      results.set(provider, { success: false, error: error instanceof Error ? error.message : String(error) });
+      spinner.fail(`${provider} failed`);
+    }
+  }
+
+  const successful = Array.from(results.entries()).filter(([, r]) => r.success);
+  if (successful.length === 0) {
+    console.error(chalk.red('❌ All providers failed'));
+    process.exit(1);
+  }
+
+  // Let the project's configured provider judge the answers
+  const spinner = ora('Scoring results...').start();
+  const judge = await createProjectAgent(configManager, config, { sessionId: 'compare-judge', sandbox: null });
+  const quality = new Map<string, number>();
+  const creativity = new Map<string, number>();
+
+  try {
+    const judgement = await judge.processRequest(`Score these answers to the same development task from 1 to 10.
+
+Task: ${task}
+
+${successful.map(([provider, r]) => `### ${provider}\n${r.output.slice(0, 4000)}`).join('\n\n')}
+
+Return ONLY JSON: {"<provider>": {"quality": number, "creativity": number}}`);
+    const match = judgement.match(/\{[\s\S]*\}/);
+    const scores = match ? JSON.parse(match[0]) : {};
+    for (const [provider] of successful) {
+      quality.set(provider, Number(scores[provider]?.quality) || 0);
+      creativity.set(provider, Number(scores[provider]?.creativity) || 0);
+    }
+    spinner.succeed('Results scored');
+  } catch (error) {
+    spinner.warn('Could not score results, comparing on speed only');
+  }
+
+  const comparison: ComparisonResult = {
+    results,
+    bestApproach: pickBestApproach(successful.map(([provider]) => provider), speed, quality),
+    comparison: { speed, quality, creativity }
+  };
+
+  console.log(chalk.bold('\n📊 Comparison\n'));
+  console.log(chalk.gray(`  ${'Provider'.padEnd(12)}${'Time'.padEnd(10)}${'Quality'.padEnd(10)}Creativity`));
+  for (const provider of providers) {
+    const result = results.get(provider);
+    if (!result?.success) {
+      console.log(`  ${provider.padEnd(12)}${chalk.red('failed')}`);
+      continue;
+    }
+    const time = `${((speed.get(provider) || 0) / 1000).toFixed(1)}s`;
+    console.log(`  ${provider.padEnd(12)}${time.padEnd(10)}${String(quality.get(provider) ?? '-').padEnd(10)}${creativity.get(provider) ?? '-'}`);
+  }
+  console.log(chalk.bold.green(`\n🏆 Best approach: ${comparison.bestApproach}\n`));
+}
+
+/**
+ * Prefer the highest quality score, breaking ties with speed
+ */
+function pickBestApproach(providers: string[], speed: Map<string, number>, quality: Map<string, number>): string {
+  return [...providers].sort((a, b) =>
+    (quality.get(b) || 0) - (quality.get(a) || 0) || (speed.get(a) || 0) - (speed.get(b) || 0)
+  )[0];
+}
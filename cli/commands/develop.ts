@@ -0,0 +1,263 @@
+// cli/commands/develop.ts - AI-powered feature development from the CLI
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ConfigManager } from '../../src/utils/config';
+import { EnhancedSessionManager, ProcessingLog } from '../../api/shared/enhanced-session-manager';
+import { EnhancedAgentOrchestrator } from '../../api/shared/enhanced-agent-orchestrator';
+import {
+  createDevelopmentChange,
+  createUniformTeamConfig,
+  planTargetFiles,
+  resolveAgentMode
+} from '../../api/shared/development-planner';
+import { DevelopCommandSchema, ValidationError, validateInput } from '../../src/utils/validation';
+import type { DevelopOptions, ProjectConfig } from '../../src/types/config';
+import { LocalSandbox } from '../utils/local-sandbox';
+import { createProjectAgent, requireProjectConfig, slugify } from '../utils/project-agent';
+
+interface DevelopCliOptions {
+  feature?: string;
+  complexity?: string;
+  mode?: string;
+  priority?: string;
+}
+
+const BASE_BRANCH = 'main';
+
+export async function developCommand(cliOptions: DevelopCliOptions = {}): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = await requireProjectConfig(configManager);
+
+  console.log(chalk.bold.cyan(`\n🤖 Geenius development session for ${config.name}\n`));
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'input',
+      name: 'featureName',
+      message: 'Feature name:',
+      when: () => !cliOptions.feature
+    },
+    {
+      type: 'editor',
+      name: 'taskDescription',
+      message: 'Describe the task for the AI agent:'
+    },
+    {
+      type: 'list',
+      name: 'complexity',
+      message: 'Task complexity:',
+      choices: ['simple', 'medium', 'complex'],
+      default: 'medium',
+      when: () => !cliOptions.complexity
+    },
+    {
+      type: 'list',
+      name: 'priority',
+      message: 'Task priority:',
+      choices: ['low', 'medium', 'high', 'urgent'],
+      default: 'medium',
+      when: () => !cliOptions.priority
+    }
+  ]);
+
+  let options: DevelopOptions;
+  try {
+    options = validateInput(DevelopCommandSchema, {
+      featureName: cliOptions.feature || answers.featureName,
+      taskDescription: (answers.taskDescription || '').trim(),
+      complexity: cliOptions.complexity || answers.complexity,
+      priority: cliOptions.priority || answers.priority,
+      preferredMode: cliOptions.mode || 'auto'
+    }) as DevelopOptions;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      error.errors.forEach(e => console.error(chalk.red(`   - ${e}`)));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  // Work in the current checkout, or clone the project next to its config
+  const hasCheckout = await fs.access(join(process.cwd(), '.git')).then(() => true, () => false);
+  const workspace = hasCheckout ? process.cwd() : join(process.cwd(), config.name);
+  const sandbox = new LocalSandbox(workspace, config.repoUrl, BASE_BRANCH);
+
+  const spinner = ora('Preparing workspace...').start();
+  try {
+    spinner.text = await sandbox.gitClone(config.repoUrl, BASE_BRANCH);
+    spinner.succeed(`Workspace ready: ${workspace}`);
+  } catch (error) {
+    spinner.fail('Failed to prepare workspace');
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  const sessionManager = new EnhancedSessionManager();
+  const session = await sessionManager.createSession(
+    `cli_${Date.now()}`,
+    config.projectId || config.name,
+    config.repoUrl,
+    [],
+    {
+      aiProvider: config.aiProvider,
+      baseBranch: BASE_BRANCH,
+      autoTest: true,
+      sessionType: 'DEVELOPMENT'
+    }
+  );
+  const sessionId = session.id;
+
+  const report = async (level: ProcessingLog['level'], message: string, metadata?: Record<string, any>) => {
+    const color = level === 'error' ? chalk.red : level === 'warning' ? chalk.yellow : level === 'success' ? chalk.green : chalk.white;
+    console.log(color(message));
+    await sessionManager.addLog(sessionId, level, message, metadata);
+  };
+
+  try {
+    const branchName = `feature/${slugify(options.featureName)}`;
+    await sandbox.gitCreateBranch(branchName);
+    await sessionManager.setBranchInfo(sessionId, branchName, options.featureName);
+
+    const mode = resolveAgentMode(options, config.agentMode);
+    await report('info', `🧭 Running in ${mode} mode (${options.complexity} complexity, ${options.priority} priority)`);
+    await sessionManager.updateSessionStatus(sessionId, 'processing', 20, 'AI agent working on task...');
+
+    const agent = await createProjectAgent(configManager, config, { sessionId, sandbox });
+
+    if (mode === 'single') {
+      await agent.initialize();
+      const result = await agent.processTask(buildTaskPrompt(options, branchName), {
+        reasoning: true,
+        maxSteps: options.maxIterations || 10,
+        onProgress: async (step) => report('info', `🔧 ${step}`),
+        memoryTask: `Implement the feature "${options.featureName}"`
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || 'AI agent failed to complete the task');
+      }
+      await report('success', `✅ Agent finished after ${result.executionSteps.length} steps`);
+    } else {
+      await runOrchestrated(sessionManager, sessionId, config, options, sandbox, agent, report);
+    }
+
+    // Commit whatever the agent changed in the working tree
+    await sessionManager.updateSessionStatus(sessionId, 'committing', 70, 'Committing changes...');
+    const changedFiles = await sandbox.changedFiles();
+    if (changedFiles.length === 0) {
+      throw new Error('The AI agent did not change any files');
+    }
+
+    const commitMessage = `feat: ${options.featureName}\n\n${options.taskDescription}`;
+    const sha = await sandbox.gitCommit(commitMessage);
+    await sessionManager.addCommit(sessionId, {
+      sha,
+      message: commitMessage,
+      url: `${config.repoUrl}/commit/${sha}`,
+      files: changedFiles
+    });
+
+    await sessionManager.updateSessionStatus(sessionId, 'testing', 80, 'Running tests...');
+    const testResult = await sandbox.runTests();
+    const testsPassed = testResult.exitCode === 0;
+    await report(testsPassed ? 'success' : 'warning',
+      testsPassed ? '🧪 Tests passed' : '⚠️ Tests failed, review the pull request carefully',
+      { output: `${testResult.stdout}${testResult.stderr}`.slice(-2000) });
+
+    await sessionManager.updateSessionStatus(sessionId, 'pr_creating', 90, 'Creating pull request...');
+    const pr = await sandbox.createPullRequest(
+      `AI Feature: ${options.featureName}`,
+      `## 🤖 AI-Generated Feature\n\n${options.taskDescription}\n\n### Files Changed\n${changedFiles.map(f => `- \`${f}\``).join('\n')}\n\nSession ID: ${sessionId}`
+    );
+    await sessionManager.setPullRequestInfo(sessionId, pr.htmlUrl, pr.number);
+
+    await configManager.saveAgentMemory(config.name, await agent.exportMemory());
+    await sessionManager.setCompleted(sessionId);
+
+    console.log(chalk.bold.green('\n🎉 Development session completed!\n'));
+    console.log(`  ${chalk.gray('Branch:')}       ${branchName}`);
+    console.log(`  ${chalk.gray('Pull request:')} ${pr.htmlUrl}`);
+    console.log(`  ${chalk.gray('Session:')}      ${sessionId}\n`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await sessionManager.setError(sessionId, errorMessage);
+    console.error(chalk.red(`\n❌ Development session failed: ${errorMessage}`));
+    process.exit(1);
+  }
+}
+
+function buildTaskPrompt(options: DevelopOptions, branchName: string): string {
+  return `Implement the feature "${options.featureName}" in this repository.
+
+Task description:
+${options.taskDescription}
+
+Complexity: ${options.complexity}
+Priority: ${options.priority}
+
+The branch ${branchName} is already checked out. Read the relevant files, make the changes with write_file and
+run the tests. Do NOT commit or create a pull request yourself - that happens after you finish.`;
+}
+
+/**
+ * Plan the affected files with the project agent, then let the agent team implement them
+ */
+async function runOrchestrated(
+  sessionManager: EnhancedSessionManager,
+  sessionId: string,
+  config: ProjectConfig,
+  options: DevelopOptions,
+  sandbox: LocalSandbox,
+  planner: Awaited<ReturnType<typeof createProjectAgent>>,
+  report: (level: ProcessingLog['level'], message: string, metadata?: Record<string, any>) => Promise<void>
+): Promise<void> {
+  const files = await sandbox.listAllFiles('src');
+  const targetFiles = await planTargetFiles(planner, options, files);
+  await report('info', `📋 Planned changes for ${targetFiles.length} files`, { targetFiles });
+
+  const fileGroups = [];
+  for (const filePath of targetFiles) {
+    const originalContent = await sandbox.readFile(filePath).catch(() => '');
+    fileGroups.push({ filePath, originalContent, changes: [createDevelopmentChange(sessionId, options, filePath)] });
+  }
+
+  const orchestrator = new EnhancedAgentOrchestrator(
+    sessionManager,
+    createUniformTeamConfig(config.aiProvider, config.model),
+    { sessionId, repositoryUrl: config.repoUrl, projectId: config.projectId, sandbox }
+  );
+
+  const result = await orchestrator.orchestrateProcessing(
+    sessionId,
+    config.repoUrl,
+    fileGroups.flatMap(group => group.changes),
+    fileGroups,
+    {
+      strategy: config.orchestrationStrategy,
+      maxConcurrency: config.maxConcurrency,
+      crossValidation: config.crossValidation
+    }
+  );
+  const implementations = result.results.get('implementations') || [];
+
+  for (const [index, implementation] of implementations.entries()) {
+    const filePath = fileGroups[index]?.filePath;
+    if (filePath && implementation.success && implementation.result?.updatedContent) {
+      await sandbox.writeFile(filePath, implementation.result.updatedContent);
+      await sessionManager.updateFileProcessing(sessionId, filePath, { status: 'completed', changeCount: 1 });
+    } else if (filePath) {
+      await sessionManager.updateFileProcessing(sessionId, filePath, {
+        status: 'failed',
+        error: implementation.error || implementation.result?.error
+      });
+    }
+  }
+
+  if (!result.success) {
+    await report('warning', `⚠️ Orchestration finished with ${result.failedTasks} failed tasks`, { errors: result.errors });
+  }
+}
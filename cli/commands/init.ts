@@ -0,0 +1,153 @@
+// cli/commands/init.ts - Interactive project initialization
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ProjectWorkflow } from '../../src/utils/ProjectWorkflow';
+import { ConfigManager } from '../../src/utils/config';
+import { TemplateRegistry } from '../../src/services/template-registry';
+import { GitHubService } from '../../src/services/github';
+import { EnhancedSessionManager } from '../../api/shared/enhanced-session-manager';
+import { InitCommandSchema, ValidationError, validateInput } from '../../src/utils/validation';
+import { PROVIDERS } from '../utils/project-agent';
+
+export async function initCommand(): Promise<void> {
+  const configManager = new ConfigManager();
+
+  console.log(chalk.bold.cyan('\n🚀 Geenius - AI Development Agent Setup\n'));
+
+  if (await configManager.configExists()) {
+    const { overwrite } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'overwrite',
+      message: 'A project configuration already exists here. Overwrite it?',
+      default: false
+    }]);
+    if (!overwrite) {
+      console.log(chalk.gray('Initialization cancelled.'));
+      return;
+    }
+  }
+
+  if (!process.env.GITHUB_TOKEN) {
+    console.error(chalk.red('❌ GITHUB_TOKEN is required for repository operations.'));
+    process.exit(1);
+  }
+
+  // Load templates and GitHub accounts for the prompts
+  const spinner = ora('Loading templates and GitHub accounts...').start();
+  let templates;
+  let accounts;
+  try {
+    const templateRegistry = new TemplateRegistry(process.env.GITHUB_TOKEN);
+    const github = new GitHubService();
+    [templates, accounts] = await Promise.all([
+      templateRegistry.getAllTemplates(),
+      github.getAvailableAccounts()
+    ]);
+    spinner.succeed(`Loaded ${templates.length} templates`);
+  } catch (error) {
+    spinner.fail('Failed to load templates');
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'templateId',
+      message: 'Choose a template:',
+      choices: templates.map(t => ({ name: `${t.name} ${chalk.gray(`(${t.stack.join(', ')})`)}`, value: t.id }))
+    },
+    {
+      type: 'input',
+      name: 'projectName',
+      message: 'Project name:',
+      validate: (input: string) => /^[a-zA-Z0-9-_]+$/.test(input) || 'Use only letters, numbers, hyphens and underscores'
+    },
+    {
+      type: 'list',
+      name: 'githubOrg',
+      message: 'GitHub account:',
+      choices: accounts.map(a => ({ name: `${a.login} ${chalk.gray(`(${a.type})`)}`, value: a.login }))
+    },
+    {
+      type: 'list',
+      name: 'aiProvider',
+      message: 'AI provider:',
+      choices: PROVIDERS
+    },
+    {
+      type: 'input',
+      name: 'model',
+      message: 'Model (leave empty for provider default):'
+    },
+    {
+      type: 'list',
+      name: 'agentMode',
+      message: 'Agent mode:',
+      choices: [
+        { name: 'Single agent', value: 'single' },
+        { name: 'Orchestrated team', value: 'orchestrated' },
+        { name: 'Hybrid (picks per task)', value: 'hybrid' }
+      ]
+    },
+    {
+      type: 'list',
+      name: 'orchestrationStrategy',
+      message: 'Orchestration strategy:',
+      choices: ['hierarchical', 'sequential', 'parallel', 'collaborative'],
+      when: (current: any) => current.agentMode !== 'single'
+    },
+    {
+      type: 'confirm',
+      name: 'autoSetup',
+      message: 'Set up Netlify deployment automatically?',
+      default: true
+    }
+  ]);
+
+  let options;
+  try {
+    options = validateInput(InitCommandSchema, {
+      ...answers,
+      model: answers.model || undefined
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      error.errors.forEach(e => console.error(chalk.red(`   - ${e}`)));
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  // Track the CLI run as a regular initialization session
+  const sessionManager = new EnhancedSessionManager();
+  const sessionId = sessionManager.generateSessionId('INIT');
+  await sessionManager.createInitializationSession(sessionId, options);
+
+  const workflow = new ProjectWorkflow(async (level, message) => {
+    await sessionManager.addLog(sessionId, level as any, message);
+  });
+
+  await sessionManager.updateSessionStatus(sessionId, 'processing', 10, 'Running project workflow...');
+  const result = await workflow.initializeProject(options);
+
+  if (!result.success) {
+    await sessionManager.setError(sessionId, result.error || 'Project initialization failed');
+    console.error(chalk.red(`\n❌ Initialization failed: ${result.error}`));
+    process.exit(1);
+  }
+
+  await sessionManager.setCompleted(sessionId);
+
+  console.log(chalk.bold.green('\n🎉 Project initialized!\n'));
+  console.log(`  ${chalk.gray('Repository:')} ${result.repoUrl}`);
+  if (result.netlifyProject?.ssl_url) {
+    console.log(`  ${chalk.gray('Netlify:')}    ${result.netlifyProject.ssl_url}`);
+  }
+  if (result.mongodbProject?.databaseName) {
+    console.log(`  ${chalk.gray('MongoDB:')}    ${result.mongodbProject.databaseName}`);
+  }
+  console.log(chalk.gray(`\nNext: run ${chalk.cyan('geenius develop')} from this directory to start building features.\n`));
+}
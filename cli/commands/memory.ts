@@ -0,0 +1,60 @@
+// cli/commands/memory.ts - Export, import and clear agent memory
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import { ConfigManager } from '../../src/utils/config';
+import { createProjectAgent, requireProjectConfig } from '../utils/project-agent';
+
+export async function memoryCommand(cliOptions: { export?: boolean; import?: string; clear?: boolean } = {}): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = await requireProjectConfig(configManager);
+
+  if (cliOptions.clear) {
+    const { confirmed } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirmed',
+      message: `Clear all stored agent memory for ${config.name}?`,
+      default: false
+    }]);
+    if (confirmed) {
+      await configManager.clearAgentMemory(config.name);
+      console.log(chalk.green('✅ Agent memory cleared'));
+    }
+    return;
+  }
+
+  if (cliOptions.import) {
+    const memoryData = await fs.readFile(cliOptions.import, 'utf-8');
+    // Importing through the agent validates the format before we store it
+    const agent = await createProjectAgent(configManager, config, { sessionId: 'cli-memory', sandbox: null });
+    try {
+      await agent.importMemory(memoryData);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+    await configManager.saveAgentMemory(config.name, await agent.exportMemory());
+    console.log(chalk.green(`✅ Imported agent memory from ${cliOptions.import}`));
+    return;
+  }
+
+  const agent = await createProjectAgent(configManager, config, { sessionId: 'cli-memory', sandbox: null });
+
+  if (cliOptions.export) {
+    const exportPath = `${config.name}-memory-${Date.now()}.json`;
+    await fs.writeFile(exportPath, await agent.exportMemory());
+    console.log(chalk.green(`✅ Agent memory exported to ${exportPath}`));
+    return;
+  }
+
+  const stats = await agent.getMemoryStats();
+  const agentStats = await agent.getStats();
+  console.log(chalk.bold.cyan(`\n🧠 Agent memory for ${config.name}\n`));
+  console.log(`  ${chalk.gray('Conversation entries:')} ${stats.conversationLength}`);
+  console.log(`  ${chalk.gray('Completed tasks:')}      ${stats.taskHistoryLength}`);
+  console.log(`  ${chalk.gray('Code patterns:')}        ${stats.codePatternsLength}`);
+  if (stats.taskHistoryLength > 0) {
+    console.log(`  ${chalk.gray('Success rate:')}         ${Math.round(agentStats.successRate * 100)}%`);
+  }
+  console.log(chalk.gray('\nUse --export, --import <file> or --clear to manage memory.\n'));
+}
@@ -0,0 +1,76 @@
+// cli/commands/status.ts - Project and agent status overview
+import chalk from 'chalk';
+import { ConfigManager } from '../../src/utils/config';
+import { storage } from '../../src/services/redis-storage';
+import { EnhancedSessionManager } from '../../api/shared/enhanced-session-manager';
+import { createProjectAgent, requireProjectConfig, PROVIDERS } from '../utils/project-agent';
+
+export async function statusCommand(): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = await requireProjectConfig(configManager);
+
+  console.log(chalk.bold.cyan(`\n📊 ${config.name}\n`));
+  console.log(`  ${chalk.gray('Template:')}      ${config.template}`);
+  console.log(`  ${chalk.gray('Repository:')}    ${config.repoUrl}`);
+  console.log(`  ${chalk.gray('AI provider:')}   ${config.aiProvider}${config.model ? ` (${config.model})` : ''}`);
+  console.log(`  ${chalk.gray('Agent mode:')}    ${config.agentMode}${config.orchestrationStrategy ? ` / ${config.orchestrationStrategy}` : ''}`);
+  console.log(`  ${chalk.gray('Last updated:')}  ${config.updatedAt}`);
+
+  // Stored project data (deployment URLs etc.)
+  if (config.projectId) {
+    try {
+      const project = await storage.getProject(config.projectId);
+      if (project) {
+        console.log(`  ${chalk.gray('Netlify URL:')}   ${project.netlifyUrl || '-'}`);
+        console.log(`  ${chalk.gray('MongoDB:')}       ${project.mongodbDatabase || '-'}`);
+        console.log(`  ${chalk.gray('Status:')}        ${project.status}`);
+      }
+    } catch (error) {
+      console.log(chalk.yellow(`  ⚠️ Could not load project data: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  // Provider availability
+  console.log(chalk.bold('\n🔑 Providers'));
+  for (const provider of PROVIDERS) {
+    const available = !!configManager.getOptionalEnvVar(getApiKeyEnvName(provider));
+    const marker = provider === config.aiProvider ? chalk.cyan(' (active)') : '';
+    console.log(`  ${available ? chalk.green('✅') : chalk.red('❌')} ${provider}${marker}`);
+  }
+
+  // Agent memory
+  const agent = await createProjectAgent(configManager, config, { sessionId: 'cli-status', sandbox: null });
+  const memoryStats = await agent.getMemoryStats();
+  console.log(chalk.bold('\n🧠 Agent memory'));
+  console.log(`  ${chalk.gray('Conversation entries:')} ${memoryStats.conversationLength}`);
+  console.log(`  ${chalk.gray('Completed tasks:')}      ${memoryStats.taskHistoryLength}`);
+  console.log(`  ${chalk.gray('Code patterns:')}        ${memoryStats.codePatternsLength}`);
+  if (memoryStats.lastActivity) {
+    console.log(`  ${chalk.gray('Last activity:')}        ${new Date(memoryStats.lastActivity).toLocaleString()}`);
+  }
+
+  // Recent sessions for this project, from the project's session index
+  const sessionManager = new EnhancedSessionManager();
+  const projectId = config.projectId || config.name;
+  const summaries = (await sessionManager.getProjectSessions([projectId])).get(projectId) || [];
+
+  console.log(chalk.bold('\n🕒 Recent sessions'));
+  if (summaries.length === 0) {
+    console.log(chalk.gray('  No sessions found'));
+  }
+
+  summaries
+    .slice(0, 5)
+    .forEach(summary => {
+      const color = summary.status === 'completed' ? chalk.green : summary.status === 'failed' ? chalk.red : chalk.yellow;
+      console.log(`  ${color(summary.status.padEnd(10))} ${summary.id} ${chalk.gray(new Date(summary.startTime).toLocaleString())}`);
+      if (summary.prUrl) console.log(`             ${chalk.gray('PR:')} ${summary.prUrl}`);
+      if (summary.error) console.log(`             ${chalk.red(summary.error)}`);
+    });
+
+  console.log('');
+}
+
+function getApiKeyEnvName(provider: string): string {
+  return `${provider.toUpperCase()}_API_KEY`;
+}
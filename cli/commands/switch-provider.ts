@@ -0,0 +1,44 @@
+// cli/commands/switch-provider.ts - Change the AI provider of an existing project
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { ConfigManager } from '../../src/utils/config';
+import type { ProjectConfig } from '../../src/types/config';
+import { requireProjectConfig, PROVIDERS } from '../utils/project-agent';
+
+export async function switchProviderCommand(): Promise<void> {
+  const configManager = new ConfigManager();
+  const config = await requireProjectConfig(configManager);
+
+  console.log(chalk.gray(`Current provider: ${config.aiProvider}${config.model ? ` (${config.model})` : ''}`));
+
+  const { provider, model } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'provider',
+      message: 'New AI provider:',
+      choices: PROVIDERS.map(p => ({ name: p === config.aiProvider ? `${p} (current)` : p, value: p })),
+      default: config.aiProvider
+    },
+    {
+      type: 'input',
+      name: 'model',
+      message: 'Model (leave empty for provider default):'
+    }
+  ]);
+
+  try {
+    configManager.getApiKey(provider);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  const updatedConfig: ProjectConfig = {
+    ...config,
+    aiProvider: provider,
+    model: model || undefined
+  };
+  await configManager.saveConfig(updatedConfig);
+
+  console.log(chalk.green(`✅ Switched ${config.name} to ${provider}${model ? ` (${model})` : ''}`));
+}
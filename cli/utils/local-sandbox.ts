@@ -0,0 +1,178 @@
+// cli/utils/local-sandbox.ts - Sandbox backed by the local working tree for CLI agents
+import { promises as fs } from 'fs';
+import { join, resolve, relative, dirname } from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { EnhancedGitHubService, PullRequestInfo } from '../../src/services/enhanced-github-service';
+import { AgentSandbox, CommandResult, SandboxError, parseCommand, validateCloneTarget } from '../../api/shared/workspace-sandbox';
+
+const execFileAsync = promisify(execFile);
+
+const IGNORED_ENTRIES = new Set(['node_modules', '.git', 'dist', '.netlify', '.next', '.nuxt']);
+const COMMAND_TIMEOUT = 120000; // 2 minutes
+const MAX_OUTPUT_LENGTH = 10000;
+
+export class LocalSandbox implements AgentSandbox {
+  private root: string;
+  private repoUrl: string;
+  private baseBranch: string;
+  private currentBranch?: string;
+
+  constructor(root: string, repoUrl: string, baseBranch: string = 'main') {
+    this.root = resolve(root);
+    this.repoUrl = repoUrl;
+    this.baseBranch = baseBranch;
+  }
+
+  /**
+   * Resolve a sandbox path and make sure it stays inside the working tree
+   */
+  private resolvePath(path: string): string {
+    const fullPath = resolve(this.root, path);
+    if (relative(this.root, fullPath).startsWith('..')) {
+      throw new Error(`Path ${path} is outside of the project directory`);
+    }
+    return fullPath;
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout, stderr } = await execFileAsync('git', args, {
+      cwd: this.root,
+      timeout: COMMAND_TIMEOUT
+    });
+    return (stdout || stderr).trim();
+  }
+
+  async readFile(path: string): Promise<string> {
+    return await fs.readFile(this.resolvePath(path), 'utf-8');
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    const fullPath = this.resolvePath(path);
+    await fs.mkdir(dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  }
+
+  async listFiles(path: string = '.'): Promise<string[]> {
+    const entries = await fs.readdir(this.resolvePath(path), { withFileTypes: true });
+    return entries
+      .filter(entry => !IGNORED_ENTRIES.has(entry.name))
+      .map(entry => {
+        const entryPath = join(path, entry.name);
+        return entry.isDirectory() ? `${entryPath}/` : entryPath;
+      });
+  }
+
+  /**
+   * Recursively list all source files, used for planning which files to touch
+   */
+  async listAllFiles(path: string = '.', maxFiles: number = 500): Promise<string[]> {
+    const files: string[] = [];
+    const queue = [path];
+
+    while (queue.length > 0 && files.length < maxFiles) {
+      const current = queue.shift()!;
+      for (const entry of await this.listFiles(current)) {
+        if (entry.endsWith('/')) {
+          queue.push(entry.slice(0, -1));
+        } else {
+          files.push(entry);
+        }
+      }
+    }
+
+    return files.slice(0, maxFiles);
+  }
+
+  async gitClone(repositoryUrl: string, branch: string): Promise<string> {
+    validateCloneTarget(repositoryUrl, branch);
+
+    try {
+      await fs.access(join(this.root, '.git'));
+      await this.git(['fetch', 'origin', branch]);
+      return `Repository already present, fetched ${branch}`;
+    } catch {
+      await execFileAsync('git', ['clone', '--branch', branch, '--', repositoryUrl, this.root], {
+        timeout: COMMAND_TIMEOUT
+      });
+      return `Cloned ${repositoryUrl} (${branch})`;
+    }
+  }
+
+  async gitCreateBranch(branchName: string): Promise<string> {
+    try {
+      await this.git(['checkout', '-b', branchName]);
+    } catch (error) {
+      // Branch exists from a previous run - switch to it instead
+      await this.git(['checkout', branchName]);
+    }
+    this.currentBranch = branchName;
+    return `Switched to branch ${branchName}`;
+  }
+
+  async gitCommit(message: string): Promise<string> {
+    await this.git(['add', '-A']);
+    const status = await this.git(['status', '--porcelain']);
+    if (!status) {
+      return 'Nothing to commit';
+    }
+    await this.git(['commit', '-m', message]);
+    return await this.git(['rev-parse', 'HEAD']);
+  }
+
+  async changedFiles(): Promise<string[]> {
+    await this.git(['add', '-A']);
+    const staged = await this.git(['diff', '--cached', '--name-only']);
+    return staged.split('\n').filter(Boolean);
+  }
+
+  async runTests(testPath?: string): Promise<CommandResult> {
+    return await this.runCommand(testPath ? `npm test -- ${testPath}` : 'npm test');
+  }
+
+  /**
+   * Run a command in the working tree without a shell; failures are reported in the result
+   */
+  async runCommand(command: string, options: { cwd?: string; timeoutMs?: number } = {}): Promise<CommandResult> {
+    const startTime = Date.now();
+    try {
+      const [executable, ...args] = parseCommand(command);
+      if (!executable) {
+        throw new SandboxError('Empty command');
+      }
+
+      const { stdout, stderr } = await execFileAsync(executable, args, {
+        cwd: this.resolvePath(options.cwd || '.'),
+        timeout: options.timeoutMs || COMMAND_TIMEOUT,
+        maxBuffer: 50 * 1024 * 1024,
+        env: { ...process.env, CI: '1' }
+      });
+      return {
+        command,
+        exitCode: 0,
+        stdout: stdout.slice(-MAX_OUTPUT_LENGTH),
+        stderr: stderr.slice(-MAX_OUTPUT_LENGTH),
+        timedOut: false,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      const { code, stdout, stderr, killed, message } = error as { code?: number | string; stdout?: string; stderr?: string; killed?: boolean; message: string };
+      return {
+        command,
+        exitCode: typeof code === 'number' ? code : null,
+        stdout: (stdout || '').slice(-MAX_OUTPUT_LENGTH),
+        stderr: `${stderr || ''}${message}`.slice(-MAX_OUTPUT_LENGTH),
+        timedOut: !!killed,
+        duration: Date.now() - startTime
+      };
+    }
+  }
+
+  async createPullRequest(title: string, description: string): Promise<PullRequestInfo> {
+    const branchName = this.currentBranch || await this.git(['rev-parse', '--abbrev-ref', 'HEAD']);
+    await this.git(['push', '-u', 'origin', branchName]);
+
+    const github = new EnhancedGitHubService();
+    return await github.createPullRequest(this.repoUrl, branchName, title, description, this.baseBranch);
+  }
+}
@@ -0,0 +1,69 @@
+// cli/utils/project-agent.ts - Shared helpers for CLI commands
+import chalk from 'chalk';
+import { ConfigManager } from '../../src/utils/config';
+import { CustomAIAgent } from '../../api/shared/custom-ai-agent';
+import type { AgentSandbox } from '../../api/shared/workspace-sandbox';
+import type { ProjectConfig } from '../../src/types/config';
+
+export const PROVIDERS = ['anthropic', 'openai', 'google', 'grok'] as const;
+
+/**
+ * Load the project configuration or exit with a hint to run `geenius init`
+ */
+export async function requireProjectConfig(configManager: ConfigManager): Promise<ProjectConfig> {
+  const config = await configManager.loadConfig();
+  if (!config) {
+    console.error(chalk.red('❌ No project configuration found in this directory.'));
+    console.error(chalk.gray('   Run `geenius init` first to set up a project.'));
+    process.exit(1);
+  }
+  return config;
+}
+
+/**
+ * Create a CustomAIAgent for the configured project, restoring its stored memory
+ */
+export async function createProjectAgent(
+  configManager: ConfigManager,
+  config: ProjectConfig,
+  options: {
+    sessionId: string;
+    sandbox: AgentSandbox | null; // Commands that only talk to the model pass null
+    provider?: ProjectConfig['aiProvider'];
+    model?: string;
+  }
+): Promise<CustomAIAgent> {
+  const agent = new CustomAIAgent({
+    sessionId: options.sessionId,
+    sandbox: options.sandbox,
+    repositoryUrl: config.repoUrl,
+    provider: options.provider || config.aiProvider,
+    model: options.model || config.model || 'default',
+    projectContext: {
+      componentRegistry: {},
+      dependencies: {},
+      framework: config.template,
+      structure: 'typescript'
+    }
+  });
+
+  const storedMemory = await configManager.loadAgentMemory(config.name);
+  if (storedMemory) {
+    try {
+      await agent.importMemory(storedMemory);
+    } catch (error) {
+      console.warn(chalk.yellow('⚠️ Stored agent memory is unreadable, starting fresh'));
+    }
+  }
+
+  return agent;
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 50);
+}
@@ -7,6 +7,7 @@ import {
   MongoDBOrganization, 
   GithubAccountType, 
   SessionLog, 
+  SessionConnectionState,
   ProjectStatusType 
 } from './app-types';
 
@@ -43,7 +44,8 @@ export const useAppState = () => {
   const [sessionProgress, setSessionProgress] = useState(0);
   const [repoUrl, setRepoUrl] = useState('');
   const [netlifyUrl, setNetlifyUrl] = useState('');
-  const [logPollingInterval, setLogPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  const [sessionConnection, setSessionConnection] = useState<SessionConnectionState>('idle');
+  const sessionEventsRef = useRef<EventSource | null>(null);
   const [projectStatus, setProjectStatus] = useState<ProjectStatusType>({ hasProject: false, loading: true });
 
   // API Functions
@@ -224,85 +226,110 @@ export const useAppState = () => {
     }
   };
 
-  // Log Polling Functions
-  const startLogPolling = (sessionIdParam: string) => {
-    if (logPollingInterval) {
-      clearInterval(logPollingInterval);
-    }
-
-    const interval = setInterval(async () => {
-      try {
-        let endpoint;
-        if (sessionIdParam.startsWith('ge_')) {
-          endpoint = `/.netlify/functions/web-init/${sessionIdParam}`;
-        } else if (sessionIdParam.startsWith('init_')) {
-          // Use the initialize-project status endpoint for init sessions
-          endpoint = `/api/initialize-project/${sessionIdParam}`;
-        } else {
-          endpoint = `/api/process-changes-enhanced/${sessionIdParam}`;
-        }
-
-        const response = await fetch(endpoint);
-        if (response.ok) {
-          const data = await response.json();
-          console.log('📊 Polling response for', sessionIdParam, ':', data);
-
-          const previousStatus = sessionStatus;
-          const previousLogCount = sessionLogs.length;
-
-          setSessionStatus(data.status);
-          setSessionProgress(data.progress || 0);
-
-          const newLogs = data.logs || [];
-          // Always update logs to ensure UI stays in sync
-          setSessionLogs(newLogs);
-          console.log('📝 Updated sessionLogs with', newLogs.length, 'logs');
-
-          if (data.repoUrl) setRepoUrl(data.repoUrl);
-          if (data.netlifyUrl) setNetlifyUrl(data.netlifyUrl);
-          if (data.prUrl) setRepoUrl(data.prUrl);
-          if (data.previewUrl) setNetlifyUrl(data.previewUrl);
-
-          if ((data.repoUrl || data.netlifyUrl || data.prUrl || data.previewUrl) && data.status === 'completed') {
-            loadProjectStatus();
-          }
-
-          if (data.status === 'completed' || data.status === 'failed') {
-            clearInterval(interval);
-            setLogPollingInterval(null);
-            setDeploymentStatus(data.status);
+  // Session Event Functions
+  const applySessionUpdate = (data: { status?: string; progress?: number; currentStep?: string }) => {
+    if (data.status) setSessionStatus(data.status);
+    if (data.progress !== undefined) setSessionProgress(data.progress);
+
+    // Keep the status tab in step with the stream instead of polling for it
+    setProjectStatus(prev => prev.isActiveSession ? {
+      ...prev,
+      status: data.status || prev.status,
+      progress: data.progress ?? prev.progress,
+      currentStep: data.currentStep || prev.currentStep
+    } : prev);
+  };
 
-            const hasCompletionLogs = logs.some(log => log.includes('🎉') && log.includes('completed'));
-            const isProjectInit = sessionIdParam.startsWith('init_');
-            const isWebInit = sessionIdParam.startsWith('ge_');
-            
-            // Only add completion logs for change processing sessions (not init sessions)
-            if (data.status === 'completed' && !hasCompletionLogs && !isWebInit && !isProjectInit) {
-              addLog('🎉 Change processing completed!');
-              if (data.prUrl) addLog(`🔀 Pull Request: ${data.prUrl}`);
-              if (data.previewUrl) addLog(`🌐 Preview URL: ${data.previewUrl}`);
-            }
-          }
-        } else if (response.status === 404) {
-          setSessionStatus('session_not_found');
-          addLog(`❌ Session ${sessionIdParam} not found`);
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error('Error polling logs:', error);
-        addLog(`❌ Error polling logs: ${errorMessage}`);
+  const subscribeToSessionEvents = (sessionIdParam: string) => {
+    sessionEventsRef.current?.close();
+    setSessionConnection('connecting');
+
+    const source = new EventSource(`/api/session-events/${sessionIdParam}`);
+    sessionEventsRef.current = source;
+
+    const parse = (event: Event) => JSON.parse((event as MessageEvent).data);
+
+    source.onopen = () => setSessionConnection('live');
+
+    // Full state, sent when subscribing without a Last-Event-ID
+    source.addEventListener('snapshot', event => {
+      const data = parse(event);
+      console.log('📊 Session snapshot for', sessionIdParam, ':', data);
+
+      applySessionUpdate(data);
+      setSessionLogs(data.logs || []);
+      if (data.repoUrl) setRepoUrl(data.repoUrl);
+      if (data.netlifyUrl) setNetlifyUrl(data.netlifyUrl);
+      if (data.prUrl) setRepoUrl(data.prUrl);
+      if (data.previewUrl) setNetlifyUrl(data.previewUrl);
+    });
+
+    source.addEventListener('status', event => applySessionUpdate(parse(event)));
+
+    source.addEventListener('log', event => {
+      const log = parse(event);
+      setSessionLogs(prev => [...prev, log]);
+    });
+
+    source.addEventListener('file', event => {
+      const { progress } = parse(event);
+      if (progress !== undefined) setSessionProgress(progress);
+    });
+
+    // Where project initialization created the repository and site
+    source.addEventListener('project', event => {
+      const { repoUrl: projectRepoUrl, netlifyUrl: projectNetlifyUrl } = parse(event);
+      if (projectRepoUrl) setRepoUrl(projectRepoUrl);
+      if (projectNetlifyUrl) setNetlifyUrl(projectNetlifyUrl);
+    });
+
+    source.addEventListener('preview', event => {
+      const { previewUrl } = parse(event);
+      if (previewUrl) setNetlifyUrl(previewUrl);
+    });
+
+    source.addEventListener('end', event => {
+      const { status } = parse(event);
+      source.close();
+      sessionEventsRef.current = null;
+      setSessionConnection('closed');
+      setSessionStatus(status);
+      setDeploymentStatus(status);
+
+      const isProjectInit = sessionIdParam.startsWith('init_');
+      const isWebInit = sessionIdParam.startsWith('ge_');
+
+      // Only add completion logs for change processing sessions (not init sessions)
+      if (status === 'completed' && !isWebInit && !isProjectInit) {
+        addLog('🎉 Change processing completed!');
       }
-    }, 1500);
 
-    setLogPollingInterval(interval);
+      loadProjectStatus();
+    });
+
+    source.addEventListener('stream-error', event => {
+      const { error } = parse(event);
+      console.error('Session event stream error:', error);
+    });
+
+    // EventSource reconnects on its own and resumes from Last-Event-ID; it only gives up on HTTP errors
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        sessionEventsRef.current = null;
+        setSessionConnection('closed');
+        setSessionStatus('session_not_found');
+        addLog(`❌ Could not subscribe to session ${sessionIdParam}`);
+      } else {
+        setSessionConnection('connecting');
+      }
+    };
   };
 
   const stopLogPolling = () => {
-    if (logPollingInterval) {
-      clearInterval(logPollingInterval);
-      setLogPollingInterval(null);
+    if (sessionEventsRef.current) {
+      sessionEventsRef.current.close();
+      sessionEventsRef.current = null;
+      setSessionConnection('idle');
     }
   };
 
@@ -316,7 +343,7 @@ export const useAppState = () => {
     url.searchParams.set('session', sessionIdParam);
     window.history.pushState({}, '', url.toString());
 
-    startLogPolling(sessionIdParam);
+    subscribeToSessionEvents(sessionIdParam);
   };
 
   // Initial load effect
@@ -341,12 +368,12 @@ export const useAppState = () => {
 
     if (urlSessionId) {
       setSessionId(urlSessionId);
-      startLogPolling(urlSessionId);
+      subscribeToSessionEvents(urlSessionId);
       setSessionStatus('running');
     }
   }, []);
 
-  // Cleanup polling on unmount
+  // Close the event stream on unmount
   useEffect(() => {
     return () => stopLogPolling();
   }, []);
@@ -383,6 +410,7 @@ export const useAppState = () => {
     setSessionStatus,
     sessionProgress,
     setSessionProgress,
+    sessionConnection,
     repoUrl,
     setRepoUrl,
     netlifyUrl,
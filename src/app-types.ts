@@ -29,6 +29,9 @@ export type SessionLog = {
   message: string;
 };
 
+// State of the Server-Sent Events subscription to the active session
+export type SessionConnectionState = 'idle' | 'connecting' | 'live' | 'closed';
+
 export type ProjectStatusType = {
   hasProject: boolean;
   loading: boolean;
@@ -88,6 +91,7 @@ export interface AppHooks {
   setSessionStatus: (status: string) => void;
   sessionProgress: number;
   setSessionProgress: (progress: number) => void;
+  sessionConnection: SessionConnectionState;
   repoUrl: string;
   setRepoUrl: (url: string) => void;
   netlifyUrl: string;
@@ -14,7 +14,11 @@ interface DevelopmentTabProps extends AppHooks {}
 const DevelopmentTab: React.FC<DevelopmentTabProps> = ({
   loading,
   setLoading,
-  setLoadingMessage
+  setLoadingMessage,
+  projectStatus,
+  setSessionId,
+  addLog,
+  startLogStreaming
 }) => {
   const handleDevelopSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -22,7 +26,12 @@ const DevelopmentTab: React.FC<DevelopmentTabProps> = ({
     setLoadingMessage('Starting development session...');
 
     const formData = new FormData(e.target as HTMLFormElement);
-    const data = Object.fromEntries(formData);
+    const data = {
+      ...Object.fromEntries(formData),
+      projectId: projectStatus.projectId,
+      repositoryUrl: projectStatus.repositoryUrl,
+      aiProvider: projectStatus.aiProvider
+    };
 
     try {
       const response = await fetch('/api/develop', {
@@ -33,8 +42,12 @@ const DevelopmentTab: React.FC<DevelopmentTabProps> = ({
 
       const result = await response.json();
 
-      if (response.ok) {
+      if (response.ok && result.success) {
         setLoadingMessage('Development session started!');
+        setSessionId(result.sessionId);
+        addLog(`🚀 Development session started: ${formData.get('featureName')}`);
+        addLog(`📝 Session ID: ${result.sessionId}`);
+        await startLogStreaming(result.sessionId, false);
         setTimeout(() => setLoading(false), 2000);
       } else {
         throw new Error(result.error || 'Failed to start development');
@@ -135,10 +148,16 @@ Describe your feature here...
             />
           </div>
 
+          {!projectStatus.repositoryUrl && (
+            <p className="text-sm text-muted-foreground">
+              Initialize a project first - development sessions work on the project's GitHub repository.
+            </p>
+          )}
+
           <Button
             type="submit"
             className="w-full"
-            disabled={loading}
+            disabled={loading || !projectStatus.repositoryUrl}
           >
             🚀 Start Development
           </Button>
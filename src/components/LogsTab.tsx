@@ -55,6 +55,7 @@ const LogsTab: React.FC<LogsTabProps> = ({
   sessionId,
   sessionStatus,
   sessionProgress,
+  sessionConnection,
   sessionLogs,
   logs,
   repoUrl,
@@ -75,7 +76,15 @@ const LogsTab: React.FC<LogsTabProps> = ({
   return (
     <Card className="shadow-2xl">
       <CardHeader>
-        <CardTitle className="text-2xl">Real-time Logs</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-2xl">Real-time Logs</CardTitle>
+          {sessionConnection === 'live' && (
+            <Badge variant="secondary" className="bg-green-100 text-green-800">● Live</Badge>
+          )}
+          {sessionConnection === 'connecting' && (
+            <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 animate-pulse">Reconnecting...</Badge>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {/* Session Info */}
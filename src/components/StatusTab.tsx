@@ -13,17 +13,18 @@ interface StatusTabProps extends AppHooks {
 const StatusTab: React.FC<StatusTabProps> = ({
   projectStatus,
   loadProjectStatus,
+  sessionConnection,
   setActiveView
 }) => {
-  // Auto-refresh for active sessions
+  // Status and progress of active sessions arrive over the session event stream;
+  // reload once when the session ends to pick up the deployed URLs
+  const previousStatus = React.useRef(projectStatus.status);
   React.useEffect(() => {
-    if (projectStatus.isActiveSession && projectStatus.status !== 'completed' && projectStatus.status !== 'failed') {
-      const interval = setInterval(() => {
-        loadProjectStatus();
-      }, 3000); // Refresh every 3 seconds for active sessions
-      
-      return () => clearInterval(interval);
+    const finished = projectStatus.status === 'completed' || projectStatus.status === 'failed';
+    if (projectStatus.isActiveSession && finished && previousStatus.current !== projectStatus.status) {
+      loadProjectStatus();
     }
+    previousStatus.current = projectStatus.status;
   }, [projectStatus.isActiveSession, projectStatus.status, loadProjectStatus]);
 
   return (
@@ -83,6 +84,9 @@ const StatusTab: React.FC<StatusTabProps> = ({
             <CardHeader>
               <CardTitle className={`text-xl flex items-center gap-2 ${projectStatus.isActiveSession ? 'text-blue-800' : 'text-green-800'}`}>
                 {projectStatus.isActiveSession ? '🔄 Active Session' : '✅ Project Overview'}
+                {projectStatus.isActiveSession && sessionConnection === 'live' && (
+                  <Badge variant="secondary" className="bg-green-100 text-green-800">● Live</Badge>
+                )}
                 <Badge variant="secondary" className={projectStatus.isActiveSession ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}>
                   {projectStatus.status || 'Active'}
                 </Badge>
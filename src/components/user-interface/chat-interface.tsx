@@ -344,6 +344,7 @@ export function ChatInterface() {
               onClose={handleClosePanel}
               onItemSelect={handleItemSelect}
               selectedItem={selectedItem}
+              projectId={state.projectName.trim() || undefined}
             />
           </div>
         )}
@@ -34,6 +34,30 @@ export function ItemDetails({
                 <label className="text-sm font-medium text-muted-foreground">Last Modified</label>
                 <p className="text-sm">{item.lastModified}</p>
               </div>
+              {item.netlify && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Deployment</label>
+                  <p className="text-sm">
+                    {item.netlify.url ? (
+                      <a href={item.netlify.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{item.netlify.state}</a>
+                    ) : item.netlify.state}
+                  </p>
+                </div>
+              )}
+              {item.mongodb && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Database</label>
+                  <p className="text-sm">
+                    {item.mongodb.error || item.mongodb.clusters.map((cluster: any) => `${cluster.name}: ${cluster.paused ? 'paused' : cluster.state}`).join(', ') || 'No clusters'}
+                  </p>
+                </div>
+              )}
+              {item.latestSessions?.[0] && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Latest Session</label>
+                  <p className="text-sm">{item.latestSessions[0].status} ({item.latestSessions[0].progress}%)</p>
+                </div>
+              )}
             </div>
           </>
         )
@@ -59,7 +83,7 @@ export function ItemDetails({
               <div>
                 <label className="text-sm font-medium text-muted-foreground">Priority</label>
                 <Badge 
-                  variant={item.priority === 'high' ? 'destructive' : item.priority === 'medium' ? 'default' : 'secondary'}
+                  variant={item.priority === 'high' || item.priority === 'urgent' ? 'destructive' : item.priority === 'medium' ? 'default' : 'secondary'}
                   className="text-xs"
                 >
                   {item.priority}
@@ -67,12 +91,34 @@ export function ItemDetails({
               </div>
               <div>
                 <label className="text-sm font-medium text-muted-foreground">Status</label>
-                <p className="text-sm capitalize">{item.status}</p>
-              </div>
-              <div>
-                <label className="text-sm font-medium text-muted-foreground">Assignee</label>
-                <p className="text-sm">{item.assignee}</p>
+                <p className="text-sm capitalize">{item.status?.replace(/_/g, ' ')}</p>
               </div>
+              {item.assignee && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Assignee</label>
+                  <p className="text-sm">{item.assignee}</p>
+                </div>
+              )}
+              {item.branchName && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Branch</label>
+                  <p className="text-sm font-mono truncate">{item.branchName}</p>
+                </div>
+              )}
+              {item.prUrl && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Pull Request</label>
+                  <a href={item.prUrl} target="_blank" rel="noopener noreferrer" className="text-sm block hover:underline">
+                    #{item.prNumber}
+                  </a>
+                </div>
+              )}
+              {item.error && (
+                <div>
+                  <label className="text-sm font-medium text-muted-foreground">Error</label>
+                  <p className="text-sm text-destructive">{item.error}</p>
+                </div>
+              )}
             </div>
           </>
         )
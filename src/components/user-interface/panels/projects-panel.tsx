@@ -1,9 +1,9 @@
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Search, RotateCcw, X } from "lucide-react"
+import { Search, RotateCcw, X, Loader2 } from "lucide-react"
 
 interface ProjectsPanelProps {
   isExpanded: boolean
@@ -12,41 +12,45 @@ interface ProjectsPanelProps {
   selectedItem?: any
 }
 
-// Mock data for projects
-const mockProjects = [
-  {
-    id: "1",
-    name: "E-commerce Dashboard",
-    description: "Modern React dashboard for managing online stores",
-    tags: ["react", "typescript", "dashboard", "ecommerce"],
-    status: "active",
-    lastModified: "2 days ago"
-  },
-  {
-    id: "2", 
-    name: "Blog Platform",
-    description: "Full-stack blog with markdown support and comments",
-    tags: ["nextjs", "prisma", "blog", "markdown"],
-    status: "completed",
-    lastModified: "1 week ago"
-  },
-  {
-    id: "3",
-    name: "Task Manager",
-    description: "Collaborative task management with real-time updates",
-    tags: ["vue", "websockets", "productivity", "collaboration"],
-    status: "in-progress",
-    lastModified: "5 hours ago"
-  },
-  {
-    id: "4",
-    name: "AI Chat Bot",
-    description: "Intelligent chatbot with natural language processing",
-    tags: ["python", "ai", "nlp", "fastapi"],
-    status: "planning",
-    lastModified: "3 days ago"
-  }
-]
+type SortOption = "lastActivity" | "name" | "createdAt"
+
+const sortLabels: Record<SortOption, string> = {
+  lastActivity: "Recent",
+  name: "Name",
+  createdAt: "Created"
+}
+
+// Entry returned by /api/projects
+export interface DashboardProject {
+  id: string
+  name: string
+  template: string
+  aiProvider: string
+  status: "active" | "archived" | "failed"
+  repositoryUrl?: string
+  netlifyUrl?: string
+  createdAt: number
+  lastActivity: number
+  activeSessions: number
+  latestSessions: Array<{ id: string; status: string; progress: number; currentStep: string; startTime: number; prUrl?: string }>
+  netlify?: { url?: string; state: string; error?: string }
+  mongodb?: { clusters: Array<{ name: string; state: string; paused: boolean }>; error?: string }
+}
+
+function formatRelativeTime(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  return `${Math.round(hours / 24)} d ago`
+}
+
+function getDeployVariant(state?: string): "default" | "secondary" | "destructive" | "outline" {
+  if (state === "ready") return "default"
+  if (state === "error" || state === "unknown") return "destructive"
+  return "outline"
+}
 
 export function ProjectsPanel({ 
   isExpanded, 
@@ -55,31 +59,53 @@ export function ProjectsPanel({
   selectedItem 
 }: ProjectsPanelProps) {
   const [searchQuery, setSearchQuery] = useState("")
-  const [selectedFilters, setSelectedFilters] = useState<string[]>([])
-
-  // Get all unique tags for filters
-  const allTags = Array.from(new Set(mockProjects.flatMap(item => item.tags || [])))
-
-  // Filter items based on search and filters
-  const filteredItems = mockProjects.filter(item => {
-    const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         item.description.toLowerCase().includes(searchQuery.toLowerCase())
-    const matchesFilters = selectedFilters.length === 0 || 
-                          selectedFilters.some(filter => item.tags?.includes(filter))
-    return matchesSearch && matchesFilters
-  })
-
-  const toggleFilter = (tag: string) => {
-    setSelectedFilters(prev => 
-      prev.includes(tag) 
-        ? prev.filter(f => f !== tag)
-        : [...prev, tag]
-    )
-  }
+  const [template, setTemplate] = useState<string | null>(null)
+  const [aiProvider, setAiProvider] = useState<string | null>(null)
+  const [sortBy, setSortBy] = useState<SortOption>("lastActivity")
+  const [projects, setProjects] = useState<DashboardProject[]>([])
+  const [filters, setFilters] = useState<{ templates: string[]; aiProviders: string[] }>({ templates: [], aiProviders: [] })
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isExpanded) return
+
+    const params = new URLSearchParams({ sortBy })
+    if (searchQuery.trim()) params.set("search", searchQuery.trim())
+    if (template) params.set("template", template)
+    if (aiProvider) params.set("aiProvider", aiProvider)
+
+    // Debounce typing in the search box
+    const timeout = setTimeout(async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(`/api/projects?${params}`)
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`)
+        setProjects(result.projects)
+        setFilters(result.filters)
+        setError(null)
+      } catch (error: any) {
+        setError(`Failed to load projects: ${error.message}`)
+      } finally {
+        setIsLoading(false)
+      }
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [isExpanded, searchQuery, template, aiProvider, sortBy])
+
+  const items = projects.map(project => ({
+    ...project,
+    description: project.repositoryUrl || project.netlifyUrl || project.id,
+    tags: [project.template, project.aiProvider].filter(Boolean),
+    lastModified: formatRelativeTime(project.lastActivity)
+  }))
 
   const resetFilters = () => {
     setSearchQuery("")
-    setSelectedFilters([])
+    setTemplate(null)
+    setAiProvider(null)
+    setSortBy("lastActivity")
   }
 
   return (
@@ -136,21 +162,45 @@ export function ProjectsPanel({
               <RotateCcw className="h-3 w-3" />
               Reset
             </Button>
-            {allTags.map(tag => (
+            {(Object.keys(sortLabels) as SortOption[]).map(option => (
+              <Button
+                key={option}
+                variant={sortBy === option ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setSortBy(option)}
+              >
+                {sortLabels[option]}
+              </Button>
+            ))}
+            {filters.templates.map(name => (
+              <Badge
+                key={`template-${name}`}
+                variant={template === name ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setTemplate(template === name ? null : name)}
+              >
+                {name}
+              </Badge>
+            ))}
+            {filters.aiProviders.map(name => (
               <Badge
-                key={tag}
-                variant={selectedFilters.includes(tag) ? "default" : "outline"}
+                key={`provider-${name}`}
+                variant={aiProvider === name ? "default" : "outline"}
                 className="cursor-pointer"
-                onClick={() => toggleFilter(tag)}
+                onClick={() => setAiProvider(aiProvider === name ? null : name)}
               >
-                {tag}
+                {name}
               </Badge>
             ))}
           </div>
 
+          {error && (
+            <p className="text-xs text-destructive mb-4">{error}</p>
+          )}
+
           {/* Items List */}
           <div className="max-h-72 overflow-y-auto space-y-2">
-            {filteredItems.map(item => (
+            {items.map(item => (
               <Card
                 key={item.id}
                 className={`p-3 cursor-pointer transition-colors hover:bg-muted/50 ${
@@ -158,10 +208,10 @@ export function ProjectsPanel({
                 }`}
                 onClick={() => onItemSelect(item)}
               >
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="flex-1 min-w-0">
                     <h4 className="font-medium text-sm">{item.name}</h4>
-                    <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1 truncate">{item.description}</p>
                     {item.tags && (
                       <div className="flex gap-1 mt-2">
                         {item.tags.map((tag: string) => (
@@ -172,10 +222,31 @@ export function ProjectsPanel({
                       </div>
                     )}
                   </div>
+                  <div className="flex flex-col items-end gap-1 text-xs text-muted-foreground">
+                    {item.netlify && (
+                      <Badge variant={getDeployVariant(item.netlify.state)} className="text-xs">
+                        deploy: {item.netlify.state}
+                      </Badge>
+                    )}
+                    {item.mongodb?.clusters.map(cluster => (
+                      <Badge key={cluster.name} variant={cluster.state === "IDLE" && !cluster.paused ? "secondary" : "outline"} className="text-xs">
+                        db: {cluster.paused ? "paused" : cluster.state.toLowerCase()}
+                      </Badge>
+                    ))}
+                    {item.latestSessions[0] && (
+                      <span>{item.activeSessions > 0 ? `${item.activeSessions} running` : item.latestSessions[0].status}</span>
+                    )}
+                    <span>{item.lastModified}</span>
+                  </div>
                 </div>
               </Card>
             ))}
-            {filteredItems.length === 0 && (
+            {isLoading && items.length === 0 && (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            )}
+            {!isLoading && items.length === 0 && (
               <div className="text-center py-8 text-muted-foreground">
                 <p>No projects found</p>
               </div>
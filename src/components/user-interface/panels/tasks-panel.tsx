@@ -1,80 +1,111 @@
-import { useState } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Search, RotateCcw, X } from "lucide-react"
+import { Search, RotateCcw, X, Plus, Loader2, GitPullRequest } from "lucide-react"
 
 interface TasksPanelProps {
   isExpanded: boolean
   onClose: () => void
   onItemSelect: (item: any) => void
   selectedItem?: any
+  projectId?: string
 }
 
-// Mock data for tasks
-const mockTasks = [
-  {
-    id: "1",
-    name: "Fix navigation bug",
-    description: "Mobile navigation menu not closing on route change",
-    tags: ["bug", "mobile", "navigation", "urgent"],
-    priority: "high",
-    status: "open",
-    assignee: "John Doe"
-  },
-  {
-    id: "2",
-    name: "Add dark mode toggle",
-    description: "Implement system-wide dark mode with user preference storage",
-    tags: ["feature", "ui", "dark-mode", "enhancement"],
-    priority: "medium",
-    status: "in-progress",
-    assignee: "Jane Smith"
-  },
-  {
-    id: "3",
-    name: "Optimize image loading",
-    description: "Implement lazy loading and WebP format for better performance",
-    tags: ["performance", "images", "optimization"],
-    priority: "medium",
-    status: "open",
-    assignee: "Mike Johnson"
-  },
-  {
-    id: "4",
-    name: "Update documentation",
-    description: "Update API documentation with latest endpoint changes",
-    tags: ["documentation", "api", "maintenance"],
-    priority: "low",
-    status: "completed",
-    assignee: "Sarah Wilson"
-  },
-  {
-    id: "5",
-    name: "Add unit tests",
-    description: "Write comprehensive unit tests for user authentication module",
-    tags: ["testing", "authentication", "quality"],
-    priority: "high",
-    status: "open",
-    assignee: "Alex Brown"
-  }
-]
+export interface ProjectTask {
+  id: string
+  name: string
+  description: string
+  tags: string[]
+  priority: "low" | "medium" | "high" | "urgent"
+  status: "open" | "in_progress" | "in_review" | "completed" | "failed"
+  source: "chat" | "change_request"
+  assignee?: string
+  sessionIds: string[]
+  branchName?: string
+  prUrl?: string
+  prNumber?: number
+  previewUrl?: string
+  error?: string
+  updatedAt: number
+}
+
+// While the panel is open, tasks are refreshed so statuses follow the sessions working on them
+const REFRESH_INTERVAL_MS = 10000
+
+const statusLabels: Record<ProjectTask["status"], string> = {
+  open: "Open",
+  in_progress: "In progress",
+  in_review: "In review",
+  completed: "Completed",
+  failed: "Failed"
+}
 
 export function TasksPanel({ 
   isExpanded, 
   onClose, 
   onItemSelect, 
-  selectedItem 
+  selectedItem,
+  projectId
 }: TasksPanelProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [selectedFilters, setSelectedFilters] = useState<string[]>([])
+  const [tasks, setTasks] = useState<ProjectTask[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newTaskName, setNewTaskName] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const loadTasks = useCallback(async () => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/tasks?projectId=${encodeURIComponent(projectId)}`)
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`)
+      setTasks(result.tasks)
+      setError(null)
+    } catch (error: any) {
+      setError(`Failed to load tasks: ${error.message}`)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    if (!isExpanded || !projectId) return
+
+    setIsLoading(true)
+    loadTasks().finally(() => setIsLoading(false))
+    const interval = setInterval(loadTasks, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isExpanded, projectId, loadTasks])
+
+  const createTask = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!projectId || !newTaskName.trim()) return
+
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, name: newTaskName.trim() })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`)
+      setTasks(prev => [result.task, ...prev])
+      setNewTaskName("")
+    } catch (error: any) {
+      setError(`Failed to create task: ${error.message}`)
+    } finally {
+      setIsCreating(false)
+    }
+  }
 
   // Get all unique tags for filters
-  const allTags = Array.from(new Set(mockTasks.flatMap(item => item.tags || [])))
+  const allTags = Array.from(new Set(tasks.flatMap(item => item.tags || [])))
 
   // Filter items based on search and filters
-  const filteredItems = mockTasks.filter(item => {
+  const filteredItems = tasks.filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          item.description.toLowerCase().includes(searchQuery.toLowerCase())
     const matchesFilters = selectedFilters.length === 0 || 
@@ -136,6 +167,25 @@ export function TasksPanel({
             />
           </div>
 
+          {/* New task */}
+          {projectId && (
+            <form onSubmit={createTask} className="flex gap-2 mb-4">
+              <Input
+                placeholder="Add a task for the AI..."
+                value={newTaskName}
+                onChange={(e) => setNewTaskName(e.target.value)}
+              />
+              <Button type="submit" size="icon" disabled={!newTaskName.trim() || isCreating}>
+                {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                <span className="sr-only">Add task</span>
+              </Button>
+            </form>
+          )}
+
+          {error && (
+            <p className="text-xs text-destructive mb-4">{error}</p>
+          )}
+
           {/* Filters */}
           <div className="flex items-center gap-2 mb-4 flex-wrap">
             <Button
@@ -169,7 +219,7 @@ export function TasksPanel({
                 }`}
                 onClick={() => onItemSelect(item)}
               >
-                <div className="flex justify-between items-start">
+                <div className="flex justify-between items-start gap-2">
                   <div className="flex-1">
                     <h4 className="font-medium text-sm">{item.name}</h4>
                     <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
@@ -183,12 +233,34 @@ export function TasksPanel({
                       </div>
                     )}
                   </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant={item.status === "failed" ? "destructive" : item.status === "open" ? "outline" : "default"} className="text-xs whitespace-nowrap">
+                      {statusLabels[item.status]}
+                    </Badge>
+                    {item.prUrl && (
+                      <a
+                        href={item.prUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+                      >
+                        <GitPullRequest className="h-3 w-3" />
+                        #{item.prNumber}
+                      </a>
+                    )}
+                  </div>
                 </div>
               </Card>
             ))}
-            {filteredItems.length === 0 && (
+            {isLoading && tasks.length === 0 && (
+              <div className="flex justify-center py-8 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            )}
+            {!isLoading && filteredItems.length === 0 && (
               <div className="text-center py-8 text-muted-foreground">
-                <p>No tasks found</p>
+                <p>{projectId ? "No tasks found" : "Enter a project name to see its tasks"}</p>
               </div>
             )}
           </div>
@@ -26,7 +26,7 @@ export function ProcessingView({
 }: ProcessingViewProps) {
   const logRef = useRef<HTMLTextAreaElement>(null)
   const { state } = useProjectInit()
-  const { sessionLogs, repoUrl, netlifyUrl, sessionStatus } = useAppState()
+  const { sessionLogs, repoUrl, netlifyUrl, sessionStatus, sessionConnection } = useAppState()
 
   // Check if project is still processing
   const isProcessing = state.isProcessing || (sessionStatus && !['completed', 'failed', 'error'].includes(sessionStatus))
@@ -101,6 +101,9 @@ export function ProcessingView({
                 <Copy className="h-4 w-4" />
                 Copy Logs
               </Button>
+              {sessionConnection === 'live' && isProcessing && (
+                <Badge variant="secondary" className="bg-green-100 text-green-800">● Live</Badge>
+              )}
             </div>
 
             {/* Right side buttons */}
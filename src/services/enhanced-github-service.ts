@@ -13,12 +13,21 @@ export interface FileChange {
   content: string;
   message: string;
   previousSha?: string;
+  delete?: boolean; // Removes the file, content is ignored
 }
 
 export interface CommitInfo {
   sha: string;
   message: string;
   url: string;
+  files: string[];
+}
+
+export interface CommitOptions {
+  // 'per-file' creates one commit per change, 'atomic' one tree and commit for all changes
+  mode?: 'per-file' | 'atomic';
+  // Commit message for atomic mode, defaults to the messages of all changes
+  message?: string;
 }
 
 export interface PullRequestInfo {
@@ -147,8 +156,13 @@ export class EnhancedGitHubService {
   async commitChanges(
     repoUrl: string, 
     branchName: string, 
-    changes: FileChange[]
+    changes: FileChange[],
+    options: CommitOptions = {}
   ): Promise<CommitInfo[]> {
+    if (options.mode === 'atomic') {
+      return [await this.commitAtomically(repoUrl, branchName, changes, options.message)];
+    }
+
     const { owner, repo } = this.parseRepoUrl(repoUrl);
     const commits: CommitInfo[] = [];
 
@@ -170,21 +184,35 @@ export class EnhancedGitHubService {
           // File might not exist, that's okay for new files
         }
 
-        // Create or update file
-        const { data: commit } = await this.octokit.rest.repos.createOrUpdateFileContents({
-          owner,
-          repo,
-          path: change.path,
-          message: change.message,
-          content: Buffer.from(change.content).toString('base64'),
-          branch: branchName,
-          sha: currentSha
-        });
+        if (change.delete && !currentSha) {
+          throw new Error(`Cannot delete ${change.path}: the file does not exist`);
+        }
+
+        // Create, update or delete the file
+        const { data: commit } = change.delete
+          ? await this.octokit.rest.repos.deleteFile({
+            owner,
+            repo,
+            path: change.path,
+            message: change.message,
+            branch: branchName,
+            sha: currentSha!
+          })
+          : await this.octokit.rest.repos.createOrUpdateFileContents({
+            owner,
+            repo,
+            path: change.path,
+            message: change.message,
+            content: Buffer.from(change.content).toString('base64'),
+            branch: branchName,
+            sha: currentSha
+          });
 
         commits.push({
           sha: commit.commit.sha!,
           message: change.message,
-          url: commit.commit.html_url!
+          url: commit.commit.html_url!,
+          files: [change.path]
         });
 
         console.log(`Committed changes to ${change.path}: ${change.message}`);
@@ -197,6 +225,98 @@ export class EnhancedGitHubService {
     return commits;
   }
 
+  /**
+   * Commit all changes as a single commit through the Git Data API (blobs -> tree -> commit -> ref)
+   */
+  private async commitAtomically(
+    repoUrl: string,
+    branchName: string,
+    changes: FileChange[],
+    message?: string
+  ): Promise<CommitInfo> {
+    const { owner, repo } = this.parseRepoUrl(repoUrl);
+
+    if (changes.length === 0) {
+      throw new Error('No changes to commit');
+    }
+
+    const { data: ref } = await this.octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branchName}`
+    });
+    const parentSha = ref.object.sha;
+
+    const { data: parentCommit } = await this.octokit.rest.git.getCommit({
+      owner,
+      repo,
+      commit_sha: parentSha
+    });
+
+    const treeEntries = [];
+    for (const change of changes) {
+      if (change.delete) {
+        // A null sha removes the path from the base tree
+        treeEntries.push({ path: change.path, mode: '100644' as const, type: 'blob' as const, sha: null });
+        continue;
+      }
+      const { data: blob } = await this.octokit.rest.git.createBlob({
+        owner,
+        repo,
+        content: Buffer.from(change.content).toString('base64'),
+        encoding: 'base64'
+      });
+      treeEntries.push({
+        path: change.path,
+        mode: '100644' as const,
+        type: 'blob' as const,
+        sha: blob.sha
+      });
+    }
+
+    const { data: tree } = await this.octokit.rest.git.createTree({
+      owner,
+      repo,
+      base_tree: parentCommit.tree.sha,
+      tree: treeEntries
+    });
+
+    const commitMessage = message || changes.map(change => change.message).join('\n\n');
+    const { data: commit } = await this.octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: commitMessage,
+      tree: tree.sha,
+      parents: [parentSha]
+    });
+
+    // Fails (instead of overwriting) if the branch moved since we read it
+    await this.octokit.rest.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branchName}`,
+      sha: commit.sha,
+      force: false
+    });
+
+    // Read the file list back from GitHub - unchanged files are not part of the commit
+    const { data: committed } = await this.octokit.rest.repos.getCommit({
+      owner,
+      repo,
+      ref: commit.sha
+    });
+    const files = (committed.files || []).map(file => file.filename);
+
+    console.log(`Committed ${files.length} files in a single commit: ${commit.sha}`);
+
+    return {
+      sha: commit.sha,
+      message: commitMessage,
+      url: commit.html_url,
+      files
+    };
+  }
+
   /**
    * Create pull request with detailed description
    */
@@ -301,6 +421,32 @@ export class EnhancedGitHubService {
     return [];
   }
 
+  /**
+   * List all files below a path in a single recursive tree request
+   */
+  async listFilesRecursive(
+    repoUrl: string,
+    path: string = '',
+    branch: string = 'develop',
+    maxFiles: number = 500
+  ): Promise<string[]> {
+    const { owner, repo } = this.parseRepoUrl(repoUrl);
+    const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+
+    const { data } = await this.octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: branch,
+      recursive: 'true'
+    });
+
+    return data.tree
+      .filter(item => item.type === 'blob' && item.path && item.path.startsWith(prefix))
+      .filter(item => !/(^|\/)(node_modules|dist|build|\.git)\//.test(item.path!))
+      .map(item => item.path!)
+      .slice(0, maxFiles);
+  }
+
   /**
    * Get content of a single file from repository
    */
@@ -327,6 +473,21 @@ export class EnhancedGitHubService {
     }
   }
 
+  /**
+   * Download the repository at a branch as a gzipped tarball
+   */
+  async downloadArchive(repoUrl: string, branch: string = 'develop'): Promise<Buffer> {
+    const { owner, repo } = this.parseRepoUrl(repoUrl);
+
+    const { data } = await this.octokit.rest.repos.downloadTarballArchive({
+      owner,
+      repo,
+      ref: branch
+    });
+
+    return Buffer.from(data as ArrayBuffer);
+  }
+
   /**
    * Analyze file dependencies by parsing imports
    */
@@ -405,6 +566,56 @@ export class EnhancedGitHubService {
     }
   }
 
+  /**
+   * Permanently delete a repository (the token needs the delete_repo scope)
+   */
+  async deleteRepository(repoUrl: string): Promise<void> {
+    const { owner, repo } = this.parseRepoUrl(repoUrl);
+
+    await this.octokit.rest.repos.delete({
+      owner,
+      repo
+    });
+  }
+
+  /**
+   * Make a repository read-only; it can be unarchived from GitHub's settings
+   */
+  async archiveRepository(repoUrl: string): Promise<void> {
+    const { owner, repo } = this.parseRepoUrl(repoUrl);
+
+    await this.octokit.rest.repos.update({
+      owner,
+      repo,
+      archived: true
+    });
+  }
+
+  /**
+   * List repositories of an organization, or of a user when the owner is not an organization
+   */
+  async listOwnerRepositories(owner: string): Promise<Array<{
+    name: string;
+    url: string;
+    archived: boolean;
+    createdAt?: string;
+  }>> {
+    let repos: any[];
+    try {
+      repos = await this.octokit.paginate(this.octokit.rest.repos.listForOrg, { org: owner, per_page: 100 });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) throw error;
+      repos = await this.octokit.paginate(this.octokit.rest.repos.listForUser, { username: owner, per_page: 100 });
+    }
+
+    return repos.map(repo => ({
+      name: repo.name,
+      url: repo.html_url,
+      archived: !!repo.archived,
+      createdAt: repo.created_at || undefined
+    }));
+  }
+
   /**
    * Check if repository name is available and find alternative if not
    */
@@ -0,0 +1,269 @@
+// src/services/env-var-registry.ts - Declarative sources and validation for template environment variables
+import { randomBytes } from 'crypto';
+import type { EnvVarDefinition, EnvVarValidation, ProjectTemplate, TemplateEnvVar } from '../types/template';
+
+export interface EnvVarResolutionContext {
+  projectName?: string;
+  repositoryUrl?: string;
+  baseBranch?: string;
+  mongodbProject?: {
+    connectionString?: string;
+    databaseName?: string;
+    clusterName?: string;
+    username?: string;
+    password?: string;
+  } | null;
+  netlifyUrl?: string;
+  userValues?: Record<string, string>; // Values supplied with the project request
+}
+
+export interface EnvVarIssue {
+  name: string;
+  reason: string;
+}
+
+export interface EnvVarResolution {
+  values: Record<string, string>;
+  missing: EnvVarIssue[]; // Required variables without a value
+  invalid: EnvVarIssue[]; // Values that fail their validation rules
+  deferred: string[]; // Netlify URL variables, set once the site exists
+}
+
+export class EnvVarResolutionError extends Error {
+  constructor(public readonly resolution: EnvVarResolution) {
+    super(formatEnvVarReport(resolution));
+    this.name = 'EnvVarResolutionError';
+  }
+}
+
+type KnownEnvVar = Omit<EnvVarDefinition, 'name'>;
+
+// The only platform variables a template may copy into a project, plus TEMPLATE_PLATFORM_ENV_ALLOW_LIST.
+// Templates come from remote registries, so the platform's own credentials (AI keys, GitHub and Netlify
+// tokens, its Redis) must never be reachable through a platform source.
+const EXPOSABLE_PLATFORM_ENV_VARS = new Set([
+  'SUPABASE_URL',
+  'SUPABASE_ANON_KEY',
+  'SUPABASE_SERVICE_KEY',
+  'SUPABASE_PROJECT_ID',
+  'PLANETSCALE_TOKEN',
+  'PEXELS_API_KEY',
+  'SENTRY_DSN'
+]);
+
+export function isExposablePlatformEnvVar(env: string): boolean {
+  const extra = (process.env.TEMPLATE_PLATFORM_ENV_ALLOW_LIST || '').split(',').map(name => name.trim());
+  return EXPOSABLE_PLATFORM_ENV_VARS.has(env) || extra.includes(env);
+}
+
+const secret: KnownEnvVar = { source: { type: 'generated-secret' }, validation: { minLength: 32 } };
+const appName: KnownEnvVar = { source: { type: 'project', field: 'name' } };
+const appUrl: KnownEnvVar = { source: { type: 'netlify-url' }, validation: { format: 'url' } };
+const appVersion: KnownEnvVar = { source: { type: 'static', value: '1.0.0' } };
+const platform = (env: string, validation?: EnvVarValidation): KnownEnvVar => ({ source: { type: 'platform', env }, validation });
+const optionalPlatform = (env: string): KnownEnvVar => ({ ...platform(env), required: false });
+
+// Variables templates can list by name; anything else must come with a definition or a user-supplied value
+const knownEnvVars = new Map<string, KnownEnvVar>(Object.entries({
+  // MongoDB
+  MONGODB_URI: { source: { type: 'mongodb', field: 'connectionString' }, validation: { format: 'mongodb-uri' } },
+  DATABASE_URL: { source: { type: 'mongodb', field: 'connectionString' }, validation: { format: 'mongodb-uri' } },
+  MONGODB_DATABASE_NAME: { source: { type: 'mongodb', field: 'databaseName' } },
+  MONGODB_CLUSTER_NAME: { source: { type: 'mongodb', field: 'clusterName' } },
+  MONGODB_USERNAME: { source: { type: 'mongodb', field: 'username' } },
+  MONGODB_PASSWORD: { source: { type: 'mongodb', field: 'password' } },
+
+  // Authentication secrets
+  BETTER_AUTH_SECRET: secret,
+  NEXTAUTH_SECRET: secret,
+  AUTH_SECRET: secret,
+  NUXT_SECRET_KEY: secret,
+  JWT_SECRET: secret,
+
+  // App names, URLs and versions
+  VITE_APP_NAME: appName,
+  NEXT_PUBLIC_APP_NAME: appName,
+  NUXT_PUBLIC_APP_NAME: appName,
+  VITE_APP_URL: appUrl,
+  NEXT_PUBLIC_APP_URL: appUrl,
+  NUXT_PUBLIC_API_URL: appUrl,
+  VITE_API_URL: appUrl,
+  BETTER_AUTH_URL: appUrl,
+  NEXTAUTH_URL: appUrl,
+  VITE_APP_VERSION: appVersion,
+  NEXT_PUBLIC_APP_VERSION: appVersion,
+  NUXT_PUBLIC_APP_VERSION: appVersion,
+
+  // Supabase
+  VITE_SUPABASE_URL: platform('SUPABASE_URL', { format: 'url' }),
+  NEXT_PUBLIC_SUPABASE_URL: platform('SUPABASE_URL', { format: 'url' }),
+  SUPABASE_URL: platform('SUPABASE_URL', { format: 'url' }),
+  VITE_SUPABASE_ANON_KEY: platform('SUPABASE_ANON_KEY'),
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: platform('SUPABASE_ANON_KEY'),
+  SUPABASE_ANON_KEY: platform('SUPABASE_ANON_KEY'),
+  SUPABASE_SERVICE_KEY: platform('SUPABASE_SERVICE_KEY'),
+  SUPABASE_SERVICE_ROLE_KEY: platform('SUPABASE_SERVICE_KEY'),
+  NEXT_PUBLIC_SUPABASE_SERVICE_KEY: platform('SUPABASE_SERVICE_KEY'),
+  SUPABASE_PROJECT_ID: platform('SUPABASE_PROJECT_ID'),
+
+  // PlanetScale; Upstash credentials are the platform's own store, so projects supply their own
+  PLANETSCALE_TOKEN: platform('PLANETSCALE_TOKEN'),
+
+  // Pexels stock media is optional - apps fall back to their bundled images
+  PEXELS_API_KEY: optionalPlatform('PEXELS_API_KEY'),
+  VITE_PEXELS_API_KEY: optionalPlatform('PEXELS_API_KEY'),
+  NEXT_PUBLIC_PEXELS_API_KEY: optionalPlatform('PEXELS_API_KEY'),
+  NUXT_PUBLIC_PEXELS_API_KEY: optionalPlatform('PEXELS_API_KEY')
+}));
+
+// Set for every project so the web interface can find its repository
+const PLATFORM_ENV_VARS: EnvVarDefinition[] = [
+  { name: 'VITE_REPOSITORY_URL', source: { type: 'project', field: 'repositoryUrl' } },
+  { name: 'VITE_BASE_BRANCH', source: { type: 'project', field: 'baseBranch' } }
+];
+
+/**
+ * Register (or override) the source of a variable templates can list by name
+ */
+export function registerEnvVar(definition: EnvVarDefinition): void {
+  const { name, ...knownEnvVar } = definition;
+  knownEnvVars.set(name, knownEnvVar);
+}
+
+export function getEnvVarName(envVar: TemplateEnvVar): string {
+  return typeof envVar === 'string' ? envVar : envVar.name;
+}
+
+/**
+ * Full definitions for a template's variables. Unknown names are treated as required user input.
+ */
+export function getEnvVarDefinitions(template: Pick<ProjectTemplate, 'envVars'>): EnvVarDefinition[] {
+  return template.envVars.map(envVar => {
+    if (typeof envVar !== 'string') return envVar;
+    return { name: envVar, ...(knownEnvVars.get(envVar) || { source: { type: 'user' } }) };
+  });
+}
+
+/**
+ * Names of the template's variables that hold the deployed site URL
+ */
+export function getUrlEnvVarNames(template: Pick<ProjectTemplate, 'envVars'>): string[] {
+  return getEnvVarDefinitions(template)
+    .filter(definition => definition.source.type === 'netlify-url')
+    .map(definition => definition.name);
+}
+
+function resolveValue(definition: EnvVarDefinition, context: EnvVarResolutionContext): string | undefined {
+  // A user-supplied value always wins
+  const userValue = context.userValues?.[definition.name];
+  if (userValue) return userValue;
+
+  const { source } = definition;
+  switch (source.type) {
+    case 'generated-secret':
+      return randomBytes(source.bytes || 32).toString('hex');
+    case 'mongodb':
+      return context.mongodbProject?.[source.field] || undefined;
+    case 'netlify-url':
+      return context.netlifyUrl;
+    case 'project':
+      if (source.field === 'name') return context.projectName || 'My App';
+      if (source.field === 'repositoryUrl') return context.repositoryUrl;
+      return context.baseBranch || 'main';
+    case 'platform':
+      return isExposablePlatformEnvVar(source.env) ? process.env[source.env] || undefined : undefined;
+    case 'static':
+      return source.value;
+    case 'user':
+      return undefined;
+  }
+}
+
+function validateValue(value: string, validation: EnvVarValidation = {}): string | null {
+  if (validation.minLength && value.length < validation.minLength) {
+    return `must be at least ${validation.minLength} characters`;
+  }
+  if (validation.pattern && !new RegExp(validation.pattern).test(value)) {
+    return `does not match ${validation.pattern}`;
+  }
+  if (validation.format === 'url' && !/^https?:\/\/[^\s/]+/.test(value)) {
+    return 'must be an http(s) URL';
+  }
+  if (validation.format === 'mongodb-uri' && !/^mongodb(\+srv)?:\/\//.test(value)) {
+    return 'must be a mongodb:// or mongodb+srv:// connection string';
+  }
+  return null;
+}
+
+function describeSource(definition: EnvVarDefinition): string {
+  const { source } = definition;
+  switch (source.type) {
+    case 'mongodb':
+      return 'no MongoDB database was created';
+    case 'platform':
+      return isExposablePlatformEnvVar(source.env)
+        ? `${source.env} is not set on the platform`
+        : `${source.env} is not a platform variable templates may use`;
+    case 'project':
+      return `the request has no ${source.field}`;
+    case 'user':
+      return 'it must be supplied with the request';
+    default:
+      return 'no value could be resolved';
+  }
+}
+
+/**
+ * Resolve every variable of a template. Netlify URL variables are deferred when the URL is not known yet.
+ */
+export function resolveEnvironmentVariables(
+  template: Pick<ProjectTemplate, 'envVars'>,
+  context: EnvVarResolutionContext
+): EnvVarResolution {
+  const resolution: EnvVarResolution = { values: {}, missing: [], invalid: [], deferred: [] };
+
+  for (const definition of [...getEnvVarDefinitions(template), ...PLATFORM_ENV_VARS]) {
+    const value = resolveValue(definition, context);
+
+    if (value === undefined || value === '') {
+      if (definition.source.type === 'netlify-url' && !context.netlifyUrl) {
+        resolution.deferred.push(definition.name);
+      } else if (definition.required !== false) {
+        resolution.missing.push({ name: definition.name, reason: describeSource(definition) });
+      }
+      continue;
+    }
+
+    const problem = validateValue(value, definition.validation);
+    if (problem) {
+      resolution.invalid.push({ name: definition.name, reason: problem });
+      continue;
+    }
+
+    resolution.values[definition.name] = value;
+  }
+
+  return resolution;
+}
+
+/**
+ * Resolve a template's variables and throw an EnvVarResolutionError if any required one is missing or invalid
+ */
+export function resolveRequiredEnvironmentVariables(
+  template: Pick<ProjectTemplate, 'envVars'>,
+  context: EnvVarResolutionContext
+): EnvVarResolution {
+  const resolution = resolveEnvironmentVariables(template, context);
+  if (resolution.missing.length > 0 || resolution.invalid.length > 0) {
+    throw new EnvVarResolutionError(resolution);
+  }
+  return resolution;
+}
+
+export function formatEnvVarReport(resolution: EnvVarResolution): string {
+  const lines = [
+    ...resolution.missing.map(issue => `  - ${issue.name}: missing, ${issue.reason}`),
+    ...resolution.invalid.map(issue => `  - ${issue.name}: invalid, ${issue.reason}`)
+  ];
+  return `${lines.length} environment variables could not be resolved:\n${lines.join('\n')}`;
+}
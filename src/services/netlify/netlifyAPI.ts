@@ -18,7 +18,7 @@ export interface NetlifySite {
 
 export interface NetlifyDeployment {
   id: string;
-  state: 'building' | 'ready' | 'error' | 'processing';
+  state: 'new' | 'enqueued' | 'building' | 'uploading' | 'uploaded' | 'preparing' | 'prepared' | 'processing' | 'processed' | 'deploying' | 'ready' | 'error';
   branch: string;
   deploy_ssl_url?: string;
   ssl_url?: string;
@@ -73,6 +73,11 @@ export class NetlifyAPI {
       throw error;
     }
 
+    // DELETE endpoints answer 204 without a body
+    if (response.status === 204) {
+      return undefined;
+    }
+
     return response.json();
   }
 
@@ -122,6 +127,15 @@ export class NetlifyAPI {
     });
   }
 
+  /**
+   * Delete a site and its deploys
+   */
+  async deleteSite(params: { siteId: string }): Promise<void> {
+    await this.makeRequest(`/sites/${params.siteId}`, {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * List all sites
    */
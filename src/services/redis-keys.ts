@@ -36,6 +36,44 @@ export class RedisKeys {
     return `${this.BASE_PREFIX}:project:${projectId}:metadata`;
   }
 
+  public static projectUsage(projectId: string): string {
+    return `${this.BASE_PREFIX}:project:${projectId}:usage`;
+  }
+
+  public static projectBudget(projectId: string): string {
+    return `${this.BASE_PREFIX}:project:${projectId}:budget`;
+  }
+
+  public static projectTasks(projectId: string): string {
+    return `${this.BASE_PREFIX}:project:${projectId}:tasks`;
+  }
+
+  // Agent memory is split over lists and hashes so agents running side by side write without read-modify-write
+  public static readonly AGENT_MEMORY_PARTS = [
+    'summary', 'conversation', 'tasks', 'outcomes', 'patterns', 'pattern-uses', 'pattern-effectiveness', 'compaction-lock'
+  ] as const;
+
+  public static projectAgentMemory(projectId: string, part: typeof RedisKeys.AGENT_MEMORY_PARTS[number]): string {
+    return `${this.BASE_PREFIX}:project:${projectId}:memory:${part}`;
+  }
+
+  public static projectAgentMemoryKeys(projectId: string): string[] {
+    return this.AGENT_MEMORY_PARTS.map(part => this.projectAgentMemory(projectId, part));
+  }
+
+  // Patterns a session's prompts used, credited with the session's outcome
+  public static sessionAgentMemoryPatterns(projectId: string, sessionId: string): string {
+    return `${this.BASE_PREFIX}:project:${projectId}:memory:session:${sessionId}:patterns`;
+  }
+
+  public static usageProjects(): string {
+    return `${this.BASE_PREFIX}:usage:projects`;
+  }
+
+  public static teardownAudit(): string {
+    return `${this.BASE_PREFIX}:audit:teardown`;
+  }
+
   public static allProjects(): string {
     return `${this.BASE_PREFIX}:project:*`;
   }
@@ -53,10 +91,22 @@ export class RedisKeys {
     return `${this.BASE_PREFIX}:session:${sessionId}:logs:${timestamp}:${id}`;
   }
 
+  public static sessionEvents(sessionId: string): string {
+    return `${this.BASE_PREFIX}:session:${sessionId}:events`;
+  }
+
   public static sessionStatus(sessionId: string): string {
     return `${this.BASE_PREFIX}:session:${sessionId}:status`;
   }
 
+  public static sessionUsage(sessionId: string): string {
+    return `${this.BASE_PREFIX}:session:${sessionId}:usage`;
+  }
+
+  public static sessionTasks(sessionId: string): string {
+    return `${this.BASE_PREFIX}:session:${sessionId}:tasks`;
+  }
+
   public static allSessions(): string {
     return `${this.BASE_PREFIX}:session:*`;
   }
@@ -69,6 +119,27 @@ export class RedisKeys {
     return `${this.BASE_PREFIX}:session:*:type:${sessionType}`;
   }
 
+  // Queue Keys
+  public static queuePending(queueName: string): string {
+    return `${this.BASE_PREFIX}:queue:${queueName}:pending`;
+  }
+
+  public static queueProcessing(queueName: string): string {
+    return `${this.BASE_PREFIX}:queue:${queueName}:processing`;
+  }
+
+  public static queueDeadLetter(queueName: string): string {
+    return `${this.BASE_PREFIX}:queue:${queueName}:dead`;
+  }
+
+  public static queueCompleted(queueName: string): string {
+    return `${this.BASE_PREFIX}:queue:${queueName}:completed`;
+  }
+
+  public static queueJob(jobId: string): string {
+    return `${this.BASE_PREFIX}:queue:job:${jobId}`;
+  }
+
   // ID Generation
   public static generateProjectId(): string {
     const yearMonth = this.getYearMonth();
@@ -87,6 +158,18 @@ export class RedisKeys {
     return `${sessionType}_${yearMonth}_${random}`;
   }
 
+  public static generateTaskId(): string {
+    const yearMonth = this.getYearMonth();
+    const random = Math.random().toString(36).substr(2, 8);
+    return `task_${yearMonth}_${random}`;
+  }
+
+  public static generateTeardownId(): string {
+    const yearMonth = this.getYearMonth();
+    const random = Math.random().toString(36).substr(2, 8);
+    return `teardown_${yearMonth}_${random}`;
+  }
+
   // Helper to generate short year-month format (e.g., "2510" for 2025-10)
   private static getYearMonth(): string {
     const now = new Date();
@@ -53,6 +53,10 @@ export interface ProjectData {
   mongodbOrgId?: string;
   mongodbProjectId?: string;
   mongodbDatabase?: string;
+  mongodbClusterName?: string;
+  mongodbProjectCreated?: boolean; // The Atlas project was created for this project rather than shared
+  netlifySiteId?: string;
+  initSessionId?: string; // Session that created the project
   createdAt: number;
   updatedAt: number;
   status: 'active' | 'archived' | 'failed';
@@ -253,7 +257,8 @@ export class RedisStorage {
     const key = `${this.projectKeyPrefix}${projectId}`;
     try {
       const serializedProject = JSON.stringify(project);
-      await this.redis.setex(key, 30 * 24 * 3600, serializedProject); // Expire after 30 days
+      // Never expires: orphan cleanup treats dev- resources that no project record refers to as deletable
+      await this.redis.set(key, serializedProject);
     } catch (error) {
       console.error('Error storing project data:', error);
       throw error;
@@ -296,7 +301,7 @@ export class RedisStorage {
   // Get project by name (useful for status lookup) - Optimized with batch fetching
   async getProjectByName(projectName: string): Promise<ProjectData | null> {
     try {
-      const keys = await this.redis.keys(`${this.projectKeyPrefix}*`);
+      const keys = await this.getProjectKeys();
       
       if (keys.length === 0) {
         return null;
@@ -344,37 +349,45 @@ export class RedisStorage {
     await this.setProject(projectId, project);
   }
 
-  // Get all projects (for admin/monitoring) - OPTIMIZED with batch operations
+  // Remove a project record; its usage, budget and task keys are left to the caller
+  async deleteProject(projectId: string): Promise<boolean> {
+    const removed = await this.redis.del(`${this.projectKeyPrefix}${projectId}`);
+    return removed > 0;
+  }
+
+  // Project record keys only - usage, budget and task keys share the project prefix
+  private async getProjectKeys(): Promise<string[]> {
+    const keys = await this.redis.keys(`${this.projectKeyPrefix}*`);
+    return keys.filter(key => !key.slice(this.projectKeyPrefix.length).includes(':'));
+  }
+
+  // Get all projects (for admin/monitoring) - OPTIMIZED with batch operations.
+  // Throws when Redis cannot be read, so callers never mistake an outage for an empty project list.
   async getAllProjects(): Promise<ProjectData[]> {
-    try {
-      const keys = await this.redis.keys(`${this.projectKeyPrefix}*`);
-      
-      if (keys.length === 0) {
-        return [];
-      }
-      
-      // Use batch operation to get all projects at once - MUCH FASTER!
-      const projectDataArray = await this.redis.mget(...keys);
-      
-      const projects: ProjectData[] = [];
-      
-      for (let i = 0; i < projectDataArray.length; i++) {
-        const data = projectDataArray[i];
-        if (data) {
-          try {
-            const parsed = typeof data === 'string' ? JSON.parse(data) : data;
-            projects.push(parsed);
-          } catch (parseError) {
-            console.error('Error parsing project data:', parseError);
-          }
+    const keys = await this.getProjectKeys();
+
+    if (keys.length === 0) {
+      return [];
+    }
+
+    // Use batch operation to get all projects at once - MUCH FASTER!
+    const projectDataArray = await this.redis.mget(...keys);
+
+    const projects: ProjectData[] = [];
+
+    for (let i = 0; i < projectDataArray.length; i++) {
+      const data = projectDataArray[i];
+      if (data) {
+        try {
+          const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+          projects.push(parsed);
+        } catch (parseError) {
+          console.error('Error parsing project data:', parseError);
         }
       }
-      
-      return projects;
-    } catch (error) {
-      console.error('Error getting all projects:', error);
-      return [];
     }
+
+    return projects;
   }
 }
 
@@ -1,23 +1,161 @@
 // src/services/template-fetcher.ts - Web-friendly template fetcher using REST APIs
-import type { ProjectTemplate } from '../types/template';
+import { promises as fs } from 'fs';
+import path from 'path';
+import bundledRegistry from '../../registry/main/template-registry.json';
+import type { ProjectTemplate, TemplateRegistry, TemplateValidation } from '../types/template';
+import { getEnvVarName } from './env-var-registry';
+import {
+  ParsedTemplateRegistry,
+  TemplateIdentitySchema,
+  TemplateRegistrySchema,
+  compareVersions,
+  parseProjectTemplate
+} from '../utils/template-schema';
+
+// Later sources override earlier ones for templates with the same id
+export type TemplateRegistrySource =
+  | { name: string; type: 'bundled' }
+  | { name: string; type: 'url'; url: string; token?: string }
+  | { name: string; type: 'directory'; path: string };
+
+/**
+ * The bundled registry (or TEMPLATE_REGISTRY_URL in its place), then a team-private registry, then a local directory
+ */
+export function getDefaultRegistrySources(registryUrl?: string): TemplateRegistrySource[] {
+  const mainUrl = registryUrl || process.env.TEMPLATE_REGISTRY_URL;
+  const sources: TemplateRegistrySource[] = [
+    mainUrl ? { name: 'main', type: 'url', url: mainUrl } : { name: 'main', type: 'bundled' }
+  ];
+
+  if (process.env.TEMPLATE_REGISTRY_PRIVATE_URL) {
+    sources.push({
+      name: 'private',
+      type: 'url',
+      url: process.env.TEMPLATE_REGISTRY_PRIVATE_URL,
+      // Never GITHUB_TOKEN: the private registry can live on any host
+      token: process.env.TEMPLATE_REGISTRY_PRIVATE_TOKEN
+    });
+  }
+  if (process.env.TEMPLATE_REGISTRY_DIR) {
+    sources.push({ name: 'local', type: 'directory', path: process.env.TEMPLATE_REGISTRY_DIR });
+  }
+
+  return sources;
+}
 
 export class TemplateFetcher {
   private token?: string;
-  private registryUrl: string;
+  private sources: TemplateRegistrySource[];
 
-  constructor(githubToken?: string, registryUrl?: string) {
+  constructor(githubToken?: string, registryUrl?: string, sources?: TemplateRegistrySource[]) {
     this.token = githubToken;
-    this.registryUrl = registryUrl || 
-      process.env.TEMPLATE_REGISTRY_URL || 
-      'https://raw.githubusercontent.com/mxn2020/geenius/main/registry/main/template-registry.json';
+    this.sources = sources || getDefaultRegistrySources(registryUrl);
   }
 
-  async fetchTemplateRegistry(): Promise<any> {
-    const response = await fetch(this.registryUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch template registry: ${response.statusText}`);
+  /**
+   * Load every source, validate each template against the schema and merge them by template id
+   */
+  async fetchTemplateRegistry(): Promise<TemplateRegistry> {
+    const merged = new Map<string, ProjectTemplate>();
+    const categories = new Map<string, TemplateRegistry['categories'][number]>();
+    const providers = new Map<string, TemplateRegistry['providers'][number]>();
+    let meta: Partial<TemplateRegistry['meta']> = {};
+    const loadedSources: string[] = [];
+
+    for (const source of this.sources) {
+      let documents: unknown[];
+      try {
+        documents = await this.loadSource(source);
+      } catch (error) {
+        // Only the main registry is essential, team and local registries are additions
+        if (source === this.sources[0]) throw error;
+        console.warn(`⚠️ Skipping template registry "${source.name}": ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+      loadedSources.push(source.name);
+
+      for (const document of documents) {
+        const registry = this.toRegistryDocument(document);
+        if (!registry) {
+          console.warn(`⚠️ Template registry "${source.name}" contains a document that is neither a registry nor a template`);
+          continue;
+        }
+
+        if (source === this.sources[0]) meta = registry.meta;
+        registry.categories.forEach(category => {
+          const existing = categories.get(category.id);
+          categories.set(category.id, existing
+            ? { ...category, templates: Array.from(new Set([...existing.templates, ...category.templates])) }
+            : category);
+        });
+        registry.providers.forEach(provider => providers.set(provider.id, provider));
+
+        registry.templates.forEach((entry, index) => {
+          const { template, errors } = parseProjectTemplate(entry);
+          if (!template) {
+            const identity = TemplateIdentitySchema.safeParse(entry);
+            const id = identity.success ? identity.data.id : `#${index}`;
+            console.warn(`⚠️ Invalid template ${id} in registry "${source.name}": ${errors.join('; ')}`);
+            return;
+          }
+
+          const existing = merged.get(template.id);
+          if (existing && compareVersions(template.version, existing.version) < 0) {
+            console.warn(`⚠️ Template ${template.id}@${template.version} from "${source.name}" overrides newer ${existing.version} from "${existing.source}"`);
+          }
+          merged.set(template.id, { ...template, source: source.name });
+        });
+      }
+    }
+
+    const templates = Array.from(merged.values());
+    return {
+      templates,
+      categories: Array.from(categories.values()),
+      providers: Array.from(providers.values()),
+      meta: {
+        lastUpdated: meta.lastUpdated || new Date().toISOString(),
+        version: meta.version || '1.0.0',
+        totalTemplates: templates.length,
+        registry: loadedSources.join(', ')
+      }
+    };
+  }
+
+  private async loadSource(source: TemplateRegistrySource): Promise<unknown[]> {
+    switch (source.type) {
+      case 'bundled':
+        return [bundledRegistry];
+      case 'url': {
+        const headers: Record<string, string> = {};
+        if (source.token) headers['Authorization'] = `token ${source.token}`;
+
+        const response = await fetch(source.url, { headers });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch template registry: ${response.statusText}`);
+        }
+        return [await response.json()];
+      }
+      case 'directory': {
+        // Each JSON file holds either a whole registry or a single template
+        const files = (await fs.readdir(source.path)).filter(file => file.endsWith('.json')).sort();
+        return Promise.all(files.map(async file =>
+          JSON.parse(await fs.readFile(path.join(source.path, file), 'utf-8'))
+        ));
+      }
     }
-    return await response.json();
+  }
+
+  private toRegistryDocument(document: unknown): ParsedTemplateRegistry | null {
+    const registry = TemplateRegistrySchema.safeParse(document);
+    if (registry.success) return registry.data;
+
+    // A document holding a single template
+    if (TemplateIdentitySchema.safeParse(document).success) {
+      const wrapped = TemplateRegistrySchema.safeParse({ templates: [document] });
+      return wrapped.success ? wrapped.data : null;
+    }
+    return null;
   }
 
 
@@ -71,13 +209,17 @@ export class TemplateFetcher {
     }
   }
 
-  async validateTemplate(repoUrl: string): Promise<{
-    valid: boolean;
-    issues: string[];
-    score: number;
-  }> {
+  /**
+   * Check a template repository. Given a template definition, also check that its build, test and dev
+   * commands exist as package.json scripts and that its env vars appear in .env.example.
+   */
+  async validateTemplate(templateOrRepoUrl: ProjectTemplate | string): Promise<TemplateValidation> {
+    const template = typeof templateOrRepoUrl === 'string' ? null : templateOrRepoUrl;
+    const repoUrl = template ? template.repository : templateOrRepoUrl as string;
     const { owner, repo } = this.parseRepoUrl(repoUrl);
+    const ref = template?.branch ? `?ref=${encodeURIComponent(template.branch)}` : '';
     const issues: string[] = [];
+    const recommendations: string[] = [];
     let score = 100;
 
     try {
@@ -99,6 +241,15 @@ export class TemplateFetcher {
         return { valid: false, issues, score: 0 };
       }
 
+      const readFile = async (file: string): Promise<string | null> => {
+        const fileResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/${file}${ref}`, {
+          headers
+        });
+        if (!fileResponse.ok) return null;
+        const fileData = await fileResponse.json();
+        return fileData.content ? atob(fileData.content.replace(/\s/g, '')) : '';
+      };
+
       // Check required files
       const requiredFiles = [
         'package.json',
@@ -106,60 +257,78 @@ export class TemplateFetcher {
         '.env.example',
         'tsconfig.json'
       ];
+      const contents: Record<string, string | null> = {};
 
       for (const file of requiredFiles) {
         try {
-          const fileResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/${file}`, {
-            headers
-          });
-
-          if (!fileResponse.ok) {
-            issues.push(`Missing required file: ${file}`);
-            score -= 20;
-          }
+          contents[file] = await readFile(file);
         } catch (error) {
+          contents[file] = null;
+        }
+        if (contents[file] === null) {
           issues.push(`Missing required file: ${file}`);
           score -= 20;
         }
       }
 
       // Check package.json structure
-      try {
-        const packageResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/contents/package.json`, {
-          headers
-        });
-
-        if (packageResponse.ok) {
-          const packageData = await packageResponse.json();
-          
-          if (packageData.content) {
-            const packageJson = JSON.parse(
-              atob(packageData.content.replace(/\s/g, ''))
-            );
+      if (contents['package.json'] !== null) {
+        try {
+          const packageJson = JSON.parse(contents['package.json']);
+          const scripts: Record<string, string> = packageJson.scripts || {};
 
-            if (!packageJson.scripts?.dev) {
+          if (template) {
+            // The declared commands must run scripts the repository actually has
+            const commands = { buildCommand: template.buildCommand, testCommand: template.testCommand, devCommand: template.devCommand };
+            for (const [field, command] of Object.entries(commands)) {
+              const script = getScriptName(command);
+              if (script && !scripts[script]) {
+                issues.push(`${field} "${command}" runs missing script "${script}" in package.json`);
+                score -= field === 'buildCommand' ? 30 : 10;
+              }
+            }
+          } else {
+            if (!scripts.dev) {
               issues.push('Missing dev script in package.json');
               score -= 10;
             }
-            if (!packageJson.scripts?.build) {
+            if (!scripts.build) {
               issues.push('Missing build script in package.json');
               score -= 10;
             }
-            if (!packageJson.scripts?.test) {
+            if (!scripts.test) {
               issues.push('Missing test script in package.json');
               score -= 10;
             }
           }
+        } catch (error) {
+          issues.push('Cannot parse package.json');
+          score -= 30;
+        }
+      }
+
+      // Declared env vars should be documented where the template reads them from
+      const envExample = contents['.env.example'];
+      if (template && envExample !== null) {
+        const documented = new Set(Array.from(envExample.matchAll(/^\s*#?\s*([A-Z_][A-Z0-9_]*)\s*=/gm), match => match[1]));
+        const declared = template.envVars.map(getEnvVarName);
+
+        for (const name of declared.filter(name => !documented.has(name))) {
+          issues.push(`Env var ${name} is declared but not listed in .env.example`);
+          score -= 5;
+        }
+        const undeclared = Array.from(documented).filter(name => !declared.includes(name));
+        if (undeclared.length > 0) {
+          recommendations.push(`Declare or remove env vars listed in .env.example: ${undeclared.join(', ')}`);
         }
-      } catch (error) {
-        issues.push('Cannot parse package.json');
-        score -= 30;
       }
 
+      score = Math.max(score, 0);
       return {
         valid: score >= 60,
         issues,
-        score
+        score,
+        recommendations
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown validation error';
@@ -251,4 +420,21 @@ export class TemplateFetcher {
     }
     return { owner: match[1], repo: match[2].replace(/\.git$/, '') };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Script a package manager command runs, e.g. "pnpm build" or "npm run test:unit"; null for other commands
+ */
+export function getScriptName(command: string): string | null {
+  const match = command.trim().match(/^(npm|pnpm|yarn|bun)\s+(?:run\s+)?([\w:.-]+)/);
+  if (!match) return null;
+
+  const [, packageManager, name] = match;
+  const builtins = ['install', 'i', 'ci', 'add', 'exec', 'dlx', 'x', 'create', 'publish'];
+  if (builtins.includes(name)) return null;
+  // npm only runs scripts through "run" apart from its lifecycle shortcuts
+  if (packageManager === 'npm' && !/\s+run\s+/.test(command) && !['test', 'start', 'stop', 'restart'].includes(name)) {
+    return null;
+  }
+  return name;
+}
@@ -0,0 +1,81 @@
+// src/services/template-file-manifest.ts - Which template files the AI customizes, and what each one is for
+import type { ProjectTemplate, TemplateFileManifestEntry } from '../types/template';
+import type { EnhancedGitHubService } from './enhanced-github-service';
+
+interface FileRule {
+  pattern: RegExp;
+  purpose: string;
+}
+
+// Ordered by how much a file shapes the generated app; the first matching rule gives a file its purpose
+const FILE_RULES: FileRule[] = [
+  // Entry components and routing
+  { pattern: /^src\/App\.(tsx|jsx)$/, purpose: 'Main application component and routing' },
+  { pattern: /^(src\/)?[Aa]pp\.vue$/, purpose: 'Root application component' },
+  { pattern: /^src\/app\/app\.component\.(ts|html)$/, purpose: 'Root application component' },
+  { pattern: /^src\/app\/app\.routes\.ts$|^src\/app\/app-routing\.module\.ts$/, purpose: 'Application routes' },
+  { pattern: /^src\/router\/index\.(ts|js)$/, purpose: 'Application routes' },
+  { pattern: /^(src\/)?app\/layout\.(tsx|jsx)$/, purpose: 'Root layout shared by every page' },
+  { pattern: /^(src\/)?layouts\/default\.vue$/, purpose: 'Default layout shared by every page' },
+
+  // Public landing page
+  { pattern: /^(src\/)?app\/page\.(tsx|jsx)$/, purpose: 'Landing page with business-specific content' },
+  { pattern: /^(src\/)?pages\/(index|Landing|Home)\.(tsx|jsx|vue)$/, purpose: 'Landing page with business-specific content' },
+  { pattern: /^src\/views\/(Home|Landing)View\.vue$/, purpose: 'Landing page with business-specific content' },
+  { pattern: /^src\/app\/(pages\/)?(home|landing)\/(home|landing)\.component\.(ts|html)$/, purpose: 'Landing page with business-specific content' },
+
+  // Authenticated area
+  { pattern: /(^|\/)[Dd]ashboard(\/(page|index)|\.component|View)?\.(tsx|jsx|vue|ts|html)$/, purpose: 'User dashboard and authenticated experience' },
+
+  // Data models
+  { pattern: /(^|\/)prisma\/schema\.prisma$/, purpose: 'Database schema and data models' },
+  { pattern: /(^|\/)(db|drizzle)\/schema\.(ts|js)$/, purpose: 'Database schema and data models' },
+  { pattern: /^src\/(types|models)\/index\.ts$/, purpose: 'Shared data types' },
+
+  // Styling
+  { pattern: /^tailwind\.config\.(js|cjs|mjs|ts)$/, purpose: 'Styling configuration and theme' },
+  { pattern: /(^|\/)(index|globals|main|styles)\.(css|scss)$/, purpose: 'Global styles' }
+];
+
+const EXCLUDED_PATH = /(^|\/)(node_modules|dist|build|\.next|\.nuxt|coverage|__tests__|e2e)\/|\.(test|spec|stories|d)\.[a-z]+$/;
+
+export const DEFAULT_MANIFEST_SIZE = 8;
+
+/**
+ * The template's declared manifest, or one discovered by matching the repository tree against known file roles
+ */
+export async function getTemplateFileManifest(
+  template: Pick<ProjectTemplate, 'repository' | 'branch' | 'files'>,
+  githubService: EnhancedGitHubService,
+  maxFiles: number = DEFAULT_MANIFEST_SIZE
+): Promise<TemplateFileManifestEntry[]> {
+  if (template.files?.length) {
+    return template.files;
+  }
+
+  const paths = await githubService.listFilesRecursive(template.repository, '', template.branch || 'main', 5000);
+  return discoverFileManifest(paths, maxFiles);
+}
+
+export function discoverFileManifest(paths: string[], maxFiles: number = DEFAULT_MANIFEST_SIZE): TemplateFileManifestEntry[] {
+  const matches: Array<TemplateFileManifestEntry & { rank: number }> = [];
+
+  for (const path of paths) {
+    if (EXCLUDED_PATH.test(path)) continue;
+    const rank = FILE_RULES.findIndex(rule => rule.pattern.test(path));
+    if (rank >= 0) {
+      matches.push({ path, purpose: FILE_RULES[rank].purpose, rank });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.rank - b.rank || a.path.split('/').length - b.path.split('/').length)
+    .slice(0, maxFiles)
+    .map(({ path, purpose }) => ({ path, purpose }));
+}
+
+export function getFilePurpose(manifest: TemplateFileManifestEntry[], filePath: string): string {
+  return manifest.find(entry => entry.path === filePath)?.purpose
+    || FILE_RULES.find(rule => rule.pattern.test(filePath))?.purpose
+    || 'Template file for customization';
+}
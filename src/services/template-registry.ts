@@ -1,6 +1,6 @@
 // src/services/template-registry.ts - Web-friendly template registry
 import { TemplateFetcher } from './template-fetcher';
-import type { ProjectTemplate } from '../types/template';
+import type { ProjectTemplate, TemplateValidation } from '../types/template';
 
 export class TemplateRegistry {
   private fetcher: TemplateFetcher;
@@ -50,8 +50,8 @@ export class TemplateRegistry {
     return this.fetcher.searchTemplates(query, filters);
   }
 
-  async validateTemplate(repoUrl: string): Promise<any> {
-    return this.fetcher.validateTemplate(repoUrl);
+  async validateTemplate(templateOrRepoUrl: ProjectTemplate | string): Promise<TemplateValidation> {
+    return this.fetcher.validateTemplate(templateOrRepoUrl);
   }
 
   async getTemplateInfo(repoUrl: string): Promise<any> {
@@ -14,6 +14,7 @@ export interface ProjectConfig {
   crossValidation?: boolean;
   netlifyProject?: string;
   systemPrompt?: string;
+  projectId?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -2,19 +2,20 @@
 
 export interface ProjectTemplate {
   id: string;
+  version: string; // Semver of the template definition
   name: string;
   description: string;
   repository: string;
   branch: string;
   stack: string[];
-  aiProvider: 'anthropic' | 'openai' | 'google' | 'grok' | 'claude' | 'gemini';
-  aiConfig: {
+  aiProvider?: 'anthropic' | 'openai' | 'google' | 'grok' | 'claude' | 'gemini';
+  aiConfig?: {
     model: string;
     tools: string[];
     systemPrompt: string;
   };
   features: string[];
-  envVars: string[];
+  envVars: TemplateEnvVar[];
   testCommand: string;
   buildCommand: string;
   devCommand: string;
@@ -25,8 +26,42 @@ export interface ProjectTemplate {
   lastUpdated: string;
   maintainer: string;
   license: string;
+  files?: TemplateFileManifestEntry[]; // Files the AI customizes; discovered from the repository when omitted
+  source?: string; // Registry source the template was loaded from
+}
+
+export interface TemplateFileManifestEntry {
+  path: string;
+  purpose: string; // What the file is for, shown to the AI next to its content
+}
+
+// Where the value of a template environment variable comes from
+export type EnvVarSource =
+  | { type: 'generated-secret'; bytes?: number }
+  | { type: 'mongodb'; field: 'connectionString' | 'databaseName' | 'clusterName' | 'username' | 'password' }
+  | { type: 'netlify-url' }
+  | { type: 'project'; field: 'name' | 'repositoryUrl' | 'baseBranch' }
+  | { type: 'user' } // Supplied with the project request
+  | { type: 'platform'; env: string } // Copied from the platform's own environment
+  | { type: 'static'; value: string };
+
+export interface EnvVarValidation {
+  pattern?: string; // Regular expression the value must match
+  minLength?: number;
+  format?: 'url' | 'mongodb-uri';
 }
 
+export interface EnvVarDefinition {
+  name: string;
+  source: EnvVarSource;
+  required?: boolean; // Defaults to true
+  validation?: EnvVarValidation;
+  description?: string;
+}
+
+// Templates list either a known variable name or a full definition
+export type TemplateEnvVar = string | EnvVarDefinition;
+
 export interface AIEnabledTemplate extends ProjectTemplate {
   aiProvider: 'claude' | 'gemini' | 'openai' | 'grok';
   aiConfig: {
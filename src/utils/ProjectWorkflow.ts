@@ -3,6 +3,7 @@ import { NetlifyService } from '../services/netlify';
 import { MongoDBService } from '../services/mongodb';
 import { GitHubService } from '../services/github';
 import { TemplateRegistry } from '../services/template-registry';
+import { getEnvVarName } from '../services/env-var-registry';
 import { randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
 import { join } from 'path';
@@ -78,6 +79,8 @@ export class ProjectWorkflow {
         throw new Error(`Template ${options.templateId} not found`);
       }
 
+      const envVarNames = template.envVars.map(getEnvVarName);
+
       this.addLog(`📋 Using template: ${template.name}`);
 
       // Initialize services
@@ -107,7 +110,7 @@ export class ProjectWorkflow {
 
       // Setup MongoDB database if template requires it
       let mongodbProject = null;
-      if (template.envVars.includes('MONGODB_URI') || template.envVars.includes('DATABASE_URL')) {
+      if (envVarNames.includes('MONGODB_URI') || envVarNames.includes('DATABASE_URL')) {
         if (!process.env.MONGODB_ATLAS_PUBLIC_KEY || !process.env.MONGODB_ATLAS_PRIVATE_KEY) {
           this.addLog('⚠️ MongoDB Atlas API keys not found - skipping database setup');
         } else {
@@ -218,14 +221,14 @@ export class ProjectWorkflow {
             netlifyProject = await netlifyService.createProject(addDevPrefix(options.projectName), repoUrl);
 
             // Prepare environment variables
-            const templateEnvVars = template.envVars.reduce((acc, envVar) => ({ ...acc, [envVar]: '' }), {});
+            const templateEnvVars = envVarNames.reduce((acc, envVar) => ({ ...acc, [envVar]: '' }), {});
 
             // Add MongoDB connection details if database was created
             if (mongodbProject) {
-              if (template.envVars.includes('MONGODB_URI')) {
+              if (envVarNames.includes('MONGODB_URI')) {
                 templateEnvVars['MONGODB_URI'] = mongodbProject.connectionString;
               }
-              if (template.envVars.includes('DATABASE_URL')) {
+              if (envVarNames.includes('DATABASE_URL')) {
                 templateEnvVars['DATABASE_URL'] = mongodbProject.connectionString;
               }
               templateEnvVars['MONGODB_DATABASE_NAME'] = mongodbProject.databaseName;
@@ -235,46 +238,46 @@ export class ProjectWorkflow {
             }
 
             // Generate secure secrets
-            if (template.envVars.includes('BETTER_AUTH_SECRET')) {
+            if (envVarNames.includes('BETTER_AUTH_SECRET')) {
               templateEnvVars['BETTER_AUTH_SECRET'] = this.generateSecureSecret();
             }
 
-            if (template.envVars.includes('BETTER_AUTH_URL')) {
+            if (envVarNames.includes('BETTER_AUTH_URL')) {
               templateEnvVars['BETTER_AUTH_URL'] = netlifyProject ? netlifyProject.ssl_url : 'http://localhost:5176';
             }
 
-            if (template.envVars.includes('JWT_SECRET')) {
+            if (envVarNames.includes('JWT_SECRET')) {
               templateEnvVars['JWT_SECRET'] = this.generateSecureSecret();
             }
 
             // Set default app configuration
-            if (template.envVars.includes('VITE_APP_NAME')) {
+            if (envVarNames.includes('VITE_APP_NAME')) {
               templateEnvVars['VITE_APP_NAME'] = options.projectName;
             }
 
-            if (template.envVars.includes('VITE_APP_VERSION')) {
+            if (envVarNames.includes('VITE_APP_VERSION')) {
               templateEnvVars['VITE_APP_VERSION'] = '1.0.0';
             }
 
-            if (template.envVars.includes('VITE_APP_DESCRIPTION')) {
+            if (envVarNames.includes('VITE_APP_DESCRIPTION')) {
               templateEnvVars['VITE_APP_DESCRIPTION'] = `${template.description} - ${options.projectName}`;
             }
 
             // Set API URLs based on Netlify project
             if (netlifyProject) {
-              if (template.envVars.includes('VITE_APP_URL')) {
+              if (envVarNames.includes('VITE_APP_URL')) {
                 templateEnvVars['VITE_APP_URL'] = netlifyProject.ssl_url;
               }
-              if (template.envVars.includes('VITE_API_URL')) {
+              if (envVarNames.includes('VITE_API_URL')) {
                 templateEnvVars['VITE_API_URL'] = `${netlifyProject.ssl_url}/api`;
               }
-              if (template.envVars.includes('VITE_API_BASE_URL')) {
+              if (envVarNames.includes('VITE_API_BASE_URL')) {
                 templateEnvVars['VITE_API_BASE_URL'] = netlifyProject.ssl_url;
               }
-              if (template.envVars.includes('NETLIFY_FUNCTIONS_URL')) {
+              if (envVarNames.includes('NETLIFY_FUNCTIONS_URL')) {
                 templateEnvVars['NETLIFY_FUNCTIONS_URL'] = '/api';
               }
-              if (template.envVars.includes('CORS_ORIGIN')) {
+              if (envVarNames.includes('CORS_ORIGIN')) {
                 templateEnvVars['CORS_ORIGIN'] = netlifyProject.ssl_url;
               }
             }
@@ -16,6 +16,7 @@ const ProjectConfigSchema = z.object({
   crossValidation: z.boolean().optional(),
   netlifyProject: z.string().optional(),
   systemPrompt: z.string().optional(),
+  projectId: z.string().optional(),
   createdAt: z.string(),
   updatedAt: z.string()
 });
@@ -39,7 +40,7 @@ export class ConfigManager {
       const validatedConfig = ProjectConfigSchema.parse(config);
       return validatedConfig;
     } catch (error) {
-      if (error.code === 'ENOENT') {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         return null; // Config file doesn't exist
       }
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -149,6 +150,38 @@ export class ConfigManager {
     return this.getEnvVar(envVar);
   }
 
+  async loadAgentMemory(projectName: string): Promise<string | null> {
+    try {
+      const memoryPath = join(this.globalConfigDir, 'memory', `${projectName}.json`);
+      return await fs.readFile(memoryPath, 'utf-8');
+    } catch (error) {
+      return null; // No memory stored for this project yet
+    }
+  }
+
+  async saveAgentMemory(projectName: string, memoryData: string): Promise<void> {
+    try {
+      const memoryDir = join(this.globalConfigDir, 'memory');
+      await fs.mkdir(memoryDir, { recursive: true });
+      await fs.writeFile(join(memoryDir, `${projectName}.json`), memoryData);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to save agent memory: ${errorMessage}`);
+      throw new Error(`Failed to save agent memory: ${errorMessage}`);
+    }
+  }
+
+  async clearAgentMemory(projectName: string): Promise<void> {
+    try {
+      await fs.unlink(join(this.globalConfigDir, 'memory', `${projectName}.json`));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to clear agent memory: ${errorMessage}`);
+      }
+    }
+  }
+
   async configExists(): Promise<boolean> {
     try {
       const configPath = join(process.cwd(), this.configFile);
@@ -164,7 +197,7 @@ export class ConfigManager {
       const configPath = join(process.cwd(), this.configFile);
       await fs.unlink(configPath);
     } catch (error) {
-      if (error.code !== 'ENOENT') {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error(`Failed to delete config: ${errorMessage}`);
         throw new Error(`Failed to delete config: ${errorMessage}`);
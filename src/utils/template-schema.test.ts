@@ -0,0 +1,89 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { compareVersions, parseProjectTemplate, TemplateRegistrySchema } from './template-schema';
+
+const template = {
+  id: 'vite-react-mongo',
+  name: 'Vite React MongoDB',
+  description: 'React SPA with a MongoDB backend',
+  repository: 'https://github.com/geenius/vite-react-mongo',
+  stack: ['react', 'vite', 'mongodb'],
+  testCommand: 'npm test',
+  buildCommand: 'npm run build',
+  devCommand: 'npm run dev',
+  deployCommand: 'netlify deploy',
+  documentation: 'https://github.com/geenius/vite-react-mongo#readme',
+  difficulty: 'intermediate',
+  lastUpdated: '2025-01-01',
+  maintainer: 'geenius',
+  license: 'MIT'
+};
+
+describe('parseProjectTemplate', () => {
+  it('fills in the defaults of unversioned templates', () => {
+    const { template: parsed, errors } = parseProjectTemplate(template);
+
+    expect(errors).toEqual([]);
+    expect(parsed).toMatchObject({ version: '1.0.0', branch: 'main', features: [], envVars: [], tags: [] });
+  });
+
+  it('accepts env vars by name or with a source', () => {
+    const { errors } = parseProjectTemplate({
+      ...template,
+      envVars: [
+        'VITE_API_URL',
+        { name: 'MONGODB_URI', source: { type: 'mongodb', field: 'connectionString' }, validation: { format: 'mongodb-uri' } },
+        { name: 'JWT_SECRET', source: { type: 'generated-secret', bytes: 32 } }
+      ]
+    });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const { template: parsed, errors } = parseProjectTemplate({
+      ...template,
+      id: 'Vite React',
+      version: 'latest',
+      repository: 'https://gitlab.com/geenius/site',
+      envVars: [{ name: 'mongodb_uri', source: { type: 'mongodb', field: 'host' } }],
+      files: [{ path: '../secrets.env', purpose: 'Config' }]
+    });
+
+    expect(parsed).toBeUndefined();
+    expect(errors).toEqual(expect.arrayContaining([
+      'id: Template IDs must be lowercase kebab-case',
+      'version: Version must be a semver string like 1.2.0',
+      'repository: Template repositories must be on GitHub',
+      'files.0.path: File paths must be relative to the repository root'
+    ]));
+    expect(errors.some(error => error.startsWith('envVars.0'))).toBe(true);
+  });
+
+  it('rejects an empty file manifest', () => {
+    expect(parseProjectTemplate({ ...template, files: [] }).errors).toHaveLength(1);
+  });
+});
+
+describe('TemplateRegistrySchema', () => {
+  it('keeps templates unvalidated and defaults the registry metadata', () => {
+    const registry = TemplateRegistrySchema.parse({ templates: [template, { id: 'broken' }] });
+
+    expect(registry).toEqual({ templates: [template, { id: 'broken' }], categories: [], providers: [], meta: {} });
+  });
+
+  it('rejects a registry with an invalid version', () => {
+    expect(TemplateRegistrySchema.safeParse({ templates: [], meta: { version: '2' } }).success).toBe(false);
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders versions numerically with pre-releases before their release', () => {
+    expect(['1.10.0', '1.2.0', '1.2.0-beta.1', '1.2.0-alpha', '0.9.9'].sort(compareVersions))
+      .toEqual(['0.9.9', '1.2.0-alpha', '1.2.0-beta.1', '1.2.0', '1.10.0']);
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.2.0+build.5', '1.2.0')).toBe(0);
+  });
+});
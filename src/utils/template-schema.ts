@@ -0,0 +1,122 @@
+// src/utils/template-schema.ts
+import { z } from 'zod';
+import type { ProjectTemplate } from '../types/template';
+
+export const SemverSchema = z.string().regex(
+  /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/,
+  'Version must be a semver string like 1.2.0'
+);
+
+const EnvVarSourceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('generated-secret'), bytes: z.number().int().min(16).optional() }),
+  z.object({ type: z.literal('mongodb'), field: z.enum(['connectionString', 'databaseName', 'clusterName', 'username', 'password']) }),
+  z.object({ type: z.literal('netlify-url') }),
+  z.object({ type: z.literal('project'), field: z.enum(['name', 'repositoryUrl', 'baseBranch']) }),
+  z.object({ type: z.literal('user') }),
+  z.object({ type: z.literal('platform'), env: z.string().min(1) }),
+  z.object({ type: z.literal('static'), value: z.string() })
+]);
+
+const EnvVarNameSchema = z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Environment variable names must be UPPER_SNAKE_CASE');
+
+export const TemplateEnvVarSchema = z.union([
+  EnvVarNameSchema,
+  z.object({
+    name: EnvVarNameSchema,
+    source: EnvVarSourceSchema,
+    required: z.boolean().optional(),
+    validation: z.object({
+      pattern: z.string().optional(),
+      minLength: z.number().int().min(1).optional(),
+      format: z.enum(['url', 'mongodb-uri']).optional()
+    }).optional(),
+    description: z.string().optional()
+  })
+]);
+
+export const ProjectTemplateSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9-]+$/, 'Template IDs must be lowercase kebab-case'),
+  // Registries published before templates were versioned have no version
+  version: SemverSchema.default('1.0.0'),
+  name: z.string().min(1),
+  description: z.string(),
+  repository: z.string().url().refine(url => url.includes('github.com'), 'Template repositories must be on GitHub'),
+  branch: z.string().min(1).default('main'),
+  stack: z.array(z.string()),
+  aiProvider: z.enum(['anthropic', 'openai', 'google', 'grok', 'claude', 'gemini']).optional(),
+  aiConfig: z.object({
+    model: z.string(),
+    tools: z.array(z.string()),
+    systemPrompt: z.string()
+  }).optional(),
+  features: z.array(z.string()).default([]),
+  envVars: z.array(TemplateEnvVarSchema).default([]),
+  testCommand: z.string(),
+  buildCommand: z.string().min(1),
+  devCommand: z.string(),
+  deployCommand: z.string(),
+  documentation: z.string(),
+  tags: z.array(z.string()).default([]),
+  difficulty: z.enum(['beginner', 'intermediate', 'advanced']),
+  lastUpdated: z.string(),
+  maintainer: z.string(),
+  license: z.string(),
+  files: z.array(z.object({
+    path: z.string().min(1).refine(path => !path.startsWith('/') && !path.split('/').includes('..'), 'File paths must be relative to the repository root'),
+    purpose: z.string().min(1)
+  })).min(1).optional()
+});
+
+// Enough of a template to name it in warnings and to tell a single-template document from a registry
+export const TemplateIdentitySchema = z.object({ id: z.string() });
+
+// Templates are validated one by one so a single broken entry does not hide the rest of its registry
+export const TemplateRegistrySchema = z.object({
+  templates: z.array(z.unknown()),
+  categories: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    templates: z.array(z.string())
+  })).default([]),
+  providers: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    models: z.array(z.string())
+  })).default([]),
+  meta: z.object({
+    lastUpdated: z.string().optional(),
+    version: SemverSchema.optional(),
+    totalTemplates: z.number().optional(),
+    registry: z.string().optional()
+  }).default({})
+});
+
+export type ParsedTemplateRegistry = z.infer<typeof TemplateRegistrySchema>;
+
+export function parseProjectTemplate(input: unknown): { template?: ProjectTemplate; errors: string[] } {
+  const result = ProjectTemplateSchema.safeParse(input);
+  if (!result.success) {
+    return { errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`) };
+  }
+  return { template: result.data as ProjectTemplate, errors: [] };
+}
+
+/**
+ * Compare two semver strings; pre-release versions sort before their release
+ */
+export function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = a.split('+')[0].split(/-(.*)/);
+  const [coreB, preB] = b.split('+')[0].split(/-(.*)/);
+  const partsA = coreA.split('.').map(Number);
+  const partsB = coreB.split('.').map(Number);
+
+  for (let i = 0; i < 3; i++) {
+    if (partsA[i] !== partsB[i]) return partsA[i] - partsB[i];
+  }
+  if (preA === preB) return 0;
+  if (!preA) return 1;
+  if (!preB) return -1;
+  return preA < preB ? -1 : 1;
+}